@@ -1,25 +1,37 @@
 import React from 'react';
 import { StatusBar } from 'expo-status-bar';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
+import { Provider } from 'react-redux';
+import { store } from './src/store';
 import AppNavigator from './src/navigation/AppNavigator';
 import { UserProvider } from './src/contexts/UserContext';
 import { UserTierProvider } from './src/contexts/UserTierContext';
 import { SettingsProvider } from './src/contexts/SettingsContext';
 import { ProfileProvider } from './src/contexts/ProfileContext';
+import { DistanceAnchorProvider } from './src/contexts/DistanceAnchorContext';
+import { ConnectivityProvider } from './src/contexts/ConnectivityContext';
+import OfflineBanner from './src/components/common/OfflineBanner';
 
 export default function App() {
   return (
-    <SafeAreaProvider>
-      <UserProvider>
-        <ProfileProvider>
-          <SettingsProvider>
-            <UserTierProvider>
-              <StatusBar style="auto" />
-              <AppNavigator />
-            </UserTierProvider>
-          </SettingsProvider>
-        </ProfileProvider>
-      </UserProvider>
-    </SafeAreaProvider>
+    <Provider store={store}>
+      <SafeAreaProvider>
+        <ConnectivityProvider>
+          <UserProvider>
+            <ProfileProvider>
+              <SettingsProvider>
+                <DistanceAnchorProvider>
+                  <UserTierProvider>
+                    <StatusBar style="auto" />
+                    <AppNavigator />
+                    <OfflineBanner />
+                  </UserTierProvider>
+                </DistanceAnchorProvider>
+              </SettingsProvider>
+            </ProfileProvider>
+          </UserProvider>
+        </ConnectivityProvider>
+      </SafeAreaProvider>
+    </Provider>
   );
 }
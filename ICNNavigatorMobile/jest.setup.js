@@ -0,0 +1,24 @@
+// Native modules are not available under Node; services only need these parts of them
+jest.mock('react-native', () => ({
+  Platform: { OS: 'ios', select: options => options.ios ?? options.default },
+  AppState: { currentState: 'active', addEventListener: () => ({ remove: () => {} }) },
+}));
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo-file-system/legacy', () => ({
+  documentDirectory: 'file:///documents/',
+  getInfoAsync: jest.fn(async () => ({ exists: false })),
+  readAsStringAsync: jest.fn(),
+  writeAsStringAsync: jest.fn(),
+  makeDirectoryAsync: jest.fn(),
+  deleteAsync: jest.fn(),
+  moveAsync: jest.fn(),
+}));
+
+jest.mock('expo-sharing', () => ({
+  isAvailableAsync: jest.fn(async () => true),
+  shareAsync: jest.fn(),
+}));
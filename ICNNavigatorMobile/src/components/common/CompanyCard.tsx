@@ -1,7 +1,8 @@
 import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { Company } from '../../types';
+import { Company, isApproximateLocation } from '../../types';
+import { formatDistanceKm } from '../../services/companyQueryEngine';
 
 // Local color definitions
 const Colors = {
@@ -24,13 +25,21 @@ interface CompanyCardProps {
   onPress: () => void;
   onBookmark?: () => void;
   isBookmarked?: boolean;
+  distanceKm?: number; // Distance from the current anchor, when one is set
+  onLongPress?: () => void;
+  isSelecting?: boolean; // Multi-select mode: a checkbox replaces the bookmark
+  isSelected?: boolean;
 }
 
 export default function CompanyCard({ 
   company, 
   onPress, 
   onBookmark,
-  isBookmarked = false 
+  isBookmarked = false,
+  distanceKm,
+  onLongPress,
+  isSelecting = false,
+  isSelected = false
 }: CompanyCardProps) {
   
   // Format the verification date properly
@@ -77,7 +86,7 @@ export default function CompanyCard({
   // Get location display (city and state from billing address if available)
   const getLocationDisplay = () => {
     if (company.billingAddress) {
-      return `${company.billingAddress.city}, ${company.billingAddress.state}`;
+      return [company.billingAddress.city, company.billingAddress.state].filter(Boolean).join(', ');
     }
     // Fallback to parsing address string
     const parts = company.address.split(',');
@@ -88,8 +97,22 @@ export default function CompanyCard({
   };
 
   return (
-    <TouchableOpacity style={styles.container} onPress={onPress} activeOpacity={0.9}>
-      {onBookmark && (
+    <TouchableOpacity
+      style={[styles.container, isSelected && styles.containerSelected]}
+      onPress={onPress}
+      onLongPress={onLongPress}
+      activeOpacity={0.9}
+    >
+      {isSelecting && (
+        <View style={styles.bookmarkButton}>
+          <Ionicons 
+            name={isSelected ? 'checkbox' : 'square-outline'} 
+            size={20} 
+            color={isSelected ? Colors.primary : Colors.black50}
+          />
+        </View>
+      )}
+      {onBookmark && !isSelecting && (
         <TouchableOpacity onPress={onBookmark} style={styles.bookmarkButton}>
           <Ionicons 
             name={isBookmarked ? 'bookmark' : 'bookmark-outline'} 
@@ -108,7 +131,17 @@ export default function CompanyCard({
           </View>
           <View style={styles.info}>
             <Text style={styles.name} numberOfLines={1}>{displayName}</Text>
-            <Text style={styles.address} numberOfLines={1}>{getLocationDisplay()}</Text>
+            <View style={styles.locationRow}>
+              <Text style={styles.address} numberOfLines={1}>{getLocationDisplay()}</Text>
+              {distanceKm !== undefined && (
+                <View style={styles.distance}>
+                  <Ionicons name="navigate-outline" size={12} color={Colors.black50} />
+                  <Text style={styles.distanceText}>
+                    {formatDistanceKm(distanceKm, isApproximateLocation(company.geocodePrecision))}
+                  </Text>
+                </View>
+              )}
+            </View>
           </View>
         </View>
         
@@ -189,6 +222,10 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     position: 'relative',
   },
+  containerSelected: {
+    borderWidth: 2,
+    borderColor: Colors.primary,
+  },
   content: {
     flex: 1,
   },
@@ -220,11 +257,26 @@ const styles = StyleSheet.create({
     color: Colors.text,
     marginBottom: 3,
   },
+  locationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   address: {
+    flexShrink: 1,
     fontSize: 14,
     color: Colors.black50,
     lineHeight: 18,
   },
+  distance: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 8,
+    gap: 2,
+  },
+  distanceText: {
+    fontSize: 12,
+    color: Colors.black50,
+  },
   badges: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../../constants/colors';
+import { useDistanceAnchor, DistanceAnchorSource } from '../../contexts/DistanceAnchorContext';
+
+const SOURCE_OPTIONS: Array<{ source: DistanceAnchorSource; label: string; icon: keyof typeof Ionicons.glyphMap }> = [
+  { source: 'mapCentre', label: 'Map centre', icon: 'map-outline' },
+  { source: 'device', label: 'My location', icon: 'locate-outline' },
+  { source: 'address', label: 'Address', icon: 'home-outline' },
+];
+
+/**
+ * Chooses where distances are measured from: the map centre, the device, or a typed address
+ */
+export default function DistanceAnchorPicker() {
+  const { anchor, resolving, error, selectMapCentre, selectDeviceLocation, selectAddress } = useDistanceAnchor();
+  const [showAddressInput, setShowAddressInput] = useState(anchor.source === 'address');
+  const [address, setAddress] = useState('');
+
+  const handleSelect = (source: DistanceAnchorSource) => {
+    setShowAddressInput(source === 'address');
+    if (source === 'mapCentre') selectMapCentre();
+    if (source === 'device') selectDeviceLocation();
+  };
+
+  const isActive = (source: DistanceAnchorSource) =>
+    source === 'address' ? showAddressInput || anchor.source === 'address' : !showAddressInput && anchor.source === source;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Measure distance from</Text>
+      <View style={styles.options}>
+        {SOURCE_OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option.source}
+            style={[styles.option, isActive(option.source) && styles.optionActive]}
+            onPress={() => handleSelect(option.source)}
+            accessibilityRole="button"
+            accessibilityState={{ selected: isActive(option.source) }}
+          >
+            <Ionicons
+              name={option.icon}
+              size={14}
+              color={isActive(option.source) ? Colors.white : Colors.text}
+            />
+            <Text style={[styles.optionText, isActive(option.source) && styles.optionTextActive]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {showAddressInput && (
+        <View style={styles.addressRow}>
+          <TextInput
+            style={styles.addressInput}
+            value={address}
+            onChangeText={setAddress}
+            placeholder="Suburb, postcode or address"
+            placeholderTextColor={Colors.black50}
+            returnKeyType="search"
+            onSubmitEditing={() => selectAddress(address)}
+          />
+          <TouchableOpacity style={styles.addressButton} onPress={() => selectAddress(address)}>
+            <Ionicons name="search" size={16} color={Colors.white} />
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <View style={styles.status}>
+        {resolving ? (
+          <ActivityIndicator size="small" color={Colors.primary} />
+        ) : (
+          <Text style={[styles.statusText, error && styles.errorText]} numberOfLines={2}>
+            {error || `From: ${anchor.label}`}
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: Colors.text,
+    marginBottom: 8,
+  },
+  options: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.black20,
+    backgroundColor: Colors.white,
+  },
+  optionActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  optionText: {
+    fontSize: 12,
+    color: Colors.text,
+  },
+  optionTextActive: {
+    color: Colors.white,
+    fontWeight: '600',
+  },
+  addressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+    gap: 8,
+  },
+  addressInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: Colors.black20,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: Colors.text,
+  },
+  addressButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 8,
+    padding: 10,
+  },
+  status: {
+    marginTop: 6,
+    minHeight: 18,
+    alignItems: 'flex-start',
+  },
+  statusText: {
+    fontSize: 12,
+    color: Colors.black50,
+  },
+  errorText: {
+    color: Colors.error,
+  },
+});
@@ -13,8 +13,11 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons, MaterialIcons } from '@expo/vector-icons';
 
 import FilterDropdown from './FilterDropdown';
+import DistanceAnchorPicker from './DistanceAnchorPicker';
 import { Colors, Spacing } from '../../constants/colors';
 import { useUserTier } from '../../contexts/UserTierContext';
+import { SearchArea } from '../../types';
+import { UNKNOWN_REGION } from '../../services/icnDataService';
 
 // Standardized Australian States/Territories + New Zealand
 const STANDARD_STATES_TERRITORIES = [
@@ -35,7 +38,8 @@ export interface EnhancedFilterOptions {
   capabilities: string[];
   distance: string;
   sectors: string[];
-  state?: string;  // Only valid state codes
+  state?: string;  // Only valid state codes, or UNKNOWN_REGION
+  area?: SearchArea;  // Drawn on the map
   companyTypes?: string[];
   
   // Plus tier filters
@@ -74,6 +78,9 @@ const isValidData = (value: any): boolean => {
   );
 };
 
+const isSelectableState = (state: string) =>
+  STANDARD_STATES_TERRITORIES.includes(state) || state === UNKNOWN_REGION;
+
 // Normalize state codes
 const normalizeState = (state: string): string | null => {
   const upperState = state.toUpperCase().trim();
@@ -188,6 +195,9 @@ export default function EnhancedFilterModal({
     return STANDARD_STATES_TERRITORIES;
   }, [filterOptions?.states]);
 
+  // Companies whose state could not be resolved get their own option
+  const hasUnknownRegion = !!filterOptions?.states?.includes(UNKNOWN_REGION);
+
   // Updated COMPANY_TYPE_OPTIONS to reflect actual data structure
   const COMPANY_TYPE_OPTIONS = [
     'Supplier (All)',
@@ -238,6 +248,12 @@ export default function EnhancedFilterModal({
   const [distance, setDistance] = useState<string>(
     currentFilters?.distance || 'All'
   );
+  // The area itself is drawn on the map; here it can only be kept or removed
+  const [areaRemoved, setAreaRemoved] = useState(false);
+  useEffect(() => {
+    setAreaRemoved(false);
+  }, [currentFilters?.area]);
+  const area = areaRemoved ? undefined : currentFilters?.area;
   const [state, setState] = useState<string>(
     currentFilters?.state || 'All'
   );
@@ -280,7 +296,8 @@ export default function EnhancedFilterModal({
       capabilities: capabilities.filter(cap => isValidData(cap)),
       sectors: sectors.filter(sec => isValidData(sec)),
       distance,
-      state: (state && state !== 'All' && STANDARD_STATES_TERRITORIES.includes(state)) ? state : undefined,
+      state: (state && state !== 'All' && isSelectableState(state)) ? state : undefined,
+      area,
     };
 
     // Map the selected company types to filter values
@@ -310,7 +327,7 @@ export default function EnhancedFilterModal({
     filters.companyTypes = uniqueCompanyTypes.length > 0 ? uniqueCompanyTypes : undefined;
 
     // Validate state selection
-    if (filters.state && !STANDARD_STATES_TERRITORIES.includes(filters.state)) {
+    if (filters.state && !isSelectableState(filters.state)) {
       Alert.alert(
         'Invalid State Selection',
         'Please select a valid Australian state or territory.',
@@ -374,6 +391,7 @@ export default function EnhancedFilterModal({
     setCapabilities([]);
     setSectors([]);
     setDistance('All');
+    setAreaRemoved(true);
     setState('All');
     setCompanyTypes([]);
     setCompanySize('All');
@@ -429,6 +447,7 @@ export default function EnhancedFilterModal({
     if (state !== 'All') count++;
     if (companyTypes.length > 0) count++;
     if (distance !== 'All') count++;
+    if (area) count++;
     if (companySize !== 'All' && features.canFilterBySize) count++;
     if (certifications.length > 0 && features.canFilterByCertifications) count++;
     if (ownershipType.length > 0 && features.canFilterByDiversity) count++;
@@ -495,7 +514,7 @@ export default function EnhancedFilterModal({
             {/* State Filter with validation info */}
             <FilterDropdown
               title="State/Territory"
-              options={['All', ...STATE_OPTIONS]}
+              options={['All', ...STATE_OPTIONS, ...(hasUnknownRegion ? [UNKNOWN_REGION] : [])]}
               selected={state}
               onApply={handleStateChange}
               multiSelect={false}
@@ -515,6 +534,21 @@ export default function EnhancedFilterModal({
               onApply={handleDistanceChange}
               multiSelect={false}
             />
+            <DistanceAnchorPicker />
+
+            {area && (
+              <View style={styles.areaRow}>
+                <Ionicons name={area.type === 'polygon' ? 'shapes-outline' : 'git-commit-outline'} size={16} color={Colors.primary} />
+                <Text style={styles.areaText}>
+                  {area.type === 'polygon'
+                    ? 'Inside area drawn on map'
+                    : `Within ${area.widthKm} km of route drawn on map`}
+                </Text>
+                <TouchableOpacity onPress={() => setAreaRemoved(true)} accessibilityLabel="Remove drawn area">
+                  <Ionicons name="close-circle" size={18} color={Colors.black50} />
+                </TouchableOpacity>
+              </View>
+            )}
 
             {/* Plus Tier Filters */}
             <Text style={styles.sectionTitle}>Advanced Filters</Text>
@@ -813,6 +847,20 @@ const styles = StyleSheet.create({
     padding: 8,
     marginBottom: 12,
   },
+  areaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: Colors.orange[400],
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 12,
+  },
+  areaText: {
+    flex: 1,
+    fontSize: 13,
+    color: Colors.text,
+  },
   filterInfoText: {
     fontSize: 12,
     color: Colors.text,
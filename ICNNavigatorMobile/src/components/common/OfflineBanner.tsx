@@ -0,0 +1,53 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../../constants/colors';
+import { useConnectivity } from '../../contexts/ConnectivityContext';
+
+/**
+ * App-wide notice while the device is offline. Company data is bundled, so browsing keeps working.
+ */
+export default function OfflineBanner() {
+  const { isOnline, checkConnectivity } = useConnectivity();
+  const insets = useSafeAreaInsets();
+
+  if (isOnline) return null;
+
+  return (
+    <View style={[styles.banner, { paddingTop: insets.top + 4 }]} accessibilityRole="alert">
+      <Ionicons name="cloud-offline-outline" size={16} color={Colors.white} />
+      <Text style={styles.text}>Offline - showing saved companies and downloaded maps</Text>
+      <TouchableOpacity onPress={checkConnectivity} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+        <Text style={styles.retry}>Retry</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    zIndex: 2000,
+    elevation: 20,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingBottom: 6,
+    backgroundColor: Colors.black80,
+  },
+  text: {
+    flex: 1,
+    fontSize: 12,
+    color: Colors.white,
+  },
+  retry: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+});
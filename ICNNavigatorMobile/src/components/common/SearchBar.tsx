@@ -1,5 +1,5 @@
 import React from 'react';
-import { View, TextInput, StyleSheet, TouchableOpacity } from 'react-native';
+import { View, Text, TextInput, StyleSheet, TouchableOpacity } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 
 // Local color definitions
@@ -11,6 +11,7 @@ const Colors = {
   primary: '#F99F1C',
   searchBg: '#FFFFFF', // Search bar background color changed to white
   orange200: '#FAB249',
+  error: '#F44336',
 };
 
 interface SearchBarProps {
@@ -18,36 +19,58 @@ interface SearchBarProps {
   onChangeText: (text: string) => void;
   placeholder?: string;
   onFilter?: () => void;
+  onShare?: () => void;  // Share the current query as text
+  error?: string;  // Inline query syntax error
 }
 
 export default function SearchBar({ 
   value, 
   onChangeText, 
   placeholder = "Search...",
-  onFilter 
+  onFilter,
+  onShare,
+  error
 }: SearchBarProps) {
   return (
-    <View style={styles.container}>
-      <View style={styles.searchContainer}>
-        <Ionicons name="search" size={20} color={Colors.black50} />
-        <TextInput
-          style={styles.input}
-          value={value}
-          onChangeText={onChangeText}
-          placeholder={placeholder}
-          placeholderTextColor={Colors.black50}
-        />
-        {onFilter && (
-          <TouchableOpacity style={styles.filterButton} onPress={onFilter}>
-            <Ionicons name="filter" size={20} color={Colors.black50} />
-          </TouchableOpacity>
-        )}
+    <View style={styles.wrapper}>
+      <View style={styles.container}>
+        <View style={[styles.searchContainer, error ? styles.searchContainerError : null]}>
+          <Ionicons name="search" size={20} color={Colors.black50} />
+          <TextInput
+            style={styles.input}
+            value={value}
+            onChangeText={onChangeText}
+            placeholder={placeholder}
+            placeholderTextColor={Colors.black50}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          {onShare && (
+            <TouchableOpacity style={styles.filterButton} onPress={onShare}>
+              <Ionicons name="share-outline" size={20} color={Colors.black50} />
+            </TouchableOpacity>
+          )}
+          {onFilter && (
+            <TouchableOpacity style={styles.filterButton} onPress={onFilter}>
+              <Ionicons name="filter" size={20} color={Colors.black50} />
+            </TouchableOpacity>
+          )}
+        </View>
       </View>
+      {error && (
+        <View style={styles.errorRow}>
+          <Ionicons name="alert-circle" size={14} color={Colors.error} />
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      )}
     </View>
   );
 }
 
 const styles = StyleSheet.create({
+  wrapper: {
+    backgroundColor: Colors.searchBg,
+  },
   container: {
     flexDirection: 'row',
     paddingHorizontal: 16,
@@ -67,6 +90,9 @@ const styles = StyleSheet.create({
     height: 44,
     gap: 8,
   },
+  searchContainerError: {
+    borderColor: Colors.error,
+  },
   input: {
     flex: 1,
     fontSize: 16,
@@ -77,4 +103,17 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  errorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    paddingBottom: 8,
+    marginTop: -4,
+    gap: 4,
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 12,
+    color: Colors.error,
+  },
 });
\ No newline at end of file
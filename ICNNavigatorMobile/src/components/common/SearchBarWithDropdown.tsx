@@ -21,6 +21,9 @@ interface SearchBarWithDropdownProps {
   onFilter?: () => void;
   placeholder?: string;
   companies: Company[];
+  searchCompanies?: (text: string) => Company[]; // Ranked, typo-tolerant search; defaults to substring match
+  getSuggestion?: (text: string) => string | null; // "Did you mean" when nothing matches
+  error?: string; // Inline query syntax error
 }
 
 export default function SearchBarWithDropdown({
@@ -30,32 +33,45 @@ export default function SearchBarWithDropdown({
   onFilter,
   placeholder = "Search companies...",
   companies,
+  searchCompanies,
+  getSuggestion,
+  error,
 }: SearchBarWithDropdownProps) {
   const [showDropdown, setShowDropdown] = useState(false);
   const [filteredCompanies, setFilteredCompanies] = useState<Company[]>([]);
+  const [suggestion, setSuggestion] = useState<string | null>(null);
   const dropdownAnimation = useRef(new Animated.Value(0)).current;
 
   useEffect(() => {
     if (value.length > 0) {
-      // Filter companies based on search text
-      const filtered = companies
-        .filter(company =>
+      // Filter companies based on search text (prefix/fuzzy when a search function is provided)
+      let filtered: Company[];
+      if (searchCompanies) {
+        const allowedIds = new Set(companies.map(company => company.id));
+        filtered = searchCompanies(value).filter(company => allowedIds.has(company.id));
+      } else {
+        filtered = companies.filter(company =>
           company.name.toLowerCase().includes(value.toLowerCase()) ||
           company.address.toLowerCase().includes(value.toLowerCase())
-        )
-        .slice(0, 8); // Limit to 8 results
+        );
+      }
+      filtered = filtered.slice(0, 8); // Limit to 8 results
       
       setFilteredCompanies(filtered);
       
-      if (filtered.length > 0) {
+      const nextSuggestion = filtered.length === 0 && getSuggestion ? getSuggestion(value) : null;
+      setSuggestion(nextSuggestion);
+      
+      if (filtered.length > 0 || nextSuggestion) {
         showDropdownAnimation();
       } else {
         hideDropdownAnimation();
       }
     } else {
+      setSuggestion(null);
       hideDropdownAnimation();
     }
-  }, [value, companies]);
+  }, [value, companies, searchCompanies, getSuggestion]);
 
   const showDropdownAnimation = () => {
     setShowDropdown(true);
@@ -116,7 +132,7 @@ export default function SearchBarWithDropdown({
   return (
     <View style={styles.container}>
       <View style={styles.searchContainer}>
-        <View style={styles.searchBar}>
+        <View style={[styles.searchBar, error ? styles.searchBarError : null]}>
           {/* Left side ICN Logo container with icon and separator */}
           <View style={styles.logoContainer}>
             <Image 
@@ -157,6 +173,13 @@ export default function SearchBarWithDropdown({
         )}
       </View>
 
+      {error && (
+        <View style={styles.errorRow}>
+          <Ionicons name="alert-circle" size={14} color={Colors.error} />
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      )}
+
       {showDropdown && (
         <Animated.View
           style={[
@@ -185,6 +208,13 @@ export default function SearchBarWithDropdown({
           ) : (
             <View style={styles.noResults}>
               <Text style={styles.noResultsText}>No companies found</Text>
+              {suggestion && (
+                <TouchableOpacity onPress={() => onChangeText(suggestion)}>
+                  <Text style={styles.suggestionText}>
+                    Did you mean <Text style={styles.suggestionTerm}>{suggestion}</Text>?
+                  </Text>
+                </TouchableOpacity>
+              )}
             </View>
           )}
         </Animated.View>
@@ -222,6 +252,25 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 3,
   },
+  searchBarError: {
+    borderColor: Colors.error,
+  },
+  errorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginTop: -4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: Colors.white,
+    borderRadius: 12,
+    gap: 4,
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 12,
+    color: Colors.error,
+  },
   logoContainer: {
     flexDirection: 'row', // Horizontal layout for icon and separator
     alignItems: 'center', // Vertical center alignment
@@ -324,4 +373,13 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: Colors.black50,
   },
+  suggestionText: {
+    fontSize: 14,
+    color: Colors.text,
+    marginTop: 8,
+  },
+  suggestionTerm: {
+    fontWeight: '600',
+    color: Colors.primary,
+  },
 });
\ No newline at end of file
@@ -1,5 +1,9 @@
 export const API_BASE_URL = process.env.EXPO_PUBLIC_API_BASE_URL || 'http://localhost:8080/api';
 export const GOOGLE_MAPS_API_KEY = process.env.EXPO_PUBLIC_GOOGLE_MAPS_API_KEY || '';
+// Raster tile server for offline map downloads, e.g. https://tiles.example.com/{z}/{x}/{y}.png
+export const MAP_TILE_URL_TEMPLATE = process.env.EXPO_PUBLIC_MAP_TILE_URL || '';
+// Source of ICN dataset updates; answers with a full dataset or a delta against ?since=<hash>
+export const ICN_DATASET_UPDATE_URL = process.env.EXPO_PUBLIC_ICN_DATASET_URL || '';
 
 export const COLORS = {
   primary: '#1976d2',
@@ -0,0 +1,34 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import connectivityService from '../services/connectivityService';
+
+interface ConnectivityContextType {
+  isOnline: boolean;
+  checkConnectivity: () => Promise<boolean>;
+}
+
+const ConnectivityContext = createContext<ConnectivityContextType | undefined>(undefined);
+
+export const ConnectivityProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [isOnline, setIsOnline] = useState(connectivityService.isOnline());
+
+  useEffect(() => connectivityService.subscribe(setIsOnline), []);
+
+  return (
+    <ConnectivityContext.Provider
+      value={{
+        isOnline,
+        checkConnectivity: () => connectivityService.checkConnectivity(),
+      }}
+    >
+      {children}
+    </ConnectivityContext.Provider>
+  );
+};
+
+export const useConnectivity = () => {
+  const context = useContext(ConnectivityContext);
+  if (!context) {
+    throw new Error('useConnectivity must be used within ConnectivityProvider');
+  }
+  return context;
+};
@@ -0,0 +1,165 @@
+import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Location from 'expo-location';
+import { useSettings } from './SettingsContext';
+import { GeoPoint } from '../services/companyQueryEngine';
+import { AddressQuery, geocodeStructuredAddress } from '../services/geocodingService';
+import { STANDARD_STATES_TERRITORIES } from '../services/icnDataService';
+
+export type DistanceAnchorSource = 'mapCentre' | 'device' | 'address';
+
+export interface DistanceAnchor {
+  source: DistanceAnchorSource;
+  point: GeoPoint | null; // Resolved location for 'device' and 'address'; the map centre is tracked separately
+  label: string;
+}
+
+interface DistanceAnchorContextType {
+  anchor: DistanceAnchor;
+  origin: GeoPoint | undefined; // Point distances are measured from, if one is known
+  resolving: boolean;
+  error: string | null;
+  setMapCentre: (centre: GeoPoint) => void;
+  selectMapCentre: () => void;
+  selectDeviceLocation: () => Promise<void>;
+  selectAddress: (address: string) => Promise<void>;
+}
+
+const STORAGE_KEY = '@distance_anchor';
+
+const MAP_CENTRE_ANCHOR: DistanceAnchor = { source: 'mapCentre', point: null, label: 'Map centre' };
+
+// Melbourne CBD until the map reports its centre
+const DEFAULT_MAP_CENTRE: GeoPoint = { latitude: -37.8136, longitude: 144.9631 };
+
+/**
+ * Split free text such as "Geelong VIC 3220" into the parts the geocoders understand
+ */
+function parseAddressText(text: string): AddressQuery {
+  let rest = text.trim();
+
+  const postcode = rest.match(/\b\d{4}\b/)?.[0];
+  if (postcode) rest = rest.replace(postcode, ' ');
+
+  const state = STANDARD_STATES_TERRITORIES.find(s => new RegExp(`\\b${s}\\b`, 'i').test(rest));
+  if (state) rest = rest.replace(new RegExp(`\\b${state}\\b`, 'i'), ' ');
+
+  const city = rest.replace(/[\s,]+/g, ' ').trim();
+  return { city: city || undefined, state, postcode };
+}
+
+const DistanceAnchorContext = createContext<DistanceAnchorContextType | undefined>(undefined);
+
+export const DistanceAnchorProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { settings } = useSettings();
+  const [anchor, setAnchor] = useState<DistanceAnchor>(MAP_CENTRE_ANCHOR);
+  const [mapCentre, setMapCentre] = useState<GeoPoint>(DEFAULT_MAP_CENTRE);
+  const [resolving, setResolving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Restore the last chosen anchor
+  useEffect(() => {
+    (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        if (stored) setAnchor(JSON.parse(stored));
+      } catch (e) {
+        console.error('Failed to load distance anchor:', e);
+      }
+    })();
+  }, []);
+
+  const saveAnchor = async (next: DistanceAnchor) => {
+    setAnchor(next);
+    setError(null);
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch (e) {
+      console.error('Failed to save distance anchor:', e);
+    }
+  };
+
+  const selectMapCentre = () => {
+    saveAnchor(MAP_CENTRE_ANCHOR);
+  };
+
+  const selectDeviceLocation = async () => {
+    if (!settings.locationServices) {
+      setError('Location services are turned off in Settings');
+      return;
+    }
+
+    setResolving(true);
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') {
+        setError('Location permission denied');
+        return;
+      }
+      const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+      await saveAnchor({
+        source: 'device',
+        point: { latitude: position.coords.latitude, longitude: position.coords.longitude },
+        label: 'My location',
+      });
+    } catch (e) {
+      console.error('Failed to get device location:', e);
+      setError('Could not get your location');
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  const selectAddress = async (address: string) => {
+    if (!address.trim()) return;
+
+    setResolving(true);
+    try {
+      const result = await geocodeStructuredAddress(parseAddressText(address));
+      if (!result) {
+        setError(`Could not find "${address.trim()}"`);
+        return;
+      }
+      await saveAnchor({
+        source: 'address',
+        point: { latitude: result.latitude, longitude: result.longitude },
+        label: result.formattedAddress || address.trim(),
+      });
+    } catch (e) {
+      console.error('Failed to geocode anchor address:', e);
+      setError(`Could not find "${address.trim()}"`);
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  const origin = useMemo(
+    () => (anchor.source === 'mapCentre' ? mapCentre : anchor.point || undefined),
+    [anchor, mapCentre]
+  );
+
+  return (
+    <DistanceAnchorContext.Provider
+      value={{
+        anchor,
+        origin,
+        resolving,
+        error,
+        setMapCentre,
+        selectMapCentre,
+        selectDeviceLocation,
+        selectAddress,
+      }}
+    >
+      {children}
+    </DistanceAnchorContext.Provider>
+  );
+};
+
+export const useDistanceAnchor = () => {
+  const context = useContext(DistanceAnchorContext);
+  if (!context) {
+    throw new Error('useDistanceAnchor must be used within DistanceAnchorProvider');
+  }
+  return context;
+};
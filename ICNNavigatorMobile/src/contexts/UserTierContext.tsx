@@ -4,15 +4,17 @@ import { useUser } from './UserContext';
 
 export type UserTier = 'free' | 'plus' | 'premium';
 
-interface TierFeatures {
+export interface TierFeatures {
   maxBookmarkFolders: number;
+  maxSavedSearches: number; // -1 for unlimited
   canCreateFolders: boolean;
   canFilterBySize: boolean;
   canFilterByCertifications: boolean;
   canFilterByDiversity: boolean;
   canFilterByRevenue: boolean;
   canExportFull: boolean;
-  exportLimit: number;
+  exportLimit: number; // Exports per month, -1 for unlimited
+  maxExportRows: number; // Companies per list export, -1 for unlimited
   canAccessChat: boolean;
   canSeeABN: boolean;
   canSeeRevenue: boolean;
@@ -23,6 +25,7 @@ interface TierFeatures {
 const TIER_FEATURES: Record<UserTier, TierFeatures> = {
   free: {
     maxBookmarkFolders: 1,
+    maxSavedSearches: 1,
     canCreateFolders: false,
     canFilterBySize: false,
     canFilterByCertifications: false,
@@ -30,6 +33,7 @@ const TIER_FEATURES: Record<UserTier, TierFeatures> = {
     canFilterByRevenue: false,
     canExportFull: false,
     exportLimit: 10,
+    maxExportRows: 10,
     canAccessChat: false,
     canSeeABN: false,
     canSeeRevenue: false,
@@ -38,6 +42,7 @@ const TIER_FEATURES: Record<UserTier, TierFeatures> = {
   },
   plus: {
     maxBookmarkFolders: 1,
+    maxSavedSearches: 5,
     canCreateFolders: false,
     canFilterBySize: true,
     canFilterByCertifications: true,
@@ -45,6 +50,7 @@ const TIER_FEATURES: Record<UserTier, TierFeatures> = {
     canFilterByRevenue: false,
     canExportFull: false,
     exportLimit: 50,
+    maxExportRows: 50,
     canAccessChat: true,
     canSeeABN: true,
     canSeeRevenue: false,
@@ -53,6 +59,7 @@ const TIER_FEATURES: Record<UserTier, TierFeatures> = {
   },
   premium: {
     maxBookmarkFolders: 10,
+    maxSavedSearches: -1, // unlimited
     canCreateFolders: true,
     canFilterBySize: true,
     canFilterByCertifications: true,
@@ -60,6 +67,7 @@ const TIER_FEATURES: Record<UserTier, TierFeatures> = {
     canFilterByRevenue: true,
     canExportFull: true,
     exportLimit: -1, // unlimited
+    maxExportRows: -1, // unlimited
     canAccessChat: true,
     canSeeABN: true,
     canSeeRevenue: true,
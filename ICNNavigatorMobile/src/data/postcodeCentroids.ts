@@ -0,0 +1,290 @@
+// data/postcodeCentroids.ts - Bundled centroids for offline geocoding (Australia and New Zealand)
+//
+// Postcodes are grouped into postal districts: each range resolves to the centroid of the
+// district's main centre. Metropolitan Melbourne is split into groups of suburbs, within
+// about 10 km; every other range, including the rest of each capital, resolves to a single
+// centre and can be tens of kilometres off. Results are approximate and only stand in
+// until a remote geocoder resolves the address. Localities cover capitals and major
+// regional centres.
+
+export interface PostcodeDistrict {
+  from: number;
+  to: number;
+  state: string; // AU state code, or NI/SI for New Zealand
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface LocalityCentroid {
+  name: string;
+  state: string;
+  latitude: number;
+  longitude: number;
+}
+
+export const AU_POSTCODE_DISTRICTS: PostcodeDistrict[] = [
+  // Northern Territory
+  { from: 800, to: 849, state: 'NT', name: 'Darwin', latitude: -12.4634, longitude: 130.8456 },
+  { from: 850, to: 869, state: 'NT', name: 'Katherine', latitude: -14.4652, longitude: 132.2635 },
+  { from: 870, to: 879, state: 'NT', name: 'Alice Springs', latitude: -23.6980, longitude: 133.8807 },
+  { from: 880, to: 899, state: 'NT', name: 'Regional NT', latitude: -19.4914, longitude: 132.5510 },
+
+  // Australian Capital Territory
+  { from: 200, to: 299, state: 'ACT', name: 'Canberra', latitude: -35.2809, longitude: 149.1300 },
+  { from: 2600, to: 2618, state: 'ACT', name: 'Canberra', latitude: -35.2809, longitude: 149.1300 },
+  { from: 2900, to: 2906, state: 'ACT', name: 'Tuggeranong', latitude: -35.4244, longitude: 149.0888 },
+  { from: 2911, to: 2914, state: 'ACT', name: 'Gungahlin', latitude: -35.1860, longitude: 149.1330 },
+
+  // New South Wales
+  { from: 1000, to: 1999, state: 'NSW', name: 'Sydney', latitude: -33.8688, longitude: 151.2093 },
+  { from: 2000, to: 2249, state: 'NSW', name: 'Sydney', latitude: -33.8688, longitude: 151.2093 },
+  { from: 2250, to: 2263, state: 'NSW', name: 'Central Coast', latitude: -33.4245, longitude: 151.3420 },
+  { from: 2264, to: 2310, state: 'NSW', name: 'Newcastle', latitude: -32.9283, longitude: 151.7817 },
+  { from: 2311, to: 2339, state: 'NSW', name: 'Hunter', latitude: -32.7316, longitude: 151.5525 },
+  { from: 2340, to: 2414, state: 'NSW', name: 'New England', latitude: -31.0927, longitude: 150.9320 },
+  { from: 2415, to: 2459, state: 'NSW', name: 'Mid North Coast', latitude: -30.2963, longitude: 153.1135 },
+  { from: 2460, to: 2499, state: 'NSW', name: 'Northern Rivers', latitude: -28.8135, longitude: 153.2773 },
+  { from: 2500, to: 2534, state: 'NSW', name: 'Wollongong', latitude: -34.4278, longitude: 150.8931 },
+  { from: 2535, to: 2554, state: 'NSW', name: 'South Coast', latitude: -34.8808, longitude: 150.6000 },
+  { from: 2555, to: 2574, state: 'NSW', name: 'Macarthur', latitude: -34.0650, longitude: 150.8140 },
+  { from: 2575, to: 2599, state: 'NSW', name: 'Southern Tablelands', latitude: -34.7546, longitude: 149.7186 },
+  { from: 2619, to: 2639, state: 'NSW', name: 'Queanbeyan and Monaro', latitude: -35.3533, longitude: 149.2343 },
+  { from: 2640, to: 2647, state: 'NSW', name: 'Albury', latitude: -36.0737, longitude: 146.9135 },
+  { from: 2648, to: 2699, state: 'NSW', name: 'Wagga Wagga', latitude: -35.1082, longitude: 147.3598 },
+  { from: 2700, to: 2744, state: 'NSW', name: 'Riverina', latitude: -34.2886, longitude: 146.0512 },
+  { from: 2745, to: 2772, state: 'NSW', name: 'Western Sydney', latitude: -33.7507, longitude: 150.6877 },
+  { from: 2773, to: 2786, state: 'NSW', name: 'Blue Mountains', latitude: -33.7125, longitude: 150.3119 },
+  { from: 2787, to: 2819, state: 'NSW', name: 'Central West', latitude: -33.2835, longitude: 149.1013 },
+  { from: 2820, to: 2879, state: 'NSW', name: 'Orana', latitude: -32.2569, longitude: 148.6011 },
+  { from: 2880, to: 2899, state: 'NSW', name: 'Far West', latitude: -31.9539, longitude: 141.4539 },
+
+  // Victoria
+  { from: 3000, to: 3010, state: 'VIC', name: 'Melbourne CBD', latitude: -37.8136, longitude: 144.9631 },
+  { from: 3011, to: 3019, state: 'VIC', name: 'Footscray', latitude: -37.8000, longitude: 144.8990 },
+  { from: 3020, to: 3029, state: 'VIC', name: 'Sunshine', latitude: -37.7880, longitude: 144.8320 },
+  { from: 3030, to: 3030, state: 'VIC', name: 'Werribee', latitude: -37.9000, longitude: 144.6600 },
+  { from: 3031, to: 3049, state: 'VIC', name: 'Essendon and Tullamarine', latitude: -37.7150, longitude: 144.9050 },
+  { from: 3050, to: 3069, state: 'VIC', name: 'Inner North Melbourne', latitude: -37.7670, longitude: 144.9610 },
+  { from: 3070, to: 3099, state: 'VIC', name: 'Northern Melbourne', latitude: -37.7200, longitude: 145.0300 },
+  { from: 3100, to: 3139, state: 'VIC', name: 'Eastern Melbourne', latitude: -37.8190, longitude: 145.1250 },
+  { from: 3140, to: 3160, state: 'VIC', name: 'Knox', latitude: -37.8800, longitude: 145.2000 },
+  { from: 3161, to: 3180, state: 'VIC', name: 'South East Melbourne', latitude: -37.9150, longitude: 145.1290 },
+  { from: 3181, to: 3195, state: 'VIC', name: 'Bayside', latitude: -37.9380, longitude: 145.0200 },
+  { from: 3196, to: 3201, state: 'VIC', name: 'Frankston', latitude: -38.1440, longitude: 145.1260 },
+  { from: 3202, to: 3204, state: 'VIC', name: 'Bayside', latitude: -37.9380, longitude: 145.0200 },
+  { from: 3205, to: 3210, state: 'VIC', name: 'South Melbourne', latitude: -37.8330, longitude: 144.9500 },
+  { from: 3211, to: 3239, state: 'VIC', name: 'Geelong', latitude: -38.1499, longitude: 144.3617 },
+  { from: 3240, to: 3334, state: 'VIC', name: 'Western District', latitude: -38.3818, longitude: 142.4880 },
+  { from: 3335, to: 3349, state: 'VIC', name: 'Melton', latitude: -37.6834, longitude: 144.5822 },
+  { from: 3350, to: 3399, state: 'VIC', name: 'Ballarat', latitude: -37.5622, longitude: 143.8503 },
+  { from: 3400, to: 3424, state: 'VIC', name: 'Wimmera', latitude: -36.7118, longitude: 142.1995 },
+  { from: 3425, to: 3449, state: 'VIC', name: 'Macedon Ranges', latitude: -37.5785, longitude: 144.7282 },
+  { from: 3450, to: 3495, state: 'VIC', name: 'Central Highlands', latitude: -37.0667, longitude: 144.2167 },
+  { from: 3496, to: 3512, state: 'VIC', name: 'Mildura', latitude: -34.1855, longitude: 142.1625 },
+  { from: 3515, to: 3569, state: 'VIC', name: 'Bendigo', latitude: -36.7570, longitude: 144.2794 },
+  { from: 3570, to: 3599, state: 'VIC', name: 'Swan Hill', latitude: -35.3378, longitude: 143.5544 },
+  { from: 3600, to: 3649, state: 'VIC', name: 'Shepparton', latitude: -36.3833, longitude: 145.4000 },
+  { from: 3650, to: 3689, state: 'VIC', name: 'Wangaratta', latitude: -36.3580, longitude: 146.3126 },
+  { from: 3690, to: 3749, state: 'VIC', name: 'Wodonga', latitude: -36.1218, longitude: 146.8881 },
+  { from: 3750, to: 3799, state: 'VIC', name: 'Outer East Melbourne', latitude: -37.7560, longitude: 145.3486 },
+  { from: 3800, to: 3811, state: 'VIC', name: 'South East Melbourne', latitude: -38.0333, longitude: 145.3500 },
+  { from: 3812, to: 3909, state: 'VIC', name: 'Gippsland', latitude: -38.1953, longitude: 146.5415 },
+  { from: 3910, to: 3944, state: 'VIC', name: 'Mornington Peninsula', latitude: -38.2170, longitude: 145.0380 },
+  { from: 3945, to: 3999, state: 'VIC', name: 'South Gippsland', latitude: -38.6047, longitude: 145.5906 },
+  // PO boxes and large-volume receivers, not street addresses
+  { from: 8000, to: 8999, state: 'VIC', name: 'Melbourne', latitude: -37.8136, longitude: 144.9631 },
+
+  // Queensland
+  { from: 4000, to: 4199, state: 'QLD', name: 'Brisbane', latitude: -27.4698, longitude: 153.0251 },
+  { from: 4200, to: 4299, state: 'QLD', name: 'Gold Coast', latitude: -28.0167, longitude: 153.4000 },
+  { from: 4300, to: 4349, state: 'QLD', name: 'Ipswich', latitude: -27.6144, longitude: 152.7580 },
+  { from: 4350, to: 4399, state: 'QLD', name: 'Toowoomba', latitude: -27.5598, longitude: 151.9507 },
+  { from: 4400, to: 4499, state: 'QLD', name: 'South West Queensland', latitude: -26.5733, longitude: 148.7869 },
+  { from: 4500, to: 4549, state: 'QLD', name: 'Moreton Bay', latitude: -27.0745, longitude: 152.9514 },
+  { from: 4550, to: 4579, state: 'QLD', name: 'Sunshine Coast', latitude: -26.6500, longitude: 153.0667 },
+  { from: 4580, to: 4659, state: 'QLD', name: 'Wide Bay', latitude: -25.5380, longitude: 152.7016 },
+  { from: 4660, to: 4679, state: 'QLD', name: 'Bundaberg', latitude: -24.8661, longitude: 152.3489 },
+  { from: 4680, to: 4699, state: 'QLD', name: 'Gladstone', latitude: -23.8427, longitude: 151.2555 },
+  { from: 4700, to: 4739, state: 'QLD', name: 'Rockhampton', latitude: -23.3791, longitude: 150.5100 },
+  { from: 4740, to: 4799, state: 'QLD', name: 'Mackay', latitude: -21.1411, longitude: 149.1861 },
+  { from: 4800, to: 4824, state: 'QLD', name: 'Townsville', latitude: -19.2590, longitude: 146.8169 },
+  { from: 4825, to: 4849, state: 'QLD', name: 'Mount Isa', latitude: -20.7256, longitude: 139.4927 },
+  { from: 4850, to: 4899, state: 'QLD', name: 'Cairns', latitude: -16.9186, longitude: 145.7781 },
+  { from: 9000, to: 9999, state: 'QLD', name: 'Brisbane', latitude: -27.4698, longitude: 153.0251 },
+
+  // South Australia
+  { from: 5000, to: 5199, state: 'SA', name: 'Adelaide', latitude: -34.9285, longitude: 138.6007 },
+  { from: 5200, to: 5249, state: 'SA', name: 'Adelaide Hills', latitude: -35.0700, longitude: 138.8600 },
+  { from: 5250, to: 5279, state: 'SA', name: 'Murraylands', latitude: -35.1197, longitude: 139.2734 },
+  { from: 5280, to: 5299, state: 'SA', name: 'Mount Gambier', latitude: -37.8284, longitude: 140.7804 },
+  { from: 5300, to: 5349, state: 'SA', name: 'Riverland', latitude: -34.2833, longitude: 140.6000 },
+  { from: 5350, to: 5399, state: 'SA', name: 'Barossa', latitude: -34.5333, longitude: 138.9500 },
+  { from: 5400, to: 5499, state: 'SA', name: 'Mid North', latitude: -33.8333, longitude: 138.6167 },
+  { from: 5500, to: 5599, state: 'SA', name: 'Yorke Peninsula', latitude: -33.1858, longitude: 138.0171 },
+  { from: 5600, to: 5605, state: 'SA', name: 'Whyalla', latitude: -33.0333, longitude: 137.5833 },
+  { from: 5606, to: 5699, state: 'SA', name: 'Eyre Peninsula', latitude: -34.7261, longitude: 135.8600 },
+  { from: 5700, to: 5799, state: 'SA', name: 'Port Augusta', latitude: -32.4922, longitude: 137.7655 },
+  { from: 5800, to: 5999, state: 'SA', name: 'Adelaide', latitude: -34.9285, longitude: 138.6007 },
+
+  // Western Australia
+  { from: 6000, to: 6199, state: 'WA', name: 'Perth', latitude: -31.9505, longitude: 115.8605 },
+  { from: 6200, to: 6229, state: 'WA', name: 'Peel', latitude: -32.5269, longitude: 115.7217 },
+  { from: 6230, to: 6299, state: 'WA', name: 'South West', latitude: -33.3271, longitude: 115.6414 },
+  { from: 6300, to: 6399, state: 'WA', name: 'Great Southern', latitude: -35.0269, longitude: 117.8837 },
+  { from: 6400, to: 6428, state: 'WA', name: 'Wheatbelt', latitude: -31.6531, longitude: 116.6706 },
+  { from: 6429, to: 6499, state: 'WA', name: 'Goldfields', latitude: -30.7489, longitude: 121.4658 },
+  { from: 6500, to: 6699, state: 'WA', name: 'Mid West', latitude: -28.7774, longitude: 114.6150 },
+  { from: 6700, to: 6719, state: 'WA', name: 'Pilbara', latitude: -20.7364, longitude: 116.8463 },
+  { from: 6720, to: 6724, state: 'WA', name: 'Port Hedland', latitude: -20.3107, longitude: 118.6060 },
+  { from: 6725, to: 6799, state: 'WA', name: 'Kimberley', latitude: -17.9614, longitude: 122.2359 },
+  { from: 6800, to: 6999, state: 'WA', name: 'Perth', latitude: -31.9505, longitude: 115.8605 },
+
+  // Tasmania
+  { from: 7000, to: 7099, state: 'TAS', name: 'Hobart', latitude: -42.8821, longitude: 147.3272 },
+  { from: 7100, to: 7199, state: 'TAS', name: 'Southern Tasmania', latitude: -43.0300, longitude: 147.0500 },
+  { from: 7200, to: 7299, state: 'TAS', name: 'Launceston', latitude: -41.4332, longitude: 147.1441 },
+  { from: 7300, to: 7319, state: 'TAS', name: 'Devonport', latitude: -41.1769, longitude: 146.3514 },
+  { from: 7320, to: 7399, state: 'TAS', name: 'North West Tasmania', latitude: -41.0520, longitude: 145.9060 },
+  { from: 7400, to: 7499, state: 'TAS', name: 'West Coast', latitude: -42.0806, longitude: 145.5564 },
+  { from: 7800, to: 7999, state: 'TAS', name: 'Hobart', latitude: -42.8821, longitude: 147.3272 },
+];
+
+export const NZ_POSTCODE_DISTRICTS: PostcodeDistrict[] = [
+  // North Island
+  { from: 110, to: 199, state: 'NI', name: 'Whangarei', latitude: -35.7251, longitude: 174.3237 },
+  { from: 200, to: 599, state: 'NI', name: 'Northland', latitude: -35.2270, longitude: 173.9470 },
+  { from: 600, to: 2699, state: 'NI', name: 'Auckland', latitude: -36.8485, longitude: 174.7633 },
+  { from: 3010, to: 3099, state: 'NI', name: 'Rotorua', latitude: -38.1368, longitude: 176.2497 },
+  { from: 3100, to: 3199, state: 'NI', name: 'Tauranga', latitude: -37.6878, longitude: 176.1651 },
+  { from: 3200, to: 3299, state: 'NI', name: 'Hamilton', latitude: -37.7870, longitude: 175.2793 },
+  { from: 3300, to: 3999, state: 'NI', name: 'Waikato', latitude: -38.6857, longitude: 176.0702 },
+  { from: 4010, to: 4099, state: 'NI', name: 'Gisborne', latitude: -38.6623, longitude: 178.0176 },
+  { from: 4100, to: 4299, state: 'NI', name: "Hawke's Bay", latitude: -39.4928, longitude: 176.9120 },
+  { from: 4300, to: 4399, state: 'NI', name: 'Taranaki', latitude: -39.0556, longitude: 174.0752 },
+  { from: 4400, to: 4899, state: 'NI', name: 'Manawatu-Whanganui', latitude: -40.3523, longitude: 175.6082 },
+  { from: 4900, to: 5999, state: 'NI', name: 'Hutt Valley', latitude: -41.2092, longitude: 174.9081 },
+  { from: 6000, to: 6999, state: 'NI', name: 'Wellington', latitude: -41.2865, longitude: 174.7762 },
+
+  // South Island
+  { from: 7000, to: 7199, state: 'SI', name: 'Nelson', latitude: -41.2706, longitude: 173.2840 },
+  { from: 7200, to: 7299, state: 'SI', name: 'Marlborough', latitude: -41.5134, longitude: 173.9612 },
+  { from: 7300, to: 7699, state: 'SI', name: 'Canterbury', latitude: -43.3000, longitude: 172.2000 },
+  { from: 7800, to: 7999, state: 'SI', name: 'West Coast', latitude: -42.4504, longitude: 171.2108 },
+  { from: 8000, to: 8999, state: 'SI', name: 'Christchurch', latitude: -43.5321, longitude: 172.6362 },
+  { from: 9010, to: 9299, state: 'SI', name: 'Dunedin', latitude: -45.8788, longitude: 170.5028 },
+  { from: 9300, to: 9399, state: 'SI', name: 'Queenstown', latitude: -45.0312, longitude: 168.6626 },
+  { from: 9400, to: 9499, state: 'SI', name: 'Oamaru', latitude: -45.0975, longitude: 170.9704 },
+  { from: 9500, to: 9999, state: 'SI', name: 'Southland', latitude: -46.4132, longitude: 168.3538 },
+];
+
+export const LOCALITY_CENTROIDS: LocalityCentroid[] = [
+  // Capitals
+  { name: 'Melbourne', state: 'VIC', latitude: -37.8136, longitude: 144.9631 },
+  { name: 'Sydney', state: 'NSW', latitude: -33.8688, longitude: 151.2093 },
+  { name: 'Brisbane', state: 'QLD', latitude: -27.4698, longitude: 153.0251 },
+  { name: 'Adelaide', state: 'SA', latitude: -34.9285, longitude: 138.6007 },
+  { name: 'Perth', state: 'WA', latitude: -31.9505, longitude: 115.8605 },
+  { name: 'Hobart', state: 'TAS', latitude: -42.8821, longitude: 147.3272 },
+  { name: 'Darwin', state: 'NT', latitude: -12.4634, longitude: 130.8456 },
+  { name: 'Canberra', state: 'ACT', latitude: -35.2809, longitude: 149.1300 },
+  { name: 'Auckland', state: 'NI', latitude: -36.8485, longitude: 174.7633 },
+  { name: 'Wellington', state: 'NI', latitude: -41.2865, longitude: 174.7762 },
+  { name: 'Christchurch', state: 'SI', latitude: -43.5321, longitude: 172.6362 },
+
+  // Victoria
+  { name: 'Geelong', state: 'VIC', latitude: -38.1499, longitude: 144.3617 },
+  { name: 'Ballarat', state: 'VIC', latitude: -37.5622, longitude: 143.8503 },
+  { name: 'Bendigo', state: 'VIC', latitude: -36.7570, longitude: 144.2794 },
+  { name: 'Shepparton', state: 'VIC', latitude: -36.3833, longitude: 145.4000 },
+  { name: 'Wodonga', state: 'VIC', latitude: -36.1218, longitude: 146.8881 },
+  { name: 'Wangaratta', state: 'VIC', latitude: -36.3580, longitude: 146.3126 },
+  { name: 'Mildura', state: 'VIC', latitude: -34.1855, longitude: 142.1625 },
+  { name: 'Warrnambool', state: 'VIC', latitude: -38.3818, longitude: 142.4880 },
+  { name: 'Traralgon', state: 'VIC', latitude: -38.1953, longitude: 146.5415 },
+  { name: 'Morwell', state: 'VIC', latitude: -38.2353, longitude: 146.3950 },
+  { name: 'Horsham', state: 'VIC', latitude: -36.7118, longitude: 142.1995 },
+  { name: 'Dandenong', state: 'VIC', latitude: -37.9875, longitude: 145.2149 },
+  { name: 'Frankston', state: 'VIC', latitude: -38.1440, longitude: 145.1260 },
+  { name: 'Clayton', state: 'VIC', latitude: -37.9150, longitude: 145.1290 },
+  { name: 'Bayswater', state: 'VIC', latitude: -37.8420, longitude: 145.2680 },
+  { name: 'Campbellfield', state: 'VIC', latitude: -37.6800, longitude: 144.9570 },
+  { name: 'Tullamarine', state: 'VIC', latitude: -37.7010, longitude: 144.8800 },
+  { name: 'Laverton North', state: 'VIC', latitude: -37.8300, longitude: 144.7870 },
+  { name: 'Port Melbourne', state: 'VIC', latitude: -37.8390, longitude: 144.9420 },
+  { name: 'Braeside', state: 'VIC', latitude: -38.0000, longitude: 145.1170 },
+  { name: 'Moorabbin', state: 'VIC', latitude: -37.9380, longitude: 145.0580 },
+  { name: 'Thomastown', state: 'VIC', latitude: -37.6830, longitude: 145.0140 },
+  { name: 'Sunshine', state: 'VIC', latitude: -37.7880, longitude: 144.8330 },
+
+  // New South Wales
+  { name: 'Newcastle', state: 'NSW', latitude: -32.9283, longitude: 151.7817 },
+  { name: 'Wollongong', state: 'NSW', latitude: -34.4278, longitude: 150.8931 },
+  { name: 'Parramatta', state: 'NSW', latitude: -33.8150, longitude: 151.0011 },
+  { name: 'Penrith', state: 'NSW', latitude: -33.7507, longitude: 150.6877 },
+  { name: 'Albury', state: 'NSW', latitude: -36.0737, longitude: 146.9135 },
+  { name: 'Wagga Wagga', state: 'NSW', latitude: -35.1082, longitude: 147.3598 },
+  { name: 'Dubbo', state: 'NSW', latitude: -32.2569, longitude: 148.6011 },
+  { name: 'Orange', state: 'NSW', latitude: -33.2835, longitude: 149.1013 },
+  { name: 'Bathurst', state: 'NSW', latitude: -33.4193, longitude: 149.5775 },
+  { name: 'Tamworth', state: 'NSW', latitude: -31.0927, longitude: 150.9320 },
+  { name: 'Coffs Harbour', state: 'NSW', latitude: -30.2963, longitude: 153.1135 },
+  { name: 'Lismore', state: 'NSW', latitude: -28.8135, longitude: 153.2773 },
+  { name: 'Broken Hill', state: 'NSW', latitude: -31.9539, longitude: 141.4539 },
+  { name: 'Queanbeyan', state: 'NSW', latitude: -35.3533, longitude: 149.2343 },
+
+  // Queensland
+  { name: 'Gold Coast', state: 'QLD', latitude: -28.0167, longitude: 153.4000 },
+  { name: 'Sunshine Coast', state: 'QLD', latitude: -26.6500, longitude: 153.0667 },
+  { name: 'Townsville', state: 'QLD', latitude: -19.2590, longitude: 146.8169 },
+  { name: 'Cairns', state: 'QLD', latitude: -16.9186, longitude: 145.7781 },
+  { name: 'Toowoomba', state: 'QLD', latitude: -27.5598, longitude: 151.9507 },
+  { name: 'Mackay', state: 'QLD', latitude: -21.1411, longitude: 149.1861 },
+  { name: 'Rockhampton', state: 'QLD', latitude: -23.3791, longitude: 150.5100 },
+  { name: 'Bundaberg', state: 'QLD', latitude: -24.8661, longitude: 152.3489 },
+  { name: 'Gladstone', state: 'QLD', latitude: -23.8427, longitude: 151.2555 },
+  { name: 'Ipswich', state: 'QLD', latitude: -27.6144, longitude: 152.7580 },
+  { name: 'Mount Isa', state: 'QLD', latitude: -20.7256, longitude: 139.4927 },
+
+  // South Australia
+  { name: 'Mount Gambier', state: 'SA', latitude: -37.8284, longitude: 140.7804 },
+  { name: 'Whyalla', state: 'SA', latitude: -33.0333, longitude: 137.5833 },
+  { name: 'Port Augusta', state: 'SA', latitude: -32.4922, longitude: 137.7655 },
+  { name: 'Port Pirie', state: 'SA', latitude: -33.1858, longitude: 138.0171 },
+  { name: 'Port Lincoln', state: 'SA', latitude: -34.7261, longitude: 135.8600 },
+  { name: 'Murray Bridge', state: 'SA', latitude: -35.1197, longitude: 139.2734 },
+
+  // Western Australia
+  { name: 'Fremantle', state: 'WA', latitude: -32.0569, longitude: 115.7439 },
+  { name: 'Mandurah', state: 'WA', latitude: -32.5269, longitude: 115.7217 },
+  { name: 'Bunbury', state: 'WA', latitude: -33.3271, longitude: 115.6414 },
+  { name: 'Albany', state: 'WA', latitude: -35.0269, longitude: 117.8837 },
+  { name: 'Kalgoorlie', state: 'WA', latitude: -30.7489, longitude: 121.4658 },
+  { name: 'Geraldton', state: 'WA', latitude: -28.7774, longitude: 114.6150 },
+  { name: 'Karratha', state: 'WA', latitude: -20.7364, longitude: 116.8463 },
+  { name: 'Port Hedland', state: 'WA', latitude: -20.3107, longitude: 118.6060 },
+  { name: 'Broome', state: 'WA', latitude: -17.9614, longitude: 122.2359 },
+  { name: 'Welshpool', state: 'WA', latitude: -31.9950, longitude: 115.9440 },
+  { name: 'Malaga', state: 'WA', latitude: -31.8530, longitude: 115.8930 },
+
+  // Tasmania
+  { name: 'Launceston', state: 'TAS', latitude: -41.4332, longitude: 147.1441 },
+  { name: 'Devonport', state: 'TAS', latitude: -41.1769, longitude: 146.3514 },
+  { name: 'Burnie', state: 'TAS', latitude: -41.0520, longitude: 145.9060 },
+
+  // Northern Territory
+  { name: 'Alice Springs', state: 'NT', latitude: -23.6980, longitude: 133.8807 },
+  { name: 'Katherine', state: 'NT', latitude: -14.4652, longitude: 132.2635 },
+
+  // New Zealand
+  { name: 'Hamilton', state: 'NI', latitude: -37.7870, longitude: 175.2793 },
+  { name: 'Tauranga', state: 'NI', latitude: -37.6878, longitude: 176.1651 },
+  { name: 'Napier', state: 'NI', latitude: -39.4928, longitude: 176.9120 },
+  { name: 'Palmerston North', state: 'NI', latitude: -40.3523, longitude: 175.6082 },
+  { name: 'New Plymouth', state: 'NI', latitude: -39.0556, longitude: 174.0752 },
+  { name: 'Lower Hutt', state: 'NI', latitude: -41.2092, longitude: 174.9081 },
+  { name: 'Dunedin', state: 'SI', latitude: -45.8788, longitude: 170.5028 },
+  { name: 'Nelson', state: 'SI', latitude: -41.2706, longitude: 173.2840 },
+  { name: 'Invercargill', state: 'SI', latitude: -46.4132, longitude: 168.3538 },
+  { name: 'Queenstown', state: 'SI', latitude: -45.0312, longitude: 168.6626 },
+];
@@ -0,0 +1,22 @@
+// data/regionBounds.ts - Bounding boxes of the states and territories, used for offline map downloads
+
+export interface RegionBounds {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+// Rounded outwards to whole tenths of a degree; mainland plus nearshore islands
+export const STATE_BOUNDS: Record<string, RegionBounds> = {
+  VIC: { west: 140.9, south: -39.2, east: 150.0, north: -33.9 },
+  NSW: { west: 140.9, south: -37.6, east: 153.7, north: -28.1 },
+  QLD: { west: 137.9, south: -29.2, east: 153.6, north: -10.6 },
+  SA: { west: 128.9, south: -38.1, east: 141.1, north: -25.9 },
+  WA: { west: 112.9, south: -35.2, east: 129.1, north: -13.6 },
+  NT: { west: 128.9, south: -26.1, east: 138.1, north: -10.9 },
+  TAS: { west: 143.8, south: -43.7, east: 148.5, north: -39.5 },
+  ACT: { west: 148.7, south: -35.95, east: 149.4, north: -35.1 },
+  NI: { west: 172.6, south: -41.7, east: 178.6, north: -34.3 },
+  SI: { west: 166.4, south: -47.4, east: 174.5, north: -40.4 },
+};
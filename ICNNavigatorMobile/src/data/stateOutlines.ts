@@ -0,0 +1,70 @@
+// data/stateOutlines.ts - Coarse state and territory outlines for the choropleth overlay
+//
+// Outlines are simplified to a few dozen vertices: straight borders are exact, coastlines and
+// river borders are approximate. They are meant for shading at continental zoom levels, not
+// for deciding which state an address is in.
+
+export interface OutlinePoint {
+  latitude: number;
+  longitude: number;
+}
+
+// [longitude, latitude] pairs keep the tables compact
+const toPoints = (pairs: Array<[number, number]>): OutlinePoint[] =>
+  pairs.map(([longitude, latitude]) => ({ latitude, longitude }));
+
+export const STATE_OUTLINES: Record<string, OutlinePoint[]> = {
+  WA: toPoints([
+    [129.0, -14.9], [128.1, -15.0], [126.0, -14.0], [123.6, -17.3], [122.2, -17.96],
+    [118.6, -20.3], [114.1, -21.8], [113.5, -26.0], [114.6, -28.78], [115.75, -31.95],
+    [115.13, -34.37], [117.9, -35.0], [121.9, -33.86], [126.0, -32.3], [129.0, -31.7],
+  ]),
+  NT: toPoints([
+    [129.0, -14.9], [129.6, -13.5], [130.8, -12.4], [132.2, -11.3], [136.8, -12.2],
+    [136.0, -13.8], [135.5, -15.0], [136.7, -15.9], [138.0, -16.5], [138.0, -26.0],
+    [129.0, -26.0],
+  ]),
+  SA: toPoints([
+    [129.0, -26.0], [141.0, -26.0], [141.0, -38.06], [139.75, -37.16], [139.2, -36.0],
+    [138.9, -35.56], [138.1, -35.6], [138.5, -34.9], [138.1, -34.2], [137.8, -32.5],
+    [137.0, -35.2], [135.85, -34.7], [133.7, -32.1], [131.1, -31.5], [129.0, -31.7],
+  ]),
+  QLD: toPoints([
+    [138.0, -16.5], [139.5, -17.7], [140.8, -17.5], [141.85, -12.65], [142.5, -10.7],
+    [144.5, -14.2], [145.25, -15.47], [145.8, -16.9], [146.8, -19.25], [149.2, -21.1],
+    [150.8, -23.4], [152.4, -24.8], [153.3, -25.0], [153.4, -27.4], [153.55, -28.17],
+    [152.5, -28.3], [151.4, -28.9], [149.0, -29.0], [141.0, -29.0], [141.0, -26.0],
+    [138.0, -26.0],
+  ]),
+  NSW: toPoints([
+    [141.0, -29.0], [149.0, -29.0], [151.4, -28.9], [152.5, -28.3], [153.55, -28.17],
+    [153.64, -28.64], [153.15, -30.3], [152.9, -31.43], [151.8, -32.93], [151.3, -33.85],
+    [150.75, -35.1], [150.2, -35.7], [149.9, -37.07], [149.98, -37.5], [148.2, -36.8],
+    [148.0, -36.2], [146.92, -36.08], [146.0, -36.0], [144.75, -36.13], [143.55, -35.34],
+    [142.75, -34.57], [142.15, -34.2], [141.0, -34.0],
+  ]),
+  VIC: toPoints([
+    [141.0, -34.0], [142.15, -34.2], [142.75, -34.57], [143.55, -35.34], [144.75, -36.13],
+    [146.0, -36.0], [146.92, -36.08], [148.0, -36.2], [148.2, -36.8], [149.98, -37.5],
+    [148.0, -37.88], [146.4, -39.13], [144.65, -38.3], [144.3, -38.33], [143.5, -38.86],
+    [142.5, -38.4], [141.6, -38.35], [141.0, -38.06],
+  ]),
+  ACT: toPoints([
+    [149.0, -35.12], [149.2, -35.12], [149.4, -35.32], [149.1, -35.92], [148.8, -35.75],
+    [148.8, -35.4],
+  ]),
+  TAS: toPoints([
+    [144.6, -40.7], [146.3, -41.15], [148.3, -40.9], [148.3, -42.2], [147.9, -43.2],
+    [146.8, -43.6], [145.2, -42.2],
+  ]),
+  NI: toPoints([
+    [172.7, -34.4], [174.3, -35.5], [175.9, -36.5], [177.0, -37.9], [178.5, -37.7],
+    [177.9, -39.2], [176.9, -39.6], [176.2, -40.9], [175.2, -41.6], [174.8, -41.3],
+    [175.0, -39.9], [173.8, -39.3], [174.6, -38.2], [174.5, -37.0], [173.0, -35.2],
+  ]),
+  SI: toPoints([
+    [172.7, -40.5], [173.3, -41.3], [174.3, -41.2], [173.7, -42.4], [172.8, -43.7],
+    [171.3, -44.4], [170.6, -45.9], [169.0, -46.6], [167.5, -46.2], [166.5, -45.5],
+    [168.2, -44.0], [170.2, -43.0], [171.5, -41.8], [172.1, -40.8],
+  ]),
+};
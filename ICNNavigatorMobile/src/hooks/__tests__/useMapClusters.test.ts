@@ -0,0 +1,80 @@
+import { describe, expect, it } from '@jest/globals';
+import { getClusterColor, getSpiderOffsets, MapCluster, regionToZoom } from '../useMapClusters';
+
+const region = (longitudeDelta: number) => ({ latitude: -37.8, longitude: 145, latitudeDelta: longitudeDelta, longitudeDelta });
+
+const cluster = (count: number, verifiedCount: number): MapCluster => ({
+  type: 'cluster',
+  id: 1,
+  coordinate: { latitude: -37.8, longitude: 145 },
+  count,
+  verifiedCount,
+});
+
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+const ORIGIN = { x: 0, y: 0 };
+
+describe('regionToZoom', () => {
+  it('maps the visible longitude span to a web-mercator zoom level', () => {
+    expect(regionToZoom(region(360))).toBe(0);
+    expect(regionToZoom(region(45))).toBe(3);
+    expect(regionToZoom(region(0.01))).toBe(15);
+  });
+
+  it('clamps to one past the clustering limit and never goes below zero', () => {
+    expect(regionToZoom(region(0))).toBe(21);
+    expect(regionToZoom(region(720))).toBe(0);
+  });
+});
+
+describe('getClusterColor', () => {
+  it('uses the unverified colour when nothing is verified', () => {
+    expect(getClusterColor(cluster(4, 0), '#003366', '#00AA55')).toBe('#003366');
+    expect(getClusterColor(cluster(0, 0), '#003366', '#00AA55')).toBe('#003366');
+  });
+
+  it('uses the verified colour when everything is verified', () => {
+    expect(getClusterColor(cluster(4, 4), '#003366', '#00aa55')).toBe('#00aa55');
+  });
+
+  it('blends each channel by the verified share', () => {
+    expect(getClusterColor(cluster(2, 1), '#000000', '#ffffff')).toBe('#808080');
+    expect(getClusterColor(cluster(4, 1), '#ff0000', '#0000ff')).toBe('#bf0040');
+  });
+});
+
+describe('getSpiderOffsets', () => {
+  it('lays small groups on a circle starting straight above the cluster', () => {
+    const offsets = getSpiderOffsets(4);
+    const radius = (36 * 6) / (2 * Math.PI);
+
+    expect(offsets).toHaveLength(4);
+    offsets.forEach(offset => expect(distance(offset, ORIGIN)).toBeCloseTo(radius));
+    expect(offsets[0].x).toBeCloseTo(0);
+    expect(offsets[0].y).toBeCloseTo(-radius);
+    expect(offsets[2].y).toBeCloseTo(radius);
+  });
+
+  it('spaces circle leaves evenly, further apart as the group grows', () => {
+    const gaps = (count: number) => {
+      const offsets = getSpiderOffsets(count);
+      return offsets.map((offset, i) => distance(offset, offsets[(i + 1) % count]));
+    };
+
+    gaps(9).forEach(gap => expect(gap).toBeCloseTo(gaps(9)[0]));
+    expect(gaps(9)[0]).toBeGreaterThan(30);
+  });
+
+  it('switches to an outward spiral for more than nine leaves', () => {
+    const offsets = getSpiderOffsets(30);
+    const radii = offsets.map(offset => distance(offset, ORIGIN));
+
+    expect(radii[0]).toBeCloseTo(11);
+    radii.slice(1).forEach((radius, i) => expect(radius).toBeGreaterThan(radii[i]));
+  });
+
+  it('keeps spiral leaves from overlapping', () => {
+    const offsets = getSpiderOffsets(50);
+    offsets.forEach((a, i) => offsets.slice(i + 1).forEach(b => expect(distance(a, b)).toBeGreaterThan(20)));
+  });
+});
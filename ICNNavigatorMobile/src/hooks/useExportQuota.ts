@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Alert } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { useUserTier } from '../contexts/UserTierContext';
+import { useUser } from '../contexts/UserContext';
+import exportHistoryService, {
+  ExportQuota,
+  ExportDetails,
+  ExportLimitError,
+} from '../services/exportHistoryService';
+
+/**
+ * The signed-in user's export quota for this month, plus helpers that record exports
+ * in the ledger and prompt for an upgrade once the tier limit is reached
+ */
+export function useExportQuota() {
+  const navigation = useNavigation<any>();
+  const { user } = useUser();
+  const { features } = useUserTier();
+  const [quota, setQuota] = useState<ExportQuota | null>(null);
+
+  const refreshQuota = useCallback(async () => {
+    const current = await exportHistoryService.getQuota(user?.id, features.exportLimit);
+    setQuota(current);
+    return current;
+  }, [user?.id, features.exportLimit]);
+
+  useEffect(() => {
+    refreshQuota();
+  }, [refreshQuota]);
+
+  const showLimitReached = useCallback((limitQuota: ExportQuota) => {
+    const resetsOn = new Date(limitQuota.resetsOn).toLocaleDateString('en-AU', { day: 'numeric', month: 'long' });
+    Alert.alert(
+      'Export Limit Reached',
+      `You've used all ${limitQuota.limit} exports for this month. Your exports reset on ${resetsOn}, or upgrade your plan for more.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Upgrade', onPress: () => navigation.navigate('Payment') }
+      ]
+    );
+  }, [navigation]);
+
+  /**
+   * Check the quota before asking the user for export options. Shows the upgrade prompt
+   * and resolves to false when no exports are left.
+   */
+  const ensureExportAvailable = useCallback(async () => {
+    const current = await refreshQuota();
+    if (current.remaining === 0) {
+      showLimitReached(current);
+      return false;
+    }
+    return true;
+  }, [refreshQuota, showLimitReached]);
+
+  /**
+   * Run and record an export. Resolves to false when the quota blocked it; errors from the
+   * export itself are rethrown for the caller to report.
+   */
+  const runExport = useCallback(async (details: ExportDetails, task: () => Promise<number>) => {
+    try {
+      await exportHistoryService.trackExport(user?.id, features.exportLimit, details, task);
+      return true;
+    } catch (error) {
+      if (error instanceof ExportLimitError) {
+        showLimitReached(error.quota);
+        return false;
+      }
+      throw error;
+    } finally {
+      refreshQuota();
+    }
+  }, [user?.id, features.exportLimit, showLimitReached, refreshQuota]);
+
+  return { quota, refreshQuota, ensureExportAvailable, runExport };
+}
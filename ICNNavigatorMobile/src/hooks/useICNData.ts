@@ -1,6 +1,12 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Company, SearchFilters } from '../types';
-import icnDataService from '../services/icnDataService';
+import icnDataService, { GeocodeProgress } from '../services/icnDataService';
+import {
+  queryCompanies,
+  fromSearchFilters,
+  NO_TIER_FEATURES,
+  QueryTierFeatures,
+} from '../services/companyQueryEngine';
 
 export interface UseICNDataResult {
   companies: Company[];
@@ -9,13 +15,17 @@ export interface UseICNDataResult {
   searchResults: Company[];
   statistics: ReturnType<typeof icnDataService.getStatistics> | null;
   filterOptions: ReturnType<typeof icnDataService.getFilterOptions> | null;
+  geocodeProgress: GeocodeProgress;
   search: (searchText: string) => void;
   applyFilters: (filters: Partial<SearchFilters>) => void;
   getCompanyById: (id: string) => Company | undefined;
   refresh: () => Promise<void>;
 }
 
-export function useICNData(autoLoad: boolean = true): UseICNDataResult {
+export function useICNData(
+  autoLoad: boolean = true,
+  features: QueryTierFeatures = NO_TIER_FEATURES
+): UseICNDataResult {
   const [companies, setCompanies] = useState<Company[]>([]);
   const [searchResults, setSearchResults] = useState<Company[]>([]);
   const [loading, setLoading] = useState(true);
@@ -23,6 +33,7 @@ export function useICNData(autoLoad: boolean = true): UseICNDataResult {
   const [statistics, setStatistics] = useState<ReturnType<typeof icnDataService.getStatistics> | null>(null);
   const [filterOptions, setFilterOptions] = useState<ReturnType<typeof icnDataService.getFilterOptions> | null>(null);
   const [currentFilters, setCurrentFilters] = useState<Partial<SearchFilters>>({});
+  const [geocodeProgress, setGeocodeProgress] = useState<GeocodeProgress>(() => icnDataService.getGeocodeProgress());
 
   // Load data from JSON file
   const loadData = useCallback(async (forceReload: boolean = false) => {
@@ -41,6 +52,7 @@ export function useICNData(autoLoad: boolean = true): UseICNDataResult {
       setSearchResults(loadedCompanies); // Initially show all companies
       setStatistics(icnDataService.getStatistics());
       setFilterOptions(icnDataService.getFilterOptions());
+      setGeocodeProgress(icnDataService.getGeocodeProgress());
       
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to load ICN data';
@@ -58,6 +70,14 @@ export function useICNData(autoLoad: boolean = true): UseICNDataResult {
     }
   }, [autoLoad, loadData]);
 
+  // Locations arrive in background batches, reported every few seconds; a new array reference lets memoised views update
+  useEffect(() => {
+    return icnDataService.onGeocodeProgress(progress => {
+      setGeocodeProgress(progress);
+      setCompanies([...icnDataService.getCompanies()]);
+    });
+  }, []);
+
   // Search function
   const search = useCallback((searchText: string) => {
     if (!searchText.trim()) {
@@ -71,64 +91,16 @@ export function useICNData(autoLoad: boolean = true): UseICNDataResult {
     setCurrentFilters(prev => ({ ...prev, searchText }));
   }, [companies]);
 
-  // Apply filters
+  // Apply filters through the shared query engine
   const applyFilters = useCallback((filters: Partial<SearchFilters>) => {
-    let filtered = [...companies];
-    
-    // Text search
-    if (filters.searchText) {
-      filtered = icnDataService.searchCompanies(filters.searchText);
-    }
-    
-    // State filter
-    if (filters.state) {
-      filtered = filtered.filter(company => 
-        company.billingAddress?.state === filters.state
-      );
-    }
-    
-    // Company type filter
-    if (filters.companyTypes && filters.companyTypes.length > 0) {
-      filtered = filtered.filter(company =>
-        filters.companyTypes!.includes(company.companyType!)
-      );
-    }
-    
-    // Sectors filter
-    if (filters.sectors && filters.sectors.length > 0) {
-      filtered = filtered.filter(company =>
-        company.keySectors.some(sector => filters.sectors!.includes(sector))
-      );
-    }
-    
-    // Verification status filter
-    if (filters.verificationStatus && filters.verificationStatus !== 'all') {
-      filtered = filtered.filter(company =>
-        company.verificationStatus === filters.verificationStatus
-      );
-    }
-    
-    // Distance filter (if coordinates provided)
-    if (filters.latitude && filters.longitude && filters.distance) {
-      filtered = filtered.filter(company => {
-        const distance = calculateDistance(
-          filters.latitude!,
-          filters.longitude!,
-          company.latitude,
-          company.longitude
-        );
-        return distance <= filters.distance!;
-      });
-    }
-    
-    // Sort
-    if (filters.sortBy) {
-      filtered = sortCompanies(filtered, filters.sortBy, filters.sortOrder);
-    }
+    const { companies: filtered } = queryCompanies(companies, fromSearchFilters(filters), {
+      features,
+      textSearch: text => icnDataService.searchCompanies(text),
+    });
     
     setSearchResults(filtered);
     setCurrentFilters(filters);
-  }, [companies]);
+  }, [companies, features]);
 
   // Get company by ID
   const getCompanyById = useCallback((id: string): Company | undefined => {
@@ -147,6 +119,7 @@ export function useICNData(autoLoad: boolean = true): UseICNDataResult {
     searchResults,
     statistics,
     filterOptions,
+    geocodeProgress,
     search,
     applyFilters,
     getCompanyById,
@@ -154,61 +127,6 @@ export function useICNData(autoLoad: boolean = true): UseICNDataResult {
   };
 }
 
-// Helper function to calculate distance between coordinates
-function calculateDistance(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-): number {
-  const R = 6371; // Earth's radius in kilometers
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLon = (lon2 - lon1) * Math.PI / 180;
-  const a = 
-    Math.sin(dLat/2) * Math.sin(dLat/2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-    Math.sin(dLon/2) * Math.sin(dLon/2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  return R * c;
-}
-
-// Helper function to sort companies
-function sortCompanies(
-  companies: Company[],
-  sortBy: string,
-  sortOrder: 'asc' | 'desc' = 'asc'
-): Company[] {
-  const sorted = [...companies];
-  
-  switch (sortBy) {
-    case 'name':
-      sorted.sort((a, b) => a.name.localeCompare(b.name));
-      break;
-    case 'verified':
-      sorted.sort((a, b) => {
-        if (a.verificationStatus === 'verified' && b.verificationStatus !== 'verified') return -1;
-        if (a.verificationStatus !== 'verified' && b.verificationStatus === 'verified') return 1;
-        return 0;
-      });
-      break;
-    case 'distance':
-      // Distance sorting requires coordinates context, skip for now
-      break;
-    case 'rating':
-      sorted.sort((a, b) => (b.rating || 0) - (a.rating || 0));
-      break;
-    default:
-      // relevance - keep original order
-      break;
-  }
-  
-  if (sortOrder === 'desc') {
-    sorted.reverse();
-  }
-  
-  return sorted;
-}
-
 // React Native specific hook with AsyncStorage caching
 export function useICNDataNative() {
   // You can add React Native specific features here
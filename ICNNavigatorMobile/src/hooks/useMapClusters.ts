@@ -0,0 +1,223 @@
+// hooks/useMapClusters.ts - Zoom-dependent marker clustering and spiderfying for the company map
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Dimensions } from 'react-native';
+import { LatLng, Region } from 'react-native-maps';
+import Supercluster from 'supercluster';
+import { Company } from '../types';
+
+// Clusters stay together up to street level; only truly co-located companies
+// (typically sharing a postcode or state fallback coordinate) remain clustered beyond it
+const CLUSTER_RADIUS = 60;
+const CLUSTER_MAX_ZOOM = 20;
+
+// Spiderfy layout in screen pixels
+const CIRCLE_FOOT_SEPARATION = 36;
+const SPIRAL_FOOT_SEPARATION = 28;
+const SPIRAL_LENGTH_START = 11;
+const SPIRAL_LENGTH_FACTOR = 5;
+const CIRCLE_SPIRAL_SWITCHOVER = 9; // more leaves than this are laid out on a spiral
+
+interface CompanyPointProperties {
+  companyId: string;
+  verified: number;
+}
+
+interface ClusterAggregate {
+  verified: number;
+}
+
+export interface MapCluster {
+  type: 'cluster';
+  id: number;
+  coordinate: LatLng;
+  count: number;
+  verifiedCount: number;
+}
+
+export interface MapCompanyPoint {
+  type: 'company';
+  company: Company;
+  coordinate: LatLng;
+}
+
+export type MapClusterItem = MapCluster | MapCompanyPoint;
+
+export interface SpiderfiedCluster {
+  clusterId: number;
+  center: LatLng;
+  leaves: MapCompanyPoint[]; // coordinates are the spread-out display positions
+}
+
+export interface UseMapClustersResult {
+  items: MapClusterItem[];
+  spiderfied: SpiderfiedCluster | null;
+  /** Region that splits the cluster, or null when its companies share one location */
+  getExpansionRegion: (cluster: MapCluster) => Region | null;
+  spiderfy: (cluster: MapCluster) => void;
+  clearSpiderfy: () => void;
+}
+
+const toNumber = (v: any) => (typeof v === 'string' ? parseFloat(v) : v);
+
+/**
+ * Web-mercator zoom level for the visible longitude span
+ */
+export function regionToZoom(region: Region): number {
+  const zoom = Math.log2(360 / Math.max(region.longitudeDelta, 1e-6));
+  return Math.max(0, Math.min(CLUSTER_MAX_ZOOM + 1, Math.round(zoom)));
+}
+
+/**
+ * Visible bounds as [west, south, east, north], padded so markers just off-screen
+ * are already clustered when panning
+ */
+function regionToBBox(region: Region): [number, number, number, number] {
+  const padLng = region.longitudeDelta * 0.25;
+  const padLat = region.latitudeDelta * 0.25;
+  return [
+    region.longitude - region.longitudeDelta / 2 - padLng,
+    Math.max(-90, region.latitude - region.latitudeDelta / 2 - padLat),
+    region.longitude + region.longitudeDelta / 2 + padLng,
+    Math.min(90, region.latitude + region.latitudeDelta / 2 + padLat),
+  ];
+}
+
+function zoomToLongitudeDelta(zoom: number): number {
+  return 360 / Math.pow(2, zoom);
+}
+
+/**
+ * Pixel offsets for spiderfied leaves: a circle for small groups, a spiral for large ones
+ */
+export function getSpiderOffsets(count: number): Array<{ x: number; y: number }> {
+  if (count <= CIRCLE_SPIRAL_SWITCHOVER) {
+    const radius = (CIRCLE_FOOT_SEPARATION * (2 + count)) / (2 * Math.PI);
+    const step = (2 * Math.PI) / count;
+    return Array.from({ length: count }, (_, i) => ({
+      x: radius * Math.cos(i * step - Math.PI / 2),
+      y: radius * Math.sin(i * step - Math.PI / 2),
+    }));
+  }
+
+  const offsets: Array<{ x: number; y: number }> = [];
+  let legLength = SPIRAL_LENGTH_START;
+  let angle = 0;
+  for (let i = 0; i < count; i++) {
+    angle += SPIRAL_FOOT_SEPARATION / legLength + i * 0.0005;
+    offsets.push({ x: legLength * Math.cos(angle), y: legLength * Math.sin(angle) });
+    legLength += (2 * Math.PI * SPIRAL_LENGTH_FACTOR) / angle;
+  }
+  return offsets;
+}
+
+/**
+ * Cluster the given companies for the current map region. Companies must already
+ * have valid coordinates.
+ */
+export function useMapClusters(companies: Company[], region: Region): UseMapClustersResult {
+  const [spiderfied, setSpiderfied] = useState<SpiderfiedCluster | null>(null);
+
+  const companiesById = useMemo(() => new Map(companies.map(c => [c.id, c])), [companies]);
+
+  const index = useMemo(() => {
+    const cluster = new Supercluster<CompanyPointProperties, ClusterAggregate>({
+      radius: CLUSTER_RADIUS,
+      maxZoom: CLUSTER_MAX_ZOOM,
+      map: props => ({ verified: props.verified }),
+      reduce: (accumulated, props) => {
+        accumulated.verified += props.verified;
+      },
+    });
+    cluster.load(
+      companies.map(company => ({
+        type: 'Feature' as const,
+        geometry: { type: 'Point' as const, coordinates: [toNumber(company.longitude), toNumber(company.latitude)] },
+        properties: { companyId: company.id, verified: company.verificationStatus === 'verified' ? 1 : 0 },
+      }))
+    );
+    return cluster;
+  }, [companies]);
+
+  const zoom = regionToZoom(region);
+
+  // Cluster ids are only meaningful for the index and zoom they came from
+  useEffect(() => {
+    setSpiderfied(null);
+  }, [index, zoom]);
+
+  const items = useMemo<MapClusterItem[]>(() => {
+    const result: MapClusterItem[] = [];
+    index.getClusters(regionToBBox(region), zoom).forEach(feature => {
+      const [longitude, latitude] = feature.geometry.coordinates;
+      const props = feature.properties;
+      if ('cluster' in props && props.cluster) {
+        result.push({
+          type: 'cluster',
+          id: props.cluster_id,
+          coordinate: { latitude, longitude },
+          count: props.point_count,
+          verifiedCount: props.verified,
+        });
+        return;
+      }
+      const company = companiesById.get((props as CompanyPointProperties).companyId);
+      if (company) result.push({ type: 'company', company, coordinate: { latitude, longitude } });
+    });
+    return result;
+  }, [index, companiesById, region, zoom]);
+
+  const getExpansionRegion = useCallback((cluster: MapCluster): Region | null => {
+    const expansionZoom = index.getClusterExpansionZoom(cluster.id);
+    if (expansionZoom > CLUSTER_MAX_ZOOM) return null;
+
+    const longitudeDelta = zoomToLongitudeDelta(expansionZoom);
+    return {
+      latitude: cluster.coordinate.latitude,
+      longitude: cluster.coordinate.longitude,
+      latitudeDelta: longitudeDelta * Math.cos((cluster.coordinate.latitude * Math.PI) / 180),
+      longitudeDelta,
+    };
+  }, [index]);
+
+  const spiderfy = useCallback((cluster: MapCluster) => {
+    const leaves = index.getLeaves(cluster.id, Infinity);
+    const offsets = getSpiderOffsets(leaves.length);
+
+    // Convert pixel offsets to degrees at the current zoom (mercator shrinks latitude spans)
+    const lngPerPixel = region.longitudeDelta / Dimensions.get('window').width;
+    const latPerPixel = lngPerPixel * Math.cos((cluster.coordinate.latitude * Math.PI) / 180);
+
+    const spread: MapCompanyPoint[] = [];
+    leaves.forEach((leaf, i) => {
+      const company = companiesById.get(leaf.properties.companyId);
+      if (!company) return;
+      spread.push({
+        type: 'company',
+        company,
+        coordinate: {
+          latitude: cluster.coordinate.latitude - offsets[i].y * latPerPixel,
+          longitude: cluster.coordinate.longitude + offsets[i].x * lngPerPixel,
+        },
+      });
+    });
+
+    setSpiderfied({ clusterId: cluster.id, center: cluster.coordinate, leaves: spread });
+  }, [index, companiesById, region]);
+
+  const clearSpiderfy = useCallback(() => setSpiderfied(null), []);
+
+  return { items, spiderfied, getExpansionRegion, spiderfy, clearSpiderfy };
+}
+
+/**
+ * Cluster colour blended from unverified (primary) to verified (success) by the verified share
+ */
+export function getClusterColor(cluster: MapCluster, unverifiedColor: string, verifiedColor: string): string {
+  const ratio = cluster.count > 0 ? cluster.verifiedCount / cluster.count : 0;
+  const parse = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+  const from = parse(unverifiedColor);
+  const to = parse(verifiedColor);
+  return `#${from
+    .map((channel, i) => Math.round(channel + (to[i] - channel) * ratio).toString(16).padStart(2, '0'))
+    .join('')}`;
+}
@@ -1,14 +1,20 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import AuthNavigator from './AuthNavigator';
 import MainNavigator from './MainNavigator';
+import DatasetErrorScreen from '../screens/main/DatasetErrorScreen';
 import { useUser } from '../contexts/UserContext';
+import icnDataService from '../services/icnDataService';
 
 const Stack = createNativeStackNavigator();
 
 export default function AppNavigator() {
   const { user, isLoading } = useUser();
+  const [datasetError, setDatasetError] = useState(() => icnDataService.getDatasetError());
+  
+  // Screens load the ICN data on demand; an unsupported dataset replaces the whole app
+  useEffect(() => icnDataService.onDatasetError(setDatasetError), []);
   
   // Consider user authenticated if user data exists
   const isAuthenticated = !!user;
@@ -21,7 +27,9 @@ export default function AppNavigator() {
   return (
     <NavigationContainer>
       <Stack.Navigator screenOptions={{ headerShown: false }}>
-        {isAuthenticated ? (
+        {isAuthenticated && datasetError ? (
+          <Stack.Screen name="DatasetError" component={DatasetErrorScreen} />
+        ) : isAuthenticated ? (
           <Stack.Screen name="Main" component={MainNavigator} />
         ) : (
           <Stack.Screen name="Auth" component={AuthNavigator} />
@@ -6,6 +6,7 @@ import { View, Text, StyleSheet, Platform, TouchableOpacity } from 'react-native
 import { Colors } from '../constants/colors';
 import CompaniesStack from './CompaniesStack';
 import MapStack from './MapStack';
+import CatalogueStack from './CatalogueStack';
 import ProfileStack from './ProfileStack';
 
 const Tab = createBottomTabNavigator();
@@ -45,6 +46,8 @@ export default function BottomTabNavigator() {
             iconName = 'list';
           } else if (route.name === 'Map') {
             iconName = 'location';
+          } else if (route.name === 'Catalogue') {
+            iconName = 'cube';
           } else {
             iconName = 'person';
           }
@@ -139,6 +142,14 @@ export default function BottomTabNavigator() {
           },
         }}
       />
+      <Tab.Screen 
+        name="Catalogue" 
+        component={CatalogueStack}
+        options={{
+          headerShown: false, // The stack shows its own headers while drilling down
+          title: 'Items',
+        }}
+      />
       <Tab.Screen 
         name="Profile" 
         component={ProfileStack}
@@ -0,0 +1,45 @@
+import React from 'react';
+import { createNativeStackNavigator } from '@react-navigation/native-stack';
+import CatalogueScreen from '../screens/main/CatalogueScreen';
+import CatalogueItemScreen from '../screens/main/CatalogueItemScreen';
+import CompanyDetailScreen from '../screens/main/CompanyDetailScreen';
+
+export type CatalogueStackParamList = {
+  CatalogueBrowse: { sectorName?: string; itemId?: string; itemName?: string } | undefined;
+  CatalogueItem: { detailedItemId: string; title?: string };
+  CompanyDetail: { companyId: string; companyName?: string };
+};
+
+const Stack = createNativeStackNavigator<CatalogueStackParamList>();
+
+export default function CatalogueStack() {
+  return (
+    <Stack.Navigator>
+      <Stack.Screen 
+        name="CatalogueBrowse" 
+        component={CatalogueScreen}
+        options={{ 
+          title: 'Item Catalogue',
+          headerBackTitle: 'Back',
+          animation: 'slide_from_right'
+        }}
+      />
+      <Stack.Screen 
+        name="CatalogueItem" 
+        component={CatalogueItemScreen}
+        options={{ 
+          headerBackTitle: 'Back',
+          animation: 'slide_from_right'
+        }}
+      />
+      <Stack.Screen 
+        name="CompanyDetail" 
+        component={CompanyDetailScreen}
+        options={{ 
+          headerShown: false,
+          animation: 'slide_from_right'
+        }}
+      />
+    </Stack.Navigator>
+  );
+}
@@ -2,10 +2,14 @@ import React from 'react';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import CompaniesScreen from '../screens/main/CompaniesScreen';
 import CompanyDetailScreen from '../screens/main/CompanyDetailScreen';
+import GapAnalysisScreen from '../screens/main/GapAnalysisScreen';
+import CompareCompaniesScreen from '../screens/main/CompareCompaniesScreen';
 
 export type CompaniesStackParamList = {
   CompaniesList: undefined;
   CompanyDetail: { companyId: string; companyName?: string };
+  GapAnalysis: undefined;
+  CompareCompanies: { companyIds?: string[]; folderId?: string };
 };
 
 const Stack = createNativeStackNavigator<CompaniesStackParamList>();
@@ -26,6 +30,24 @@ export default function CompaniesStack() {
           animation: 'slide_from_right'
         }}
       />
+      <Stack.Screen 
+        name="GapAnalysis" 
+        component={GapAnalysisScreen}
+        options={{ 
+          title: 'Capability Gap Analysis',
+          headerBackTitle: 'Companies',
+          animation: 'slide_from_right'
+        }}
+      />
+      <Stack.Screen 
+        name="CompareCompanies" 
+        component={CompareCompaniesScreen}
+        options={{ 
+          title: 'Compare Suppliers',
+          headerBackTitle: 'Companies',
+          animation: 'slide_from_right'
+        }}
+      />
     </Stack.Navigator>
   );
 }
\ No newline at end of file
@@ -5,6 +5,8 @@ import EditProfileScreen from '../screens/main/EditProfileScreen';
 import ChangePasswordScreen from '../screens/main/ChangePasswordScreen';
 import PaymentScreen from '../screens/subscription/PaymentScreen';
 import ManageSubscriptionScreen from '../screens/subscription/ManageSubscriptionScreen';
+import DataQualityScreen from '../screens/main/DataQualityScreen';
+import DatasetUpdatesScreen from '../screens/main/DatasetUpdatesScreen';
 import { Colors } from '../constants/colors';
 
 export type MainStackParamList = {
@@ -13,6 +15,8 @@ export type MainStackParamList = {
   ChangePassword: undefined;
   Payment: { planType?: string };
   ManageSubscription: undefined;
+  DataQuality: undefined;
+  DatasetUpdates: undefined;
 };
 
 const Stack = createNativeStackNavigator<MainStackParamList>();
@@ -77,6 +81,26 @@ export default function MainNavigator() {
           animation: 'slide_from_right'
         }}
       />
+      
+      <Stack.Screen 
+        name="DataQuality" 
+        component={DataQualityScreen}
+        options={{ 
+          title: 'Data Quality',
+          headerBackTitle: 'Back',
+          animation: 'slide_from_right'
+        }}
+      />
+      
+      <Stack.Screen 
+        name="DatasetUpdates" 
+        component={DatasetUpdatesScreen}
+        options={{ 
+          title: 'Data Updates',
+          headerBackTitle: 'Back',
+          animation: 'slide_from_right'
+        }}
+      />
     </Stack.Navigator>
   );
 }
@@ -2,10 +2,13 @@ import React from 'react';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import MapScreen from '../screens/main/MapScreen';
 import CompanyDetailScreen from '../screens/main/CompanyDetailScreen';
+import OfflineMapsScreen from '../screens/main/OfflineMapsScreen';
+import { RegionBounds } from '../data/regionBounds';
 
 export type MapStackParamList = {
   MapView: undefined;
   CompanyDetail: { companyId: string; companyName?: string };
+  OfflineMaps: { bounds?: RegionBounds } | undefined;
 };
 
 const Stack = createNativeStackNavigator<MapStackParamList>();
@@ -26,6 +29,15 @@ export default function MapStack() {
           animation: 'slide_from_bottom'
         }}
       />
+      <Stack.Screen 
+        name="OfflineMaps" 
+        component={OfflineMapsScreen}
+        options={{ 
+          title: 'Offline Maps',
+          headerBackTitle: 'Map',
+          animation: 'slide_from_right'
+        }}
+      />
     </Stack.Navigator>
   );
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { NavigatorScreenParams } from '@react-navigation/native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RegionBounds } from '../data/regionBounds';
 
 // Auth types
 export type AuthStackParamList = {
@@ -14,12 +15,15 @@ export type MainStackParamList = {
   ChangePassword: undefined;
   Payment: { planType?: string };
   ManageSubscription: undefined;
+  DataQuality: undefined;
+  DatasetUpdates: undefined;
 };
 
 // Tab types
 export type TabParamList = {
   Companies: NavigatorScreenParams<CompaniesStackParamList>;
   Map: NavigatorScreenParams<MapStackParamList>;
+  Catalogue: NavigatorScreenParams<CatalogueStackParamList>;
   Profile: NavigatorScreenParams<ProfileStackParamList>;
 };
 
@@ -27,12 +31,22 @@ export type TabParamList = {
 export type CompaniesStackParamList = {
   CompaniesList: undefined;
   CompanyDetail: { companyId: string; companyName?: string };
+  GapAnalysis: undefined;
+  CompareCompanies: { companyIds?: string[]; folderId?: string };
 };
 
 // Map Stack types
 export type MapStackParamList = {
   MapView: undefined;
   CompanyDetail: { companyId: string; companyName?: string };
+  OfflineMaps: { bounds?: RegionBounds } | undefined;
+};
+
+// Catalogue Stack types
+export type CatalogueStackParamList = {
+  CatalogueBrowse: { sectorName?: string; itemId?: string; itemName?: string } | undefined;
+  CatalogueItem: { detailedItemId: string; title?: string };
+  CompanyDetail: { companyId: string; companyName?: string };
 };
 
 // Profile Stack types
@@ -44,6 +58,7 @@ export type ProfileStackParamList = {
 export type RootStackParamList = {
   Auth: NavigatorScreenParams<AuthStackParamList>;
   Main: NavigatorScreenParams<MainStackParamList>;
+  DatasetError: undefined;
 };
 
 // Helper types for screen props
@@ -62,5 +77,8 @@ export type CompaniesStackScreenProps<T extends keyof CompaniesStackParamList> =
 export type MapStackScreenProps<T extends keyof MapStackParamList> = 
   NativeStackScreenProps<MapStackParamList, T>;
 
+export type CatalogueStackScreenProps<T extends keyof CatalogueStackParamList> = 
+  NativeStackScreenProps<CatalogueStackParamList, T>;
+
 export type ProfileStackScreenProps<T extends keyof ProfileStackParamList> = 
   NativeStackScreenProps<ProfileStackParamList, T>;
\ No newline at end of file
@@ -0,0 +1,153 @@
+import React, { useState, useEffect, useMemo, useLayoutEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { Colors } from '../../constants/colors';
+import { Company, ICNItem } from '../../types';
+import { CatalogueStackParamList } from '../../navigation/types';
+import icnDataService, { normalizeStateTerritory } from '../../services/icnDataService';
+import { getSectorName, getItemName, getDetailedItemName, getItemSubtotal } from '../../utils/itemCatalogue';
+
+interface SupplierRow {
+  key: string;
+  name: string;
+  capabilityType: string;
+  state: string;
+  company?: Company; // Missing when the organisation was skipped or sampled out
+}
+
+export default function CatalogueItemScreen() {
+  const navigation = useNavigation<any>();
+  const route = useRoute<RouteProp<CatalogueStackParamList, 'CatalogueItem'>>();
+  const { detailedItemId, title } = route.params;
+
+  const [item, setItem] = useState<ICNItem | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        if (!icnDataService.isDataLoaded()) await icnDataService.loadData();
+        setItem(icnDataService.getICNItems().find(i => i['Detailed Item ID'] === detailedItemId) || null);
+      } catch (error) {
+        console.error('Error loading ICN item:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    })();
+  }, [detailedItemId]);
+
+  useLayoutEffect(() => {
+    navigation.setOptions({ title: title || (item ? getDetailedItemName(item) : 'Item') });
+  }, [navigation, title, item]);
+
+  const suppliers: SupplierRow[] = useMemo(() => {
+    if (!item) return [];
+    const seen = new Set<string>();
+    return (item.Organizations || [])
+      .filter(org => {
+        const id = org['Organisation: Organisation ID'];
+        if (!id || seen.has(id)) return false;
+        seen.add(id);
+        return true;
+      })
+      .map(org => {
+        const company = icnDataService.getCompanyById(org['Organisation: Organisation ID']);
+        return {
+          key: org['Organisation Capability'] || org['Organisation: Organisation ID'],
+          name: company?.name || org['Organisation: Organisation Name'],
+          capabilityType: org['Capability Type'],
+          state: company?.billingAddress?.state || normalizeStateTerritory(org['Organisation: Billing State/Province'], org['Organisation: Billing Zip/Postal Code']) || '',
+          company,
+        };
+      })
+      .sort((a, b) => {
+        const aVerified = a.company?.verificationStatus === 'verified';
+        const bVerified = b.company?.verificationStatus === 'verified';
+        return aVerified === bVerified ? a.name.localeCompare(b.name) : aVerified ? -1 : 1;
+      });
+  }, [item]);
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+      </View>
+    );
+  }
+
+  if (!item) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Ionicons name="cube-outline" size={48} color={Colors.black50} />
+        <Text style={styles.emptyText}>This item is no longer in the ICN data.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={styles.listContent}
+      data={suppliers}
+      keyExtractor={row => row.key}
+      ListHeaderComponent={
+        <View style={styles.header}>
+          <Text style={styles.breadcrumb}>{getSectorName(item)} / {getItemName(item)}</Text>
+          <Text style={styles.title}>{getDetailedItemName(item)}</Text>
+          <View style={styles.subtotal}>
+            <Text style={styles.subtotalValue}>{getItemSubtotal(item)}</Text>
+            <Text style={styles.subtotalLabel}>organisations supply this item</Text>
+          </View>
+          <Text style={styles.sectionTitle}>Organisations</Text>
+        </View>
+      }
+      ListEmptyComponent={<Text style={styles.emptyText}>No organisations listed for this item.</Text>}
+      renderItem={({ item: row }) => (
+        <TouchableOpacity
+          style={styles.row}
+          onPress={() => row.company && navigation.navigate('CompanyDetail', { company: row.company })}
+          disabled={!row.company}
+        >
+          <Ionicons
+            name={row.company?.verificationStatus === 'verified' ? 'checkmark-circle' : 'ellipse-outline'}
+            size={18}
+            color={row.company?.verificationStatus === 'verified' ? Colors.success : Colors.black50}
+          />
+          <View style={styles.rowInfo}>
+            <Text style={styles.rowTitle} numberOfLines={1}>{row.name}</Text>
+            <Text style={styles.rowSubtitle}>
+              {row.capabilityType}{row.state ? ` - ${row.state}` : ''}
+            </Text>
+          </View>
+          {row.company && <Ionicons name="chevron-forward" size={18} color={Colors.black50} />}
+        </TouchableOpacity>
+      )}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.white },
+  loadingContainer: { flex: 1, justifyContent: 'center', alignItems: 'center', padding: 32, backgroundColor: Colors.white },
+  listContent: { paddingHorizontal: 16, paddingBottom: 120 },
+  header: { paddingTop: 16 },
+  breadcrumb: { fontSize: 12, color: Colors.black50 },
+  title: { fontSize: 20, fontWeight: '700', color: Colors.text, marginTop: 4 },
+  subtotal: { flexDirection: 'row', alignItems: 'baseline', gap: 8, marginTop: 12, padding: 12, borderRadius: 12, backgroundColor: Colors.orange[400] },
+  subtotalValue: { fontSize: 22, fontWeight: '700', color: Colors.navy },
+  subtotalLabel: { fontSize: 13, color: Colors.black80 },
+  sectionTitle: { fontSize: 16, fontWeight: '600', color: Colors.text, marginTop: 20, marginBottom: 4 },
+  row: { flexDirection: 'row', alignItems: 'center', gap: 10, paddingVertical: 12, borderBottomWidth: 1, borderBottomColor: Colors.black20 },
+  rowInfo: { flex: 1 },
+  rowTitle: { fontSize: 15, color: Colors.text },
+  rowSubtitle: { fontSize: 12, color: Colors.black50, marginTop: 2 },
+  emptyText: { fontSize: 14, color: Colors.black50, textAlign: 'center', marginTop: 16 },
+});
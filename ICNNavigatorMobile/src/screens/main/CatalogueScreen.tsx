@@ -0,0 +1,176 @@
+import React, { useState, useEffect, useMemo, useLayoutEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { Colors } from '../../constants/colors';
+import { CatalogueStackParamList } from '../../navigation/types';
+import icnDataService from '../../services/icnDataService';
+import {
+  getItemCatalogue,
+  getDetailedItemName,
+  getItemSubtotal,
+  CatalogueSector,
+} from '../../utils/itemCatalogue';
+
+interface CatalogueRow {
+  key: string;
+  title: string;
+  subtitle: string;
+  count: number;
+  onPress: () => void;
+}
+
+/**
+ * One screen for each level of the hierarchy: sectors, the items in a sector,
+ * and the detailed items of an item
+ */
+export default function CatalogueScreen() {
+  const navigation = useNavigation<any>();
+  const route = useRoute<RouteProp<CatalogueStackParamList, 'CatalogueBrowse'>>();
+  const sectorName = route.params?.sectorName;
+  const itemId = route.params?.itemId;
+
+  const [sectors, setSectors] = useState<CatalogueSector[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filterText, setFilterText] = useState('');
+
+  useEffect(() => {
+    (async () => {
+      try {
+        if (!icnDataService.isDataLoaded()) await icnDataService.loadData();
+        setSectors(getItemCatalogue(icnDataService.getICNItems()));
+      } catch (error) {
+        console.error('Error loading ICN items:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    })();
+  }, []);
+
+  const sector = sectorName ? sectors.find(s => s.sectorName === sectorName) : undefined;
+  const item = sector && itemId ? sector.items.find(i => i.itemId === itemId) : undefined;
+
+  useLayoutEffect(() => {
+    navigation.setOptions({ title: route.params?.itemName || sectorName || 'Item Catalogue' });
+  }, [navigation, route.params?.itemName, sectorName]);
+
+  const rows: CatalogueRow[] = useMemo(() => {
+    if (item) {
+      return item.detailedItems.map(detailedItem => ({
+        key: detailedItem['Detailed Item ID'] || detailedItem._id?.$oid,
+        title: getDetailedItemName(detailedItem),
+        subtitle: detailedItem['Detailed Item ID'] ? `ID ${detailedItem['Detailed Item ID']}` : '',
+        count: getItemSubtotal(detailedItem),
+        onPress: () => navigation.push('CatalogueItem', {
+          detailedItemId: detailedItem['Detailed Item ID'],
+          title: getDetailedItemName(detailedItem),
+        }),
+      }));
+    }
+    if (sector) {
+      return sector.items.map(catalogueItem => ({
+        key: catalogueItem.itemId,
+        title: catalogueItem.itemName,
+        subtitle: `${catalogueItem.detailedItems.length} detailed item${catalogueItem.detailedItems.length === 1 ? '' : 's'}`,
+        count: catalogueItem.organisationCount,
+        onPress: () => navigation.push('CatalogueBrowse', {
+          sectorName: sector.sectorName,
+          itemId: catalogueItem.itemId,
+          itemName: catalogueItem.itemName,
+        }),
+      }));
+    }
+    return sectors.map(s => ({
+      key: s.sectorName,
+      title: s.sectorName,
+      subtitle: `${s.items.length} items - ${s.detailedItemCount} detailed items`,
+      count: s.organisationCount,
+      onPress: () => navigation.push('CatalogueBrowse', { sectorName: s.sectorName }),
+    }));
+  }, [sectors, sector, item, navigation]);
+
+  const visibleRows = useMemo(() => {
+    const text = filterText.trim().toLowerCase();
+    return text ? rows.filter(row => row.title.toLowerCase().includes(text)) : rows;
+  }, [rows, filterText]);
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+        <Text style={styles.loadingText}>Loading ICN items...</Text>
+      </View>
+    );
+  }
+
+  const notFound = (sectorName && !sector) || (itemId && !item);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchBox}>
+        <Ionicons name="search" size={18} color={Colors.black50} />
+        <TextInput
+          style={styles.searchInput}
+          value={filterText}
+          onChangeText={setFilterText}
+          placeholder={item ? 'Filter detailed items' : sector ? 'Filter items' : 'Filter sectors'}
+          placeholderTextColor={Colors.black50}
+          clearButtonMode="while-editing"
+        />
+      </View>
+
+      <FlatList
+        data={visibleRows}
+        keyExtractor={row => row.key}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={
+          <Text style={styles.countHeader}>
+            {item ? 'Organisations (Subtotal)' : 'Organisations'}
+          </Text>
+        }
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            {notFound ? 'This part of the catalogue is no longer in the data.' : 'Nothing matches this filter.'}
+          </Text>
+        }
+        renderItem={({ item: row }) => (
+          <TouchableOpacity style={styles.row} onPress={row.onPress}>
+            <View style={styles.rowInfo}>
+              <Text style={styles.rowTitle} numberOfLines={2}>{row.title}</Text>
+              {!!row.subtitle && <Text style={styles.rowSubtitle}>{row.subtitle}</Text>}
+            </View>
+            <View style={styles.countBadge}>
+              <Text style={styles.countText}>{row.count}</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={Colors.black50} />
+          </TouchableOpacity>
+        )}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.white },
+  loadingContainer: { flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: Colors.white },
+  loadingText: { marginTop: 12, fontSize: 16, color: Colors.text },
+  searchBox: { flexDirection: 'row', alignItems: 'center', gap: 8, margin: 16, marginBottom: 8, paddingHorizontal: 12, borderRadius: 10, borderWidth: 1, borderColor: Colors.black20 },
+  searchInput: { flex: 1, paddingVertical: 10, fontSize: 14, color: Colors.text },
+  listContent: { paddingHorizontal: 16, paddingBottom: 120 },
+  countHeader: { fontSize: 11, color: Colors.black50, textAlign: 'right', marginBottom: 4, marginRight: 26 },
+  row: { flexDirection: 'row', alignItems: 'center', gap: 10, paddingVertical: 14, borderBottomWidth: 1, borderBottomColor: Colors.black20 },
+  rowInfo: { flex: 1 },
+  rowTitle: { fontSize: 15, fontWeight: '500', color: Colors.text },
+  rowSubtitle: { fontSize: 12, color: Colors.black50, marginTop: 2 },
+  countBadge: { minWidth: 36, paddingHorizontal: 8, paddingVertical: 4, borderRadius: 12, backgroundColor: Colors.orange[400], alignItems: 'center' },
+  countText: { fontSize: 13, fontWeight: '600', color: Colors.primary },
+  emptyText: { fontSize: 14, color: Colors.black50, textAlign: 'center', marginTop: 32 },
+});
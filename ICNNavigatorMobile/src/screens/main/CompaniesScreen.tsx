@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect, useMemo } from 'react';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
 import { 
   View, 
   FlatList, 
@@ -12,7 +12,8 @@ import {
   Platform,
   UIManager,
   Alert,
-  ScrollView
+  ScrollView,
+  Share
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
@@ -23,7 +24,22 @@ import EnhancedFilterModal, { EnhancedFilterOptions } from '../../components/com
 import { Colors, Spacing } from '../../constants/colors';
 import { Company } from '../../types';
 import { useUserTier } from '../../contexts/UserTierContext';
+import { useDistanceAnchor } from '../../contexts/DistanceAnchorContext';
 import { useICNData } from '../../hooks/useICNData';
+import icnDataService from '../../services/icnDataService';
+import companyExportService from '../../services/companyExportService';
+import { useExportQuota } from '../../hooks/useExportQuota';
+import { useAppDispatch, useAppSelector } from '../../store/hooks';
+import { setResultCount, loadNextPage, COMPANIES_PAGE_SIZE } from '../../store/companiesSlice';
+import {
+  queryCompanies,
+  fromEnhancedFilters,
+  fromSearchFilters,
+  mergeQueries,
+  getCompanyDistanceKm,
+} from '../../services/companyQueryEngine';
+import { parseSearchQuery, formatSearchQuery } from '../../utils/searchQuery';
+import { MAX_COMPARED_COMPANIES } from '../../utils/companyComparison';
 
 // Extended local colors (adding to the imported Colors)
 const LocalColors = {
@@ -43,17 +59,16 @@ export default function CompaniesScreen() {
   // Navigation hook
   const navigation = useNavigation<any>();
   const { currentTier, features } = useUserTier();
+  const { ensureExportAvailable, runExport } = useExportQuota();
+  const { origin } = useDistanceAnchor();
   
   // Use ICN Data Hook
   const {
     companies: allCompanies,
-    searchResults: icnSearchResults,
     loading: icnLoading,
     error: icnError,
     statistics,
     filterOptions: icnFilterOptions,
-    search: searchICN,
-    applyFilters: applyICNFilters,
     refresh: refreshICN
   } = useICNData(true);
   
@@ -63,8 +78,10 @@ export default function CompaniesScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [filterModalVisible, setFilterModalVisible] = useState(false);
   const [viewMode, setViewMode] = useState<'list' | 'grid'>('list');
-  const [sortBy, setSortBy] = useState<'name' | 'verified' | 'recent'>('name');
+  const [sortBy, setSortBy] = useState<'relevance' | 'name' | 'verified' | 'recent' | 'distance'>('name');
   const [showSortOptions, setShowSortOptions] = useState(false);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
   
   // Animation values
   const fadeAnim = useRef(new Animated.Value(1)).current;
@@ -77,202 +94,64 @@ export default function CompaniesScreen() {
     distance: 'All',
   });
 
-  // Use ICN search when text changes
-  useEffect(() => {
-    if (searchText) {
-      searchICN(searchText);
-    } else {
-      // Reset to all companies when search is cleared
-      applyICNFilters({});
-    }
-  }, [searchText]);
-
-  // Filter and sort companies
-  const filteredAndSortedCompanies = useMemo(() => {
-    // Start with search results or all companies
-    let filtered = searchText ? icnSearchResults : allCompanies;
-
-    // Apply capability filter (using ICN capabilities)
-    if (filters.capabilities.length > 0) {
-      filtered = filtered.filter(company =>
-        filters.capabilities.some(capability =>
-          company.capabilities?.some(cap => 
-            cap.toLowerCase().includes(capability.toLowerCase())
-          ) ||
-          company.icnCapabilities?.some(cap =>
-            cap.itemName.toLowerCase().includes(capability.toLowerCase()) ||
-            cap.detailedItemName.toLowerCase().includes(capability.toLowerCase())
-          )
-        )
-      );
-    }
-
-    // Apply sector filter
-    if (filters.sectors && filters.sectors.length > 0) {
-      filtered = filtered.filter(company =>
-        filters.sectors.some(sector =>
-          company.keySectors.some(keySector =>
-            keySector.toLowerCase().includes(sector.toLowerCase())
-          )
-        )
-      );
-    }
-
-    // Apply state filter (ICN specific)
-    if (filters.state && filters.state !== 'All') {
-      filtered = filtered.filter(company =>
-        company.billingAddress?.state === filters.state
-      );
-    }
-
-    // Apply company type filter (ICN capability types)
-    if (filters.companyTypes && filters.companyTypes.length > 0) {
-      filtered = filtered.filter(company => {
-        const capabilityTypes = company.icnCapabilities?.map(cap => cap.capabilityType) || [];
-        
-        for (const filterType of filters.companyTypes!) {
-          // Handle special "Both" case
-          if (filterType === 'Both') {
-            const hasSupplier = capabilityTypes.some(t => 
-              t === 'Supplier' || t === 'Item Supplier' || t === 'Parts Supplier'
-            );
-            const hasManufacturer = capabilityTypes.some(t => 
-              t === 'Manufacturer' || t === 'Manufacturer (Parts)' || t === 'Assembler'
-            );
-            if (hasSupplier && hasManufacturer) return true;
-          }
-          // Direct capability type match
-          else if (capabilityTypes.includes(filterType as any)) {
-            return true;
-          }
-          // Check for supplier group
-          else if (['Supplier', 'Item Supplier', 'Parts Supplier'].includes(filterType)) {
-            if (capabilityTypes.some(t => 
-              t === 'Supplier' || t === 'Item Supplier' || t === 'Parts Supplier'
-            )) return true;
-          }
-          // Check for manufacturer group
-          else if (['Manufacturer', 'Manufacturer (Parts)', 'Assembler'].includes(filterType)) {
-            if (capabilityTypes.some(t => 
-              t === 'Manufacturer' || t === 'Manufacturer (Parts)' || t === 'Assembler'
-            )) return true;
-          }
-        }
-        return false;
-      });
-    }
-
-    // Apply distance filter (would need actual location logic)
-    if (filters.distance !== 'All') {
-      // In a real app, this would calculate actual distances
-      // For now, just mock it
-    }
-
-    // Apply company size filter (Plus tier only)
-    if (filters.companySize && filters.companySize !== 'All' && features.canFilterBySize) {
-      filtered = filtered.filter(company => {
-        switch(filters.companySize) {
-          case 'SME (1-50)':
-            return !company.employeeCount || company.employeeCount <= 50;
-          case 'Medium (51-200)':
-            return company.employeeCount && company.employeeCount > 50 && company.employeeCount <= 200;
-          case 'Large (201-500)':
-            return company.employeeCount && company.employeeCount > 200 && company.employeeCount <= 500;
-          case 'Enterprise (500+)':
-            return company.employeeCount && company.employeeCount > 500;
-          default:
-            return true;
-        }
-      });
-    }
+  // Structured search syntax, e.g. sector:"Critical Minerals" state:VIC -"Service Provider"
+  const parsedSearch = useMemo(() => parseSearchQuery(searchText), [searchText]);
+  const typedQuery = useMemo(() => fromSearchFilters(parsedSearch.filters), [parsedSearch]);
 
-    // Apply certification filter (Plus tier only)
-    if (filters.certifications?.length && features.canFilterByCertifications) {
-      filtered = filtered.filter(company =>
-        company.certifications?.some(cert => 
-          filters.certifications?.includes(cert)
-        )
-      );
-    }
+  // Typed clauses take precedence over the same clause in the filter modal
+  const activeQuery = useMemo(() => ({
+    ...mergeQueries(fromEnhancedFilters(filters), typedQuery),
+    sortBy: parsedSearch.filters.sortBy || sortBy,
+  }), [filters, typedQuery, parsedSearch, sortBy]);
 
-    // Apply ownership type filter (Premium tier only)
-    if (filters.ownershipType?.length && features.canFilterByDiversity) {
-      filtered = filtered.filter(company =>
-        company.ownershipType?.some(ownership =>
-          filters.ownershipType?.includes(ownership)
-        )
-      );
-    }
-
-    // Apply social enterprise filter (Premium tier only)
-    if (filters.socialEnterprise && features.canFilterByDiversity) {
-      filtered = filtered.filter(company => company.socialEnterprise === true);
-    }
+  // Filter and sort companies — same query engine as the Map
+  const filteredAndSortedCompanies = useMemo(() => {
+    return queryCompanies(allCompanies, activeQuery, {
+      features,
+      origin,
+      textSearch: text => icnDataService.searchCompanies(text),
+    }).companies;
+  }, [activeQuery, allCompanies, features, origin]);
 
-    // Apply Australian Disability Enterprise filter (Premium tier only)
-    if (filters.australianDisability && features.canFilterByDiversity) {
-      filtered = filtered.filter(company => company.australianDisabilityEnterprise === true);
-    }
+  // Results render a page at a time. Background geocoding hands over a new company list
+  // without changing the matches' count, so only a new query or dataset starts over.
+  const dispatch = useAppDispatch();
+  const currentPage = useAppSelector(state => state.companies.currentPage);
+  const hasMorePages = useAppSelector(state => state.companies.hasMore);
+  useEffect(() => {
+    dispatch(setResultCount(filteredAndSortedCompanies.length));
+  }, [dispatch, activeQuery, filteredAndSortedCompanies.length]);
+  const visibleCompanies = useMemo(
+    () => filteredAndSortedCompanies.slice(0, currentPage * COMPANIES_PAGE_SIZE),
+    [filteredAndSortedCompanies, currentPage]
+  );
 
-    // Apply revenue filter (Premium tier only)
-    if (filters.revenue && features.canFilterByRevenue) {
-      const { min = 0, max = 10000000 } = filters.revenue;
-      filtered = filtered.filter(company =>
-        company.revenue !== undefined && 
-        company.revenue >= min && 
-        company.revenue <= max
-      );
-    }
+  const searchError = parsedSearch.errors.length > 0
+    ? parsedSearch.errors[0].message +
+      (parsedSearch.errors.length > 1 ? ` (+${parsedSearch.errors.length - 1} more)` : '')
+    : undefined;
 
-    // Apply employee count filter (Premium tier only)
-    if (filters.employeeCount && features.canFilterByRevenue) {
-      const { min = 0, max = 1000 } = filters.employeeCount;
-      filtered = filtered.filter(company =>
-        company.employeeCount !== undefined && 
-        company.employeeCount >= min && 
-        company.employeeCount <= max
-      );
-    }
+  // "Did you mean" for misspelt queries that return nothing
+  const searchSuggestion = useMemo(
+    () => (filteredAndSortedCompanies.length === 0 && typedQuery.searchText
+      ? icnDataService.getSearchSuggestion(typedQuery.searchText)
+      : null),
+    [filteredAndSortedCompanies, typedQuery]
+  );
 
-    // Apply local content percentage filter (Premium tier only)
-    if (filters.localContentPercentage && filters.localContentPercentage > 0 && features.canFilterByRevenue) {
-      const minLocalContent = filters.localContentPercentage;
-      filtered = filtered.filter(company =>
-        company.localContentPercentage !== undefined && 
-        company.localContentPercentage >= minLocalContent
-      );
-    }
+  // Keep the typed field clauses when accepting a suggestion
+  const applySearchSuggestion = (suggestion: string) => {
+    setSearchText(formatSearchQuery({ ...typedQuery, searchText: suggestion }));
+  };
 
-    // Apply sorting
-    switch (sortBy) {
-      case 'name':
-        filtered.sort((a, b) => {
-          // Handle placeholder names
-          const nameA = a.name === 'Organisation Name' ? `Company ${a.id.slice(-4)}` : a.name;
-          const nameB = b.name === 'Organisation Name' ? `Company ${b.id.slice(-4)}` : b.name;
-          return nameA.localeCompare(nameB);
-        });
-        break;
-      case 'verified':
-        filtered.sort((a, b) => {
-          if (a.verificationStatus === 'verified' && b.verificationStatus !== 'verified') return -1;
-          if (a.verificationStatus !== 'verified' && b.verificationStatus === 'verified') return 1;
-          return a.name.localeCompare(b.name);
-        });
-        break;
-      case 'recent':
-        // Sort by last updated or ID
-        filtered.sort((a, b) => {
-          if (a.lastUpdated && b.lastUpdated) {
-            return new Date(b.lastUpdated).getTime() - new Date(a.lastUpdated).getTime();
-          }
-          return b.id.localeCompare(a.id);
-        });
-        break;
+  // Share the current search and filters as query text
+  const handleShareQuery = async () => {
+    try {
+      await Share.share({ message: formatSearchQuery(activeQuery) });
+    } catch (error) {
+      console.error('Share query error:', error);
     }
-
-    return filtered;
-  }, [searchText, filters, sortBy, allCompanies, icnSearchResults, features]);
+  };
 
   // Bookmarked companies section
   const bookmarkedCompanies = useMemo(() => {
@@ -389,6 +268,34 @@ export default function CompaniesScreen() {
     navigation.navigate('CompanyDetail', { company });
   };
 
+  // Multi-select for the supplier comparison
+  const toggleCompare = (id: string) => {
+    if (compareIds.includes(id)) {
+      setCompareIds(prev => prev.filter(compareId => compareId !== id));
+      return;
+    }
+    if (compareIds.length >= MAX_COMPARED_COMPANIES) {
+      Alert.alert('Comparison Full', `You can compare up to ${MAX_COMPARED_COMPANIES} companies at a time.`);
+      return;
+    }
+    setCompareIds(prev => [...prev, id]);
+  };
+
+  const startSelecting = (id?: string) => {
+    setIsSelecting(true);
+    if (id && !compareIds.includes(id)) toggleCompare(id);
+  };
+
+  const cancelSelecting = () => {
+    setIsSelecting(false);
+    setCompareIds([]);
+  };
+
+  const handleCompare = () => {
+    navigation.navigate('CompareCompanies', { companyIds: compareIds });
+    cancelSelecting();
+  };
+
   // Handle refresh
   const onRefresh = React.useCallback(async () => {
     setRefreshing(true);
@@ -403,9 +310,6 @@ export default function CompaniesScreen() {
   const handleApplyFilters = (newFilters: EnhancedFilterOptions) => {
     setFilters(newFilters);
     setFilterModalVisible(false);
-    
-    // Don't apply to ICN data here as filtering is done in the useMemo
-    // Remove or comment out the applyICNFilters call
   };
 
   // Clear filters
@@ -415,7 +319,6 @@ export default function CompaniesScreen() {
       sectors: [],
       distance: 'All',
     });
-    applyICNFilters({});
   };
 
   // Toggle sort options
@@ -430,18 +333,39 @@ export default function CompaniesScreen() {
   };
 
   // Handle export
-  const handleExport = () => {
-    if (!features.canExportFull && features.exportLimit === 10) {
+  const handleExport = async () => {
+    const total = filteredAndSortedCompanies.length;
+    if (total === 0) {
+      Alert.alert('Nothing to Export', 'No companies match the current search and filters.');
+      return;
+    }
+    if (!(await ensureExportAvailable())) return;
+
+    const exportable = companyExportService.getExportableCount(total, features);
+    if (exportable < total) {
       Alert.alert(
         'Limited Export',
-        `Free tier allows ${features.exportLimit} exports per month. Upgrade for unlimited exports.`,
+        `Your plan exports up to ${features.maxExportRows} companies at a time. The first ${exportable} of ${total} will be exported.`,
         [
           { text: 'Cancel', style: 'cancel' },
-          { text: 'Upgrade', onPress: handleNavigateToPayment }
+          { text: 'Upgrade', onPress: handleNavigateToPayment },
+          { text: `Export ${exportable}`, onPress: () => exportCompanyList() }
         ]
       );
     } else {
-      Alert.alert('Export', `Exporting ${filteredAndSortedCompanies.length} companies...`);
+      exportCompanyList();
+    }
+  };
+
+  const exportCompanyList = async () => {
+    try {
+      await runExport({ exportType: 'companies', format: 'csv' }, async () => {
+        const result = await companyExportService.exportCompanyList(filteredAndSortedCompanies, features);
+        return result.fileSize;
+      });
+    } catch (error) {
+      console.error('Company list export failed:', error);
+      Alert.alert('Export Failed', 'Unable to export the company list. Please try again.');
     }
   };
 
@@ -490,25 +414,59 @@ export default function CompaniesScreen() {
         <TouchableOpacity style={styles.sortButton} onPress={toggleSortOptions}>
           <Ionicons name="swap-vertical" size={18} color={Colors.text} />
           <Text style={styles.sortButtonText}>
-            Sort: {sortBy === 'name' ? 'Name' : sortBy === 'verified' ? 'Verified' : 'Recent'}
+            Sort: {sortBy === 'relevance' ? 'Best Match' : sortBy === 'name' ? 'Name' : sortBy === 'verified' ? 'Verified' : sortBy === 'distance' ? 'Nearest' : 'Recent'}
           </Text>
         </TouchableOpacity>
 
-        <TouchableOpacity 
-          style={styles.viewToggle} 
-          onPress={() => setViewMode(viewMode === 'list' ? 'grid' : 'list')}
-        >
-          <Ionicons 
-            name={viewMode === 'list' ? 'grid' : 'list'} 
-            size={20} 
-            color={Colors.black50} 
-          />
-        </TouchableOpacity>
+        <View style={styles.controlsActions}>
+          <TouchableOpacity 
+            style={styles.viewToggle} 
+            onPress={() => (isSelecting ? cancelSelecting() : startSelecting())}
+            accessibilityLabel="Compare companies"
+          >
+            <Ionicons name="git-compare-outline" size={20} color={isSelecting ? Colors.primary : Colors.black50} />
+          </TouchableOpacity>
+
+          <TouchableOpacity 
+            style={styles.viewToggle} 
+            onPress={() => navigation.navigate('GapAnalysis')}
+            accessibilityLabel="Capability gap analysis"
+          >
+            <Ionicons name="analytics-outline" size={20} color={Colors.black50} />
+          </TouchableOpacity>
+
+          <TouchableOpacity 
+            style={styles.viewToggle} 
+            onPress={handleExport}
+            accessibilityLabel="Export results"
+          >
+            <Ionicons name="download-outline" size={20} color={Colors.black50} />
+          </TouchableOpacity>
+
+          <TouchableOpacity 
+            style={styles.viewToggle} 
+            onPress={() => setViewMode(viewMode === 'list' ? 'grid' : 'list')}
+          >
+            <Ionicons 
+              name={viewMode === 'list' ? 'grid' : 'list'} 
+              size={20} 
+              color={Colors.black50} 
+            />
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Sort Options Dropdown */}
       {showSortOptions && (
         <View style={styles.sortOptions}>
+          <TouchableOpacity 
+            style={[styles.sortOption, sortBy === 'relevance' && styles.sortOptionActive]}
+            onPress={() => { setSortBy('relevance'); setShowSortOptions(false); }}
+          >
+            <Text style={[styles.sortOptionText, sortBy === 'relevance' && styles.sortOptionTextActive]}>
+              Best Match
+            </Text>
+          </TouchableOpacity>
           <TouchableOpacity 
             style={[styles.sortOption, sortBy === 'name' && styles.sortOptionActive]}
             onPress={() => { setSortBy('name'); setShowSortOptions(false); }}
@@ -533,6 +491,14 @@ export default function CompaniesScreen() {
               Most Recent
             </Text>
           </TouchableOpacity>
+          <TouchableOpacity 
+            style={[styles.sortOption, sortBy === 'distance' && styles.sortOptionActive]}
+            onPress={() => { setSortBy('distance'); setShowSortOptions(false); }}
+          >
+            <Text style={[styles.sortOptionText, sortBy === 'distance' && styles.sortOptionTextActive]}>
+              Nearest First
+            </Text>
+          </TouchableOpacity>
         </View>
       )}
 
@@ -627,6 +593,13 @@ export default function CompaniesScreen() {
           `No results for "${searchText}"` : 
           'Try adjusting your filters'}
       </Text>
+      {searchSuggestion && (
+        <TouchableOpacity onPress={() => applySearchSuggestion(searchSuggestion)}>
+          <Text style={styles.emptyStateText}>
+            Did you mean <Text style={styles.suggestionText}>{searchSuggestion}</Text>?
+          </Text>
+        </TouchableOpacity>
+      )}
       {hasActiveFilters() && (
         <TouchableOpacity style={styles.clearButton} onPress={clearFilters}>
           <Text style={styles.clearButtonText}>Clear Filters</Text>
@@ -641,8 +614,9 @@ export default function CompaniesScreen() {
     
     return (
       <TouchableOpacity 
-        style={styles.gridCard}
-        onPress={() => handleCompanyPress(item)}
+        style={[styles.gridCard, compareIds.includes(item.id) && styles.gridCardSelected]}
+        onPress={() => (isSelecting ? toggleCompare(item.id) : handleCompanyPress(item))}
+        onLongPress={() => startSelecting(item.id)}
         activeOpacity={0.9}
       >
         <View style={styles.gridAvatar}>
@@ -652,7 +626,7 @@ export default function CompaniesScreen() {
         </View>
         <Text style={styles.gridName} numberOfLines={2}>{displayName}</Text>
         <Text style={styles.gridAddress} numberOfLines={1}>
-          {item.billingAddress ? `${item.billingAddress.city}, ${item.billingAddress.state}` : item.address}
+          {item.billingAddress ? [item.billingAddress.city, item.billingAddress.state].filter(Boolean).join(', ') : item.address}
         </Text>
         <TouchableOpacity 
           style={styles.gridBookmark}
@@ -699,18 +673,24 @@ export default function CompaniesScreen() {
         onChangeText={setSearchText}
         placeholder="Search companies, capabilities, locations..."
         onFilter={() => setFilterModalVisible(true)}
+        onShare={searchText || hasActiveFilters() ? handleShareQuery : undefined}
+        error={searchError}
       />
       
       <FlatList
-        data={filteredAndSortedCompanies}
+        data={visibleCompanies}
         keyExtractor={(item) => item.id}
         renderItem={viewMode === 'list' ? 
           ({ item }) => (
             <CompanyCard
               company={item}
-              onPress={() => handleCompanyPress(item)}
+              onPress={() => (isSelecting ? toggleCompare(item.id) : handleCompanyPress(item))}
+              onLongPress={() => startSelecting(item.id)}
               onBookmark={() => toggleBookmark(item.id)}
               isBookmarked={bookmarkedIds.includes(item.id)}
+              distanceKm={getCompanyDistanceKm(item, origin)}
+              isSelecting={isSelecting}
+              isSelected={compareIds.includes(item.id)}
             />
           ) : 
           renderGridItem
@@ -731,9 +711,29 @@ export default function CompaniesScreen() {
             tintColor={Colors.primary}
           />
         }
+        onEndReached={() => hasMorePages && dispatch(loadNextPage())}
+        onEndReachedThreshold={0.5}
         showsVerticalScrollIndicator={false}
       />
       
+      {isSelecting && (
+        <View style={styles.compareBar}>
+          <Text style={styles.compareBarText}>
+            {compareIds.length} of {MAX_COMPARED_COMPANIES} selected
+          </Text>
+          <TouchableOpacity onPress={cancelSelecting}>
+            <Text style={styles.compareCancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.compareButton, compareIds.length < 2 && styles.compareButtonDisabled]}
+            onPress={handleCompare}
+            disabled={compareIds.length < 2}
+          >
+            <Text style={styles.compareButtonText}>Compare</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      
       <EnhancedFilterModal
         visible={filterModalVisible}
         onClose={() => setFilterModalVisible(false)}
@@ -790,6 +790,47 @@ const styles = StyleSheet.create({
   listContent: {
     paddingBottom: 100,
   },
+  compareBar: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 96,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    backgroundColor: Colors.white,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 4,
+    elevation: 6,
+  },
+  compareBarText: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.text,
+  },
+  compareCancelText: {
+    fontSize: 14,
+    color: Colors.black50,
+  },
+  compareButton: {
+    backgroundColor: Colors.primary,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  compareButtonDisabled: {
+    opacity: 0.5,
+  },
+  compareButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.white,
+  },
   emptyListContent: {
     flexGrow: 1,
   },
@@ -875,6 +916,11 @@ const styles = StyleSheet.create({
   exportButton: {
     padding: 4,
   },
+  controlsActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
   viewToggle: {
     padding: 4,
   },
@@ -1010,6 +1056,10 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: 24,
   },
+  suggestionText: {
+    fontWeight: '600',
+    color: Colors.primary,
+  },
   clearButton: {
     paddingHorizontal: 24,
     paddingVertical: 12,
@@ -1033,6 +1083,10 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 3,
   },
+  gridCardSelected: {
+    borderWidth: 2,
+    borderColor: Colors.primary,
+  },
   gridAvatar: {
     width: 56,
     height: 56,
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { 
   View, 
   Text, 
@@ -15,9 +15,14 @@ import {
 } from 'react-native';
 import { Ionicons, MaterialIcons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { Company } from '../../types';
+import { Company, isApproximateLocation, GEOCODE_PRECISION_LABELS } from '../../types';
 import { Colors, Spacing } from '../../constants/colors';
 import { useUserTier } from '../../contexts/UserTierContext';
+import icnDataService from '../../services/icnDataService';
+import { formatDistanceKm } from '../../services/companyQueryEngine';
+import { findSimilarCompanies } from '../../utils/similarCompanies';
+import companyExportService from '../../services/companyExportService';
+import { useExportQuota } from '../../hooks/useExportQuota';
 
 interface CompanyDetailScreenProps {
   route: any;
@@ -59,11 +64,19 @@ export default function CompanyDetailScreen({ route, navigation }: CompanyDetail
   const [isContactExpanded, setIsContactExpanded] = useState(false);
   const [isCompanyInfoExpanded, setIsCompanyInfoExpanded] = useState(false);
   const [isSummaryExpanded, setIsSummaryExpanded] = useState(false);
+  const [isSimilarExpanded, setIsSimilarExpanded] = useState(false);
   const [currentPage, setCurrentPage] = useState(0);
   const [currentProjectPage, setCurrentProjectPage] = useState(0);
   const { features, currentTier } = useUserTier();
+  const { ensureExportAvailable, runExport } = useExportQuota();
   const insets = useSafeAreaInsets();
 
+  // Alternative suppliers, ranked by shared ICN items and distance from this company
+  const similarCompanies = useMemo(
+    () => findSimilarCompanies(company, icnDataService.getCompanies()),
+    [company]
+  );
+
   // Handle back navigation
   const handleBack = () => {
     navigation.goBack();
@@ -91,7 +104,9 @@ export default function CompanyDetailScreen({ route, navigation }: CompanyDetail
   };
 
   // Handle export based on tier
-  const handleExport = () => {
+  const handleExport = async () => {
+    if (!(await ensureExportAvailable())) return;
+
     const exportType = currentTier === 'free' ? 'Basic' :
                       currentTier === 'plus' ? 'Limited' : 'Full';
     
@@ -101,19 +116,33 @@ export default function CompanyDetailScreen({ route, navigation }: CompanyDetail
       [
         { text: 'Cancel', style: 'cancel' },
         { text: 'PDF', onPress: () => exportToPDF() },
-        { text: 'Excel', onPress: () => exportToExcel() }
+        { text: 'Excel (CSV)', onPress: () => exportToExcel() }
       ]
     );
   };
 
-  const exportToPDF = () => {
-    // TODO: Implement PDF export based on tier
-    Alert.alert('Export', 'PDF export feature coming soon');
+  const exportToPDF = async () => {
+    try {
+      await runExport(
+        { exportType: 'companies', format: 'pdf' },
+        () => companyExportService.exportCompanyProfilePdf(company, features)
+      );
+    } catch (error) {
+      console.error('PDF export failed:', error);
+      Alert.alert('Export Failed', 'Unable to create the PDF. Please try again.');
+    }
   };
 
-  const exportToExcel = () => {
-    // TODO: Implement Excel export based on tier
-    Alert.alert('Export', 'Excel export feature coming soon');
+  const exportToExcel = async () => {
+    try {
+      await runExport(
+        { exportType: 'companies', format: 'csv' },
+        () => companyExportService.exportCompanyProfileCsv(company, features)
+      );
+    } catch (error) {
+      console.error('Spreadsheet export failed:', error);
+      Alert.alert('Export Failed', 'Unable to create the spreadsheet. Please try again.');
+    }
   };
 
   // Handle ICN Chat (Plus/Premium only)
@@ -144,6 +173,19 @@ export default function CompanyDetailScreen({ route, navigation }: CompanyDetail
 
   // Handle directions
   const handleDirections = () => {
+    // Approximate pins are area centroids - let the maps app search the street address instead
+    if (isApproximateLocation(company.geocodePrecision) && isValidData(company.address)) {
+      const query = encodeURIComponent(company.address);
+      const url = Platform.select({
+        ios: `maps:?q=${query}`,
+        android: `geo:0,0?q=${query}`,
+      });
+      if (url) {
+        Linking.openURL(url);
+      }
+      return;
+    }
+    
     if (company.latitude && company.longitude) {
       const scheme = Platform.select({
         ios: 'maps:',
@@ -327,6 +369,18 @@ export default function CompanyDetailScreen({ route, navigation }: CompanyDetail
                      <Text style={styles.addressText}>
                        {getDisplayValue(company.address, 'Address available via ICN')}
                      </Text>
+                     {company.geocodePrecision && (
+                       <View style={styles.precisionRow}>
+                         <Ionicons
+                           name={isApproximateLocation(company.geocodePrecision) ? 'help-circle-outline' : 'locate-outline'}
+                           size={14}
+                           color={isApproximateLocation(company.geocodePrecision) ? Colors.warning : Colors.success}
+                         />
+                         <Text style={styles.precisionText}>
+                           Map location: {GEOCODE_PRECISION_LABELS[company.geocodePrecision]}
+                         </Text>
+                       </View>
+                     )}
                    </View>
                  </View>
                )}
@@ -1002,6 +1056,62 @@ export default function CompanyDetailScreen({ route, navigation }: CompanyDetail
               </>
             )}
 
+            {/* Similar Suppliers - Collapsible Block */}
+            {similarCompanies.length > 0 && (
+              <View style={styles.card}>
+                <TouchableOpacity 
+                  style={styles.collapsibleHeader}
+                  onPress={() => setIsSimilarExpanded(!isSimilarExpanded)}
+                  activeOpacity={1}
+                >
+                  <View style={styles.clickableCardLeft}>
+                    <Ionicons name="git-network-outline" size={24} color={Colors.primary} />
+                    <View style={styles.clickableCardText}>
+                      <Text style={styles.clickableCardTitle}>Similar Suppliers</Text>
+                      <Text style={styles.clickableCardSubtitle}>
+                        Alternatives offering the same ICN items nearby
+                      </Text>
+                    </View>
+                  </View>
+                  <Ionicons 
+                    name={isSimilarExpanded ? "chevron-up" : "chevron-down"} 
+                    size={20} 
+                    color={Colors.black50} 
+                  />
+                </TouchableOpacity>
+
+                {isSimilarExpanded && (
+                  <View style={styles.collapsibleContent}>
+                    {similarCompanies.map(similar => (
+                      <TouchableOpacity
+                        key={similar.company.id}
+                        style={styles.similarRow}
+                        onPress={() => navigation.push('CompanyDetail', { company: similar.company })}
+                        activeOpacity={0.7}
+                      >
+                        <View style={styles.similarInfo}>
+                          <View style={styles.similarNameRow}>
+                            <Text style={styles.similarName} numberOfLines={1}>{similar.company.name}</Text>
+                            {similar.company.verificationStatus === 'verified' && (
+                              <Ionicons name="checkmark-circle" size={14} color={Colors.success} />
+                            )}
+                          </View>
+                          <Text style={styles.similarMeta}>
+                            {similar.sharedItemCount} shared item{similar.sharedItemCount === 1 ? '' : 's'}
+                            {similar.distanceKm !== undefined ? ` · ${formatDistanceKm(similar.distanceKm)} away` : ''}
+                          </Text>
+                        </View>
+                        <View style={styles.similarScoreBadge}>
+                          <Text style={styles.similarScoreText}>{Math.round(similar.score * 100)}%</Text>
+                        </View>
+                        <Ionicons name="chevron-forward" size={18} color={Colors.black50} />
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+              </View>
+            )}
+
             {/* Quick Actions */}
             <View style={styles.modernQuickActions}>
               <TouchableOpacity style={styles.modernActionButton} onPress={handleDirections} activeOpacity={1}>
@@ -1952,6 +2062,47 @@ const styles = StyleSheet.create({
     color: Colors.success,
     fontWeight: '600',
   },
+  // Similar Suppliers
+  similarRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.black20,
+  },
+  similarInfo: {
+    flex: 1,
+  },
+  similarNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  similarName: {
+    flexShrink: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  similarMeta: {
+    fontSize: 12,
+    color: Colors.black50,
+    marginTop: 2,
+  },
+  similarScoreBadge: {
+    minWidth: 44,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: Colors.orange[400],
+    alignItems: 'center',
+  },
+  similarScoreText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
   modernQuickActions: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -2017,6 +2168,16 @@ const styles = StyleSheet.create({
     color: Colors.text,
     lineHeight: 20,
   },
+  precisionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 6,
+  },
+  precisionText: {
+    fontSize: 12,
+    color: Colors.black50,
+  },
   summaryContainer: {
     backgroundColor: 'rgba(76, 175, 80, 0.08)',
     borderRadius: 12,
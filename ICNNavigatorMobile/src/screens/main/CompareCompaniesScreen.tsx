@@ -0,0 +1,207 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { Colors } from '../../constants/colors';
+import { Company, SavedCompany } from '../../types';
+import { CompaniesStackParamList } from '../../navigation/types';
+import { useUserTier } from '../../contexts/UserTierContext';
+import { useUser } from '../../contexts/UserContext';
+import { useDistanceAnchor } from '../../contexts/DistanceAnchorContext';
+import icnDataService from '../../services/icnDataService';
+import {
+  buildComparisonRows,
+  getCapabilityOverlap,
+  MAX_COMPARED_COMPANIES,
+} from '../../utils/companyComparison';
+
+const LABEL_WIDTH = 112;
+const COLUMN_WIDTH = 156;
+
+/**
+ * Companies saved in a portfolio folder, in saved order. Uses the portfolio's storage key.
+ */
+async function loadFolderCompanyIds(userId: string, folderId: string): Promise<string[]> {
+  try {
+    const stored = await AsyncStorage.getItem(`@saved_companies_${userId}`);
+    const saved: SavedCompany[] = stored ? JSON.parse(stored) : [];
+    return saved.filter(item => item.folderId === folderId).map(item => item.companyId);
+  } catch (error) {
+    console.error('Error loading portfolio folder:', error);
+    return [];
+  }
+}
+
+export default function CompareCompaniesScreen() {
+  const navigation = useNavigation<any>();
+  const route = useRoute<RouteProp<CompaniesStackParamList, 'CompareCompanies'>>();
+  const { features } = useUserTier();
+  const { user } = useUser();
+  const { origin, anchor } = useDistanceAnchor();
+
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [folderSize, setFolderSize] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        if (!icnDataService.isDataLoaded()) await icnDataService.loadData();
+        let ids = route.params?.companyIds || [];
+        if (route.params?.folderId && user) {
+          ids = await loadFolderCompanyIds(user.id, route.params.folderId);
+          setFolderSize(ids.length);
+        }
+        // Keep the order companies were picked in
+        const found = ids
+          .map(id => icnDataService.getCompanyById(id))
+          .filter((company): company is Company => !!company);
+        setCompanies(found.slice(0, MAX_COMPARED_COMPANIES));
+      } catch (error) {
+        console.error('Error loading companies to compare:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    })();
+  }, [route.params?.companyIds, route.params?.folderId, user]);
+
+  const rows = useMemo(() => buildComparisonRows(companies, features, origin), [companies, features, origin]);
+  const overlap = useMemo(() => getCapabilityOverlap(companies), [companies]);
+  const hasLockedRows = rows.some(row => row.locked);
+
+  const removeCompany = (id: string) => setCompanies(prev => prev.filter(company => company.id !== id));
+
+  if (isLoading) {
+    return (
+      <View style={styles.centerContainer}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+      </View>
+    );
+  }
+
+  if (companies.length < 2) {
+    return (
+      <View style={styles.centerContainer}>
+        <Ionicons name="git-compare-outline" size={48} color={Colors.black50} />
+        <Text style={styles.emptyTitle}>Pick at least two companies</Text>
+        <Text style={styles.emptyText}>Select up to {MAX_COMPARED_COMPANIES} companies from the list to compare them.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {folderSize > MAX_COMPARED_COMPANIES && (
+        <Text style={styles.notice}>
+          Showing the first {MAX_COMPARED_COMPANIES} of {folderSize} companies in this folder.
+        </Text>
+      )}
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View>
+          <View style={styles.row}>
+            <View style={[styles.labelCell, styles.headerCell]} />
+            {companies.map(company => (
+              <View key={company.id} style={[styles.valueCell, styles.headerCell]}>
+                <TouchableOpacity onPress={() => navigation.navigate('CompanyDetail', { company })}>
+                  <Text style={styles.companyName} numberOfLines={2}>{company.name}</Text>
+                  <Text style={styles.viewLink}>View details</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.removeButton}
+                  onPress={() => removeCompany(company.id)}
+                  accessibilityLabel={`Remove ${company.name} from comparison`}
+                >
+                  <Ionicons name="close" size={16} color={Colors.black50} />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+
+          {rows.map(row => (
+            <View key={row.key} style={styles.row}>
+              <View style={styles.labelCell}>
+                <Text style={styles.labelText}>{row.label}</Text>
+                {row.key === 'distance' && anchor && <Text style={styles.labelHint}>from {anchor.label}</Text>}
+              </View>
+              {companies.map((company, index) => (
+                <View key={company.id} style={[styles.valueCell, row.differs && styles.valueCellDiffers]}>
+                  {row.locked ? (
+                    <View style={styles.lockedValue}>
+                      <Ionicons name="lock-closed" size={12} color={Colors.black50} />
+                      <Text style={styles.lockedText}>Upgrade to view</Text>
+                    </View>
+                  ) : (
+                    <Text style={styles.valueText}>{row.values[index]}</Text>
+                  )}
+                </View>
+              ))}
+            </View>
+          ))}
+
+          <Text style={styles.sectionTitle}>Shared ICN items ({overlap.shared.length})</Text>
+          {overlap.shared.length === 0 && (
+            <Text style={styles.emptyText}>These companies have no ICN items in common.</Text>
+          )}
+          {overlap.shared.map(item => (
+            <View key={item.itemId} style={styles.row}>
+              <View style={styles.labelCell}>
+                <Text style={styles.labelText} numberOfLines={2}>{item.itemName}</Text>
+              </View>
+              {item.offeredBy.map((offered, index) => (
+                <View key={companies[index].id} style={[styles.valueCell, styles.checkCell]}>
+                  <Ionicons
+                    name={offered ? 'checkmark-circle' : 'remove'}
+                    size={18}
+                    color={offered ? Colors.success : Colors.black20}
+                  />
+                </View>
+              ))}
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+
+      {hasLockedRows && (
+        <TouchableOpacity style={styles.upgradeButton} onPress={() => navigation.navigate('Payment')}>
+          <Ionicons name="star" size={16} color={Colors.white} />
+          <Text style={styles.upgradeText}>Upgrade to compare every field</Text>
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.white },
+  content: { padding: 16, paddingBottom: 120 },
+  centerContainer: { flex: 1, alignItems: 'center', justifyContent: 'center', padding: 32, backgroundColor: Colors.white },
+  emptyTitle: { fontSize: 18, fontWeight: '600', color: Colors.text, marginTop: 12 },
+  emptyText: { fontSize: 14, color: Colors.black50, marginTop: 6, textAlign: 'center' },
+  notice: { fontSize: 12, color: Colors.black50, marginBottom: 8 },
+  row: { flexDirection: 'row', borderBottomWidth: 1, borderBottomColor: Colors.black20 },
+  headerCell: { paddingTop: 4, paddingBottom: 12 },
+  labelCell: { width: LABEL_WIDTH, paddingVertical: 10, paddingRight: 8 },
+  labelText: { fontSize: 12, fontWeight: '600', color: Colors.black80 },
+  labelHint: { fontSize: 10, color: Colors.black50, marginTop: 2 },
+  valueCell: { width: COLUMN_WIDTH, paddingVertical: 10, paddingHorizontal: 8 },
+  valueCellDiffers: { backgroundColor: Colors.orange[400] },
+  checkCell: { alignItems: 'center', justifyContent: 'center' },
+  valueText: { fontSize: 13, color: Colors.text },
+  companyName: { fontSize: 14, fontWeight: '700', color: Colors.navy, paddingRight: 20 },
+  viewLink: { fontSize: 12, color: Colors.primary, marginTop: 4 },
+  removeButton: { position: 'absolute', top: 2, right: 4, padding: 2 },
+  lockedValue: { flexDirection: 'row', alignItems: 'center', gap: 4 },
+  lockedText: { fontSize: 12, color: Colors.black50, fontStyle: 'italic' },
+  sectionTitle: { fontSize: 16, fontWeight: '600', color: Colors.text, marginTop: 24, marginBottom: 4 },
+  upgradeButton: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 8, marginTop: 24, paddingVertical: 12, borderRadius: 12, backgroundColor: Colors.primary },
+  upgradeText: { fontSize: 14, fontWeight: '600', color: Colors.white },
+});
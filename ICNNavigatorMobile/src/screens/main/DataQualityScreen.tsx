@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Share,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../../constants/colors';
+import { DataCorrection, DataCorrectionRule } from '../../types';
+import icnDataService, { DataQualityReport, DataQualityRecord } from '../../services/icnDataService';
+
+type DataQualityMetrics = ReturnType<typeof icnDataService.getStatistics>['dataQuality'];
+
+const RULE_LABELS: Record<DataCorrectionRule, string> = {
+  'placeholder': 'Missing value replaced with a placeholder',
+  'generated-name': 'Missing name generated from the ID',
+  'city-correction': 'Abbreviated city expanded',
+  'capability-type': 'Capability type mapped or defaulted',
+  'state-code': 'State code normalised',
+  'state-name': 'State name mapped to a code',
+  'state-typo': 'State typo corrected',
+  'state-postcode': 'State inferred from postcode',
+  'state-fuzzy': 'State guessed from a near match',
+  'state-partial': 'State found inside a longer value',
+  'state-unresolved': 'State could not be resolved',
+};
+
+const METRIC_LABELS: Array<[keyof DataQualityMetrics, string]> = [
+  ['withFullAddress', 'Street address'],
+  ['withPhone', 'Phone number'],
+  ['withEmail', 'Email'],
+  ['withWebsite', 'Website'],
+  ['withApproximateLocation', 'Approximate map location'],
+  ['withCorrections', 'Rewritten during import'],
+];
+
+const formatValue = (value: string | null) => {
+  if (value === null) return '(missing)';
+  return value.trim() ? `"${value}"` : '(blank)';
+};
+
+const formatCorrection = (correction: DataCorrection) =>
+  `${correction.field}: ${formatValue(correction.originalValue)} -> ${formatValue(correction.newValue)}`;
+
+const percent = (count: number, total: number) => (total > 0 ? `${Math.round((count / total) * 100)}%` : '0%');
+
+function formatReport(report: DataQualityReport): string {
+  const lines = [
+    'ICN Data Quality Report',
+    `${report.correctedCompanies} of ${report.totalCompanies} companies rewritten (${report.totalCorrections} corrections)`,
+    '',
+    'Corrections by rule:',
+    ...report.byRule.map(entry => `- ${RULE_LABELS[entry.rule]}: ${entry.corrections} in ${entry.companies} companies`),
+    '',
+    'Records needing attention:',
+  ];
+  report.worstRecords.forEach(record => {
+    lines.push(`${record.company.name} (${record.company.id})`);
+    (record.company.dataCorrections || []).forEach(correction => {
+      lines.push(`  - ${formatCorrection(correction)} [${correction.rule}]`);
+    });
+  });
+  return lines.join('\n');
+}
+
+export default function DataQualityScreen() {
+  const [isLoading, setIsLoading] = useState(true);
+  const [report, setReport] = useState<DataQualityReport | null>(null);
+  const [metrics, setMetrics] = useState<DataQualityMetrics | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        if (!icnDataService.isDataLoaded()) await icnDataService.loadData();
+        setReport(icnDataService.getDataQualityReport());
+        setMetrics(icnDataService.getStatistics().dataQuality);
+      } catch (error) {
+        console.error('Error building data quality report:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    })();
+  }, []);
+
+  const shareReport = async () => {
+    if (!report) return;
+    try {
+      await Share.share({ message: formatReport(report), title: 'ICN Data Quality Report' });
+    } catch (error) {
+      console.error('Error sharing report:', error);
+    }
+  };
+
+  const renderRecord = ({ company, correctedFields, corrections }: DataQualityRecord) => {
+    const expanded = expandedId === company.id;
+    return (
+      <View key={company.id} style={styles.record}>
+        <TouchableOpacity style={styles.recordHeader} onPress={() => setExpandedId(expanded ? null : company.id)}>
+          <View style={styles.recordTitleContainer}>
+            <Text style={styles.recordTitle} numberOfLines={1}>{company.name}</Text>
+            <Text style={styles.recordMeta}>
+              {company.id} - {correctedFields} field{correctedFields === 1 ? '' : 's'}, {corrections} correction{corrections === 1 ? '' : 's'}
+            </Text>
+          </View>
+          <Ionicons name={expanded ? 'chevron-up' : 'chevron-down'} size={20} color={Colors.black50} />
+        </TouchableOpacity>
+        {expanded && (company.dataCorrections || []).map((correction, index) => (
+          <View key={index} style={styles.correction}>
+            <Text style={styles.correctionText}>{formatCorrection(correction)}</Text>
+            <Text style={styles.correctionRule}>{RULE_LABELS[correction.rule]}</Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+      </View>
+    );
+  }
+
+  if (!report || !metrics) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.emptyText}>The ICN data could not be loaded.</Text>
+      </View>
+    );
+  }
+
+  const datasetInfo = icnDataService.getDatasetInfo();
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.reportHeader}>
+        <Text style={styles.sectionTitle}>Summary</Text>
+        <TouchableOpacity onPress={shareReport} accessibilityLabel="Share report">
+          <Ionicons name="share-outline" size={22} color={Colors.primary} />
+        </TouchableOpacity>
+      </View>
+      <View style={styles.summary}>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{report.totalCompanies}</Text>
+          <Text style={styles.summaryLabel}>Companies</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{report.correctedCompanies}</Text>
+          <Text style={styles.summaryLabel}>Rewritten</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{report.totalCorrections}</Text>
+          <Text style={styles.summaryLabel}>Corrections</Text>
+        </View>
+      </View>
+      {datasetInfo && (
+        <Text style={styles.datasetText}>
+          Dataset {datasetInfo.version || 'unversioned'} ({datasetInfo.hash}) - {datasetInfo.rejectedItems} items and{' '}
+          {datasetInfo.rejectedOrganisations} organisation records skipped as malformed
+        </Text>
+      )}
+
+      <Text style={styles.sectionTitle}>Completeness</Text>
+      {METRIC_LABELS.map(([key, label]) => (
+        <View key={key} style={styles.metricRow}>
+          <Text style={styles.metricLabel}>{label}</Text>
+          <Text style={styles.metricValue}>
+            {metrics[key]} ({percent(metrics[key], report.totalCompanies)})
+          </Text>
+        </View>
+      ))}
+
+      <Text style={styles.sectionTitle}>Corrections by rule</Text>
+      {report.byRule.length === 0 && <Text style={styles.emptyText}>No values were rewritten.</Text>}
+      {report.byRule.map(entry => (
+        <View key={entry.rule} style={styles.metricRow}>
+          <Text style={styles.metricLabel}>{RULE_LABELS[entry.rule]}</Text>
+          <Text style={styles.metricValue}>
+            {entry.corrections} in {entry.companies}
+          </Text>
+        </View>
+      ))}
+
+      <Text style={styles.sectionTitle}>Records needing attention</Text>
+      <Text style={styles.hint}>Ranked by the number of fields the import had to fill in or rewrite.</Text>
+      {report.worstRecords.map(renderRecord)}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.white },
+  content: { padding: 16, paddingBottom: 120 },
+  loadingContainer: { flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: Colors.white },
+  reportHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  sectionTitle: { fontSize: 16, fontWeight: '600', color: Colors.text, marginTop: 16, marginBottom: 8 },
+  hint: { fontSize: 12, color: Colors.black50, marginBottom: 10 },
+  emptyText: { fontSize: 13, color: Colors.black50 },
+  datasetText: { fontSize: 12, color: Colors.black50, marginTop: 8 },
+  summary: { flexDirection: 'row', backgroundColor: Colors.orange[400], borderRadius: 12, paddingVertical: 12 },
+  summaryItem: { flex: 1, alignItems: 'center' },
+  summaryValue: { fontSize: 20, fontWeight: '700', color: Colors.navy },
+  summaryLabel: { fontSize: 11, color: Colors.black80, marginTop: 2, textAlign: 'center' },
+  metricRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', gap: 12, paddingVertical: 8, borderBottomWidth: 1, borderBottomColor: Colors.black20 },
+  metricLabel: { flex: 1, fontSize: 14, color: Colors.text },
+  metricValue: { fontSize: 14, fontWeight: '600', color: Colors.navy },
+  record: { padding: 12, borderRadius: 12, borderWidth: 1, borderColor: Colors.black20, marginBottom: 10 },
+  recordHeader: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  recordTitleContainer: { flex: 1 },
+  recordTitle: { fontSize: 15, fontWeight: '600', color: Colors.text },
+  recordMeta: { fontSize: 12, color: Colors.black50, marginTop: 2 },
+  correction: { marginTop: 8, paddingTop: 8, borderTopWidth: 1, borderTopColor: Colors.black20 },
+  correctionText: { fontSize: 13, color: Colors.text },
+  correctionRule: { fontSize: 11, color: Colors.black50, marginTop: 2 },
+});
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Share,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Colors } from '../../constants/colors';
+import icnDataService from '../../services/icnDataService';
+
+const MAX_ISSUES_SHOWN = 20;
+
+export default function DatasetErrorScreen() {
+  const [isRetrying, setIsRetrying] = useState(false);
+  const error = icnDataService.getDatasetError();
+  const issues = error?.issues || [];
+  const info = error?.info;
+
+  const retry = async () => {
+    setIsRetrying(true);
+    try {
+      icnDataService.clearCache();
+      await icnDataService.loadData(); // On success the navigator swaps this screen out
+    } catch (retryError) {
+      console.error('Retrying ICN data load failed:', retryError);
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  const shareDetails = async () => {
+    const lines = [
+      'ICN Navigator could not load its company data.',
+      error?.message || 'Unknown error',
+      info ? `Dataset ${info.version || 'unversioned'}, schema ${info.schemaVersion}, hash ${info.hash}` : '',
+      ...issues.map(issue => `${issue.path}: ${issue.message}`),
+    ];
+    try {
+      await Share.share({ message: lines.filter(Boolean).join('\n'), title: 'ICN Data Error' });
+    } catch (shareError) {
+      console.error('Error sharing details:', shareError);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <Ionicons name="alert-circle-outline" size={56} color={Colors.error} style={styles.icon} />
+        <Text style={styles.title}>Company data unavailable</Text>
+        <Text style={styles.message}>
+          The ICN company data in this version of the app is in a format it cannot read. Please update the app, or
+          share the details below with ICN support.
+        </Text>
+        <Text style={styles.errorText}>{error?.message}</Text>
+
+        {info && (
+          <Text style={styles.meta}>
+            Dataset {info.version || 'unversioned'} - schema {info.schemaVersion} - {info.hash}
+          </Text>
+        )}
+
+        {issues.length > 0 && (
+          <View style={styles.issues}>
+            <Text style={styles.issuesTitle}>
+              {info && info.issueCount > issues.length ? `First ${issues.length} of ${info.issueCount} problems` : 'Problems found'}
+            </Text>
+            {issues.slice(0, MAX_ISSUES_SHOWN).map((issue, index) => (
+              <View key={index} style={styles.issue}>
+                <Text style={styles.issuePath}>{issue.path}</Text>
+                <Text style={styles.issueMessage}>{issue.message}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        <TouchableOpacity style={styles.primaryButton} onPress={retry} disabled={isRetrying}>
+          {isRetrying ? (
+            <ActivityIndicator color={Colors.white} />
+          ) : (
+            <>
+              <Ionicons name="refresh" size={20} color={Colors.white} />
+              <Text style={styles.primaryButtonText}>Try Again</Text>
+            </>
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={shareDetails}>
+          <Ionicons name="share-outline" size={20} color={Colors.primary} />
+          <Text style={styles.secondaryButtonText}>Share Details</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.white },
+  content: { padding: 24, paddingTop: 48 },
+  icon: { alignSelf: 'center', marginBottom: 16 },
+  title: { fontSize: 20, fontWeight: '700', color: Colors.navy, textAlign: 'center', marginBottom: 8 },
+  message: { fontSize: 14, color: Colors.black80, textAlign: 'center', lineHeight: 20 },
+  errorText: { fontSize: 14, fontWeight: '600', color: Colors.error, textAlign: 'center', marginTop: 16 },
+  meta: { fontSize: 12, color: Colors.black50, textAlign: 'center', marginTop: 6 },
+  issues: { marginTop: 20, padding: 12, borderRadius: 10, backgroundColor: '#FEF2F2' },
+  issuesTitle: { fontSize: 13, fontWeight: '600', color: Colors.error, marginBottom: 6 },
+  issue: { paddingVertical: 4 },
+  issuePath: { fontSize: 12, fontWeight: '600', color: Colors.text },
+  issueMessage: { fontSize: 12, color: Colors.black80 },
+  primaryButton: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 8, backgroundColor: Colors.primary, paddingVertical: 14, borderRadius: 12, marginTop: 24 },
+  primaryButtonText: { fontSize: 16, fontWeight: '600', color: Colors.white },
+  secondaryButton: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 8, paddingVertical: 14, borderRadius: 12, marginTop: 10, borderWidth: 1, borderColor: Colors.primary },
+  secondaryButtonText: { fontSize: 16, fontWeight: '600', color: Colors.primary },
+});
@@ -0,0 +1,276 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../../constants/colors';
+import { useConnectivity } from '../../contexts/ConnectivityContext';
+import icnDataService from '../../services/icnDataService';
+import datasetUpdateService, { DatasetUpdate, DatasetChangelog } from '../../services/datasetUpdateService';
+import { DatasetDiff } from '../../utils/datasetDiff';
+
+const MAX_CHANGES_SHOWN = 10;
+
+const CHANGE_LABELS: Array<[keyof DatasetDiff, string]> = [
+  ['addedCompanies', 'Companies added'],
+  ['removedCompanies', 'Companies removed'],
+  ['updatedCompanies', 'Company details changed'],
+  ['addedCapabilities', 'Capabilities added'],
+  ['removedCapabilities', 'Capabilities removed'],
+];
+
+const versionLabel = (version: string | null, hash: string) => version || `unversioned (${hash})`;
+
+const describeChange = (key: keyof DatasetDiff, diff: DatasetDiff, index: number): string => {
+  switch (key) {
+    case 'addedCompanies':
+    case 'removedCompanies': {
+      const company = diff[key][index];
+      return `${company.name} (${company.capabilityCount} capabilit${company.capabilityCount === 1 ? 'y' : 'ies'})`;
+    }
+    case 'updatedCompanies': {
+      const company = diff.updatedCompanies[index];
+      return `${company.name}: ${company.fields.map(field => field.replace('Organisation: ', '')).join(', ')}`;
+    }
+    default: {
+      const capability = diff[key][index];
+      return `${capability.companyName}: ${capability.itemName}`;
+    }
+  }
+};
+
+const summarize = (totals: Record<keyof DatasetDiff, number>) =>
+  CHANGE_LABELS.filter(([key]) => totals[key] > 0)
+    .map(([key, label]) => `${label}: ${totals[key]}`)
+    .join('\n') || 'No company or capability changes.';
+
+const countChanges = (diff: DatasetDiff) =>
+  Object.fromEntries(CHANGE_LABELS.map(([key]) => [key, diff[key].length])) as Record<keyof DatasetDiff, number>;
+
+export default function DatasetUpdatesScreen() {
+  const { isOnline } = useConnectivity();
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyAction, setBusyAction] = useState<'check' | 'apply' | 'rollback' | null>(null);
+  const [changelogs, setChangelogs] = useState<DatasetChangelog[]>([]);
+  const [canRollback, setCanRollback] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      if (!icnDataService.isDataLoaded()) await icnDataService.loadData();
+      setChangelogs(await datasetUpdateService.getChangelogs());
+      setCanRollback(await datasetUpdateService.hasInstalledDataset());
+    } catch (error) {
+      console.error('Error loading dataset update status:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const applyUpdate = async (update: DatasetUpdate) => {
+    setBusyAction('apply');
+    try {
+      const changelog = await icnDataService.applyDatasetUpdate(update);
+      setExpandedId(changelog.id);
+      Alert.alert('Data Updated', `Now using ICN data ${versionLabel(changelog.toVersion, changelog.toHash)}.`);
+    } catch (error) {
+      Alert.alert('Update Failed', error instanceof Error ? error.message : 'The update could not be installed.');
+    } finally {
+      setBusyAction(null);
+      refresh();
+    }
+  };
+
+  const checkForUpdates = async () => {
+    setBusyAction('check');
+    try {
+      const update = await icnDataService.checkForDatasetUpdate();
+      if (!update) {
+        Alert.alert('Up to Date', 'You have the latest ICN data.');
+        return;
+      }
+      Alert.alert(
+        'Update Available',
+        `ICN data ${versionLabel(update.info.version, update.info.hash)}\n\n${summarize(countChanges(update.diff))}`,
+        [
+          { text: 'Later', style: 'cancel' },
+          { text: 'Install', onPress: () => applyUpdate(update) },
+        ]
+      );
+    } catch (error) {
+      Alert.alert('Check Failed', error instanceof Error ? error.message : 'Could not check for updates.');
+    } finally {
+      setBusyAction(current => (current === 'check' ? null : current));
+    }
+  };
+
+  const rollback = () => {
+    Alert.alert('Roll Back Data', 'Return to the ICN data that was in use before the last update?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Roll Back',
+        style: 'destructive',
+        onPress: async () => {
+          setBusyAction('rollback');
+          try {
+            const changelog = await icnDataService.rollbackDatasetUpdate();
+            if (changelog) setExpandedId(changelog.id);
+          } catch (error) {
+            Alert.alert('Roll Back Failed', error instanceof Error ? error.message : 'The previous data could not be restored.');
+          } finally {
+            setBusyAction(null);
+            refresh();
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderChangelog = (changelog: DatasetChangelog) => {
+    const expanded = expandedId === changelog.id;
+    const title = changelog.kind === 'rollback' ? 'Rolled back to' : 'Updated to';
+    return (
+      <View key={changelog.id} style={styles.record}>
+        <TouchableOpacity style={styles.recordHeader} onPress={() => setExpandedId(expanded ? null : changelog.id)}>
+          <View style={styles.recordTitleContainer}>
+            <Text style={styles.recordTitle} numberOfLines={1}>
+              {title} {versionLabel(changelog.toVersion, changelog.toHash)}
+            </Text>
+            <Text style={styles.recordMeta}>
+              {new Date(changelog.appliedAt).toLocaleString()} - from {versionLabel(changelog.fromVersion, changelog.fromHash)}
+            </Text>
+          </View>
+          <Ionicons name={expanded ? 'chevron-up' : 'chevron-down'} size={20} color={Colors.black50} />
+        </TouchableOpacity>
+        {expanded && (
+          <>
+            <Text style={styles.summaryText}>{summarize(changelog.totals)}</Text>
+            {CHANGE_LABELS.filter(([key]) => changelog.totals[key] > 0).map(([key, label]) => (
+              <View key={key} style={styles.changeGroup}>
+                <Text style={styles.changeTitle}>{label}</Text>
+                {changelog.changes[key].slice(0, MAX_CHANGES_SHOWN).map((_, index) => (
+                  <Text key={index} style={styles.changeText} numberOfLines={2}>
+                    {describeChange(key, changelog.changes, index)}
+                  </Text>
+                ))}
+                {changelog.totals[key] > MAX_CHANGES_SHOWN && (
+                  <Text style={styles.moreText}>and {changelog.totals[key] - MAX_CHANGES_SHOWN} more</Text>
+                )}
+              </View>
+            ))}
+          </>
+        )}
+      </View>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+      </View>
+    );
+  }
+
+  const datasetInfo = icnDataService.getDatasetInfo();
+  const configured = datasetUpdateService.isConfigured();
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.sectionTitle}>Current data</Text>
+      {datasetInfo ? (
+        <View style={styles.card}>
+          <View style={styles.metricRow}>
+            <Text style={styles.metricLabel}>Version</Text>
+            <Text style={styles.metricValue}>{datasetInfo.version || 'Unversioned'}</Text>
+          </View>
+          <View style={styles.metricRow}>
+            <Text style={styles.metricLabel}>Source</Text>
+            <Text style={styles.metricValue}>
+              {icnDataService.getDatasetSource() === 'downloaded' ? 'Downloaded update' : 'Included with the app'}
+            </Text>
+          </View>
+          <View style={styles.metricRow}>
+            <Text style={styles.metricLabel}>Companies</Text>
+            <Text style={styles.metricValue}>{icnDataService.getCompanies().length}</Text>
+          </View>
+          <Text style={styles.hint}>Content hash {datasetInfo.hash}</Text>
+        </View>
+      ) : (
+        <Text style={styles.emptyText}>The ICN data could not be loaded.</Text>
+      )}
+
+      <TouchableOpacity
+        style={[styles.primaryButton, (!configured || !isOnline || busyAction !== null) && styles.buttonDisabled]}
+        onPress={checkForUpdates}
+        disabled={!configured || !isOnline || busyAction !== null}
+      >
+        {busyAction === 'check' || busyAction === 'apply' ? (
+          <ActivityIndicator color={Colors.white} />
+        ) : (
+          <>
+            <Ionicons name="cloud-download-outline" size={20} color={Colors.white} />
+            <Text style={styles.primaryButtonText}>Check for Updates</Text>
+          </>
+        )}
+      </TouchableOpacity>
+      {!configured && <Text style={styles.hint}>Data updates are not available in this build.</Text>}
+      {configured && !isOnline && <Text style={styles.hint}>Connect to the internet to check for data updates.</Text>}
+
+      {canRollback && (
+        <TouchableOpacity style={styles.secondaryButton} onPress={rollback} disabled={busyAction !== null}>
+          {busyAction === 'rollback' ? (
+            <ActivityIndicator color={Colors.primary} />
+          ) : (
+            <>
+              <Ionicons name="arrow-undo-outline" size={20} color={Colors.primary} />
+              <Text style={styles.secondaryButtonText}>Roll Back Last Update</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      )}
+
+      <Text style={styles.sectionTitle}>Change history</Text>
+      {changelogs.length === 0 && <Text style={styles.emptyText}>No data updates have been installed.</Text>}
+      {changelogs.map(renderChangelog)}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.white },
+  content: { padding: 16, paddingBottom: 120 },
+  loadingContainer: { flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: Colors.white },
+  sectionTitle: { fontSize: 16, fontWeight: '600', color: Colors.text, marginTop: 16, marginBottom: 8 },
+  hint: { fontSize: 12, color: Colors.black50, marginTop: 8 },
+  emptyText: { fontSize: 13, color: Colors.black50 },
+  card: { padding: 12, borderRadius: 12, borderWidth: 1, borderColor: Colors.black20 },
+  metricRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', gap: 12, paddingVertical: 6 },
+  metricLabel: { flex: 1, fontSize: 14, color: Colors.text },
+  metricValue: { fontSize: 14, fontWeight: '600', color: Colors.navy },
+  primaryButton: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 8, backgroundColor: Colors.primary, paddingVertical: 14, borderRadius: 12, marginTop: 16 },
+  primaryButtonText: { fontSize: 16, fontWeight: '600', color: Colors.white },
+  buttonDisabled: { opacity: 0.5 },
+  secondaryButton: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 8, paddingVertical: 14, borderRadius: 12, marginTop: 10, borderWidth: 1, borderColor: Colors.primary },
+  secondaryButtonText: { fontSize: 16, fontWeight: '600', color: Colors.primary },
+  record: { padding: 12, borderRadius: 12, borderWidth: 1, borderColor: Colors.black20, marginBottom: 10 },
+  recordHeader: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  recordTitleContainer: { flex: 1 },
+  recordTitle: { fontSize: 15, fontWeight: '600', color: Colors.text },
+  recordMeta: { fontSize: 12, color: Colors.black50, marginTop: 2 },
+  summaryText: { fontSize: 13, color: Colors.black80, marginTop: 8, lineHeight: 18 },
+  changeGroup: { marginTop: 8, paddingTop: 8, borderTopWidth: 1, borderTopColor: Colors.black20 },
+  changeTitle: { fontSize: 13, fontWeight: '600', color: Colors.navy, marginBottom: 4 },
+  changeText: { fontSize: 13, color: Colors.text, paddingVertical: 2 },
+  moreText: { fontSize: 12, color: Colors.black50, marginTop: 2 },
+});
@@ -0,0 +1,321 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Share,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { Colors } from '../../constants/colors';
+import icnDataService, { AUSTRALIAN_STATES } from '../../services/icnDataService';
+import capabilityGapService, {
+  parseBillOfMaterials,
+  CapabilityGapReport,
+  CapabilityGapRow,
+} from '../../services/capabilityGapService';
+
+const MAX_SUPPLIERS_SHOWN = 10;
+
+export default function GapAnalysisScreen() {
+  const navigation = useNavigation<any>();
+
+  const [isLoading, setIsLoading] = useState(!icnDataService.isDataLoaded());
+  const [bomText, setBomText] = useState('');
+  const [itemQuery, setItemQuery] = useState('');
+  const [localStates, setLocalStates] = useState<string[]>(['VIC']);
+  const [report, setReport] = useState<CapabilityGapReport | null>(null);
+  const [expandedRow, setExpandedRow] = useState<number | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        if (!icnDataService.isDataLoaded()) await icnDataService.loadData();
+        setBomText(await capabilityGapService.getDraft());
+      } catch (error) {
+        console.error('Error loading ICN data:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    })();
+  }, []);
+
+  const itemResults = useMemo(() => capabilityGapService.searchItems(itemQuery), [itemQuery]);
+  const lineCount = useMemo(() => parseBillOfMaterials(bomText).length, [bomText]);
+
+  const updateBomText = (text: string) => {
+    setBomText(text);
+    capabilityGapService.saveDraft(text);
+  };
+
+  const addItem = (name: string) => {
+    updateBomText(bomText.trim() ? `${bomText.trimEnd()}\n${name}` : name);
+    setItemQuery('');
+  };
+
+  const toggleLocalState = (state: string) => {
+    setLocalStates(prev =>
+      prev.includes(state) ? prev.filter(s => s !== state) : [...prev, state]
+    );
+  };
+
+  const runAnalysis = () => {
+    const lines = parseBillOfMaterials(bomText);
+    if (lines.length === 0) {
+      Alert.alert('No Items', 'Enter or paste at least one item to analyse.');
+      return;
+    }
+    setExpandedRow(null);
+    setReport(capabilityGapService.analyze(lines, { localStates }));
+  };
+
+  const shareReport = async () => {
+    if (!report) return;
+    try {
+      await Share.share({ message: capabilityGapService.formatReport(report), title: 'ICN Capability Gap Report' });
+    } catch (error) {
+      console.error('Error sharing report:', error);
+    }
+  };
+
+  const renderRow = (row: CapabilityGapRow, index: number) => {
+    const expanded = expandedRow === index;
+    const title = row.items.length === 1 ? row.items[0]['Detailed Item Name'] : row.line.query;
+    const noVerified = row.verifiedSupplierCount === 0;
+
+    return (
+      <View key={`${row.line.query}-${index}`} style={styles.row}>
+        <TouchableOpacity style={styles.rowHeader} onPress={() => setExpandedRow(expanded ? null : index)}>
+          <View style={styles.rowTitleContainer}>
+            <Text style={styles.rowTitle} numberOfLines={2}>{title}</Text>
+            <Text style={styles.rowSubtitle}>
+              {row.items.length > 1 ? `${row.items.length} matching items - ` : `${row.items[0]['Sector Name']} - `}
+              {row.line.quantity ? `qty ${row.line.quantity}` : 'qty not set'}
+            </Text>
+          </View>
+          <Ionicons name={expanded ? 'chevron-up' : 'chevron-down'} size={20} color={Colors.black50} />
+        </TouchableOpacity>
+
+        <View style={styles.countRow}>
+          <View style={styles.countItem}>
+            <Text style={styles.countValue}>{row.supplierCount}</Text>
+            <Text style={styles.countLabel}>Suppliers</Text>
+          </View>
+          <View style={styles.countItem}>
+            <Text style={[styles.countValue, noVerified && styles.countValueWarning]}>{row.verifiedSupplierCount}</Text>
+            <Text style={styles.countLabel}>Verified</Text>
+          </View>
+          <View style={styles.countItem}>
+            <Text style={[styles.countValue, row.localSupplierCount === 0 && styles.countValueWarning]}>
+              {row.localSupplierCount}
+            </Text>
+            <Text style={styles.countLabel}>Local</Text>
+          </View>
+        </View>
+
+        {noVerified && (
+          <View style={styles.warningRow}>
+            <Ionicons name="alert-circle" size={14} color={Colors.error} />
+            <Text style={styles.warningText}>No verified supplier</Text>
+          </View>
+        )}
+        {row.statesWithoutSupplier.length > 0 && (
+          <Text style={styles.gapText}>No supplier in: {row.statesWithoutSupplier.join(', ')}</Text>
+        )}
+
+        {expanded && (
+          <View style={styles.supplierList}>
+            {row.suppliers.length === 0 && <Text style={styles.emptyText}>No suppliers in ICN data.</Text>}
+            {row.suppliers.slice(0, MAX_SUPPLIERS_SHOWN).map(({ company, capabilityType }) => (
+              <TouchableOpacity
+                key={company.id}
+                style={styles.supplierRow}
+                onPress={() => navigation.navigate('CompanyDetail', { company })}
+              >
+                <Ionicons
+                  name={company.verificationStatus === 'verified' ? 'checkmark-circle' : 'ellipse-outline'}
+                  size={16}
+                  color={company.verificationStatus === 'verified' ? Colors.success : Colors.black50}
+                />
+                <View style={styles.supplierInfo}>
+                  <Text style={styles.supplierName} numberOfLines={1}>{company.name}</Text>
+                  <Text style={styles.supplierMeta}>
+                    {capabilityType} - {company.billingAddress?.state || 'State unknown'}
+                  </Text>
+                </View>
+                <Ionicons name="chevron-forward" size={16} color={Colors.black50} />
+              </TouchableOpacity>
+            ))}
+            {row.suppliers.length > MAX_SUPPLIERS_SHOWN && (
+              <Text style={styles.emptyText}>and {row.suppliers.length - MAX_SUPPLIERS_SHOWN} more</Text>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+      <Text style={styles.sectionTitle}>Bill of materials</Text>
+      <Text style={styles.hint}>
+        One item per line: an ICN item name or ID, optionally followed by a comma and quantity. CSV exports can be pasted directly.
+      </Text>
+
+      <View style={styles.searchBox}>
+        <Ionicons name="search" size={18} color={Colors.black50} />
+        <TextInput
+          style={styles.searchInput}
+          value={itemQuery}
+          onChangeText={setItemQuery}
+          placeholder="Find an ICN item to add"
+          placeholderTextColor={Colors.black50}
+        />
+      </View>
+      {itemResults.length > 0 && (
+        <View style={styles.itemResults}>
+          {itemResults.map(item => (
+            <TouchableOpacity
+              key={item._id?.$oid || item['Detailed Item ID']}
+              style={styles.itemResult}
+              onPress={() => addItem(item['Detailed Item Name'])}
+            >
+              <Text style={styles.itemResultName} numberOfLines={1}>{item['Detailed Item Name']}</Text>
+              <Text style={styles.itemResultMeta}>{item['Sector Name']}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <TextInput
+        style={styles.bomInput}
+        value={bomText}
+        onChangeText={updateBomText}
+        placeholder={'Steel fabrication, 4\nHydraulic cylinders\nCable trays, 120'}
+        placeholderTextColor={Colors.black50}
+        multiline
+        textAlignVertical="top"
+        autoCapitalize="none"
+      />
+
+      <Text style={styles.sectionTitle}>Local region</Text>
+      <View style={styles.chips}>
+        {AUSTRALIAN_STATES.map(state => (
+          <TouchableOpacity
+            key={state}
+            style={[styles.chip, localStates.includes(state) && styles.chipActive]}
+            onPress={() => toggleLocalState(state)}
+          >
+            <Text style={[styles.chipText, localStates.includes(state) && styles.chipTextActive]}>{state}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <TouchableOpacity style={styles.analyzeButton} onPress={runAnalysis}>
+        <Ionicons name="analytics-outline" size={20} color={Colors.white} />
+        <Text style={styles.analyzeButtonText}>
+          Analyse {lineCount} item{lineCount === 1 ? '' : 's'}
+        </Text>
+      </TouchableOpacity>
+
+      {report && (
+        <>
+          <View style={styles.reportHeader}>
+            <Text style={styles.sectionTitle}>Report</Text>
+            <TouchableOpacity onPress={shareReport} accessibilityLabel="Share report">
+              <Ionicons name="share-outline" size={22} color={Colors.primary} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.summary}>
+            <View style={styles.summaryItem}>
+              <Text style={styles.summaryValue}>{report.rows.length}</Text>
+              <Text style={styles.summaryLabel}>Matched</Text>
+            </View>
+            <View style={styles.summaryItem}>
+              <Text style={[styles.summaryValue, styles.countValueWarning]}>{report.itemsWithoutVerifiedSupplier.length}</Text>
+              <Text style={styles.summaryLabel}>No verified supplier</Text>
+            </View>
+            <View style={styles.summaryItem}>
+              <Text style={styles.summaryValue}>{report.itemsWithoutLocalSupplier.length}</Text>
+              <Text style={styles.summaryLabel}>None local</Text>
+            </View>
+          </View>
+
+          {report.unmatchedLines.length > 0 && (
+            <View style={styles.unmatched}>
+              <Text style={styles.unmatchedTitle}>Not found in ICN data</Text>
+              {report.unmatchedLines.map(line => (
+                <Text key={line.query} style={styles.unmatchedText}>- {line.query}</Text>
+              ))}
+            </View>
+          )}
+
+          {report.rows.map(renderRow)}
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.white },
+  content: { padding: 16, paddingBottom: 120 },
+  loadingContainer: { flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: Colors.white },
+  sectionTitle: { fontSize: 16, fontWeight: '600', color: Colors.text, marginTop: 16, marginBottom: 8 },
+  hint: { fontSize: 12, color: Colors.black50, marginBottom: 10 },
+  searchBox: { flexDirection: 'row', alignItems: 'center', gap: 8, paddingHorizontal: 12, borderRadius: 10, borderWidth: 1, borderColor: Colors.black20 },
+  searchInput: { flex: 1, paddingVertical: 10, fontSize: 14, color: Colors.text },
+  itemResults: { borderWidth: 1, borderColor: Colors.black20, borderRadius: 10, marginTop: 4 },
+  itemResult: { paddingHorizontal: 12, paddingVertical: 8, borderBottomWidth: 1, borderBottomColor: Colors.black20 },
+  itemResultName: { fontSize: 14, color: Colors.text },
+  itemResultMeta: { fontSize: 11, color: Colors.black50, marginTop: 2 },
+  bomInput: { minHeight: 140, marginTop: 10, padding: 12, borderRadius: 10, borderWidth: 1, borderColor: Colors.black20, fontSize: 14, color: Colors.text },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 16, borderWidth: 1, borderColor: Colors.black20 },
+  chipActive: { backgroundColor: Colors.primary, borderColor: Colors.primary },
+  chipText: { fontSize: 13, color: Colors.text },
+  chipTextActive: { color: Colors.white, fontWeight: '600' },
+  analyzeButton: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 8, backgroundColor: Colors.primary, paddingVertical: 14, borderRadius: 12, marginTop: 20 },
+  analyzeButtonText: { fontSize: 16, fontWeight: '600', color: Colors.white },
+  reportHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginTop: 12 },
+  summary: { flexDirection: 'row', backgroundColor: Colors.orange[400], borderRadius: 12, paddingVertical: 12, marginBottom: 12 },
+  summaryItem: { flex: 1, alignItems: 'center' },
+  summaryValue: { fontSize: 20, fontWeight: '700', color: Colors.navy },
+  summaryLabel: { fontSize: 11, color: Colors.black80, marginTop: 2, textAlign: 'center' },
+  unmatched: { padding: 12, borderRadius: 10, backgroundColor: '#FEF2F2', marginBottom: 12 },
+  unmatchedTitle: { fontSize: 13, fontWeight: '600', color: Colors.error, marginBottom: 4 },
+  unmatchedText: { fontSize: 13, color: Colors.text },
+  row: { padding: 12, borderRadius: 12, borderWidth: 1, borderColor: Colors.black20, marginBottom: 10 },
+  rowHeader: { flexDirection: 'row', alignItems: 'flex-start', gap: 8 },
+  rowTitleContainer: { flex: 1 },
+  rowTitle: { fontSize: 15, fontWeight: '600', color: Colors.text },
+  rowSubtitle: { fontSize: 12, color: Colors.black50, marginTop: 2 },
+  countRow: { flexDirection: 'row', marginTop: 10 },
+  countItem: { flex: 1, alignItems: 'center' },
+  countValue: { fontSize: 18, fontWeight: '700', color: Colors.navy },
+  countValueWarning: { color: Colors.error },
+  countLabel: { fontSize: 11, color: Colors.black50 },
+  warningRow: { flexDirection: 'row', alignItems: 'center', gap: 4, marginTop: 8 },
+  warningText: { fontSize: 12, color: Colors.error, fontWeight: '600' },
+  gapText: { fontSize: 12, color: Colors.black80, marginTop: 6 },
+  supplierList: { marginTop: 10, borderTopWidth: 1, borderTopColor: Colors.black20, paddingTop: 6 },
+  supplierRow: { flexDirection: 'row', alignItems: 'center', gap: 8, paddingVertical: 8 },
+  supplierInfo: { flex: 1 },
+  supplierName: { fontSize: 14, color: Colors.text },
+  supplierMeta: { fontSize: 11, color: Colors.black50, marginTop: 2 },
+  emptyText: { fontSize: 12, color: Colors.black50, paddingVertical: 4 },
+});
@@ -1,16 +1,42 @@
 import React, { useState, useRef, useMemo, useEffect } from 'react';
-import { View, StyleSheet, Text, TouchableOpacity, Animated, Image, ActivityIndicator } from 'react-native';
+import { View, StyleSheet, Text, TouchableOpacity, Animated, Image, ActivityIndicator, PanResponder, Alert, LayoutChangeEvent } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import MapView, { Marker, PROVIDER_GOOGLE, Region, Callout, LatLng } from 'react-native-maps';
+import MapView, { Marker, PROVIDER_GOOGLE, Region, Callout, LatLng, Polyline, Polygon, UrlTile, Heatmap, Circle } from 'react-native-maps';
 import { Ionicons } from '@expo/vector-icons';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { useBottomTabBarHeight } from '@react-navigation/bottom-tabs';
 import SearchBarWithDropdown from '../../components/common/SearchBarWithDropdown';
 import EnhancedFilterModal, { EnhancedFilterOptions } from '../../components/common/EnhancedFilterModal';
 import { Colors } from '../../constants/colors';
-import { Company } from '../../types';
+import { Company, SearchArea, SavedSearch, isApproximateLocation, GEOCODE_PRECISION_LABELS } from '../../types';
 import { useUserTier } from '../../contexts/UserTierContext';
-import icnDataService from '../../services/icnDataService';
+import { useDistanceAnchor } from '../../contexts/DistanceAnchorContext';
+import { useUser } from '../../contexts/UserContext';
+import { useConnectivity } from '../../contexts/ConnectivityContext';
+import icnDataService, { GeocodeProgress } from '../../services/icnDataService';
+import {
+  queryCompanies,
+  fromEnhancedFilters,
+  fromSearchFilters,
+  mergeQueries,
+  toSearchFilters,
+  toEnhancedFilters,
+} from '../../services/companyQueryEngine';
+import { parseSearchQuery, formatSearchQuery } from '../../utils/searchQuery';
+import { useAppDispatch, useAppSelector } from '../../store/hooks';
+import { loadPortfolio, saveSearch, deleteSearch } from '../../store/portfolioSlice';
+import offlineTileService from '../../services/offlineTileService';
+import { simplifyPath } from '../../utils/geoShapes';
+import {
+  buildHeatmapPoints,
+  countByPostcodeDistrict,
+  buildDensityClasses,
+  getDensityColor,
+  formatDensityClass,
+  EMPTY_DENSITY_COLOR,
+} from '../../utils/densityLayers';
+import { STATE_OUTLINES } from '../../data/stateOutlines';
+import { useMapClusters, getClusterColor, MapCluster } from '../../hooks/useMapClusters';
 
 const MELBOURNE_REGION: Region = {
   latitude: -37.8136,
@@ -22,11 +48,93 @@ const MELBOURNE_REGION: Region = {
 const CARD_RAISE = 330; // keep in sync with rightButtonsWithCompanyDetail.bottom
 
 const toNumber = (v: any) => (typeof v === 'string' ? parseFloat(v) : v);
-const hasValidCoords = (c: Company) => Number.isFinite(toNumber(c.latitude)) && Number.isFinite(toNumber(c.longitude));
+// 0,0 means the company has not been geocoded yet
+const hasValidCoords = (c: Company) =>
+  Number.isFinite(toNumber(c.latitude)) && Number.isFinite(toNumber(c.longitude)) &&
+  !(toNumber(c.latitude) === 0 && toNumber(c.longitude) === 0);
+
+type DrawMode = 'polygon' | 'corridor';
+
+const CORRIDOR_WIDTH_OPTIONS = [1, 5, 10, 25, 50]; // km either side of the route
+const AREA_FILL = 'rgba(249, 159, 28, 0.15)';
+
+type OverlayMode = 'markers' | 'heatmap' | 'states' | 'postcodes';
+
+const OVERLAY_OPTIONS: Array<{ mode: OverlayMode; label: string; icon: keyof typeof Ionicons.glyphMap }> = [
+  { mode: 'markers', label: 'Companies', icon: 'location-outline' },
+  { mode: 'heatmap', label: 'Heatmap', icon: 'flame-outline' },
+  { mode: 'states', label: 'By state', icon: 'map-outline' },
+  { mode: 'postcodes', label: 'By postcode', icon: 'grid-outline' },
+];
+
+const HEATMAP_GRADIENT = {
+  colors: ['#FCCF8E', '#F99F1C', '#DC2626'],
+  startPoints: [0.1, 0.5, 1],
+  colorMapSize: 256,
+};
+const NO_COMPANIES: Company[] = [];
+
+// Hex colour with alpha, so choropleth fills keep the base map readable
+const withOpacity = (hex: string, opacity: number) =>
+  `${hex}${Math.round(opacity * 255).toString(16).padStart(2, '0')}`;
+
+/**
+ * Map a point in the map view to a coordinate. Longitude is linear across the view;
+ * latitude is interpolated in web-mercator space.
+ */
+const pointToCoordinate = (x: number, y: number, region: Region, size: { width: number; height: number }): LatLng => {
+  const mercatorY = (lat: number) => Math.log(Math.tan(Math.PI / 4 + (lat * Math.PI) / 360));
+  const top = mercatorY(region.latitude + region.latitudeDelta / 2);
+  const bottom = mercatorY(region.latitude - region.latitudeDelta / 2);
+  const mercator = top + (bottom - top) * (y / size.height);
+  return {
+    latitude: (360 / Math.PI) * Math.atan(Math.exp(mercator)) - 90,
+    longitude: region.longitude - region.longitudeDelta / 2 + region.longitudeDelta * (x / size.width),
+  };
+};
+
+// Cluster bubbles grow with the log of their size
+const getClusterSize = (count: number) => Math.min(64, 32 + Math.log10(count) * 12);
+
+// Stable references so the search dropdown does not re-run its effect on every render
+const searchICNCompanies = (text: string) => icnDataService.searchCompanies(text);
+const getICNSearchSuggestion = (text: string) => icnDataService.getSearchSuggestion(text);
+
+// The dropdown matches companies on the free text of a structured query and keeps the
+// typed field clauses when suggesting a correction
+const searchTypedCompanies = (text: string) => {
+  const freeText = parseSearchQuery(text).filters.searchText;
+  return freeText ? searchICNCompanies(freeText) : [];
+};
+const suggestTypedQuery = (text: string) => {
+  const typedQuery = fromSearchFilters(parseSearchQuery(text).filters);
+  const suggestion = typedQuery.searchText ? getICNSearchSuggestion(typedQuery.searchText) : null;
+  return suggestion ? formatSearchQuery({ ...typedQuery, searchText: suggestion }) : null;
+};
 
 export default function MapScreen() {
   const navigation = useNavigation<any>();
   const { features } = useUserTier();
+  const { origin, setMapCentre } = useDistanceAnchor();
+  const { user } = useUser();
+  const { isOnline } = useConnectivity();
+  const dispatch = useAppDispatch();
+  const savedSearches = useAppSelector(state => state.portfolio.savedSearches);
+  const savedAreas = useMemo(() => savedSearches.filter(search => search.filters.area), [savedSearches]);
+  const [savedAreasVisible, setSavedAreasVisible] = useState(false);
+
+  useEffect(() => {
+    if (user) dispatch(loadPortfolio(user.id));
+  }, [user?.id]);
+
+  // Downloaded tiles replace the base map while offline
+  const [hasOfflineTiles, setHasOfflineTiles] = useState(false);
+  useFocusEffect(
+    React.useCallback(() => {
+      offlineTileService.hasOfflineTiles().then(setHasOfflineTiles);
+    }, [])
+  );
+  const showOfflineTiles = !isOnline && hasOfflineTiles;
   const insets = useSafeAreaInsets();
   const tabBarHeight = useBottomTabBarHeight(); // NEW: use tab bar height for watermark spacing
 
@@ -92,16 +200,27 @@ export default function MapScreen() {
     cities: string[];
     capabilities: string[];
   }>({ sectors: [], states: [], cities: [], capabilities: [] });
+  const [geocodeProgress, setGeocodeProgress] = useState<GeocodeProgress | null>(null);
+
+  // Markers appear as background geocoding progresses; the service throttles these updates
+  useEffect(() => {
+    return icnDataService.onGeocodeProgress(progress => {
+      setGeocodeProgress(progress);
+      setCompanies([...icnDataService.getCompanies()]);
+    });
+  }, []);
 
   useEffect(() => {
     (async () => {
       try {
         setIsLoading(true);
+        icnDataService.prioritizeGeocoding(MELBOURNE_REGION);
         await icnDataService.loadData();
         const loadedCompanies = icnDataService.getCompanies();
         const options = icnDataService.getFilterOptions();
         setCompanies(loadedCompanies);
         setFilterOptions(options);
+        setGeocodeProgress(icnDataService.getGeocodeProgress());
         if (loadedCompanies.length > 0) setTimeout(() => zoomToAllCompanies(loadedCompanies), 400);
       } catch (e) {
         console.error('Error loading ICN data:', e);
@@ -133,125 +252,68 @@ export default function MapScreen() {
     distance: 'All',
   });
 
-  // Derived list
-  const filteredCompanies = useMemo(() => {
-    let filtered = [...companies];
-
-    // Search
-    if (searchText) filtered = icnDataService.searchCompanies(searchText);
-
-    // Capabilities
-    if (filters.capabilities.length > 0) {
-      filtered = filtered.filter(company =>
-        filters.capabilities.some(capability =>
-          company.capabilities?.includes(capability) ||
-          company.icnCapabilities?.some(cap =>
-            cap.itemName.toLowerCase().includes(capability.toLowerCase()) ||
-            cap.detailedItemName.toLowerCase().includes(capability.toLowerCase())
-          )
-        )
-      );
-    }
-
-    // Sectors
-    if (filters.sectors && filters.sectors.length > 0) {
-      filtered = filtered.filter(company =>
-        filters.sectors.some(sector =>
-          company.keySectors.some(keySector => keySector.toLowerCase().includes(sector.toLowerCase()))
-        )
-      );
-    }
+  // Structured search syntax, parsed the same way as on the Companies list
+  const parsedSearch = useMemo(() => parseSearchQuery(searchText), [searchText]);
+  const typedQuery = useMemo(() => fromSearchFilters(parsedSearch.filters), [parsedSearch]);
+  const searchError = parsedSearch.errors.length > 0
+    ? parsedSearch.errors[0].message +
+      (parsedSearch.errors.length > 1 ? ` (+${parsedSearch.errors.length - 1} more)` : '')
+    : undefined;
 
-    // State
-    if (filters.state && filters.state !== 'All') {
-      filtered = filtered.filter(company => company.billingAddress?.state === filters.state);
-    }
-
-    // Company type (supports grouped labels and "Both")
-    if (filters.companyTypes && filters.companyTypes.length > 0) {
-      filtered = filtered.filter(company => {
-        const capabilityTypes = company.icnCapabilities?.map(cap => cap.capabilityType) || [];
-        for (const filterType of filters.companyTypes!) {
-          if (filterType === 'Both') {
-            const hasSupplier = capabilityTypes.some(t => t === 'Supplier' || t === 'Item Supplier' || t === 'Parts Supplier');
-            const hasManufacturer = capabilityTypes.some(t => t === 'Manufacturer' || t === 'Manufacturer (Parts)' || t === 'Assembler');
-            if (hasSupplier && hasManufacturer) return true;
-          } else if (capabilityTypes.includes(filterType as any)) {
-            return true;
-          } else if (['Supplier', 'Item Supplier', 'Parts Supplier'].includes(filterType)) {
-            if (capabilityTypes.some(t => t === 'Supplier' || t === 'Item Supplier' || t === 'Parts Supplier')) return true;
-          } else if (['Manufacturer', 'Manufacturer (Parts)', 'Assembler'].includes(filterType)) {
-            if (capabilityTypes.some(t => t === 'Manufacturer' || t === 'Manufacturer (Parts)' || t === 'Assembler')) return true;
-          }
-        }
-        return false;
-      });
-    }
-
-    // Distance (rough)
-    if (filters.distance !== 'All' && region) {
-      let maxKm = 50;
-      if (filters.distance.includes('500m')) maxKm = 0.5;
-      else if (filters.distance.includes('km')) maxKm = parseInt(filters.distance);
-      const kmToDeg = maxKm / 111;
-      filtered = filtered.filter(company => {
-        if (!hasValidCoords(company)) return false;
-        const latDiff = Math.abs(toNumber(company.latitude) - region.latitude);
-        const lonDiff = Math.abs(toNumber(company.longitude) - region.longitude);
-        const approx = Math.sqrt(latDiff * latDiff + lonDiff * lonDiff);
-        return approx <= kmToDeg;
-      });
-    }
+  // Derived list — same query engine as the Companies list. State counts include companies
+  // that have not been geocoded yet; everything drawn at a point needs coordinates.
+  const matchedCompanies = useMemo(
+    () => queryCompanies(companies, mergeQueries(fromEnhancedFilters(filters), typedQuery), {
+      features,
+      origin,
+      textSearch: searchICNCompanies,
+    }).companies,
+    [typedQuery, filters, origin, features, companies]
+  );
+  const filteredCompanies = useMemo(() => matchedCompanies.filter(hasValidCoords), [matchedCompanies]);
 
-    // Size (Plus)
-    if (filters.companySize && filters.companySize !== 'All' && features.canFilterBySize) {
-      filtered = filtered.filter(company => {
-        switch (filters.companySize) {
-          case 'SME (1-50)':
-            return !company.employeeCount || company.employeeCount <= 50;
-          case 'Medium (51-200)':
-            return company.employeeCount && company.employeeCount > 50 && company.employeeCount <= 200;
-          case 'Large (201-500)':
-            return company.employeeCount && company.employeeCount > 200 && company.employeeCount <= 500;
-          case 'Enterprise (500+)':
-            return company.employeeCount && company.employeeCount > 500;
-          default:
-            return true;
-        }
-      });
-    }
+  // ===== Density overlays (heatmap and choropleths replace the markers) =====
+  const [overlayMode, setOverlayMode] = useState<OverlayMode>('markers');
+  const [layerPickerVisible, setLayerPickerVisible] = useState(false);
+  const [densityDetail, setDensityDetail] = useState<string | null>(null);
 
-    // Certifications (Plus)
-    if (filters.certifications?.length && features.canFilterByCertifications) {
-      filtered = filtered.filter(company => company.certifications?.some(cert => filters.certifications?.includes(cert)));
-    }
+  const heatmapPoints = useMemo(
+    () => (overlayMode === 'heatmap' ? buildHeatmapPoints(filteredCompanies) : []),
+    [overlayMode, filteredCompanies]
+  );
+  const stateCounts = useMemo(
+    () => (overlayMode === 'states' ? icnDataService.getTerritoryStatistics(matchedCompanies).byTerritory : {}),
+    [overlayMode, matchedCompanies]
+  );
+  const postcodeCounts = useMemo(
+    () => (overlayMode === 'postcodes' ? countByPostcodeDistrict(matchedCompanies) : []),
+    [overlayMode, matchedCompanies]
+  );
+  const densityClasses = useMemo(() => {
+    if (overlayMode === 'states') return buildDensityClasses(Object.values(stateCounts));
+    if (overlayMode === 'postcodes') return buildDensityClasses(postcodeCounts.map(district => district.count));
+    return [];
+  }, [overlayMode, stateCounts, postcodeCounts]);
 
-    // Diversity (Premium)
-    if (filters.ownershipType?.length && features.canFilterByDiversity) {
-      filtered = filtered.filter(company => company.ownershipType?.some(o => filters.ownershipType?.includes(o)));
-    }
-    if (filters.socialEnterprise && features.canFilterByDiversity) {
-      filtered = filtered.filter(company => company.socialEnterprise === true);
-    }
-    if (filters.australianDisability && features.canFilterByDiversity) {
-      filtered = filtered.filter(company => company.australianDisabilityEnterprise === true);
-    }
+  const selectOverlayMode = (mode: OverlayMode) => {
+    setOverlayMode(mode);
+    setLayerPickerVisible(false);
+    setDensityDetail(null);
+    if (mode !== 'markers' && selectedCompany) closeCompanyCard({ animate: false });
+  };
 
-    // Revenue/Employees/Local content (Premium)
-    if (filters.revenue && features.canFilterByRevenue) {
-      const { min = 0, max = 10_000_000 } = filters.revenue;
-      filtered = filtered.filter(company => company.revenue !== undefined && company.revenue >= min && company.revenue <= max);
-    }
-    if (filters.employeeCount && features.canFilterByRevenue) {
-      const { min = 0, max = 1000 } = filters.employeeCount;
-      filtered = filtered.filter(company => company.employeeCount !== undefined && company.employeeCount >= min && company.employeeCount <= max);
-    }
-    if (filters.localContentPercentage && filters.localContentPercentage > 0 && features.canFilterByRevenue) {
-      filtered = filtered.filter(company => company.localContentPercentage !== undefined && company.localContentPercentage >= (filters.localContentPercentage as number));
-    }
+  const { items: clusterItems, spiderfied, getExpansionRegion, spiderfy, clearSpiderfy } =
+    useMapClusters(overlayMode === 'markers' ? filteredCompanies : NO_COMPANIES, region);
 
-    return filtered.filter(hasValidCoords);
-  }, [searchText, filters, region, features, companies]);
+  const searchSuggestion = useMemo(
+    () => {
+      const suggestion = filteredCompanies.length === 0 && typedQuery.searchText
+        ? getICNSearchSuggestion(typedQuery.searchText)
+        : null;
+      return suggestion ? formatSearchQuery({ ...typedQuery, searchText: suggestion }) : null;
+    },
+    [filteredCompanies, typedQuery]
+  );
 
   // Auto-zoom on dataset changes — but NEVER while a selection/card is open or camera is animating
   useEffect(() => {
@@ -326,6 +388,18 @@ export default function MapScreen() {
     animateToCompany(company);
   };
 
+  // Zoom in until the cluster splits; companies sharing one location fan out instead
+  const handleClusterPress = (cluster: MapCluster) => {
+    const expansionRegion = getExpansionRegion(cluster);
+    if (!expansionRegion) {
+      spiderfy(cluster);
+      return;
+    }
+    clearSpiderfy();
+    bumpManualLock(2500);
+    mapRef.current?.animateToRegion(expansionRegion, 400);
+  };
+
   const navigateToDetail = (company: Company) => navigation.navigate('CompanyDetail', { company });
   const handleCalloutPress = (company: Company) => navigateToDetail(company);
 
@@ -341,9 +415,127 @@ export default function MapScreen() {
   // NOTE: details?.isGesture is supported in recent react-native-maps. We also hook onPanDrag as a fallback.
   const handleRegionChangeComplete = (newRegion: Region, details?: { isGesture?: boolean }) => {
     setRegion(newRegion);
+    setMapCentre({ latitude: newRegion.latitude, longitude: newRegion.longitude });
+    icnDataService.prioritizeGeocoding(newRegion);
     if (details?.isGesture) bumpManualLock(4000); // user pinched or dragged — keep their zoom for a bit
   };
 
+  // ===== Area drawing (lasso polygon or corridor along a route) =====
+  const [drawMode, setDrawMode] = useState<DrawMode | null>(null);
+  const [drawPoints, setDrawPoints] = useState<LatLng[]>([]);
+  const [corridorWidthKm, setCorridorWidthKm] = useState(10);
+  const [mapSize, setMapSize] = useState({ width: 1, height: 1 });
+
+  // Refs so the pan responder (created once) sees current values
+  const drawStateRef = useRef({ drawMode, region, mapSize, corridorWidthKm, points: [] as LatLng[] });
+  drawStateRef.current = { ...drawStateRef.current, drawMode, region, mapSize, corridorWidthKm };
+
+  const applyArea = (area: SearchArea | undefined) => {
+    setFilters(prev => ({ ...prev, area }));
+    scheduleZoom(250, true);
+  };
+
+  const finishDrawing = () => {
+    const { drawMode: mode, region: currentRegion, mapSize: size, corridorWidthKm: widthKm, points } = drawStateRef.current;
+    // Tolerance of about two screen pixels keeps the shape faithful but small
+    const simplified = simplifyPath(points, (currentRegion.longitudeDelta / size.width) * 2);
+
+    if (mode === 'polygon' && simplified.length >= 3) {
+      applyArea({ type: 'polygon', points: simplified });
+    } else if (mode === 'corridor' && simplified.length >= 2) {
+      applyArea({ type: 'corridor', points: simplified, widthKm });
+    }
+    drawStateRef.current.points = [];
+    setDrawPoints([]);
+    setDrawMode(null);
+  };
+  const finishDrawingRef = useRef(finishDrawing);
+  finishDrawingRef.current = finishDrawing;
+
+  const drawResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderGrant: event => {
+        const { region: currentRegion, mapSize: size } = drawStateRef.current;
+        const point = pointToCoordinate(event.nativeEvent.locationX, event.nativeEvent.locationY, currentRegion, size);
+        drawStateRef.current.points = [point];
+        setDrawPoints([point]);
+      },
+      onPanResponderMove: event => {
+        const { region: currentRegion, mapSize: size } = drawStateRef.current;
+        const point = pointToCoordinate(event.nativeEvent.locationX, event.nativeEvent.locationY, currentRegion, size);
+        drawStateRef.current.points = [...drawStateRef.current.points, point];
+        setDrawPoints(drawStateRef.current.points);
+      },
+      onPanResponderRelease: () => finishDrawingRef.current(),
+      onPanResponderTerminate: () => finishDrawingRef.current(),
+    })
+  ).current;
+
+  const startDrawing = (mode: DrawMode) => {
+    if (selectedCompany) closeCompanyCard({ animate: false });
+    clearSpiderfy();
+    drawStateRef.current.points = [];
+    setDrawPoints([]);
+    setDrawMode(mode);
+  };
+
+  const handleSaveArea = async () => {
+    if (!user) {
+      Alert.alert('Sign In Required', 'Sign in to save searches.');
+      return;
+    }
+    try {
+      const name = filters.area?.type === 'corridor'
+        ? `Route corridor (${filters.area.widthKm} km)`
+        : 'Drawn map area';
+      await dispatch(saveSearch({
+        userId: user.id,
+        name,
+        filters: toSearchFilters(filters, searchText, origin),
+        resultCount: filteredCompanies.length,
+        limit: features.maxSavedSearches,
+      })).unwrap();
+      Alert.alert('Search Saved', `"${name}" was saved with ${filteredCompanies.length} companies.`);
+    } catch (error) {
+      // Thunk errors arrive serialized, so match on the name
+      if ((error as Error).name === 'SavedSearchLimitError') {
+        Alert.alert(
+          'Saved Search Limit',
+          `Your plan can save up to ${features.maxSavedSearches} searches. Delete a saved area or upgrade to save more.`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Upgrade', onPress: () => navigation.navigate('Payment') }
+          ]
+        );
+        return;
+      }
+      console.error('Error saving search:', error);
+      Alert.alert('Error', 'Failed to save search');
+    }
+  };
+
+  const openSavedArea = (search: SavedSearch) => {
+    setSavedAreasVisible(false);
+    if (drawMode) setDrawMode(null);
+    setSearchText(search.filters.searchText || '');
+    setFilters(toEnhancedFilters(search.filters));
+    scheduleZoom(250, true);
+  };
+
+  const confirmDeleteSavedArea = (search: SavedSearch) => {
+    if (!user) return;
+    Alert.alert('Delete Saved Area', `Delete "${search.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => dispatch(deleteSearch({ userId: user.id, searchId: search.id })),
+      },
+    ]);
+  };
+
   const handleApplyFilters = (newFilters: EnhancedFilterOptions) => {
     setFilters(newFilters);
     setFilterModalVisible(false);
@@ -364,7 +556,54 @@ export default function MapScreen() {
     if (text === '' || text.length > 2) scheduleZoom(250, true); // search is an explicit intent — bypass manual lock
   };
 
-  const getMarkerColor = (company: Company) => (searchText && company.name.toLowerCase().includes(searchText.toLowerCase()) ? Colors.warning : (company.verificationStatus === 'verified' ? Colors.success : Colors.primary));
+  const getMarkerColor = (company: Company) => {
+    if (searchText && company.name.toLowerCase().includes(searchText.toLowerCase())) return Colors.warning;
+    // State-capital fallback: the real site is unknown, so don't colour it like a real pin
+    if (company.geocodePrecision === 'state') return Colors.black50;
+    return company.verificationStatus === 'verified' ? Colors.success : Colors.primary;
+  };
+
+  const renderCompanyMarker = (company: Company, coordinate: LatLng, key: string) => (
+    <Marker
+      key={key}
+      coordinate={coordinate}
+      onPress={() => handleMarkerPress(company)}
+      onCalloutPress={() => handleCalloutPress(company)}
+      pinColor={getMarkerColor(company)}
+      opacity={isApproximateLocation(company.geocodePrecision) ? 0.55 : 1}
+      tracksViewChanges={false}
+    >
+      <Callout style={styles.callout} onPress={() => navigateToDetail(company)} tooltip={false}>
+        <View style={styles.calloutContent}>
+          <Text style={styles.calloutTitle} numberOfLines={1}>{company.name}</Text>
+          <Text style={styles.calloutAddress} numberOfLines={2}>{company.address}</Text>
+          {isApproximateLocation(company.geocodePrecision) && (
+            <View style={styles.approximateIndicator}>
+              <Ionicons name="help-circle-outline" size={12} color={Colors.black50} />
+              <Text style={styles.approximateText}>{GEOCODE_PRECISION_LABELS[company.geocodePrecision!]}</Text>
+            </View>
+          )}
+          <View style={styles.calloutSectors}>
+            {company.keySectors.slice(0, 3).map((sector, index) => (
+              <Text key={index} style={styles.calloutSector}>{sector}</Text>
+            ))}
+          </View>
+          {company.verificationStatus === 'verified' && (
+            <View style={styles.verifiedIndicator}>
+              <Ionicons name="checkmark-circle" size={12} color={Colors.success} />
+              <Text style={styles.verifiedText}>Verified</Text>
+            </View>
+          )}
+          <View style={styles.calloutButton}>
+            <View style={styles.calloutButtonInner}>
+              <Ionicons name="information-circle-outline" size={14} color={Colors.primary} />
+              <Text style={styles.calloutButtonText}>Tap to View Details</Text>
+            </View>
+          </View>
+        </View>
+      </Callout>
+    </Marker>
+  );
 
   const clearFilters = () => {
     setIsFromDropdownSelection(false);
@@ -379,6 +618,7 @@ export default function MapScreen() {
     filters.capabilities.length > 0 ||
     (filters.sectors && filters.sectors.length > 0) ||
     filters.distance !== 'All' ||
+    !!filters.area ||
     (filters.state && filters.state !== 'All') ||
     (filters.companyTypes && filters.companyTypes.length > 0) ||
     (filters.companySize && filters.companySize !== 'All') ||
@@ -408,7 +648,7 @@ export default function MapScreen() {
     : Math.max(tabBarHeight + 12, (insets?.bottom ?? 0) + 24);
 
   return (
-    <View style={styles.container}>
+    <View style={styles.container} onLayout={(e: LayoutChangeEvent) => setMapSize(e.nativeEvent.layout)}>
       <MapView
         ref={mapRef}
         style={styles.map}
@@ -416,44 +656,104 @@ export default function MapScreen() {
         initialRegion={MELBOURNE_REGION}
         onRegionChangeComplete={(r, details) => handleRegionChangeComplete(r, details as any)}
         onPanDrag={() => bumpManualLock(4000)} // fallback for older Android where details?.isGesture is unreliable
+        onPress={clearSpiderfy}
+        mapType={showOfflineTiles ? 'none' : 'standard'}
+        scrollEnabled={!drawMode}
+        zoomEnabled={!drawMode}
+        rotateEnabled={!drawMode}
+        pitchEnabled={!drawMode}
         showsUserLocation
         showsMyLocationButton={false}
         showsCompass={false}
       >
-        {filteredCompanies.map(company => (
+        {showOfflineTiles && (
+          <UrlTile urlTemplate={offlineTileService.getTileUrlTemplate()} maximumZ={19} tileSize={256} zIndex={-1} />
+        )}
+
+        {overlayMode === 'heatmap' && heatmapPoints.length > 0 && (
+          <Heatmap points={heatmapPoints} radius={40} opacity={0.75} gradient={HEATMAP_GRADIENT} />
+        )}
+
+        {overlayMode === 'states' && Object.entries(STATE_OUTLINES).map(([state, outline]) => {
+          const count = stateCounts[state] || 0;
+          return (
+            <Polygon
+              key={`state-${state}-${count}-${densityClasses.length}`}
+              coordinates={outline}
+              strokeColor={Colors.white}
+              strokeWidth={1}
+              fillColor={withOpacity(getDensityColor(count, densityClasses), 0.6)}
+              tappable
+              onPress={() => setDensityDetail(`${state}: ${count} ${count === 1 ? 'company' : 'companies'}`)}
+            />
+          );
+        })}
+
+        {overlayMode === 'postcodes' && postcodeCounts.map(district => (
+          <Circle
+            key={`district-${district.key}-${district.count}`}
+            center={{ latitude: district.latitude, longitude: district.longitude }}
+            radius={12000}
+            strokeColor={Colors.white}
+            strokeWidth={1}
+            fillColor={withOpacity(getDensityColor(district.count, densityClasses), 0.7)}
+          />
+        ))}
+        {overlayMode === 'postcodes' && postcodeCounts.map(district => (
           <Marker
-            key={company.id}
-            coordinate={{ latitude: toNumber(company.latitude), longitude: toNumber(company.longitude) }}
-            onPress={() => handleMarkerPress(company)}
-            onCalloutPress={() => handleCalloutPress(company)}
-            pinColor={getMarkerColor(company)}
+            key={`district-label-${district.key}-${district.count}`}
+            coordinate={{ latitude: district.latitude, longitude: district.longitude }}
+            onPress={() => setDensityDetail(`${district.name} (${district.state}): ${district.count} ${district.count === 1 ? 'company' : 'companies'}`)}
             tracksViewChanges={false}
           >
-            <Callout style={styles.callout} onPress={() => navigateToDetail(company)} tooltip={false}>
-              <View style={styles.calloutContent}>
-                <Text style={styles.calloutTitle} numberOfLines={1}>{company.name}</Text>
-                <Text style={styles.calloutAddress} numberOfLines={2}>{company.address}</Text>
-                <View style={styles.calloutSectors}>
-                  {company.keySectors.slice(0, 3).map((sector, index) => (
-                    <Text key={index} style={styles.calloutSector}>{sector}</Text>
-                  ))}
-                </View>
-                {company.verificationStatus === 'verified' && (
-                  <View style={styles.verifiedIndicator}>
-                    <Ionicons name="checkmark-circle" size={12} color={Colors.success} />
-                    <Text style={styles.verifiedText}>Verified</Text>
-                  </View>
-                )}
-                <View style={styles.calloutButton}>
-                  <View style={styles.calloutButtonInner}>
-                    <Ionicons name="information-circle-outline" size={14} color={Colors.primary} />
-                    <Text style={styles.calloutButtonText}>Tap to View Details</Text>
-                  </View>
-                </View>
-              </View>
-            </Callout>
+            <View style={styles.districtLabel}>
+              <Text style={styles.districtLabelText}>{district.count}</Text>
+            </View>
           </Marker>
         ))}
+
+        {clusterItems.map(item => {
+          if (item.type === 'company') return renderCompanyMarker(item.company, item.coordinate, item.company.id);
+          if (spiderfied?.clusterId === item.id) return null;
+          const size = getClusterSize(item.count);
+          return (
+            <Marker
+              key={`cluster-${item.id}-${item.count}-${item.verifiedCount}`}
+              coordinate={item.coordinate}
+              onPress={() => handleClusterPress(item)}
+              tracksViewChanges={false}
+            >
+              <View
+                style={[
+                  styles.cluster,
+                  { width: size, height: size, borderRadius: size / 2, backgroundColor: getClusterColor(item, Colors.primary, Colors.success) },
+                ]}
+              >
+                <Text style={styles.clusterText}>{item.count}</Text>
+              </View>
+            </Marker>
+          );
+        })}
+
+        {spiderfied && spiderfied.leaves.map(leaf => (
+          <Polyline
+            key={`leg-${leaf.company.id}`}
+            coordinates={[spiderfied.center, leaf.coordinate]}
+            strokeColor={Colors.black50}
+            strokeWidth={1}
+          />
+        ))}
+        {spiderfied && spiderfied.leaves.map(leaf => renderCompanyMarker(leaf.company, leaf.coordinate, `spider-${leaf.company.id}`))}
+
+        {filters.area?.type === 'polygon' && !drawMode && (
+          <Polygon coordinates={filters.area.points} strokeColor={Colors.primary} strokeWidth={2} fillColor={AREA_FILL} />
+        )}
+        {filters.area?.type === 'corridor' && !drawMode && (
+          <Polyline coordinates={filters.area.points} strokeColor={Colors.primary} strokeWidth={4} />
+        )}
+        {drawPoints.length > 1 && (
+          <Polyline coordinates={drawPoints} strokeColor={Colors.navy} strokeWidth={3} />
+        )}
       </MapView>
 
       <View style={[styles.searchOverlay, { top: insets.top + 10 }]}>
@@ -463,7 +763,10 @@ export default function MapScreen() {
           onSelectCompany={handleCompanySelection}
           onFilter={undefined}
           companies={companies}
+          searchCompanies={searchTypedCompanies}
+          getSuggestion={suggestTypedQuery}
           placeholder="Search companies, locations..."
+          error={searchError}
         />
       </View>
 
@@ -472,23 +775,172 @@ export default function MapScreen() {
           <View style={styles.filterInfo}>
             <Text style={styles.filterText}>{filteredCompanies.length} of {companies.length} companies</Text>
           </View>
-          <TouchableOpacity onPress={clearFilters}>
-            <Text style={styles.clearText}>Clear</Text>
-          </TouchableOpacity>
+          <View style={styles.filterActions}>
+            {filters.area && (
+              <TouchableOpacity onPress={handleSaveArea}>
+                <Text style={styles.clearText}>Save</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={clearFilters}>
+              <Text style={styles.clearText}>Clear</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {geocodeProgress && geocodeProgress.pending > 0 && (
+        <View style={[styles.geocodeProgress, { top: insets.top + (shouldShowFilterBar ? 130 : 80) }]}>
+          <ActivityIndicator size="small" color={Colors.primary} />
+          <Text style={styles.geocodeProgressText}>
+            Locating companies {geocodeProgress.located} of {geocodeProgress.total}
+          </Text>
         </View>
       )}
 
-      {filteredCompanies.length === 0 && !isLoading && (
+      {filteredCompanies.length === 0 && !isLoading && !geocodeProgress?.pending && (
         <View style={styles.noResultsOverlay}>
           <Ionicons name="search" size={48} color={Colors.black50} />
           <Text style={styles.noResultsText}>No companies found</Text>
-          <Text style={styles.noResultsSubText}>Try adjusting your filters</Text>
+          {searchSuggestion ? (
+            <TouchableOpacity onPress={() => handleSearchChange(searchSuggestion)}>
+              <Text style={styles.noResultsSubText}>
+                Did you mean <Text style={styles.suggestionText}>{searchSuggestion}</Text>?
+              </Text>
+            </TouchableOpacity>
+          ) : (
+            <Text style={styles.noResultsSubText}>Try adjusting your filters</Text>
+          )}
           <TouchableOpacity style={styles.clearButton} onPress={clearFilters}>
             <Text style={styles.clearButtonText}>Clear Filters</Text>
           </TouchableOpacity>
         </View>
       )}
 
+      {drawMode && (
+        <View style={StyleSheet.absoluteFill} {...drawResponder.panHandlers} />
+      )}
+
+      {drawMode && (
+        <View style={[styles.drawToolbar, { top: insets.top + 10 }]}>
+          <Text style={styles.drawTitle}>
+            {drawMode === 'polygon' ? 'Draw around the area to search' : 'Draw the route to search along'}
+          </Text>
+          <View style={styles.drawOptions}>
+            <TouchableOpacity
+              style={[styles.drawChip, drawMode === 'polygon' && styles.drawChipActive]}
+              onPress={() => startDrawing('polygon')}
+            >
+              <Text style={[styles.drawChipText, drawMode === 'polygon' && styles.drawChipTextActive]}>Area</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.drawChip, drawMode === 'corridor' && styles.drawChipActive]}
+              onPress={() => startDrawing('corridor')}
+            >
+              <Text style={[styles.drawChipText, drawMode === 'corridor' && styles.drawChipTextActive]}>Corridor</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.drawChip} onPress={() => { setDrawPoints([]); setDrawMode(null); }}>
+              <Text style={styles.drawChipText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+          {drawMode === 'corridor' && (
+            <View style={styles.drawOptions}>
+              {CORRIDOR_WIDTH_OPTIONS.map(widthKm => (
+                <TouchableOpacity
+                  key={widthKm}
+                  style={[styles.drawChip, corridorWidthKm === widthKm && styles.drawChipActive]}
+                  onPress={() => setCorridorWidthKm(widthKm)}
+                >
+                  <Text style={[styles.drawChipText, corridorWidthKm === widthKm && styles.drawChipTextActive]}>
+                    {widthKm} km
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </View>
+      )}
+
+      {overlayMode !== 'markers' && !drawMode && (
+        <View style={[styles.densityLegend, { bottom: watermarkBottom + 52 }]}>
+          <Text style={styles.densityLegendTitle}>
+            {overlayMode === 'heatmap' ? 'Company density' : `Companies per ${overlayMode === 'states' ? 'state' : 'postcode area'}`}
+          </Text>
+          {overlayMode === 'heatmap' ? (
+            <View style={styles.densityLegendRow}>
+              <Text style={styles.densityLegendText}>Fewer</Text>
+              {HEATMAP_GRADIENT.colors.map(color => (
+                <View key={color} style={[styles.densitySwatch, { backgroundColor: color }]} />
+              ))}
+              <Text style={styles.densityLegendText}>More</Text>
+            </View>
+          ) : (
+            <>
+              {overlayMode === 'states' && (
+                <View style={styles.densityLegendRow}>
+                  <View style={[styles.densitySwatch, { backgroundColor: EMPTY_DENSITY_COLOR }]} />
+                  <Text style={styles.densityLegendText}>None</Text>
+                </View>
+              )}
+              {densityClasses.map((densityClass, index) => (
+                <View key={densityClass.color} style={styles.densityLegendRow}>
+                  <View style={[styles.densitySwatch, { backgroundColor: densityClass.color }]} />
+                  <Text style={styles.densityLegendText}>
+                    {formatDensityClass(densityClass, index === densityClasses.length - 1)}
+                  </Text>
+                </View>
+              ))}
+            </>
+          )}
+          {densityDetail && <Text style={styles.densityDetail}>{densityDetail}</Text>}
+          {overlayMode === 'postcodes' && (
+            <Text style={styles.densityNote}>Shown at each postcode area's main centre</Text>
+          )}
+        </View>
+      )}
+
+      {savedAreasVisible && (
+        <View style={[styles.layerPicker, selectedCompany && styles.rightButtonsWithCompanyDetail]}>
+          {savedAreas.map(search => (
+            <View key={search.id} style={styles.savedAreaRow}>
+              <TouchableOpacity style={styles.layerOption} onPress={() => openSavedArea(search)}>
+                <Ionicons name={search.filters.area?.type === 'corridor' ? 'git-commit-outline' : 'shapes-outline'} size={18} color={Colors.primary} />
+                <View>
+                  <Text style={styles.layerOptionText}>{search.name}</Text>
+                  <Text style={styles.savedAreaMeta}>
+                    {new Date(search.createdDate).toLocaleDateString()}
+                    {search.resultCount !== undefined ? ` - ${search.resultCount} companies` : ''}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => confirmDeleteSavedArea(search)} accessibilityLabel={`Delete ${search.name}`}>
+                <Ionicons name="trash-outline" size={18} color={Colors.black50} />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {layerPickerVisible && (
+        <View style={[styles.layerPicker, selectedCompany && styles.rightButtonsWithCompanyDetail]}>
+          {OVERLAY_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option.mode}
+              style={[styles.layerOption, overlayMode === option.mode && styles.layerOptionActive]}
+              onPress={() => selectOverlayMode(option.mode)}
+            >
+              <Ionicons
+                name={option.icon}
+                size={18}
+                color={overlayMode === option.mode ? Colors.white : Colors.primary}
+              />
+              <Text style={[styles.layerOptionText, overlayMode === option.mode && styles.layerOptionTextActive]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
       {/* Watermark — ALWAYS rendered. Non-interactive. */}
       <View pointerEvents="none" style={[styles.logoWatermark, { bottom: watermarkBottom }]}>
         <Image
@@ -504,6 +956,43 @@ export default function MapScreen() {
         <TouchableOpacity style={styles.filterFloatingButton} onPress={() => setFilterModalVisible(true)}>
           <Ionicons name="filter" size={24} color={Colors.primary} />
         </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.filterFloatingButton}
+          onPress={() => (drawMode ? setDrawMode(null) : startDrawing('polygon'))}
+          accessibilityLabel="Draw search area"
+        >
+          <Ionicons name={drawMode ? 'close' : 'shapes-outline'} size={24} color={Colors.primary} />
+        </TouchableOpacity>
+        {savedAreas.length > 0 && (
+          <TouchableOpacity
+            style={styles.filterFloatingButton}
+            onPress={() => setSavedAreasVisible(visible => !visible)}
+            accessibilityLabel="Saved areas"
+          >
+            <Ionicons name="bookmark-outline" size={24} color={Colors.primary} />
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={styles.filterFloatingButton}
+          onPress={() => setLayerPickerVisible(visible => !visible)}
+          accessibilityLabel="Map layers"
+        >
+          <Ionicons name="layers-outline" size={24} color={overlayMode === 'markers' ? Colors.primary : Colors.navy} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.filterFloatingButton}
+          onPress={() => navigation.navigate('OfflineMaps', {
+            bounds: {
+              west: region.longitude - region.longitudeDelta / 2,
+              south: region.latitude - region.latitudeDelta / 2,
+              east: region.longitude + region.longitudeDelta / 2,
+              north: region.latitude + region.latitudeDelta / 2,
+            },
+          })}
+          accessibilityLabel="Offline maps"
+        >
+          <Ionicons name={isOnline ? 'download-outline' : 'cloud-offline-outline'} size={24} color={Colors.primary} />
+        </TouchableOpacity>
         <TouchableOpacity
           style={styles.myLocationButton}
           onPress={() => {
@@ -575,10 +1064,16 @@ const styles = StyleSheet.create({
   filterBar: { position: 'absolute', left: 16, right: 16, backgroundColor: Colors.white, paddingHorizontal: 16, paddingVertical: 10, borderRadius: 20, flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', zIndex: 1, shadowColor: '#000', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.1, shadowRadius: 4, elevation: 5 },
   filterInfo: { flexDirection: 'row', alignItems: 'center', gap: 8 },
   filterText: { fontSize: 14, color: Colors.text },
+  filterActions: { flexDirection: 'row', gap: 16 },
   clearText: { fontSize: 14, color: Colors.primary, fontWeight: '600' },
+  geocodeProgress: { position: 'absolute', alignSelf: 'center', backgroundColor: Colors.white, paddingHorizontal: 14, paddingVertical: 8, borderRadius: 16, flexDirection: 'row', alignItems: 'center', gap: 8, zIndex: 1, shadowColor: '#000', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.1, shadowRadius: 4, elevation: 5 },
+  cluster: { alignItems: 'center', justifyContent: 'center', borderWidth: 3, borderColor: Colors.white, shadowColor: '#000', shadowOffset: { width: 0, height: 1 }, shadowOpacity: 0.2, shadowRadius: 2, elevation: 3 },
+  clusterText: { color: Colors.navy, fontWeight: '700', fontSize: 13 },
+  geocodeProgressText: { fontSize: 12, color: Colors.text },
   noResultsOverlay: { position: 'absolute', top: '40%', left: 0, right: 0, alignItems: 'center' },
   noResultsText: { fontSize: 18, fontWeight: '600', color: Colors.text, marginTop: 16 },
   noResultsSubText: { fontSize: 14, color: Colors.black50, marginTop: 8 },
+  suggestionText: { fontWeight: '600', color: Colors.primary },
   clearButton: { marginTop: 16, paddingHorizontal: 20, paddingVertical: 10, backgroundColor: Colors.primary, borderRadius: 20 },
   clearButtonText: { color: Colors.white, fontWeight: '600' },
   callout: { width: 220 },
@@ -588,10 +1083,35 @@ const styles = StyleSheet.create({
   calloutSectors: { flexDirection: 'row', flexWrap: 'wrap', gap: 4, marginBottom: 4 },
   calloutSector: { fontSize: 10, color: Colors.primary, backgroundColor: Colors.orange[400], paddingHorizontal: 6, paddingVertical: 2, borderRadius: 4 },
   verifiedIndicator: { flexDirection: 'row', alignItems: 'center', marginTop: 4 },
+  approximateIndicator: { flexDirection: 'row', alignItems: 'center', gap: 4, marginBottom: 6 },
+  approximateText: { fontSize: 11, color: Colors.black50, fontStyle: 'italic' },
   verifiedText: { fontSize: 10, color: Colors.success, marginLeft: 4 },
   calloutButton: { marginTop: 8, paddingTop: 8, borderTopWidth: 1, borderTopColor: Colors.black20, alignItems: 'center' },
   calloutButtonInner: { flexDirection: 'row', alignItems: 'center', gap: 4, backgroundColor: Colors.orange[400], paddingHorizontal: 12, paddingVertical: 6, borderRadius: 12 },
   calloutButtonText: { fontSize: 12, color: Colors.primary, fontWeight: '600', textAlign: 'center' },
+  drawToolbar: { position: 'absolute', left: 16, right: 16, backgroundColor: Colors.white, padding: 12, borderRadius: 16, gap: 8, zIndex: 1002, shadowColor: '#000', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.15, shadowRadius: 4, elevation: 6 },
+  drawTitle: { fontSize: 14, fontWeight: '600', color: Colors.text },
+  drawOptions: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  drawChip: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 14, borderWidth: 1, borderColor: Colors.black20, backgroundColor: Colors.white },
+  drawChipActive: { backgroundColor: Colors.primary, borderColor: Colors.primary },
+  drawChipText: { fontSize: 12, color: Colors.text },
+  drawChipTextActive: { color: Colors.white, fontWeight: '600' },
+  districtLabel: { minWidth: 24, paddingHorizontal: 4, paddingVertical: 2, borderRadius: 10, backgroundColor: Colors.white, alignItems: 'center' },
+  districtLabelText: { fontSize: 11, fontWeight: '700', color: Colors.navy },
+  densityLegend: { position: 'absolute', left: 16, maxWidth: 200, backgroundColor: Colors.white, padding: 10, borderRadius: 12, gap: 4, zIndex: 101, shadowColor: '#000', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.15, shadowRadius: 4, elevation: 5 },
+  densityLegendTitle: { fontSize: 12, fontWeight: '600', color: Colors.text, marginBottom: 2 },
+  densityLegendRow: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+  densitySwatch: { width: 14, height: 14, borderRadius: 3 },
+  densityLegendText: { fontSize: 11, color: Colors.text },
+  densityDetail: { fontSize: 12, fontWeight: '600', color: Colors.navy, marginTop: 4 },
+  densityNote: { fontSize: 10, color: Colors.black50, marginTop: 2 },
+  layerPicker: { position: 'absolute', right: 76, bottom: 120, backgroundColor: Colors.white, padding: 8, borderRadius: 12, gap: 4, zIndex: 1001, shadowColor: '#000', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.2, shadowRadius: 4, elevation: 5 },
+  layerOption: { flexDirection: 'row', alignItems: 'center', gap: 8, paddingHorizontal: 10, paddingVertical: 8, borderRadius: 8 },
+  layerOptionActive: { backgroundColor: Colors.primary },
+  layerOptionText: { fontSize: 13, color: Colors.text },
+  layerOptionTextActive: { color: Colors.white, fontWeight: '600' },
+  savedAreaRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  savedAreaMeta: { fontSize: 11, color: Colors.black50 },
   rightButtonsContainer: { position: 'absolute', right: 16, bottom: 120, flexDirection: 'column', gap: 16, zIndex: 1001 },
   rightButtonsWithCompanyDetail: { bottom: CARD_RAISE },
   filterFloatingButton: { width: 48, height: 48, borderRadius: 24, backgroundColor: Colors.white, justifyContent: 'center', alignItems: 'center', shadowColor: '#000', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.2, shadowRadius: 4, elevation: 5 },
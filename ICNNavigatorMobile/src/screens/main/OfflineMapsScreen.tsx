@@ -0,0 +1,249 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRoute, RouteProp } from '@react-navigation/native';
+import { Colors } from '../../constants/colors';
+import { MapStackParamList } from '../../navigation/types';
+import { useConnectivity } from '../../contexts/ConnectivityContext';
+import { STATE_BOUNDS, RegionBounds } from '../../data/regionBounds';
+import offlineTileService, { OfflineRegion } from '../../services/offlineTileService';
+
+const DETAIL_LEVELS = [
+  { label: 'Overview', description: 'Towns and highways', minZoom: 5, maxZoom: 9 },
+  { label: 'Regional', description: 'Main roads and suburbs', minZoom: 5, maxZoom: 11 },
+  { label: 'Streets', description: 'Street level, small areas only', minZoom: 5, maxZoom: 13 },
+];
+
+const CURRENT_VIEW = 'Current map view';
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+export default function OfflineMapsScreen() {
+  const route = useRoute<RouteProp<MapStackParamList, 'OfflineMaps'>>();
+  const viewBounds = route.params?.bounds;
+  const { isOnline } = useConnectivity();
+
+  const [selectedArea, setSelectedArea] = useState<string>(viewBounds ? CURRENT_VIEW : 'VIC');
+  const [detailIndex, setDetailIndex] = useState(1);
+  const [regions, setRegions] = useState<OfflineRegion[]>([]);
+  const [activeDownload, setActiveDownload] = useState<OfflineRegion | null>(null);
+
+  const refreshRegions = async () => {
+    setRegions([...(await offlineTileService.getRegions())]);
+  };
+
+  useEffect(() => {
+    refreshRegions();
+  }, []);
+
+  const bounds: RegionBounds = selectedArea === CURRENT_VIEW && viewBounds ? viewBounds : STATE_BOUNDS[selectedArea];
+  const detail = DETAIL_LEVELS[detailIndex];
+  const estimate = useMemo(
+    () => offlineTileService.estimate(bounds, detail.minZoom, detail.maxZoom),
+    [bounds, detail]
+  );
+  const storageUsed = regions.reduce((sum, region) => sum + region.sizeBytes, 0);
+
+  const runDownload = async (request: Parameters<typeof offlineTileService.downloadRegion>[0], existingId?: string) => {
+    try {
+      const result = await offlineTileService.downloadRegion(request, progress => setActiveDownload(progress), existingId);
+      if (result.status === 'incomplete' && result.failedTiles > 0) {
+        Alert.alert('Download Incomplete', `${result.failedTiles} tiles could not be downloaded. You can resume later.`);
+      }
+    } catch (error) {
+      Alert.alert('Download Failed', error instanceof Error ? error.message : 'Could not download this region');
+    } finally {
+      setActiveDownload(null);
+      refreshRegions();
+    }
+  };
+
+  const handleDownload = () => {
+    const name = `${selectedArea === CURRENT_VIEW ? 'Map area' : selectedArea} - ${detail.label}`;
+    Alert.alert(
+      'Download Offline Map',
+      `${name}\n${estimate.tileCount.toLocaleString()} tiles, about ${formatBytes(estimate.estimatedBytes)}. Wi-Fi is recommended.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Download', onPress: () => runDownload({ name, bounds, minZoom: detail.minZoom, maxZoom: detail.maxZoom }) },
+      ]
+    );
+  };
+
+  const handleDelete = (region: OfflineRegion) => {
+    Alert.alert('Delete Offline Map', `Remove "${region.name}" (${formatBytes(region.sizeBytes)})?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await offlineTileService.deleteRegion(region.id);
+          refreshRegions();
+        },
+      },
+    ]);
+  };
+
+  if (!offlineTileService.isConfigured()) {
+    return (
+      <View style={styles.emptyContainer}>
+        <Ionicons name="map-outline" size={48} color={Colors.black50} />
+        <Text style={styles.emptyTitle}>Offline maps unavailable</Text>
+        <Text style={styles.emptyText}>No map tile server is configured for this build.</Text>
+      </View>
+    );
+  }
+
+  const downloadDisabled = !!activeDownload || !isOnline || !estimate.withinLimit;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.sectionTitle}>Area</Text>
+      <View style={styles.chips}>
+        {[...(viewBounds ? [CURRENT_VIEW] : []), ...Object.keys(STATE_BOUNDS)].map(area => (
+          <TouchableOpacity
+            key={area}
+            style={[styles.chip, selectedArea === area && styles.chipActive]}
+            onPress={() => setSelectedArea(area)}
+          >
+            <Text style={[styles.chipText, selectedArea === area && styles.chipTextActive]}>{area}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.sectionTitle}>Detail</Text>
+      {DETAIL_LEVELS.map((level, index) => (
+        <TouchableOpacity
+          key={level.label}
+          style={[styles.detailOption, detailIndex === index && styles.detailOptionActive]}
+          onPress={() => setDetailIndex(index)}
+        >
+          <Ionicons
+            name={detailIndex === index ? 'radio-button-on' : 'radio-button-off'}
+            size={20}
+            color={Colors.primary}
+          />
+          <View style={styles.detailInfo}>
+            <Text style={styles.detailLabel}>{level.label}</Text>
+            <Text style={styles.detailDescription}>{level.description}</Text>
+          </View>
+        </TouchableOpacity>
+      ))}
+
+      <View style={styles.estimate}>
+        <Text style={styles.estimateText}>
+          {estimate.tileCount.toLocaleString()} tiles - about {formatBytes(estimate.estimatedBytes)}
+        </Text>
+        {!estimate.withinLimit && (
+          <Text style={styles.warningText}>Too large to download. Choose a smaller area or less detail.</Text>
+        )}
+        {!isOnline && <Text style={styles.warningText}>Connect to the internet to download maps.</Text>}
+      </View>
+
+      {activeDownload ? (
+        <View style={styles.progress}>
+          <ActivityIndicator size="small" color={Colors.primary} />
+          <Text style={styles.progressText}>
+            {activeDownload.name}: {activeDownload.downloadedTiles + activeDownload.failedTiles} of {activeDownload.tileCount}
+          </Text>
+          <TouchableOpacity onPress={() => offlineTileService.cancelDownload(activeDownload.id)}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <TouchableOpacity
+          style={[styles.downloadButton, downloadDisabled && styles.downloadButtonDisabled]}
+          onPress={handleDownload}
+          disabled={downloadDisabled}
+        >
+          <Ionicons name="download-outline" size={20} color={Colors.white} />
+          <Text style={styles.downloadButtonText}>Download</Text>
+        </TouchableOpacity>
+      )}
+
+      <View style={styles.storageHeader}>
+        <Text style={styles.sectionTitle}>Downloaded</Text>
+        <Text style={styles.storageText}>{formatBytes(storageUsed)} used</Text>
+      </View>
+      {regions.length === 0 && <Text style={styles.emptyText}>No offline maps yet.</Text>}
+      {regions.map(region => (
+        <View key={region.id} style={styles.regionRow}>
+          <View style={styles.regionInfo}>
+            <Text style={styles.regionName}>{region.name}</Text>
+            <Text style={styles.regionMeta}>
+              {formatBytes(region.sizeBytes)} - {region.status === 'complete'
+                ? 'Ready offline'
+                : region.status === 'downloading'
+                  ? 'Downloading'
+                  : `${region.downloadedTiles} of ${region.tileCount} tiles`}
+            </Text>
+          </View>
+          {region.status === 'incomplete' && !activeDownload && isOnline && (
+            <TouchableOpacity
+              style={styles.regionAction}
+              onPress={() => runDownload(region, region.id)}
+              accessibilityLabel={`Resume ${region.name}`}
+            >
+              <Ionicons name="refresh" size={20} color={Colors.primary} />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={styles.regionAction}
+            onPress={() => handleDelete(region)}
+            disabled={activeDownload?.id === region.id}
+            accessibilityLabel={`Delete ${region.name}`}
+          >
+            <Ionicons name="trash-outline" size={20} color={Colors.error} />
+          </TouchableOpacity>
+        </View>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.white },
+  content: { padding: 16, paddingBottom: 40 },
+  sectionTitle: { fontSize: 16, fontWeight: '600', color: Colors.text, marginTop: 16, marginBottom: 10 },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 16, borderWidth: 1, borderColor: Colors.black20 },
+  chipActive: { backgroundColor: Colors.primary, borderColor: Colors.primary },
+  chipText: { fontSize: 13, color: Colors.text },
+  chipTextActive: { color: Colors.white, fontWeight: '600' },
+  detailOption: { flexDirection: 'row', alignItems: 'center', gap: 12, padding: 12, borderRadius: 10, borderWidth: 1, borderColor: Colors.black20, marginBottom: 8 },
+  detailOptionActive: { borderColor: Colors.primary, backgroundColor: Colors.orange[400] },
+  detailInfo: { flex: 1 },
+  detailLabel: { fontSize: 14, fontWeight: '600', color: Colors.text },
+  detailDescription: { fontSize: 12, color: Colors.black50, marginTop: 2 },
+  estimate: { marginTop: 8, marginBottom: 12 },
+  estimateText: { fontSize: 14, color: Colors.text },
+  warningText: { fontSize: 12, color: Colors.error, marginTop: 4 },
+  downloadButton: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 8, backgroundColor: Colors.primary, paddingVertical: 14, borderRadius: 12 },
+  downloadButtonDisabled: { opacity: 0.5 },
+  downloadButtonText: { fontSize: 16, fontWeight: '600', color: Colors.white },
+  progress: { flexDirection: 'row', alignItems: 'center', gap: 10, padding: 14, borderRadius: 12, backgroundColor: Colors.orange[400] },
+  progressText: { flex: 1, fontSize: 13, color: Colors.text },
+  cancelText: { fontSize: 13, fontWeight: '600', color: Colors.primary },
+  storageHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'baseline', marginTop: 16 },
+  storageText: { fontSize: 12, color: Colors.black50 },
+  regionRow: { flexDirection: 'row', alignItems: 'center', paddingVertical: 12, borderBottomWidth: 1, borderBottomColor: Colors.black20 },
+  regionInfo: { flex: 1 },
+  regionName: { fontSize: 14, fontWeight: '500', color: Colors.text },
+  regionMeta: { fontSize: 12, color: Colors.black50, marginTop: 2 },
+  regionAction: { padding: 8 },
+  emptyContainer: { flex: 1, alignItems: 'center', justifyContent: 'center', padding: 32, backgroundColor: Colors.white },
+  emptyTitle: { fontSize: 18, fontWeight: '600', color: Colors.text, marginTop: 12 },
+  emptyText: { fontSize: 14, color: Colors.black50, marginTop: 6, textAlign: 'center' },
+});
@@ -26,6 +26,8 @@ import SubscriptionCard from '../../components/common/SubscriptionCard';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import AuthService from '../../services/authService';
 import DataExportService from '../../services/dataExportService';
+import exportHistoryService from '../../services/exportHistoryService';
+import { useExportQuota } from '../../hooks/useExportQuota';
 
 interface ProfileSectionProps {
   title: string;
@@ -122,6 +124,7 @@ export default function ProfileScreen() {
   // Use contexts for user data and settings
   const { user, isLoading: userLoading, updateUser, refreshUser, clearUser, logout } = useUser();
   const { settings, updateSetting, syncSettings } = useSettings();
+  const { quota: exportQuota, refreshQuota, ensureExportAvailable, runExport } = useExportQuota();
   
   const [avatarLoading, setAvatarLoading] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -155,20 +158,21 @@ export default function ProfileScreen() {
       refreshSubscription();
       refreshUser();
       syncSettings();
+      refreshQuota();
     });
     return unsubscribe;
-  }, [navigation, refreshSubscription, refreshUser, syncSettings]);
+  }, [navigation, refreshSubscription, refreshUser, syncSettings, refreshQuota]);
 
   // Stats based on tier
   const getStats = () => {
     const tier = subscription?.tier || currentTier;
     switch(tier) {
       case 'premium':
-        return { saved: '∞', searches: '∞', exports: '∞' };
+        return { saved: '∞', searches: '∞' };
       case 'plus':
-        return { saved: '50', searches: '500/mo', exports: '50/mo' };
+        return { saved: '50', searches: '500/mo' };
       default:
-        return { saved: '10', searches: '100/mo', exports: '2/mo' };
+        return { saved: '10', searches: '100/mo' };
     }
   };
 
@@ -514,18 +518,8 @@ export default function ProfileScreen() {
   };
 
   // Export Data Handler
-  const handleExportData = () => {
-    if (currentTier === 'free' && features.exportLimit <= 0) {
-      Alert.alert(
-        'Export Limit Reached',
-        `You've used all your free exports this month. Upgrade to Plus or Premium for more.`,
-        [
-          { text: 'Cancel', style: 'cancel' },
-          { text: 'Upgrade', onPress: () => navigation.navigate('Payment') }
-        ]
-      );
-      return;
-    }
+  const handleExportData = async () => {
+    if (!(await ensureExportAvailable())) return;
 
     Alert.alert(
       'Export Your Data',
@@ -545,16 +539,18 @@ export default function ProfileScreen() {
   };
 
   const performDataExport = async (format: 'json' | 'csv') => {
+    if (!user) return;
+
     try {
       setIsLoading(true);
       
-      await DataExportService.exportUserData(format);
-      
-      if (currentTier !== 'premium') {
-        await DataExportService.updateExportCount();
-      }
+      const exported = await runExport(
+        { exportType: 'all', format },
+        () => DataExportService.exportUserData({ userId: user.id, exportType: 'all', format })
+      );
       
       setIsLoading(false);
+      if (!exported) return;
       
       Alert.alert(
         'Export Complete',
@@ -571,6 +567,28 @@ export default function ProfileScreen() {
     }
   };
 
+  // Recent exports from the on-device ledger
+  const handleExportHistory = async () => {
+    const history = await exportHistoryService.getHistory(user?.id);
+    if (history.length === 0) {
+      Alert.alert('Export History', 'You have not exported any data yet.');
+      return;
+    }
+
+    const lines = history.slice(0, 10).map(entry => {
+      const date = new Date(entry.exportDate).toLocaleDateString('en-AU', { day: 'numeric', month: 'short' });
+      const size = entry.fileSize >= 1024 ? `${(entry.fileSize / 1024).toFixed(1)} KB` : `${entry.fileSize} B`;
+      return `${date} - ${entry.format.toUpperCase()} ${entry.exportType} (${entry.status === 'completed' ? size : entry.status})`;
+    });
+    Alert.alert('Export History', lines.join('\n'));
+  };
+
+  const getExportQuotaLabel = () => {
+    if (!exportQuota) return undefined;
+    if (exportQuota.remaining < 0) return 'Unlimited';
+    return `${exportQuota.remaining} of ${exportQuota.limit} left`;
+  };
+
   // Show loading state while user data loads
   if (userLoading) {
     return (
@@ -789,9 +807,15 @@ export default function ProfileScreen() {
           <SettingItem
             icon="download-outline"
             title="Export My Data"
-            value={stats.exports === '∞' ? 'Unlimited' : `${stats.exports} left`}
+            value={getExportQuotaLabel()}
             onPress={handleExportData}
           />
+          <SettingItem
+            icon="time-outline"
+            title="Export History"
+            value={exportQuota ? `${exportQuota.used} this month` : undefined}
+            onPress={handleExportHistory}
+          />
           <SettingItem
             icon="shield-checkmark-outline"
             title="Privacy Policy"
@@ -861,6 +885,16 @@ export default function ProfileScreen() {
             title="About ICN"
             onPress={() => Linking.openURL('https://icn.org.au/icn_vic/about/')}
           />
+          <SettingItem
+            icon="analytics-outline"
+            title="Data Quality Report"
+            onPress={() => navigation.navigate('DataQuality')}
+          />
+          <SettingItem
+            icon="cloud-download-outline"
+            title="Data Updates"
+            onPress={() => navigation.navigate('DatasetUpdates')}
+          />
           <SettingItem
             icon="globe-outline"
             title="Website"
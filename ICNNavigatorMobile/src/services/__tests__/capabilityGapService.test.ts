@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { Company, ICNItem } from '../../types';
+import capabilityGapService, { parseBillOfMaterials } from '../capabilityGapService';
+import icnDataService from '../icnDataService';
+
+const org = (capabilityId: string) => ({ 'Organisation Capability': capabilityId }) as ICNItem['Organizations'][number];
+
+const item = (id: string, name: string, detailedName: string, capabilityIds: string[]): ICNItem => ({
+  _id: { $oid: id },
+  'Detailed Item ID': `d-${id}`,
+  'Item ID': `item-${id}`,
+  'Item Name': name,
+  'Detailed Item Name': detailedName,
+  'Sector Mapping ID': 's-1',
+  'Sector Name': 'Construction',
+  Subtotal: capabilityIds.length,
+  Organizations: capabilityIds.map(org),
+});
+
+const company = (id: string, state: string, verified: boolean, capabilityIds: string[]) => ({
+  id,
+  name: `Company ${id}`,
+  address: '',
+  billingAddress: { street: '', city: '', state, postcode: '' },
+  latitude: 0,
+  longitude: 0,
+  verificationStatus: verified ? 'verified' : 'unverified',
+  keySectors: ['Construction'],
+  icnCapabilities: capabilityIds.map(capabilityId => ({
+    capabilityId,
+    itemId: '',
+    itemName: '',
+    detailedItemName: '',
+    capabilityType: 'Manufacturer',
+    sectorName: 'Construction',
+    sectorMappingId: 's-1',
+  })),
+} as Company);
+
+const items = [
+  item('1', 'Steel Fabrication', 'Structural steel fabrication', ['cap-1', 'cap-2']),
+  item('2', 'Steel Fabrication', 'Steel plate cutting', ['cap-3']),
+  item('3', 'Machining', 'CNC machining', ['cap-4']),
+  item('4', 'Coatings', 'Powder coating', []),
+];
+
+const companies = [
+  company('b', 'NSW', false, ['cap-2']),
+  company('a', 'VIC', true, ['cap-1', 'cap-3']),
+  company('c', 'WA', false, ['cap-4']),
+];
+
+describe('parseBillOfMaterials', () => {
+  it('reads one item per line with an optional quantity', () => {
+    expect(parseBillOfMaterials('Steel beams, 4\nBolts\n\nNuts, 0')).toEqual([
+      { query: 'Steel beams', quantity: 4 },
+      { query: 'Bolts' },
+      { query: 'Nuts' },
+    ]);
+  });
+
+  it('keeps delimiters inside quoted fields', () => {
+    expect(parseBillOfMaterials('"Steel, structural",4\n"Bolts ""M12""",10')).toEqual([
+      { query: 'Steel, structural', quantity: 4 },
+      { query: 'Bolts "M12"', quantity: 10 },
+    ]);
+    expect(parseBillOfMaterials('"Nuts; hex";20')).toEqual([{ query: 'Nuts; hex', quantity: 20 }]);
+  });
+
+  it('splits on the one delimiter the data uses', () => {
+    expect(parseBillOfMaterials('Steel, structural;4\nBolts;10')).toEqual([
+      { query: 'Steel, structural', quantity: 4 },
+      { query: 'Bolts', quantity: 10 },
+    ]);
+    expect(parseBillOfMaterials('Item\tQty\nSteel, structural\t4')).toEqual([
+      { query: 'Steel, structural', quantity: 4 },
+    ]);
+  });
+
+  it('drops a header row and repeated items', () => {
+    expect(parseBillOfMaterials('Item Name,Quantity\nBolts,2\n  bolts ,5')).toEqual([{ query: 'Bolts', quantity: 2 }]);
+  });
+});
+
+describe('resolveItems', () => {
+  it('prefers exact detailed item and item IDs', () => {
+    expect(capabilityGapService.resolveItems('D-3', items)).toEqual([items[2]]);
+    expect(capabilityGapService.resolveItems('item-1', items)).toEqual([items[0]]);
+  });
+
+  it('falls back to exact names before partial ones', () => {
+    expect(capabilityGapService.resolveItems('steel fabrication', items)).toEqual([items[0], items[1]]);
+    expect(capabilityGapService.resolveItems('Steel plate cutting', items)).toEqual([items[1]]);
+    expect(capabilityGapService.resolveItems('machin', items)).toEqual([items[2]]);
+  });
+
+  it('needs a few characters before matching partially', () => {
+    expect(capabilityGapService.resolveItems('cn', items)).toEqual([]);
+    expect(capabilityGapService.resolveItems('  ', items)).toEqual([]);
+  });
+});
+
+describe('analyze', () => {
+  beforeEach(() => {
+    jest.spyOn(icnDataService, 'getICNItems').mockReturnValue(items);
+    jest.spyOn(icnDataService, 'getCompanies').mockReturnValue(companies);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('counts each supplier once, verified first', () => {
+    const [row] = capabilityGapService.analyze([{ query: 'Steel Fabrication' }]).rows;
+
+    expect(row.suppliers.map(supplier => supplier.company.id)).toEqual(['a', 'b']);
+    expect(row).toMatchObject({ supplierCount: 2, verifiedSupplierCount: 1, localSupplierCount: 1 });
+    expect(row.statesWithSupplier).toEqual(['VIC', 'NSW']);
+    expect(row.statesWithoutSupplier).toEqual(['QLD', 'SA', 'WA', 'NT', 'TAS', 'ACT']);
+  });
+
+  it('reports gaps by supplier, verification and locality', () => {
+    const report = capabilityGapService.analyze(
+      [{ query: 'CNC machining' }, { query: 'Powder coating' }, { query: 'Anodising', quantity: 3 }],
+      { localStates: ['VIC', 'NSW'] }
+    );
+
+    expect(report.localStates).toEqual(['VIC', 'NSW']);
+    expect(report.unmatchedLines).toEqual([{ query: 'Anodising', quantity: 3 }]);
+    expect(report.itemsWithoutSupplier.map(row => row.line.query)).toEqual(['Powder coating']);
+    expect(report.itemsWithoutVerifiedSupplier.map(row => row.line.query)).toEqual(['CNC machining', 'Powder coating']);
+    expect(report.itemsWithoutLocalSupplier.map(row => row.line.query)).toEqual(['CNC machining', 'Powder coating']);
+  });
+
+  it('includes New Zealand regions only on request', () => {
+    const [withoutNz] = capabilityGapService.analyze([{ query: 'd-3' }]).rows;
+    const [withNz] = capabilityGapService.analyze([{ query: 'd-3' }], { includeNewZealand: true }).rows;
+
+    expect(withoutNz.statesWithoutSupplier).not.toContain('NI');
+    expect(withNz.statesWithoutSupplier).toEqual(expect.arrayContaining(['NI', 'SI']));
+  });
+});
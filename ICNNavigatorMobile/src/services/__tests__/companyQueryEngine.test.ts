@@ -0,0 +1,210 @@
+import { describe, expect, it } from '@jest/globals';
+import { Company } from '../../types';
+import {
+  calculateDistanceKm,
+  createEmptyQuery,
+  formatDistanceKm,
+  fromSearchFilters,
+  getCompanyDistanceKm,
+  toEnhancedFilters,
+  toSearchFilters,
+  queryCompanies,
+  CompanyQuery,
+  NO_TIER_FEATURES,
+} from '../companyQueryEngine';
+
+const MELBOURNE = { latitude: -37.8136, longitude: 144.9631 };
+const GEELONG = { latitude: -38.1499, longitude: 144.3617 };
+const SYDNEY = { latitude: -33.8688, longitude: 151.2093 };
+
+function makeCompany(overrides: Partial<Company> & Pick<Company, 'id' | 'name'>): Company {
+  return {
+    address: '',
+    billingAddress: { street: '', city: '', state: 'VIC', postcode: '' },
+    latitude: 0,
+    longitude: 0,
+    verificationStatus: 'unverified',
+    keySectors: [],
+    capabilities: [],
+    icnCapabilities: [],
+    ...overrides,
+  } as Company;
+}
+
+const companies = [
+  makeCompany({
+    id: 'c-1',
+    name: 'Acme Fabrication',
+    billingAddress: { street: '12 Smith St', city: 'Melbourne', state: 'VIC', postcode: '3000' },
+    ...MELBOURNE,
+    verificationStatus: 'verified',
+    keySectors: ['Construction'],
+    capabilities: ['Structural steel fabrication'],
+  }),
+  makeCompany({
+    id: 'c-2',
+    name: 'Bay Welding',
+    billingAddress: { street: '3 Pier Rd', city: 'Geelong', state: 'VIC', postcode: '3220' },
+    ...GEELONG,
+    keySectors: ['Construction', 'Defence'],
+    capabilities: ['Welding'],
+  }),
+  makeCompany({
+    id: 'c-3',
+    name: 'Coastal Minerals',
+    billingAddress: { street: '4 Harbour Rd', city: 'Sydney', state: 'NSW', postcode: '2000' },
+    ...SYDNEY,
+    verificationStatus: 'verified',
+    keySectors: ['Critical Minerals'],
+    capabilities: ['Lithium hydroxide refining'],
+  }),
+  makeCompany({ id: 'c-4', name: 'Awaiting Geocode', keySectors: ['Construction'] }),
+];
+
+const query = (overrides: Partial<CompanyQuery>): CompanyQuery => ({ ...createEmptyQuery(), ...overrides });
+const ids = (result: Company[]) => result.map(company => company.id);
+
+describe('calculateDistanceKm', () => {
+  it('matches the published Vincenty distance between Flinders Peak and Buninyong', () => {
+    const flindersPeak = { latitude: -37.95103342, longitude: 144.42486789 };
+    const buninyong = { latitude: -37.65282114, longitude: 143.92649554 };
+    expect(calculateDistanceKm(flindersPeak, buninyong)).toBeCloseTo(54.972271, 4);
+  });
+
+  it('is zero for the same point and symmetric', () => {
+    expect(calculateDistanceKm(MELBOURNE, MELBOURNE)).toBe(0);
+    expect(calculateDistanceKm(MELBOURNE, SYDNEY)).toBeCloseTo(calculateDistanceKm(SYDNEY, MELBOURNE), 6);
+  });
+
+  it('falls back to a finite distance for nearly antipodal points', () => {
+    const distance = calculateDistanceKm({ latitude: 0, longitude: 0 }, { latitude: 0.5, longitude: 179.7 });
+    expect(Number.isFinite(distance)).toBe(true);
+    expect(distance).toBeGreaterThan(19900);
+  });
+});
+
+describe('getCompanyDistanceKm', () => {
+  const fallback = makeCompany({ id: 'f-1', name: 'Unplaced', ...MELBOURNE, geocodePrecision: 'state' });
+
+  it('does not measure companies pinned at the state fallback', () => {
+    expect(getCompanyDistanceKm(fallback, MELBOURNE)).toBeUndefined();
+    expect(getCompanyDistanceKm(companies[3], MELBOURNE)).toBeUndefined();
+  });
+
+  it('measures companies at an approximate location', () => {
+    const suburb = { ...fallback, geocodePrecision: 'suburb' as const };
+    expect(getCompanyDistanceKm(suburb, GEELONG)).toBeCloseTo(calculateDistanceKm(GEELONG, MELBOURNE), 6);
+  });
+
+  it('marks distances to an approximate location', () => {
+    expect(formatDistanceKm(0.4)).toBe('400 m');
+    expect(formatDistanceKm(0.4, true)).toBe('~400 m');
+    expect(formatDistanceKm(4.25, true)).toBe('~4.3 km');
+  });
+});
+
+describe('queryCompanies', () => {
+  it('returns every company for an empty query', () => {
+    const result = queryCompanies(companies, createEmptyQuery(), { features: NO_TIER_FEATURES });
+    expect(result.total).toBe(companies.length);
+    expect(ids(result.companies)).toEqual(['c-1', 'c-2', 'c-3', 'c-4']);
+  });
+
+  it('filters by sector, state and verification status together', () => {
+    const result = queryCompanies(
+      companies,
+      query({ sectors: ['Construction'], state: 'VIC', verificationStatus: 'verified' }),
+      { features: NO_TIER_FEATURES }
+    );
+    expect(ids(result.companies)).toEqual(['c-1']);
+  });
+
+  it('drops companies matching an excluded term', () => {
+    const result = queryCompanies(companies, query({ excludeTerms: ['welding'] }), { features: NO_TIER_FEATURES });
+    expect(ids(result.companies)).not.toContain('c-2');
+  });
+
+  it('keeps the ranked order of the text search, restricted to the input list', () => {
+    const ranked = [companies[2], makeCompany({ id: 'not-in-input', name: 'Other' }), companies[0]];
+    const result = queryCompanies(companies, query({ searchText: 'steel' }), {
+      features: NO_TIER_FEATURES,
+      textSearch: () => ranked,
+    });
+    expect(ids(result.companies)).toEqual(['c-3', 'c-1']);
+  });
+
+  it('limits results to the distance from the origin and leaves out companies without coordinates', () => {
+    const result = queryCompanies(companies, query({ maxDistanceKm: 100, sortBy: 'distance' }), {
+      features: NO_TIER_FEATURES,
+      origin: GEELONG,
+    });
+    expect(ids(result.companies)).toEqual(['c-2', 'c-1']);
+  });
+
+  it('leaves companies pinned at the state fallback out of distance filtering and sorting', () => {
+    const fallback = makeCompany({ id: 'f-1', name: 'Unplaced', ...MELBOURNE, geocodePrecision: 'state' });
+    const withFallback = [...companies, fallback];
+
+    const nearby = queryCompanies(withFallback, query({ maxDistanceKm: 5 }), {
+      features: NO_TIER_FEATURES,
+      origin: MELBOURNE,
+    });
+    expect(ids(nearby.companies)).toEqual(['c-1']);
+
+    const sorted = queryCompanies(withFallback, query({ sortBy: 'distance' }), {
+      features: NO_TIER_FEATURES,
+      origin: MELBOURNE,
+    });
+    expect(ids(sorted.companies).slice(0, 3)).toEqual(['c-1', 'c-2', 'c-3']);
+    expect(ids(sorted.companies).slice(3).sort()).toEqual(['c-4', 'f-1']);
+  });
+
+  it('sorts by name in either direction', () => {
+    const ascending = queryCompanies(companies, query({ sortBy: 'name' }), { features: NO_TIER_FEATURES });
+    const descending = queryCompanies(companies, query({ sortBy: 'name', sortOrder: 'desc' }), {
+      features: NO_TIER_FEATURES,
+    });
+    expect(ids(ascending.companies)).toEqual(['c-1', 'c-4', 'c-2', 'c-3']);
+    expect(ids(descending.companies)).toEqual(['c-3', 'c-2', 'c-4', 'c-1']);
+  });
+
+  it('ignores tier-gated clauses when the tier does not allow them', () => {
+    const gated = query({ companySizes: ['Enterprise'] });
+    expect(queryCompanies(companies, gated, { features: NO_TIER_FEATURES }).total).toBe(companies.length);
+    expect(
+      queryCompanies(companies, gated, { features: { ...NO_TIER_FEATURES, canFilterBySize: true } }).total
+    ).toBe(0);
+  });
+
+  it('counts facets over the matching companies only', () => {
+    const result = queryCompanies(companies, fromSearchFilters({ state: 'VIC' }), { features: NO_TIER_FEATURES });
+    expect(result.facets.verification).toEqual({ verified: 1, unverified: 2 });
+  });
+});
+
+describe('toEnhancedFilters', () => {
+  it('restores the filter modal state a saved search was made from', () => {
+    const filters = {
+      capabilities: ['Welding'],
+      sectors: ['Defence'],
+      distance: '500m',
+      state: 'VIC',
+      area: { type: 'corridor' as const, points: [MELBOURNE, GEELONG], widthKm: 5 },
+      companyTypes: ['Manufacturer'],
+      companySize: 'Medium (51-200)',
+      certifications: ['ISO 9001'],
+      ownershipType: ['Female-owned'],
+      revenue: { min: 1_000_000, max: 5_000_000 },
+      employeeCount: { min: 10, max: 1000 },
+      socialEnterprise: true,
+      australianDisability: true,
+      localContentPercentage: 40,
+    };
+    expect(toEnhancedFilters(toSearchFilters(filters, 'steel', MELBOURNE))).toEqual(filters);
+  });
+
+  it('drops the distance when the search was saved without an anchor', () => {
+    const saved = toSearchFilters({ capabilities: [], sectors: [], distance: '10km' }, '');
+    expect(toEnhancedFilters(saved)).toMatchObject({ capabilities: [], sectors: [], distance: 'All' });
+  });
+});
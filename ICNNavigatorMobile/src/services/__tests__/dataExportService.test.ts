@@ -0,0 +1,154 @@
+import { describe, expect, it } from '@jest/globals';
+import { ExportRequest, SavedCompany, SavedFolder } from '../../types';
+import {
+  buildSchemas,
+  buildTable,
+  ExportData,
+  isWithinDateRange,
+  selectFields,
+} from '../dataExportService';
+
+// Local calendar dates, so the expectations hold in any time zone
+const localDate = (year: number, month: number, day: number, hours = 0, minutes = 0) =>
+  new Date(year, month - 1, day, hours, minutes).toISOString();
+
+const folder: SavedFolder = {
+  id: 'folder-1',
+  userId: 'user-1',
+  name: 'Shortlist',
+  itemCount: 1,
+  createdDate: localDate(2026, 1, 5),
+  updatedDate: localDate(2026, 1, 5),
+};
+
+const saved = (id: string, savedDate: string, extra: Partial<SavedCompany> = {}): SavedCompany => ({
+  id,
+  companyId: `company-${id}`,
+  userId: 'user-1',
+  savedDate,
+  ...extra,
+});
+
+const data: ExportData = {
+  profile: [{ section: 'User', field: 'email', value: 'someone@example.com' }],
+  savedCompanies: [
+    saved('a', localDate(2026, 1, 1), { folderId: 'folder-1', notes: 'Call back', tags: ['steel', 'welding'] }),
+    saved('b', localDate(2026, 1, 31, 23, 30)),
+    saved('c', localDate(2026, 2, 1)),
+  ],
+  folders: [folder],
+  savedSearches: [],
+  searchHistory: [{ query: 'steel' }],
+};
+
+const schemas = buildSchemas(new Map([[folder.id, folder.name]]));
+
+const request = (overrides: Partial<ExportRequest> = {}): ExportRequest => ({
+  userId: 'user-1',
+  exportType: 'all',
+  format: 'csv',
+  ...overrides,
+});
+
+describe('isWithinDateRange', () => {
+  it('keeps everything when no range is set', () => {
+    expect(isWithinDateRange(undefined)).toBe(true);
+  });
+
+  it('treats date-only bounds as whole local days', () => {
+    expect(isWithinDateRange(localDate(2026, 1, 1), '2026-01-01', '2026-01-31')).toBe(true);
+    expect(isWithinDateRange(localDate(2026, 1, 31, 23, 59), '2026-01-01', '2026-01-31')).toBe(true);
+    expect(isWithinDateRange(localDate(2026, 2, 1), '2026-01-01', '2026-01-31')).toBe(false);
+    expect(isWithinDateRange(localDate(2025, 12, 31, 23, 59), '2026-01-01')).toBe(false);
+  });
+
+  it('compares full timestamps exactly', () => {
+    const bound = localDate(2026, 1, 10, 12);
+    expect(isWithinDateRange(localDate(2026, 1, 10, 12), undefined, bound)).toBe(true);
+    expect(isWithinDateRange(localDate(2026, 1, 10, 12, 1), undefined, bound)).toBe(false);
+  });
+
+  it('leaves out records without a usable date once a range is set', () => {
+    expect(isWithinDateRange(undefined, '2026-01-01')).toBe(false);
+    expect(isWithinDateRange('not a date', undefined, '2026-01-31')).toBe(false);
+  });
+});
+
+describe('selectFields', () => {
+  const keys = (fields: { key: string }[]) => fields.map(field => field.key);
+
+  it('exports every field without a selection', () => {
+    expect(selectFields(schemas.folders)).toBe(schemas.folders.fields);
+    expect(selectFields(schemas.folders, [])).toBe(schemas.folders.fields);
+  });
+
+  it('matches bare keys in every entity that has them', () => {
+    expect(keys(selectFields(schemas.folders, ['name']))).toEqual(['name']);
+    expect(keys(selectFields(schemas.savedSearches, ['name']))).toEqual(['name']);
+  });
+
+  it('limits qualified keys to their own entity', () => {
+    expect(keys(selectFields(schemas.folders, ['savedSearches.name']))).toEqual([]);
+    expect(keys(selectFields(schemas.savedSearches, ['savedSearches.name', 'folders.itemCount']))).toEqual(['name']);
+  });
+
+  it('keeps schema column order rather than selection order', () => {
+    expect(keys(selectFields(schemas.savedCompanies, ['notes', 'companyId']))).toEqual(['companyId', 'notes']);
+  });
+});
+
+describe('buildSchemas', () => {
+  it('includes each entity only in its export types', () => {
+    expect(schemas.profile.exportTypes).toEqual(['all']);
+    expect(schemas.savedCompanies.exportTypes).toEqual(['companies', 'all']);
+    expect(schemas.folders.exportTypes).toEqual(['companies', 'all']);
+    expect(schemas.savedSearches.exportTypes).toEqual(['searches', 'all']);
+    expect(schemas.searchHistory.exportTypes).toEqual(['searches', 'all']);
+  });
+
+  it('resolves folder names and joins list values', () => {
+    const fields = selectFields(schemas.savedCompanies, ['folder', 'tags', 'pinned']);
+    expect(fields.map(field => field.value(data.savedCompanies[0]))).toEqual(['Shortlist', 'steel; welding', 'No']);
+  });
+
+  it('falls back to the folder id when the folder is gone', () => {
+    const [field] = selectFields(schemas.savedCompanies, ['folder']);
+    expect(field.value(saved('x', localDate(2026, 1, 1), { folderId: 'deleted' }))).toBe('deleted');
+  });
+});
+
+describe('buildTable', () => {
+  it('writes headers, keys and one row per record', () => {
+    const table = buildTable('folders', schemas, data, request({ includeFields: ['name', 'itemCount'] }));
+    expect(table).toEqual({
+      entity: 'folders',
+      label: 'Folders',
+      headers: ['Name', 'Companies'],
+      keys: ['name', 'itemCount'],
+      rows: [['Shortlist', 1]],
+    });
+  });
+
+  it('applies the date range to the entity date', () => {
+    const table = buildTable(
+      'savedCompanies',
+      schemas,
+      data,
+      request({ includeFields: ['companyId'], filters: { dateFrom: '2026-01-01', dateTo: '2026-01-31' } })
+    );
+    expect(table.rows).toEqual([['company-a'], ['company-b']]);
+  });
+
+  it('applies company and folder filters', () => {
+    const byFolder = buildTable('savedCompanies', schemas, data, request({ filters: { folderIds: ['folder-1'] } }));
+    const byCompany = buildTable('savedCompanies', schemas, data, request({ filters: { companyIds: ['company-c'] } }));
+
+    expect(byFolder.rows.map(row => row[0])).toEqual(['company-a']);
+    expect(byCompany.rows.map(row => row[0])).toEqual(['company-c']);
+  });
+
+  it('ignores the date range for entities without a date', () => {
+    const table = buildTable('profile', schemas, data, request({ filters: { dateFrom: '2030-01-01' } }));
+    expect(table.rows).toEqual([['User', 'email', 'someone@example.com']]);
+  });
+});
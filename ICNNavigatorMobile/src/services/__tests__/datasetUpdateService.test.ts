@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import datasetUpdateService, { applyDelta, DatasetDelta } from '../datasetUpdateService';
+import { validateICNDataset, UnsupportedDatasetError } from '../icnDatasetValidator';
+import dataset from '../../__tests__/fixtures/icnDataset.json';
+
+// In-memory document directory
+const mockFiles = new Map<string, string>();
+
+jest.mock('expo-file-system/legacy', () => ({
+  documentDirectory: 'file:///documents/',
+  getInfoAsync: async (uri: string) => ({ exists: mockFiles.has(uri) }),
+  readAsStringAsync: async (uri: string) => {
+    if (!mockFiles.has(uri)) throw new Error(`No such file: ${uri}`);
+    return mockFiles.get(uri);
+  },
+  writeAsStringAsync: async (uri: string, contents: string) => {
+    mockFiles.set(uri, contents);
+  },
+  makeDirectoryAsync: async () => {},
+  deleteAsync: async (uri: string) => {
+    Array.from(mockFiles.keys()).filter(key => key.startsWith(uri)).forEach(key => mockFiles.delete(key));
+  },
+  moveAsync: async ({ from, to }: { from: string; to: string }) => {
+    if (!mockFiles.has(from)) throw new Error(`No such file: ${from}`);
+    mockFiles.set(to, mockFiles.get(from)!);
+    mockFiles.delete(from);
+  },
+}));
+
+type RawItem = (typeof dataset)[number];
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+const itemIds = (data: unknown) =>
+  ((Array.isArray(data) ? data : (data as { items: RawItem[] }).items) as RawItem[]).map(item => item['Item ID']);
+
+const baseInfo = validateICNDataset(dataset).info;
+
+function makeDelta(overrides: Partial<DatasetDelta> = {}): DatasetDelta {
+  const replaced = { ...clone(dataset[0]), 'Item Name': 'Steel Fabrication & Welding' };
+  const added = { ...clone(dataset[1]), 'Item ID': 'item-4', 'Item Name': 'Battery Assembly' };
+  return {
+    type: 'delta',
+    schemaVersion: 1,
+    baseHash: baseInfo.hash,
+    items: [added, replaced],
+    removedItemIds: ['item-2'],
+    ...overrides,
+  };
+}
+
+describe('applyDelta', () => {
+  it('replaces items in place, appends new ones and drops removed ones', () => {
+    const result = applyDelta(dataset, baseInfo, makeDelta()) as RawItem[];
+
+    expect(itemIds(result)).toEqual(['item-1', 'item-3', 'item-4']);
+    expect(result[0]['Item Name']).toBe('Steel Fabrication & Welding');
+    expect(result[1]).toBe(dataset[2]); // Untouched items are kept as parsed
+  });
+
+  it('keeps a bare array bare unless the delta carries a version', () => {
+    expect(Array.isArray(applyDelta(dataset, baseInfo, makeDelta()))).toBe(true);
+    expect(applyDelta(dataset, baseInfo, makeDelta({ version: '2024.07' }))).toMatchObject({
+      schemaVersion: 1,
+      version: '2024.07',
+    });
+  });
+
+  it('keeps the envelope of a wrapped dataset and its version when the delta has none', () => {
+    const wrapped = { schemaVersion: 1, version: '2024.06', publisher: 'ICN', items: dataset };
+    const info = validateICNDataset(wrapped).info;
+    const result = applyDelta(wrapped, info, makeDelta({ baseHash: info.hash }));
+
+    expect(result).toMatchObject({ schemaVersion: 1, version: '2024.06', publisher: 'ICN' });
+    expect(itemIds(result)).toEqual(['item-1', 'item-3', 'item-4']);
+  });
+
+  it('produces a dataset that validates', () => {
+    const { info } = validateICNDataset(applyDelta(dataset, baseInfo, makeDelta()));
+    expect(info.itemCount).toBe(3);
+    expect(info.hash).not.toBe(baseInfo.hash);
+  });
+
+  it('refuses a delta made for another dataset', () => {
+    expect(() => applyDelta(dataset, baseInfo, makeDelta({ baseHash: '00000000' }))).toThrow(
+      'This update was made for a different version of the ICN data.'
+    );
+  });
+
+  it('refuses an unsupported schema version', () => {
+    expect(() => applyDelta(dataset, baseInfo, makeDelta({ schemaVersion: 2 }))).toThrow(UnsupportedDatasetError);
+  });
+});
+
+describe('install and rollback', () => {
+  const first = clone(dataset).slice(0, 2);
+  const second = clone(dataset).slice(1);
+
+  beforeEach(() => mockFiles.clear());
+
+  it('installs a dataset with the bundled hash it was made against', async () => {
+    await datasetUpdateService.install(first, baseInfo.hash);
+
+    const installed = await datasetUpdateService.readInstalledDataset();
+    expect(installed?.dataset).toEqual(first);
+    expect(installed?.bundledHash).toBe(baseInfo.hash);
+    expect(await datasetUpdateService.hasInstalledDataset()).toBe(true);
+  });
+
+  it('rolls back to the previous download, then to the bundled dataset', async () => {
+    await datasetUpdateService.install(first, baseInfo.hash);
+    await datasetUpdateService.install(second, baseInfo.hash);
+    expect((await datasetUpdateService.readInstalledDataset())?.dataset).toEqual(second);
+
+    expect(await datasetUpdateService.rollback()).toBe(true);
+    expect((await datasetUpdateService.readInstalledDataset())?.dataset).toEqual(first);
+
+    expect(await datasetUpdateService.rollback()).toBe(true);
+    expect(await datasetUpdateService.readInstalledDataset()).toBeNull();
+
+    expect(await datasetUpdateService.rollback()).toBe(false);
+  });
+
+  it('discards every download', async () => {
+    await datasetUpdateService.install(first, baseInfo.hash);
+    await datasetUpdateService.install(second, baseInfo.hash);
+    await datasetUpdateService.discardInstalledDatasets();
+
+    expect(mockFiles.size).toBe(0);
+    expect(await datasetUpdateService.hasInstalledDataset()).toBe(false);
+  });
+});
@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ExportHistory } from '../../types';
+import exportHistoryService, { ExportLimitError } from '../exportHistoryService';
+
+const USER_ID = 'user-1';
+const CSV_EXPORT = { exportType: 'companies', format: 'csv' } as const;
+
+const now = new Date();
+const lastMonth = new Date(now.getFullYear(), now.getMonth(), 0, 12).toISOString();
+const overAYearAgo = new Date(now.getFullYear() - 1, now.getMonth() - 1, 1).toISOString();
+
+function entry(id: string, exportDate: string, status: ExportHistory['status'] = 'completed'): ExportHistory {
+  return { id, userId: USER_ID, exportDate, exportType: 'companies', format: 'csv', fileSize: 100, status };
+}
+
+const seed = (entries: ExportHistory[]) =>
+  AsyncStorage.setItem(`@export_history_${USER_ID}`, JSON.stringify(entries));
+
+const succeed = (size = 512) => jest.fn(async () => size);
+
+describe('exportHistoryService', () => {
+  beforeEach(() => AsyncStorage.clear());
+
+  it('counts only completed exports from the current month', async () => {
+    await seed([
+      entry('this-month', now.toISOString()),
+      entry('failed', now.toISOString(), 'failed'),
+      entry('last-month', lastMonth),
+    ]);
+
+    const quota = await exportHistoryService.getQuota(USER_ID, 5);
+    expect(quota).toMatchObject({ used: 1, limit: 5, remaining: 4 });
+    expect(new Date(quota.resetsOn)).toEqual(new Date(now.getFullYear(), now.getMonth() + 1, 1));
+  });
+
+  it('drops entries older than a year from the history', async () => {
+    await seed([entry('recent', lastMonth), entry('old', overAYearAgo)]);
+    expect((await exportHistoryService.getHistory(USER_ID)).map(item => item.id)).toEqual(['recent']);
+  });
+
+  it('reports unlimited tiers as having exports left', async () => {
+    await seed([entry('a', now.toISOString()), entry('b', now.toISOString())]);
+    expect(await exportHistoryService.getQuota(USER_ID, -1)).toMatchObject({ used: 2, remaining: -1 });
+  });
+
+  it('records a completed export with the size the task produced', async () => {
+    const recorded = await exportHistoryService.trackExport(USER_ID, 5, CSV_EXPORT, succeed(2048));
+
+    expect(recorded).toMatchObject({ status: 'completed', fileSize: 2048, format: 'csv', userId: USER_ID });
+    expect(await exportHistoryService.getHistory(USER_ID)).toEqual([recorded]);
+  });
+
+  it('records a failed export without counting it against the quota', async () => {
+    const failure = new Error('disk full');
+    await expect(
+      exportHistoryService.trackExport(USER_ID, 1, CSV_EXPORT, async () => { throw failure; })
+    ).rejects.toBe(failure);
+
+    const [recorded] = await exportHistoryService.getHistory(USER_ID);
+    expect(recorded.status).toBe('failed');
+    expect((await exportHistoryService.getQuota(USER_ID, 1)).remaining).toBe(1);
+  });
+
+  it('refuses an export without running it once the month is used up', async () => {
+    await seed([entry('used', now.toISOString())]);
+    const task = succeed();
+
+    await expect(exportHistoryService.trackExport(USER_ID, 1, CSV_EXPORT, task)).rejects.toBeInstanceOf(ExportLimitError);
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it('runs exports one at a time so concurrent exports cannot overrun the quota', async () => {
+    const first = succeed();
+    const second = succeed();
+
+    const results = await Promise.allSettled([
+      exportHistoryService.trackExport(USER_ID, 1, CSV_EXPORT, first),
+      exportHistoryService.trackExport(USER_ID, 1, CSV_EXPORT, second),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect(second).not.toHaveBeenCalled();
+    expect(await exportHistoryService.getHistory(USER_ID)).toHaveLength(1);
+  });
+
+  it('keeps separate ledgers per user and for guests', async () => {
+    await exportHistoryService.trackExport(undefined, 5, CSV_EXPORT, succeed());
+
+    expect((await exportHistoryService.getQuota(undefined, 5)).used).toBe(1);
+    expect((await exportHistoryService.getQuota(USER_ID, 5)).used).toBe(0);
+  });
+});
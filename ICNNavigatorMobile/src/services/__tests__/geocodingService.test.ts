@@ -0,0 +1,92 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { GeocodePrecision } from '../../types';
+import { ChainedGeocodingProvider, GeocodingProvider, GeocodingResult } from '../geocodingService';
+
+const QUERY = { street: '12 Smith St', city: 'Melbourne', state: 'VIC', postcode: '3000' };
+
+// Provider answering every query with a fixed result
+function stubProvider(
+  name: string,
+  precision: GeocodePrecision | null,
+  options: { remote?: boolean; available?: boolean } = {}
+) {
+  const geocode = jest.fn(async (): Promise<GeocodingResult | null> =>
+    precision ? { latitude: -37.8, longitude: 144.9, precision } : null
+  );
+  const provider: GeocodingProvider = {
+    name,
+    remote: options.remote,
+    isAvailable: options.available === false ? () => false : undefined,
+    geocode,
+  };
+  return { provider, geocode };
+}
+
+describe('ChainedGeocodingProvider', () => {
+  it('names itself after its providers', () => {
+    const chain = new ChainedGeocodingProvider([stubProvider('offline', null).provider, stubProvider('google', null).provider]);
+    expect(chain.name).toBe('offline+google');
+  });
+
+  it('keeps the most precise result across providers', async () => {
+    const suburb = stubProvider('offline', 'suburb');
+    const postcode = stubProvider('postcodes', 'postcode');
+    const state = stubProvider('states', 'state');
+
+    const result = await new ChainedGeocodingProvider([suburb.provider, postcode.provider, state.provider]).geocode(QUERY);
+
+    expect(result).toMatchObject({ precision: 'postcode', source: 'postcodes' });
+    expect(state.geocode).toHaveBeenCalled();
+  });
+
+  it('stops at the first street or rooftop result', async () => {
+    const street = stubProvider('offline', 'street');
+    const remote = stubProvider('google', 'rooftop', { remote: true });
+
+    const result = await new ChainedGeocodingProvider([street.provider, remote.provider]).geocode(QUERY);
+
+    expect(result).toMatchObject({ precision: 'street', source: 'offline', fromNetwork: false });
+    expect(remote.geocode).not.toHaveBeenCalled();
+  });
+
+  it('gives ties to the later provider', async () => {
+    const first = stubProvider('offline', 'postcode');
+    const second = stubProvider('google', 'postcode', { remote: true });
+
+    const result = await new ChainedGeocodingProvider([first.provider, second.provider]).geocode(QUERY);
+
+    expect(result).toMatchObject({ source: 'google', fromNetwork: true });
+  });
+
+  it('keeps an approximate result when a later provider does worse or finds nothing', async () => {
+    const result = await new ChainedGeocodingProvider([
+      stubProvider('offline', 'suburb').provider,
+      stubProvider('states', 'state').provider,
+      stubProvider('google', null, { remote: true }).provider,
+    ]).geocode(QUERY);
+
+    expect(result).toMatchObject({ precision: 'suburb', source: 'offline', fromNetwork: true });
+  });
+
+  it('skips unavailable providers and survives failing ones', async () => {
+    const unavailable = stubProvider('google', 'rooftop', { remote: true, available: false });
+    const failing: GeocodingProvider = {
+      name: 'broken',
+      geocode: async () => {
+        throw new Error('boom');
+      },
+    };
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await new ChainedGeocodingProvider([unavailable.provider, failing, stubProvider('offline', 'suburb').provider])
+      .geocode(QUERY);
+
+    expect(unavailable.geocode).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ source: 'offline', fromNetwork: false });
+    warn.mockRestore();
+  });
+
+  it('returns null when no provider resolves the address', async () => {
+    expect(await new ChainedGeocodingProvider([stubProvider('offline', null).provider]).geocode(QUERY)).toBeNull();
+  });
+});
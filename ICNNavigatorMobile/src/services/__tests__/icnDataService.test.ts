@@ -0,0 +1,251 @@
+import { beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { Company, ICNCompanyData, ICNItem } from '../../types';
+import {
+  buildDataQualityReport,
+  convertICNDataToCompanies,
+  getCompanyRegion,
+  matchesRegion,
+  resolveStateTerritory,
+  sortByApproximateDistance,
+  stratifiedSampleCompanies,
+  UNKNOWN_REGION,
+} from '../icnDataService';
+
+const STATES = ['VIC', 'NSW', 'QLD', 'WA'];
+const SECTORS = ['Construction', 'Defence', 'Critical Minerals'];
+
+// 400 companies over 12 state/sector strata of uneven size
+const companies: Company[] = Array.from({ length: 400 }, (_, index) => ({
+  id: `org-${String(index).padStart(3, '0')}`,
+  name: `Company ${index}`,
+  address: '',
+  billingAddress: { street: '', city: '', state: STATES[index % 7 % STATES.length], postcode: '' },
+  latitude: 0,
+  longitude: 0,
+  verificationStatus: 'unverified',
+  keySectors: [SECTORS[index % 5 % SECTORS.length]],
+} as Company));
+
+const ids = (sample: Company[]) => sample.map(company => company.id);
+const stratum = (company: Company) => `${company.billingAddress!.state}|${company.keySectors[0]}`;
+
+function countBy(list: Company[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  list.forEach(company => counts.set(stratum(company), (counts.get(stratum(company)) || 0) + 1));
+  return counts;
+}
+
+describe('stratifiedSampleCompanies', () => {
+  it('selects the same companies for the same seed', () => {
+    const first = stratifiedSampleCompanies(companies, 60, 42);
+    const second = stratifiedSampleCompanies([...companies], 60, 42);
+    expect(ids(first)).toEqual(ids(second));
+  });
+
+  it('selects different companies for a different seed', () => {
+    expect(ids(stratifiedSampleCompanies(companies, 60, 1))).not.toEqual(ids(stratifiedSampleCompanies(companies, 60, 2)));
+  });
+
+  it('returns exactly the target size, in dataset order', () => {
+    const sample = stratifiedSampleCompanies(companies, 60, 42);
+    expect(sample).toHaveLength(60);
+    expect(ids(sample)).toEqual([...ids(sample)].sort());
+  });
+
+  it('gives each stratum a share proportional to its size', () => {
+    const population = countBy(companies);
+    const sample = countBy(stratifiedSampleCompanies(companies, 60, 42));
+    population.forEach((size, key) => {
+      const exact = (60 * size) / companies.length;
+      expect(sample.get(key) || 0).toBeGreaterThanOrEqual(Math.floor(exact));
+      expect(sample.get(key) || 0).toBeLessThanOrEqual(Math.ceil(exact));
+    });
+  });
+
+  it('returns the input unchanged when it is no larger than the target', () => {
+    const few = companies.slice(0, 10);
+    expect(stratifiedSampleCompanies(few, 60, 42)).toBe(few);
+  });
+});
+
+describe('resolveStateTerritory', () => {
+  it('takes a standard code or state name from the state field', () => {
+    expect(resolveStateTerritory(' vic ', '3000')).toEqual({ state: 'VIC', confidence: 'high', rule: 'code' });
+    expect(resolveStateTerritory('New South Wales')).toEqual({ state: 'NSW', confidence: 'high', rule: 'name' });
+    expect(resolveStateTerritory('QLS')).toEqual({ state: 'QLD', confidence: 'medium', rule: 'typo' });
+  });
+
+  it('falls back to the postcode when the state field is missing', () => {
+    expect(resolveStateTerritory('#N/A', '3220')).toEqual({ state: 'VIC', confidence: 'medium', rule: 'postcode' });
+    expect(resolveStateTerritory(undefined, '2601')).toEqual({ state: 'ACT', confidence: 'medium', rule: 'postcode' });
+    expect(resolveStateTerritory('', '800').state).toBe('NT');
+  });
+
+  it('keeps a confident state field over a conflicting postcode', () => {
+    expect(resolveStateTerritory('VIC', '2000')).toEqual({ state: 'VIC', confidence: 'high', rule: 'code' });
+  });
+
+  it('lets the postcode overrule a low-confidence state match', () => {
+    expect(resolveStateTerritory('Melbourne CBD', '2000')).toEqual({ state: 'NSW', confidence: 'medium', rule: 'postcode' });
+    expect(resolveStateTerritory('Melbourne CBD')).toEqual({ state: 'VIC', confidence: 'low', rule: 'partial' });
+  });
+
+  it('leaves the state unresolved when nothing identifies it', () => {
+    const unresolved = { state: null, confidence: 'none', rule: 'unresolved' };
+    expect(resolveStateTerritory('Somewhere', 'ABC')).toEqual(unresolved);
+    expect(resolveStateTerritory('N/A', '12')).toEqual(unresolved);
+    expect(resolveStateTerritory(null)).toEqual(unresolved);
+  });
+});
+
+describe('getCompanyRegion / matchesRegion', () => {
+  const located = { ...companies[0], billingAddress: { street: '', city: '', state: 'VIC', postcode: '' } };
+  const unresolved = { ...companies[0], billingAddress: { street: '', city: '', state: '', postcode: '' } };
+
+  it('buckets companies without a standard state in the unknown region', () => {
+    expect(getCompanyRegion(located)).toBe('VIC');
+    expect(getCompanyRegion(unresolved)).toBe(UNKNOWN_REGION);
+  });
+
+  it('selects only unresolved companies for the unknown region filter', () => {
+    expect(matchesRegion(unresolved, UNKNOWN_REGION)).toBe(true);
+    expect(matchesRegion(located, UNKNOWN_REGION)).toBe(false);
+    expect(matchesRegion(located, 'VIC')).toBe(true);
+    expect(matchesRegion(unresolved, 'VIC')).toBe(false);
+  });
+});
+
+describe('sortByApproximateDistance', () => {
+  const at = (id: string, state: string, postcode: string) =>
+    ({ ...companies[0], id, billingAddress: { street: '', city: '', state, postcode } });
+  const GEELONG = { latitude: -38.1499, longitude: 144.3617 };
+
+  it('orders companies by their postcode district before their state', () => {
+    const queue = [at('sydney', 'NSW', '2000'), at('cbd', 'VIC', '3000'), at('bendigo', 'VIC', '3550'), at('geelong', 'VIC', '3220')];
+    expect(ids(sortByApproximateDistance(queue, GEELONG))).toEqual(['geelong', 'cbd', 'bendigo', 'sydney']);
+  });
+
+  it('falls back to the state capital without a known postcode, keeping ties in order', () => {
+    const queue = [at('perth', 'WA', ''), at('no-postcode', 'VIC', ''), at('bad-postcode', 'VIC', 'ABC'), at('cbd', 'VIC', '3000')];
+    expect(ids(sortByApproximateDistance(queue, GEELONG))).toEqual(['no-postcode', 'bad-postcode', 'cbd', 'perth']);
+  });
+
+  it('reads New Zealand postcodes for NI and SI addresses only', () => {
+    const queue = [at('melbourne', 'VIC', '8001'), at('christchurch', 'SI', '8011')];
+    expect(ids(sortByApproximateDistance(queue, { latitude: -43.5, longitude: 172.6 }))).toEqual(['christchurch', 'melbourne']);
+  });
+});
+
+describe('data corrections', () => {
+  const org = (overrides: Partial<ICNCompanyData>): ICNCompanyData => ({
+    'Organisation Capability': 'cap',
+    'Organisation: Organisation Name': 'Acme Fabrication',
+    'Organisation: Organisation ID': 'org-1',
+    'Capability Type': 'Manufacturer',
+    'Validation Date': '3/05/2023',
+    'Organisation: Billing Street': '12 Smith St',
+    'Organisation: Billing City': 'Melbourne',
+    'Organisation: Billing State/Province': 'VIC',
+    'Organisation: Billing Zip/Postal Code': '3000',
+    ...overrides,
+  } as ICNCompanyData);
+
+  const item = (id: string, sectorName: string, organizations: ICNCompanyData[]): ICNItem => ({
+    _id: { $oid: id },
+    'Detailed Item ID': `d-${id}`,
+    'Item ID': `item-${id}`,
+    'Item Name': 'Steel Fabrication',
+    'Detailed Item Name': 'Structural steel fabrication',
+    'Sector Mapping ID': 's-1',
+    'Sector Name': sectorName,
+    Subtotal: organizations.length,
+    Organizations: organizations,
+  });
+
+  const items = [
+    item('1', 'Construction', [
+      org({
+        'Organisation Capability': 'cap-1',
+        'Organisation: Billing City': 'Melb',
+        'Organisation: Billing State/Province': 'Victoria',
+        'Capability Type': 'manufacturer',
+      }),
+      org({
+        'Organisation Capability': 'cap-2',
+        'Organisation: Organisation ID': 'org-2',
+        'Organisation: Organisation Name': '#N/A',
+        'Organisation: Billing Street': '',
+        'Organisation: Billing State/Province': 'N/A',
+        'Organisation: Billing Zip/Postal Code': '2000',
+      }),
+      org({ 'Organisation Capability': 'cap-3', 'Organisation: Organisation ID': 'org-3', 'Organisation: Organisation Name': 'Clean Co' }),
+    ]),
+    item('2', '#N/A', [org({ 'Organisation Capability': 'cap-4' })]),
+  ];
+
+  let companies: Company[];
+  const byId = (id: string) => companies.find(company => company.id === id)!;
+
+  beforeAll(async () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    companies = await convertICNDataToCompanies(items);
+    log.mockRestore();
+  });
+
+  it('records each correction against the company it was made for', () => {
+    expect(byId('org-1').dataCorrections).toEqual([
+      { field: 'billingAddress.city', originalValue: 'Melb', newValue: 'Melbourne', rule: 'city-correction' },
+      { field: 'billingAddress.state', originalValue: 'Victoria', newValue: 'VIC', rule: 'state-name' },
+      { field: 'icnCapabilities.capabilityType', originalValue: 'manufacturer', newValue: 'Manufacturer', rule: 'capability-type', capabilityId: 'cap-1' },
+      { field: 'icnCapabilities.sectorName', originalValue: '#N/A', newValue: 'General', rule: 'placeholder', capabilityId: 'cap-4' },
+    ]);
+    expect(byId('org-2').dataCorrections).toEqual([
+      { field: 'billingAddress.street', originalValue: '', newValue: 'Address Not Available', rule: 'placeholder' },
+      { field: 'billingAddress.state', originalValue: 'N/A', newValue: 'NSW', rule: 'state-postcode' },
+      { field: 'name', originalValue: '#N/A', newValue: 'Company rg-2', rule: 'generated-name' },
+    ]);
+    expect(byId('org-3').dataCorrections).toEqual([]);
+  });
+
+  it('applies the corrected values to the company', () => {
+    expect(byId('org-1').billingAddress).toMatchObject({ city: 'Melbourne', state: 'VIC' });
+    expect(byId('org-1').keySectors).toEqual(['Construction', 'General']);
+    expect(byId('org-2')).toMatchObject({ name: 'Company rg-2', billingAddress: { state: 'NSW' } });
+  });
+
+  it('summarises corrections by rule, most frequent first', () => {
+    const report = buildDataQualityReport(companies);
+
+    expect(report).toMatchObject({ totalCompanies: 3, correctedCompanies: 2, totalCorrections: 7 });
+    expect(report.byRule[0]).toEqual({ rule: 'placeholder', corrections: 2, companies: 2 });
+    expect(report.byRule.slice(1)).toEqual(expect.arrayContaining([
+      { rule: 'city-correction', corrections: 1, companies: 1 },
+      { rule: 'state-name', corrections: 1, companies: 1 },
+      { rule: 'state-postcode', corrections: 1, companies: 1 },
+      { rule: 'capability-type', corrections: 1, companies: 1 },
+      { rule: 'generated-name', corrections: 1, companies: 1 },
+    ]));
+  });
+
+  it('ranks records by distinct corrected fields and honours the limit', () => {
+    const repeated = {
+      ...byId('org-3'),
+      id: 'org-4',
+      dataCorrections: Array.from({ length: 5 }, (_, index) => ({
+        field: 'icnCapabilities.sectorName',
+        originalValue: null,
+        newValue: 'General',
+        rule: 'placeholder' as const,
+        capabilityId: `cap-${index}`,
+      })),
+    };
+    const report = buildDataQualityReport([...companies, repeated]);
+
+    expect(report.worstRecords.map(record => [record.company.id, record.correctedFields, record.corrections])).toEqual([
+      ['org-1', 4, 4],
+      ['org-2', 3, 3],
+      ['org-4', 1, 5],
+    ]);
+    expect(buildDataQualityReport([...companies, repeated], 1).worstRecords).toHaveLength(1);
+  });
+});
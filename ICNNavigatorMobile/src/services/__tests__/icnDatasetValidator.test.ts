@@ -0,0 +1,81 @@
+import { describe, expect, it } from '@jest/globals';
+import { validateICNDataset, hashDataset, UnsupportedDatasetError } from '../icnDatasetValidator';
+import dataset from '../../__tests__/fixtures/icnDataset.json';
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+function expectUnsupported(data: unknown, message: RegExp): UnsupportedDatasetError {
+  try {
+    validateICNDataset(data);
+  } catch (error) {
+    expect(error).toBeInstanceOf(UnsupportedDatasetError);
+    expect((error as Error).message).toMatch(message);
+    return error as UnsupportedDatasetError;
+  }
+  throw new Error('Expected the dataset to be rejected');
+}
+
+describe('validateICNDataset', () => {
+  it('accepts a bare array as schema 1 without a version', () => {
+    const { items, info } = validateICNDataset(dataset);
+    expect(items).toHaveLength(3);
+    expect(info).toMatchObject({
+      schemaVersion: 1,
+      version: null,
+      hash: hashDataset(dataset),
+      itemCount: 3,
+      organisationCount: 4,
+      rejectedItems: 0,
+      issueCount: 0,
+    });
+  });
+
+  it('reads the schema and version of a wrapped dataset', () => {
+    const { info } = validateICNDataset({ schemaVersion: 1, version: '2024.06', items: dataset });
+    expect(info.schemaVersion).toBe(1);
+    expect(info.version).toBe('2024.06');
+  });
+
+  it('drops malformed organisations and reports their paths', () => {
+    const data = clone(dataset);
+    (data[0].Organizations[1] as Record<string, unknown>)['Capability Type'] = 7;
+
+    const { items, info } = validateICNDataset(data);
+    expect(items[0].Organizations).toHaveLength(1);
+    expect(info.rejectedOrganisations).toBe(1);
+    expect(info.issues).toEqual([
+      { path: '$[0].Organizations[1]["Capability Type"]', message: 'Expected string, found number' },
+    ]);
+  });
+
+  it('drops items missing a required field', () => {
+    const data = clone(dataset);
+    delete (data[2] as Partial<typeof data[2]>)['Item ID'];
+
+    const { items, info } = validateICNDataset(data);
+    expect(items.map(item => item['Item ID'])).toEqual(['item-1', 'item-2']);
+    expect(info.rejectedItems).toBe(1);
+    expect(info.issues[0]).toEqual({ path: '$[2]["Item ID"]', message: 'Required field is missing' });
+  });
+
+  it('rejects an unsupported schema version', () => {
+    expectUnsupported({ schemaVersion: 2, items: dataset }, /schema version 2 is not supported/);
+    expectUnsupported({ items: dataset }, /schema version \(missing\)/);
+  });
+
+  it('rejects unknown layouts and empty datasets', () => {
+    expectUnsupported({ companies: [] }, /not in a recognised format/);
+    expectUnsupported([], /contains no items/);
+  });
+
+  it('rejects a dataset where most items are malformed', () => {
+    const error = expectUnsupported([dataset[0], 'not an item', { 'Item ID': 'x' }], /2 of 3 ICN items/);
+    expect(error.info?.rejectedItems).toBe(2);
+  });
+
+  it('hashes equal content equally and different content differently', () => {
+    expect(hashDataset(clone(dataset))).toBe(hashDataset(dataset));
+    expect(hashDataset(dataset.slice(1))).not.toBe(hashDataset(dataset));
+    expect(hashDataset(dataset)).toMatch(/^[0-9a-f]{8}$/);
+  });
+});
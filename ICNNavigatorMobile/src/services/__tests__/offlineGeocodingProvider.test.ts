@@ -0,0 +1,54 @@
+import { describe, expect, it } from '@jest/globals';
+import offlineGeocodingProvider from '../offlineGeocodingProvider';
+
+const district = (postcode: string, state?: string) => {
+  const match = offlineGeocodingProvider.findPostcodeDistrict(postcode, state);
+  return match && `${match.name}, ${match.state}`;
+};
+
+describe('findPostcodeDistrict', () => {
+  it('resolves Australian postcodes to the narrowest district', () => {
+    expect(district('3000', 'VIC')).toBe('Melbourne CBD, VIC');
+    expect(district(' 2000 ')).toBe('Sydney, NSW');
+  });
+
+  it('uses New Zealand districts only for NI and SI addresses', () => {
+    expect(district('8011', 'SI')).toBe('Christchurch, SI');
+    expect(district('8011', 'VIC')).toBe('Melbourne, VIC');
+    expect(district('8011')).toBe('Melbourne, VIC');
+    expect(district('6011', 'NI')).toBe('Wellington, NI');
+  });
+
+  it('accepts 3-digit postcodes that lost their leading zero', () => {
+    expect(district('800', 'NT')).toBe('Darwin, NT');
+    expect(district('0800', 'NT')).toBe('Darwin, NT');
+    expect(district('870')).toBe('Alice Springs, NT');
+  });
+
+  it('trusts the postcode over a state that does not contain it', () => {
+    expect(district('2600', 'NSW')).toBe('Canberra, ACT');
+  });
+
+  it('rejects values that are not 3 or 4 digit postcodes', () => {
+    expect(district('30')).toBeNull();
+    expect(district('30000')).toBeNull();
+    expect(district('VIC 3000')).toBeNull();
+    expect(district('')).toBeNull();
+  });
+});
+
+describe('OfflineGeocodingProvider.geocode', () => {
+  it('prefers a known locality over the postcode district', async () => {
+    const result = await offlineGeocodingProvider.geocode({ city: 'Geelong', state: 'vic', postcode: '3000' });
+    expect(result).toMatchObject({ formattedAddress: 'Geelong, VIC', precision: 'suburb', source: 'offline' });
+  });
+
+  it('falls back to the postcode district', async () => {
+    const result = await offlineGeocodingProvider.geocode({ city: 'Nowhere', state: 'NT', postcode: '800' });
+    expect(result).toMatchObject({ formattedAddress: 'Darwin, NT 800', precision: 'postcode' });
+  });
+
+  it('returns null when neither the locality nor the postcode is known', async () => {
+    expect(await offlineGeocodingProvider.geocode({ city: 'Nowhere', postcode: 'ABC' })).toBeNull();
+  });
+});
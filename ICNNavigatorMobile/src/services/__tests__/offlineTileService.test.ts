@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type * as FileSystemModule from 'expo-file-system/legacy';
+import type { OfflineTileService } from '../offlineTileService';
+
+jest.mock('../../constants', () => ({ MAP_TILE_URL_TEMPLATE: 'https://tiles.example.com/{z}/{x}/{y}.png' }));
+
+const TILE_BYTES = 100;
+
+// Two regions at one zoom level that share a column of tiles
+const WEST = { name: 'West', bounds: { west: 144.9, east: 145.0, south: -37.82, north: -37.8 }, minZoom: 12, maxZoom: 12 };
+const EAST = { name: 'East', bounds: { west: 144.95, east: 145.1, south: -37.82, north: -37.8 }, minZoom: 12, maxZoom: 12 };
+
+let service: OfflineTileService;
+let files: Set<string>;
+
+beforeEach(() => {
+  jest.resetModules();
+  files = new Set();
+
+  // Fresh service and file system mock per test; tiles written by downloadAsync are TILE_BYTES each
+  const FileSystem = require('expo-file-system/legacy') as jest.Mocked<typeof FileSystemModule>;
+  FileSystem.getInfoAsync.mockImplementation(async (path: string) =>
+    (files.has(path) ? { exists: true, size: TILE_BYTES } : { exists: false }) as FileSystemModule.FileInfo
+  );
+  FileSystem.deleteAsync.mockImplementation(async (path: string) => {
+    files.delete(path);
+  });
+  (FileSystem as { downloadAsync: unknown }).downloadAsync = jest.fn(async (_url: string, path: string) => {
+    files.add(path);
+    return { status: 200 };
+  });
+
+  // Region IDs come from the clock; give each download its own millisecond
+  let now = Date.now();
+  jest.spyOn(Date, 'now').mockImplementation(() => ++now);
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  service = require('../offlineTileService').default;
+});
+
+describe('offlineTileService', () => {
+  it('downloads every tile of a region', async () => {
+    const region = await service.downloadRegion(WEST);
+    const { tileCount } = service.estimate(WEST.bounds, WEST.minZoom, WEST.maxZoom);
+
+    expect(region).toMatchObject({ status: 'complete', downloadedTiles: tileCount, sizeBytes: tileCount * TILE_BYTES });
+    expect(files.size).toBe(tileCount);
+  });
+
+  it('counts tiles shared by overlapping regions once', async () => {
+    const west = await service.downloadRegion(WEST);
+    const sizeBefore = files.size;
+    const east = await service.downloadRegion(EAST);
+    const fetchedByEast = files.size - sizeBefore;
+
+    expect(fetchedByEast).toBeLessThan(east.tileCount);
+    expect(east).toMatchObject({ status: 'complete', downloadedTiles: east.tileCount, sizeBytes: fetchedByEast * TILE_BYTES });
+    expect(west.sizeBytes + east.sizeBytes).toBe(files.size * TILE_BYTES);
+    expect(await service.getStorageUsed()).toBe(files.size * TILE_BYTES);
+  });
+
+  it('keeps the size of a resumed region', async () => {
+    const first = await service.downloadRegion(WEST);
+    const resumed = await service.downloadRegion(WEST, undefined, first.id);
+
+    expect(resumed.sizeBytes).toBe(first.sizeBytes);
+    expect(await service.getStorageUsed()).toBe(files.size * TILE_BYTES);
+  });
+
+  it('moves the size of shared tiles to the remaining region on delete', async () => {
+    const west = await service.downloadRegion(WEST);
+    const east = await service.downloadRegion(EAST);
+
+    await service.deleteRegion(west.id);
+
+    const [remaining] = await service.getRegions();
+    expect(remaining.id).toBe(east.id);
+    expect(files.size).toBe(east.tileCount);
+    expect(remaining.sizeBytes).toBe(east.tileCount * TILE_BYTES);
+    expect(await service.getStorageUsed()).toBe(files.size * TILE_BYTES);
+  });
+});
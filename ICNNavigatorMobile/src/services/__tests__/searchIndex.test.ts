@@ -0,0 +1,166 @@
+import { describe, expect, it } from '@jest/globals';
+import { Company } from '../../types';
+import { CompanySearchIndex, SerializedSearchIndex, maxEditsFor, tokenize } from '../searchIndex';
+
+const makeCompany = (id: string, name: string, sector: string, capability: string, city: string): Company => ({
+  id,
+  name,
+  address: `${city}, VIC`,
+  billingAddress: { street: '', city, state: 'VIC', postcode: '' },
+  latitude: 0,
+  longitude: 0,
+  verificationStatus: 'unverified',
+  keySectors: [sector],
+  capabilities: [capability],
+} as Company);
+
+const companies = [
+  makeCompany('c-1', 'Acme Steel Fabrication', 'Construction', 'Structural steel fabrication', 'Melbourne'),
+  makeCompany('c-2', 'Bay Welding', 'Defence', 'Aluminium welding', 'Geelong'),
+  makeCompany('c-3', 'Coastal Minerals', 'Critical Minerals', 'Lithium hydroxide refining', 'Ballarat'),
+  makeCompany('c-4', 'Steelworks Geelong', 'Construction', 'Steel beams', 'Geelong'),
+];
+
+function buildIndex(): CompanySearchIndex {
+  const index = new CompanySearchIndex();
+  index.build(companies);
+  return index;
+}
+
+const ids = (hits: ReturnType<CompanySearchIndex['search']>) => hits?.map(hit => hit.company.id);
+
+describe('tokenize', () => {
+  it('lowercases, splits on punctuation and drops stop words', () => {
+    expect(tokenize('Acme Pty Ltd & Co. - Steel/Fabrication')).toEqual(['acme', 'steel', 'fabrication']);
+  });
+
+  it('returns no terms for empty text', () => {
+    expect(tokenize(undefined)).toEqual([]);
+    expect(tokenize('')).toEqual([]);
+  });
+});
+
+describe('CompanySearchIndex ranking', () => {
+  it('ranks a match in the name above a match in the address', () => {
+    expect(ids(buildIndex().search('geelong'))).toEqual(['c-4', 'c-2']);
+  });
+
+  it('ranks a match in the items above a match in the sectors', () => {
+    const index = new CompanySearchIndex();
+    index.build([
+      makeCompany('s-1', 'North Supplies', 'Welding', 'Pipe bending', 'Bendigo'),
+      makeCompany('s-2', 'South Supplies', 'Pipework', 'Welding', 'Bendigo'),
+    ]);
+    expect(ids(index.search('welding'))).toEqual(['s-2', 's-1']);
+  });
+
+  it('requires every query term to match', () => {
+    const index = buildIndex();
+    expect(ids(index.search('steel geelong'))).toEqual(['c-4']);
+    expect(index.search('steel welding')).toEqual([]);
+  });
+
+  it('scores a rare term above a common one', () => {
+    const index = buildIndex();
+    const [rare] = index.search('lithium')!;
+    const [common] = index.search('construction')!;
+    expect(rare.score).toBeGreaterThan(common.score);
+  });
+
+  it('keeps dataset order for equal scores', () => {
+    expect(ids(buildIndex().search('construction'))).toEqual(['c-1', 'c-4']);
+  });
+
+  it('returns null when the query has no indexable terms', () => {
+    expect(buildIndex().search('the & of')).toBeNull();
+  });
+});
+
+describe('CompanySearchIndex typo tolerance', () => {
+  it('allows more edits for longer terms', () => {
+    expect(maxEditsFor('bay')).toBe(0);
+    expect(maxEditsFor('steel')).toBe(1);
+    expect(maxEditsFor('aluminium')).toBe(2);
+  });
+
+  it('treats the last query term as a prefix', () => {
+    const index = buildIndex();
+    expect(ids(index.search('lith'))).toEqual(['c-3']);
+    expect(index.search('lith', { prefix: false })).toEqual([]);
+    expect(ids(index.search('construction stee'))?.sort()).toEqual(['c-1', 'c-4']);
+  });
+
+  it('matches a misspelt term within its edit allowance', () => {
+    expect(ids(buildIndex().search('weldng'))).toEqual(['c-2']);
+    expect(ids(buildIndex().search('aluminum'))).toEqual(['c-2']);
+    expect(buildIndex().search('weldng', { fuzzy: false })).toEqual([]);
+  });
+
+  it('scores a misspelt match below an exact one', () => {
+    const index = buildIndex();
+    const [exact] = index.search('welding', { prefix: false })!;
+    const [fuzzy] = index.search('weldng', { prefix: false })!;
+    expect(fuzzy.company.id).toBe(exact.company.id);
+    expect(fuzzy.score).toBeLessThan(exact.score);
+  });
+
+  it('does not fuzz short terms', () => {
+    expect(buildIndex().search('bax', { prefix: false })).toEqual([]);
+  });
+
+  it('suggests a correction one edit beyond what search tolerates', () => {
+    const index = buildIndex();
+    expect(index.search('welidng')).toEqual([]);
+    expect(index.suggest('welidng')).toBe('welding');
+    expect(index.suggest('Bay welidng')).toBe('bay welding');
+  });
+
+  it('does not suggest for known terms or when the correction finds nothing', () => {
+    const index = buildIndex();
+    expect(index.suggest('steel')).toBeNull();
+    expect(index.suggest('steel welidng')).toBeNull();
+    expect(index.suggest('zzzzzz')).toBeNull();
+  });
+});
+
+const QUERIES = ['steel', 'geelong welding', 'lith', 'welidng', 'construction steel', 'nothing matches'];
+
+const searchAll = (index: CompanySearchIndex) =>
+  QUERIES.map(query => index.search(query)?.map(hit => [hit.company.id, hit.score]));
+
+describe('CompanySearchIndex serialize/restore', () => {
+  it('answers every query the same after a JSON round trip', () => {
+    const built = buildIndex();
+    const serialized: SerializedSearchIndex = JSON.parse(JSON.stringify(built.serialize()));
+
+    const restored = new CompanySearchIndex();
+    restored.restore(companies, serialized);
+
+    expect(restored.isBuilt()).toBe(true);
+    expect(restored.getStats()).toEqual(built.getStats());
+    expect(searchAll(restored)).toEqual(searchAll(built));
+    expect(restored.suggest('welidng')).toBe(built.suggest('welidng'));
+  });
+
+  it('finds the companies the index was built from', () => {
+    const restored = new CompanySearchIndex();
+    restored.restore(companies, buildIndex().serialize());
+
+    const hits = restored.search('steel')!;
+    expect(hits.map(hit => hit.company.id).sort()).toEqual(['c-1', 'c-4']);
+    expect(hits[0].company).toBe(companies.find(company => company.id === hits[0].company.id));
+  });
+
+  it('serializes the same content for the same companies', () => {
+    expect(JSON.stringify(buildIndex().serialize())).toBe(JSON.stringify(buildIndex().serialize()));
+  });
+
+  it('replaces whatever the index held before', () => {
+    const index = new CompanySearchIndex();
+    index.build([makeCompany('x-1', 'Unrelated Plastics', 'Manufacturing', 'Injection moulding', 'Bendigo')]);
+    index.restore(companies, buildIndex().serialize());
+
+    expect(index.search('plastics')).toEqual([]);
+    expect(index.getStats().documents).toBe(companies.length);
+  });
+});
@@ -0,0 +1,249 @@
+// services/capabilityGapService.ts - Checks a project bill of materials against ICN supplier coverage
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Company, CapabilityType, ICNItem } from '../types';
+import icnDataService, { AUSTRALIAN_STATES, NEW_ZEALAND_TERRITORIES } from './icnDataService';
+import { parseCsv } from '../utils/csv';
+
+export interface BillOfMaterialsLine {
+  query: string; // Item ID, Detailed Item ID or item name as entered
+  quantity?: number;
+}
+
+export interface ItemSupplier {
+  company: Company;
+  capabilityType: CapabilityType;
+}
+
+export interface CapabilityGapRow {
+  line: BillOfMaterialsLine;
+  items: ICNItem[]; // Detailed items the line resolved to
+  suppliers: ItemSupplier[];
+  supplierCount: number;
+  verifiedSupplierCount: number;
+  localSupplierCount: number;
+  statesWithSupplier: string[];
+  statesWithoutSupplier: string[];
+}
+
+export interface CapabilityGapReport {
+  generatedAt: string;
+  localStates: string[];
+  rows: CapabilityGapRow[];
+  unmatchedLines: BillOfMaterialsLine[];
+  itemsWithoutSupplier: CapabilityGapRow[];
+  itemsWithoutVerifiedSupplier: CapabilityGapRow[];
+  itemsWithoutLocalSupplier: CapabilityGapRow[];
+}
+
+export interface CapabilityGapOptions {
+  localStates?: string[]; // States counted as "local"; defaults to VIC
+  includeNewZealand?: boolean; // Report NZ islands without suppliers as gaps too
+}
+
+const DRAFT_KEY = '@bill_of_materials_draft';
+const DEFAULT_LOCAL_STATES = ['VIC'];
+const MIN_PARTIAL_MATCH_LENGTH = 3;
+const HEADER_PATTERN = /^(item|detailed item|item id|item name|description)\b/i;
+
+const normalize = (value: string) => value.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Split a pasted list or CSV export into lines. Columns are split on the one delimiter the
+ * first line uses (tab, semicolon or comma) and may be quoted. The first column is the item;
+ * a numeric second column is read as the quantity. Header rows and duplicates are dropped.
+ */
+export function parseBillOfMaterials(text: string): BillOfMaterialsLine[] {
+  const seen = new Set<string>();
+  const lines: BillOfMaterialsLine[] = [];
+
+  parseCsv(text).forEach((row, index) => {
+    const columns = row.map(column => column.trim());
+    const query = columns[0];
+    if (!query || (index === 0 && HEADER_PATTERN.test(query))) return;
+
+    const key = normalize(query);
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    const quantity = columns[1] ? Number(columns[1]) : NaN;
+    lines.push(Number.isFinite(quantity) && quantity > 0 ? { query, quantity } : { query });
+  });
+
+  return lines;
+}
+
+class CapabilityGapService {
+  private static instance: CapabilityGapService;
+
+  private constructor() {}
+
+  static getInstance(): CapabilityGapService {
+    if (!CapabilityGapService.instance) {
+      CapabilityGapService.instance = new CapabilityGapService();
+    }
+    return CapabilityGapService.instance;
+  }
+
+  /**
+   * Detailed items matching a line: exact Detailed Item ID or Item ID first, then exact
+   * item name, then items whose names contain the text.
+   */
+  resolveItems(query: string, items: ICNItem[] = icnDataService.getICNItems()): ICNItem[] {
+    const text = normalize(query);
+    if (!text) return [];
+
+    const byId = items.filter(item =>
+      normalize(item['Detailed Item ID'] || '') === text || normalize(item['Item ID'] || '') === text
+    );
+    if (byId.length > 0) return byId;
+
+    const byName = items.filter(item =>
+      normalize(item['Detailed Item Name'] || '') === text || normalize(item['Item Name'] || '') === text
+    );
+    if (byName.length > 0) return byName;
+    if (text.length < MIN_PARTIAL_MATCH_LENGTH) return [];
+
+    return items.filter(item =>
+      normalize(item['Detailed Item Name'] || '').includes(text) || normalize(item['Item Name'] || '').includes(text)
+    );
+  }
+
+  /**
+   * Items for the search-as-you-type picker
+   */
+  searchItems(query: string, limit = 20): ICNItem[] {
+    if (normalize(query).length < MIN_PARTIAL_MATCH_LENGTH) return [];
+    return this.resolveItems(query).slice(0, limit);
+  }
+
+  /**
+   * Build the gap report. Suppliers come from the ICNItem organisations, matched to loaded
+   * companies through their icnCapabilities (one entry per "Organisation Capability").
+   */
+  analyze(lines: BillOfMaterialsLine[], options: CapabilityGapOptions = {}): CapabilityGapReport {
+    const localStates = options.localStates && options.localStates.length > 0
+      ? options.localStates
+      : DEFAULT_LOCAL_STATES;
+    const coveredRegions = options.includeNewZealand
+      ? [...AUSTRALIAN_STATES, ...NEW_ZEALAND_TERRITORIES]
+      : AUSTRALIAN_STATES;
+    const items = icnDataService.getICNItems();
+    const capabilityIndex = this.buildCapabilityIndex(icnDataService.getCompanies());
+
+    const rows: CapabilityGapRow[] = [];
+    const unmatchedLines: BillOfMaterialsLine[] = [];
+
+    lines.forEach(line => {
+      const matchedItems = this.resolveItems(line.query, items);
+      if (matchedItems.length === 0) {
+        unmatchedLines.push(line);
+        return;
+      }
+
+      // A company offering several matched items is one supplier
+      const suppliers = new Map<string, ItemSupplier>();
+      matchedItems.forEach(item => {
+        (item.Organizations || []).forEach(org => {
+          const supplier = capabilityIndex.get(org['Organisation Capability']);
+          if (supplier && !suppliers.has(supplier.company.id)) {
+            suppliers.set(supplier.company.id, supplier);
+          }
+        });
+      });
+
+      const supplierList = Array.from(suppliers.values()).sort((a, b) =>
+        a.company.verificationStatus === b.company.verificationStatus
+          ? a.company.name.localeCompare(b.company.name)
+          : a.company.verificationStatus === 'verified' ? -1 : 1
+      );
+      const states = new Set(supplierList.map(s => s.company.billingAddress?.state).filter(Boolean) as string[]);
+
+      rows.push({
+        line,
+        items: matchedItems,
+        suppliers: supplierList,
+        supplierCount: supplierList.length,
+        verifiedSupplierCount: supplierList.filter(s => s.company.verificationStatus === 'verified').length,
+        localSupplierCount: supplierList.filter(s => localStates.includes(s.company.billingAddress?.state || '')).length,
+        statesWithSupplier: coveredRegions.filter(state => states.has(state)),
+        statesWithoutSupplier: coveredRegions.filter(state => !states.has(state)),
+      });
+    });
+
+    console.log(`Gap analysis: ${rows.length} items matched, ${unmatchedLines.length} unmatched`);
+
+    return {
+      generatedAt: new Date().toISOString(),
+      localStates,
+      rows,
+      unmatchedLines,
+      itemsWithoutSupplier: rows.filter(row => row.supplierCount === 0),
+      itemsWithoutVerifiedSupplier: rows.filter(row => row.verifiedSupplierCount === 0),
+      itemsWithoutLocalSupplier: rows.filter(row => row.localSupplierCount === 0),
+    };
+  }
+
+  /**
+   * Plain-text summary for sharing
+   */
+  formatReport(report: CapabilityGapReport): string {
+    const lines = [
+      'ICN Capability Gap Report',
+      `Generated ${new Date(report.generatedAt).toLocaleDateString()} - local region: ${report.localStates.join(', ')}`,
+      '',
+    ];
+
+    report.rows.forEach(row => {
+      const name = row.items.length === 1 ? row.items[0]['Detailed Item Name'] : `${row.line.query} (${row.items.length} items)`;
+      lines.push(`${name}${row.line.quantity ? ` x${row.line.quantity}` : ''}`);
+      lines.push(`  Suppliers: ${row.supplierCount} (${row.verifiedSupplierCount} verified, ${row.localSupplierCount} local)`);
+      if (row.statesWithoutSupplier.length > 0) {
+        lines.push(`  No supplier in: ${row.statesWithoutSupplier.join(', ')}`);
+      }
+    });
+
+    if (report.itemsWithoutVerifiedSupplier.length > 0) {
+      lines.push('', 'No verified supplier:');
+      report.itemsWithoutVerifiedSupplier.forEach(row => lines.push(`  - ${row.line.query}`));
+    }
+    if (report.unmatchedLines.length > 0) {
+      lines.push('', 'Not found in ICN data:');
+      report.unmatchedLines.forEach(line => lines.push(`  - ${line.query}`));
+    }
+
+    return lines.join('\n');
+  }
+
+  async getDraft(): Promise<string> {
+    try {
+      return (await AsyncStorage.getItem(DRAFT_KEY)) || '';
+    } catch (error) {
+      console.error('Error loading bill of materials:', error);
+      return '';
+    }
+  }
+
+  async saveDraft(text: string): Promise<void> {
+    try {
+      await AsyncStorage.setItem(DRAFT_KEY, text);
+    } catch (error) {
+      console.error('Error saving bill of materials:', error);
+    }
+  }
+
+  private buildCapabilityIndex(companies: Company[]): Map<string, ItemSupplier> {
+    const index = new Map<string, ItemSupplier>();
+    companies.forEach(company => {
+      company.icnCapabilities?.forEach(capability => {
+        index.set(capability.capabilityId, { company, capabilityType: capability.capabilityType });
+      });
+    });
+    return index;
+  }
+}
+
+// Export singleton instance
+const capabilityGapService = CapabilityGapService.getInstance();
+export default capabilityGapService;
+
+export { CapabilityGapService };
@@ -0,0 +1,241 @@
+// services/companyExportService.ts - PDF capability statements and CSV result lists, shared via the OS share sheet
+import * as FileSystem from 'expo-file-system/legacy';
+import { Company } from '../types';
+import { TierFeatures } from '../contexts/UserTierContext';
+import { toCsv, CsvValue } from '../utils/csv';
+import { buildPdf, PdfBlock } from '../utils/pdfDocument';
+import { shareFile } from '../utils/shareFile';
+
+export type ExportVisibility = Pick<
+  TierFeatures,
+  | 'canFilterBySize'
+  | 'canFilterByCertifications'
+  | 'canFilterByDiversity'
+  | 'canSeeLocalContent'
+  | 'canSeeEmployeeCount'
+  | 'canSeeRevenue'
+  | 'canSeeABN'
+  | 'canExportFull'
+  | 'maxExportRows'
+>;
+
+export interface CompanyListExportResult {
+  exportedCount: number;
+  totalCount: number;
+  fileName: string;
+  fileSize: number; // Bytes
+}
+
+interface CompanyField {
+  header: string;
+  value: (company: Company) => CsvValue;
+  visible?: (visibility: ExportVisibility) => boolean; // Omitted for fields every tier can see
+}
+
+const LIST_SEPARATOR = '; ';
+const PDF_FOOTER = 'ICN Navigator - data sourced from ICN Victoria';
+
+const joinList = (values: Array<string | undefined> | undefined) =>
+  Array.from(new Set((values || []).filter(Boolean))).join(LIST_SEPARATOR);
+
+// Column order of the CSV export and field order of the PDF profile
+const COMPANY_FIELDS: CompanyField[] = [
+  { header: 'Organisation ID', value: company => company.id },
+  { header: 'Name', value: company => company.name },
+  { header: 'Verification', value: company => (company.verificationStatus === 'verified' ? 'Verified' : 'Unverified') },
+  { header: 'Verified On', value: company => company.verificationDate?.slice(0, 10) },
+  { header: 'Address', value: company => company.address },
+  { header: 'Suburb', value: company => company.billingAddress?.city },
+  { header: 'State', value: company => company.billingAddress?.state },
+  { header: 'Postcode', value: company => company.billingAddress?.postcode },
+  { header: 'Sectors', value: company => joinList(company.keySectors) },
+  { header: 'Capability Types', value: company => joinList(company.icnCapabilities?.map(cap => cap.capabilityType)) },
+  { header: 'ICN Items', value: company => joinList(company.icnCapabilities?.map(cap => cap.itemName)) },
+  { header: 'Phone', value: company => company.phoneNumber },
+  { header: 'Email', value: company => company.email },
+  { header: 'Website', value: company => company.website },
+  { header: 'Company Size', value: company => company.companySize, visible: v => v.canFilterBySize },
+  { header: 'Certifications', value: company => joinList(company.certifications), visible: v => v.canFilterByCertifications },
+  { header: 'ABN', value: company => company.abn, visible: v => v.canSeeABN },
+  { header: 'Employees', value: company => company.employeeCount, visible: v => v.canSeeEmployeeCount },
+  { header: 'Revenue (AUD)', value: company => company.revenue, visible: v => v.canSeeRevenue },
+  { header: 'Ownership', value: company => joinList(company.ownershipType), visible: v => v.canFilterByDiversity },
+  { header: 'Social Enterprise', value: company => (company.socialEnterprise ? 'Yes' : 'No'), visible: v => v.canFilterByDiversity },
+  {
+    header: 'Australian Disability Enterprise',
+    value: company => (company.australianDisabilityEnterprise ? 'Yes' : 'No'),
+    visible: v => v.canFilterByDiversity,
+  },
+  { header: 'Local Content %', value: company => company.localContentPercentage, visible: v => v.canSeeLocalContent },
+];
+
+// Already shown in the PDF title or the capability list
+const PDF_SKIPPED_FIELDS = new Set(['Name', 'Sectors', 'Capability Types', 'ICN Items']);
+
+const getVisibleFields = (visibility: ExportVisibility) =>
+  COMPANY_FIELDS.filter(field => !field.visible || field.visible(visibility));
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-AU', { day: 'numeric', month: 'long', year: 'numeric' });
+
+const toFileSlug = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 40) || 'company';
+
+class CompanyExportService {
+  private static instance: CompanyExportService;
+
+  private constructor() {}
+
+  static getInstance(): CompanyExportService {
+    if (!CompanyExportService.instance) {
+      CompanyExportService.instance = new CompanyExportService();
+    }
+    return CompanyExportService.instance;
+  }
+
+  /**
+   * How many of `totalCount` companies the tier may put in a single list export
+   */
+  getExportableCount(totalCount: number, visibility: ExportVisibility): number {
+    if (visibility.canExportFull || visibility.maxExportRows < 0) return totalCount;
+    return Math.min(totalCount, visibility.maxExportRows);
+  }
+
+  /**
+   * Whether some profile fields are withheld from exports at this tier
+   */
+  hasHiddenFields(visibility: ExportVisibility): boolean {
+    return getVisibleFields(visibility).length < COMPANY_FIELDS.length;
+  }
+
+  /**
+   * Build the capability statement PDF for one company
+   */
+  buildCapabilityStatement(company: Company, visibility: ExportVisibility): string {
+    const blocks: PdfBlock[] = [
+      { type: 'title', text: company.name },
+      { type: 'subtitle', text: `Capability statement - generated ${formatDate(new Date())}` },
+      { type: 'rule' },
+      { type: 'heading', text: 'Company Profile' },
+    ];
+
+    getVisibleFields(visibility)
+      .filter(field => !PDF_SKIPPED_FIELDS.has(field.header))
+      .forEach(field => {
+        const value = field.value(company);
+        if (value !== undefined && value !== null && value !== '') {
+          blocks.push({ type: 'field', label: field.header, value: String(value) });
+        }
+      });
+
+    if (company.keySectors.length > 0) {
+      blocks.push({ type: 'heading', text: 'Sectors' });
+      blocks.push({ type: 'paragraph', text: joinList(company.keySectors) });
+    }
+
+    // One section per sector, each capability listed once
+    const capabilitiesBySector = new Map<string, Set<string>>();
+    company.icnCapabilities?.forEach(cap => {
+      const sector = cap.sectorName || 'Other';
+      if (!capabilitiesBySector.has(sector)) capabilitiesBySector.set(sector, new Set());
+      const detail = cap.detailedItemName && cap.detailedItemName !== cap.itemName ? ` - ${cap.detailedItemName}` : '';
+      capabilitiesBySector.get(sector)!.add(`${cap.itemName}${detail} (${cap.capabilityType})`);
+    });
+
+    if (capabilitiesBySector.size > 0) {
+      blocks.push({ type: 'heading', text: 'ICN Capabilities' });
+      Array.from(capabilitiesBySector.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .forEach(([sector, capabilities]) => {
+          blocks.push({ type: 'paragraph', text: sector });
+          Array.from(capabilities).sort().forEach(text => blocks.push({ type: 'bullet', text }));
+        });
+    }
+
+    if (this.hasHiddenFields(visibility)) {
+      blocks.push({ type: 'rule' });
+      blocks.push({
+        type: 'paragraph',
+        text: 'Some business details are only included in exports on Plus and Premium plans.',
+      });
+    }
+
+    return buildPdf(blocks, { title: `${company.name} - Capability Statement`, footer: PDF_FOOTER });
+  }
+
+  /**
+   * Export one company as a PDF capability statement. Resolves to the file size in bytes.
+   */
+  async exportCompanyProfilePdf(company: Company, visibility: ExportVisibility): Promise<number> {
+    const pdf = this.buildCapabilityStatement(company, visibility);
+    return this.saveAndShareFile(
+      pdf,
+      `${toFileSlug(company.name)}_capability_statement.pdf`,
+      'application/pdf',
+      'com.adobe.pdf',
+      'Share Capability Statement'
+    );
+  }
+
+  /**
+   * Export one company as a two-column spreadsheet, followed by one row per ICN capability
+   */
+  async exportCompanyProfileCsv(company: Company, visibility: ExportVisibility): Promise<number> {
+    const rows: CsvValue[][] = getVisibleFields(visibility).map(field => [field.header, field.value(company)]);
+    company.icnCapabilities?.forEach(cap => {
+      rows.push(['ICN Capability', `${cap.sectorName} / ${cap.itemName} / ${cap.detailedItemName} (${cap.capabilityType})`]);
+    });
+
+    return this.saveAndShareFile(
+      toCsv(['Field', 'Value'], rows),
+      `${toFileSlug(company.name)}_profile.csv`,
+      'text/csv',
+      'public.comma-separated-values-text',
+      'Share Company Profile'
+    );
+  }
+
+  /**
+   * Export a result list as CSV, one company per row. Lists longer than the tier's
+   * row limit are cut to the first companies in their current order.
+   */
+  async exportCompanyList(companies: Company[], visibility: ExportVisibility): Promise<CompanyListExportResult> {
+    const exportedCount = this.getExportableCount(companies.length, visibility);
+    const fields = getVisibleFields(visibility);
+    const rows = companies.slice(0, exportedCount).map(company => fields.map(field => field.value(company)));
+    const fileName = `icn_companies_${new Date().toISOString().slice(0, 10)}.csv`;
+
+    const fileSize = await this.saveAndShareFile(
+      toCsv(fields.map(field => field.header), rows),
+      fileName,
+      'text/csv',
+      'public.comma-separated-values-text',
+      'Share Company List'
+    );
+
+    return { exportedCount, totalCount: companies.length, fileName, fileSize };
+  }
+
+  private async saveAndShareFile(
+    content: string,
+    fileName: string,
+    mimeType: string,
+    uti: string,
+    dialogTitle: string
+  ): Promise<number> {
+    const fileUri = FileSystem.cacheDirectory + fileName;
+    await FileSystem.writeAsStringAsync(fileUri, content, {
+      encoding: FileSystem.EncodingType.UTF8,
+    });
+    await shareFile(fileUri, { mimeType, uti, dialogTitle });
+
+    const info = await FileSystem.getInfoAsync(fileUri);
+    return info.exists ? info.size : content.length;
+  }
+}
+
+// Export singleton instance
+const companyExportService = CompanyExportService.getInstance();
+export default companyExportService;
+
+export { CompanyExportService };
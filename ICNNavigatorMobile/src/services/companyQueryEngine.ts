@@ -0,0 +1,695 @@
+// services/companyQueryEngine.ts - Single filtering/ranking pipeline shared by the map, list and hooks
+import { Company, SearchFilters, EnhancedFilterOptions, SearchArea } from '../types';
+import { CAPABILITY_TYPE_GROUPS, getCompanyRegion, matchesRegion } from './icnDataService';
+import { isPointInPolygon, closestPointOnPolyline } from '../utils/geoShapes';
+
+/**
+ * Subset of the tier features that gate filters.
+ * Structurally compatible with the `features` object from UserTierContext.
+ */
+export interface QueryTierFeatures {
+  canFilterBySize: boolean;
+  canFilterByCertifications: boolean;
+  canFilterByDiversity: boolean;
+  canFilterByRevenue: boolean;
+}
+
+export type CompanySizeBucket = 'SME' | 'Medium' | 'Large' | 'Enterprise';
+
+export type QuerySortBy = NonNullable<SearchFilters['sortBy']> | 'recent';
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+// Normalised query - both SearchFilters and EnhancedFilterOptions are converted to this
+export interface CompanyQuery {
+  searchText: string;
+  capabilities: string[];
+  sectors: string[];
+  state?: string;
+  postcode?: string;
+  suburb?: string;
+  capabilityTypes: string[]; // CapabilityType names, plus 'Both' for supplier & manufacturer
+  verificationStatus: 'all' | 'verified' | 'unverified';
+  excludeTerms: string[]; // Companies matching any of these terms are dropped
+  maxDistanceKm?: number;
+  origin?: GeoPoint;
+  area?: SearchArea; // Polygon or corridor drawn on the map
+
+  // Plus tier
+  companySizes: CompanySizeBucket[];
+  certifications: string[];
+
+  // Premium tier
+  ownershipTypes: string[];
+  socialEnterprise: boolean;
+  australianDisability: boolean;
+  revenue?: { min: number; max: number };
+  employeeCount?: { min: number; max: number };
+  minLocalContent?: number;
+
+  sortBy: QuerySortBy;
+  sortOrder: 'asc' | 'desc';
+}
+
+export interface QueryOptions {
+  features: QueryTierFeatures;
+  origin?: GeoPoint; // Distance anchor for filtering and sorting when the query has no origin of its own
+  textSearch?: (searchText: string) => Company[]; // Ranked text search, e.g. icnDataService.searchCompanies
+}
+
+export interface QueryFacets {
+  sectors: Record<string, number>;
+  states: Record<string, number>;
+  capabilityTypes: Record<string, number>;
+  verification: { verified: number; unverified: number };
+}
+
+export interface QueryResult {
+  companies: Company[];
+  total: number;
+  facets: QueryFacets;
+}
+
+export const NO_TIER_FEATURES: QueryTierFeatures = {
+  canFilterBySize: false,
+  canFilterByCertifications: false,
+  canFilterByDiversity: false,
+  canFilterByRevenue: false,
+};
+
+const DEFAULT_REVENUE_RANGE = { min: 0, max: 10_000_000 };
+const DEFAULT_EMPLOYEE_RANGE = { min: 0, max: 1000 };
+
+// SearchFilters.companyTypes uses Company['companyType'] values; map them onto capability types
+const COMPANY_TYPE_TO_CAPABILITY_TYPES: Record<string, string[]> = {
+  supplier: CAPABILITY_TYPE_GROUPS.supplier,
+  manufacturer: CAPABILITY_TYPE_GROUPS.manufacturer,
+  service: CAPABILITY_TYPE_GROUPS.service,
+  consultant: CAPABILITY_TYPE_GROUPS.service,
+  retail: CAPABILITY_TYPE_GROUPS.retail,
+  both: ['Both'],
+};
+
+const SIZE_BUCKET_RANGES: Record<CompanySizeBucket, { min: number; max: number }> = {
+  SME: { min: 0, max: 50 },
+  Medium: { min: 51, max: 200 },
+  Large: { min: 201, max: 500 },
+  Enterprise: { min: 501, max: Infinity },
+};
+
+// Size labels as the filter modal lists them
+const SIZE_BUCKET_LABELS: Record<CompanySizeBucket, string> = {
+  SME: 'SME (1-50)',
+  Medium: 'Medium (51-200)',
+  Large: 'Large (201-500)',
+  Enterprise: 'Enterprise (500+)',
+};
+
+export function createEmptyQuery(): CompanyQuery {
+  return {
+    searchText: '',
+    capabilities: [],
+    sectors: [],
+    capabilityTypes: [],
+    verificationStatus: 'all',
+    excludeTerms: [],
+    companySizes: [],
+    certifications: [],
+    ownershipTypes: [],
+    socialEnterprise: false,
+    australianDisability: false,
+    sortBy: 'relevance',
+    sortOrder: 'asc',
+  };
+}
+
+/**
+ * Parse a distance option such as '500m', '10km' or 'All' into kilometres
+ */
+export function parseDistanceKm(distance: string | undefined): number | undefined {
+  if (!distance || distance === 'All') return undefined;
+  const match = distance.trim().match(/^(\d+(?:\.\d+)?)\s*(m|km)?$/i);
+  if (!match) return undefined;
+  const value = parseFloat(match[1]);
+  return match[2]?.toLowerCase() === 'm' ? value / 1000 : value;
+}
+
+/**
+ * Format kilometres as a distance option, the inverse of parseDistanceKm
+ */
+function formatDistanceOption(distanceKm: number): string {
+  return distanceKm < 1 ? `${Math.round(distanceKm * 1000)}m` : `${distanceKm}km`;
+}
+
+/**
+ * Map a size label from the filter modal (e.g. 'SME (1-50)') to its bucket
+ */
+function parseSizeLabel(label: string | undefined): CompanySizeBucket | undefined {
+  if (!label || label === 'All') return undefined;
+  return (Object.keys(SIZE_BUCKET_RANGES) as CompanySizeBucket[])
+    .find(bucket => label.startsWith(bucket));
+}
+
+/**
+ * Build a query from the filter modal state and the current search text
+ */
+export function fromEnhancedFilters(
+  filters: EnhancedFilterOptions,
+  searchText: string = ''
+): CompanyQuery {
+  const size = parseSizeLabel(filters.companySize);
+  const revenueActive = filters.revenue &&
+    (filters.revenue.min > DEFAULT_REVENUE_RANGE.min || filters.revenue.max < DEFAULT_REVENUE_RANGE.max);
+  const employeesActive = filters.employeeCount &&
+    (filters.employeeCount.min > DEFAULT_EMPLOYEE_RANGE.min || filters.employeeCount.max < DEFAULT_EMPLOYEE_RANGE.max);
+
+  return {
+    ...createEmptyQuery(),
+    searchText,
+    capabilities: filters.capabilities || [],
+    sectors: filters.sectors || [],
+    state: filters.state && filters.state !== 'All' ? filters.state : undefined,
+    capabilityTypes: filters.companyTypes || [],
+    maxDistanceKm: parseDistanceKm(filters.distance),
+    area: filters.area,
+    companySizes: size ? [size] : [],
+    certifications: filters.certifications || [],
+    ownershipTypes: filters.ownershipType || [],
+    socialEnterprise: !!filters.socialEnterprise,
+    australianDisability: !!filters.australianDisability,
+    revenue: revenueActive ? filters.revenue : undefined,
+    employeeCount: employeesActive ? filters.employeeCount : undefined,
+    minLocalContent: filters.localContentPercentage || undefined,
+  };
+}
+
+/**
+ * Convert the filter modal state to the SearchFilters shape stored with a SavedSearch.
+ * The distance filter is kept only when the anchor it was measured from is known.
+ */
+export function toSearchFilters(
+  filters: EnhancedFilterOptions,
+  searchText: string = '',
+  origin?: GeoPoint
+): SearchFilters {
+  const query = fromEnhancedFilters(filters, searchText);
+  const hasDistance = query.maxDistanceKm !== undefined && !!origin;
+
+  return {
+    searchText,
+    sectors: query.sectors,
+    companyTypes: [],
+    capabilities: query.capabilities,
+    capabilityTypes: query.capabilityTypes,
+    state: query.state,
+    area: query.area,
+    distance: hasDistance ? query.maxDistanceKm : undefined,
+    latitude: hasDistance ? origin!.latitude : undefined,
+    longitude: hasDistance ? origin!.longitude : undefined,
+    companySize: query.companySizes.length ? query.companySizes : undefined,
+    certifications: query.certifications.length ? query.certifications : undefined,
+    ownershipType: query.ownershipTypes.length
+      ? query.ownershipTypes as NonNullable<SearchFilters['ownershipType']>
+      : undefined,
+    socialEnterprise: query.socialEnterprise || undefined,
+    australianDisabilityEnterprise: query.australianDisability || undefined,
+    minRevenue: query.revenue?.min,
+    maxRevenue: query.revenue?.max,
+    minEmployees: query.employeeCount?.min,
+    maxEmployees: query.employeeCount?.max,
+    minLocalContent: query.minLocalContent,
+  };
+}
+
+/**
+ * Convert SearchFilters stored with a SavedSearch back to filter modal state, so a saved
+ * search reopens with the filters it was saved with
+ */
+export function toEnhancedFilters(filters: Partial<SearchFilters>): EnhancedFilterOptions {
+  const size = filters.companySize?.[0];
+  const hasRevenue = filters.minRevenue !== undefined || filters.maxRevenue !== undefined;
+  const hasEmployees = filters.minEmployees !== undefined || filters.maxEmployees !== undefined;
+
+  return {
+    capabilities: filters.capabilities || [],
+    sectors: filters.sectors || [],
+    distance: filters.distance !== undefined ? formatDistanceOption(filters.distance) : 'All',
+    state: filters.state,
+    area: filters.area,
+    companyTypes: filters.capabilityTypes?.length ? filters.capabilityTypes : undefined,
+    companySize: size ? SIZE_BUCKET_LABELS[size] : undefined,
+    certifications: filters.certifications,
+    ownershipType: filters.ownershipType,
+    revenue: hasRevenue
+      ? {
+          min: filters.minRevenue ?? DEFAULT_REVENUE_RANGE.min,
+          max: filters.maxRevenue ?? DEFAULT_REVENUE_RANGE.max,
+        }
+      : undefined,
+    employeeCount: hasEmployees
+      ? {
+          min: filters.minEmployees ?? DEFAULT_EMPLOYEE_RANGE.min,
+          max: filters.maxEmployees ?? DEFAULT_EMPLOYEE_RANGE.max,
+        }
+      : undefined,
+    socialEnterprise: filters.socialEnterprise,
+    australianDisability: filters.australianDisabilityEnterprise,
+    localContentPercentage: filters.minLocalContent,
+  };
+}
+
+/**
+ * Build a query from the Redux/API SearchFilters shape
+ */
+export function fromSearchFilters(filters: Partial<SearchFilters>): CompanyQuery {
+  const capabilityTypes = [
+    ...(filters.companyTypes || []).flatMap(type => COMPANY_TYPE_TO_CAPABILITY_TYPES[type] || []),
+    ...(filters.capabilityTypes || []),
+  ];
+  const hasOrigin = filters.latitude !== undefined && filters.longitude !== undefined;
+
+  return {
+    ...createEmptyQuery(),
+    searchText: filters.searchText || '',
+    capabilities: filters.capabilities || [],
+    sectors: filters.sectors || [],
+    state: filters.state || undefined,
+    postcode: filters.postcode || undefined,
+    suburb: filters.suburb || undefined,
+    capabilityTypes: Array.from(new Set(capabilityTypes)),
+    verificationStatus: filters.verificationStatus || 'all',
+    excludeTerms: filters.excludeTerms || [],
+    maxDistanceKm: hasOrigin ? filters.distance : undefined,
+    origin: hasOrigin ? { latitude: filters.latitude!, longitude: filters.longitude! } : undefined,
+    area: filters.area,
+    companySizes: filters.companySize || [],
+    certifications: filters.certifications || [],
+    ownershipTypes: filters.ownershipType || [],
+    socialEnterprise: !!filters.socialEnterprise,
+    australianDisability: !!filters.australianDisabilityEnterprise,
+    revenue: filters.minRevenue !== undefined || filters.maxRevenue !== undefined
+      ? {
+          min: filters.minRevenue ?? DEFAULT_REVENUE_RANGE.min,
+          max: filters.maxRevenue ?? Infinity,
+        }
+      : undefined,
+    employeeCount: filters.minEmployees !== undefined || filters.maxEmployees !== undefined
+      ? {
+          min: filters.minEmployees ?? DEFAULT_EMPLOYEE_RANGE.min,
+          max: filters.maxEmployees ?? Infinity,
+        }
+      : undefined,
+    minLocalContent: filters.minLocalContent || undefined,
+    sortBy: filters.sortBy || 'relevance',
+    sortOrder: filters.sortOrder || 'asc',
+  };
+}
+
+/**
+ * Layer one query over another (e.g. typed search syntax over the filter modal).
+ * Every filter clause the overlay sets replaces the base clause; sorting stays with the base.
+ */
+export function mergeQueries(base: CompanyQuery, overlay: CompanyQuery): CompanyQuery {
+  const pickList = <T>(baseList: T[], overlayList: T[]) => overlayList.length > 0 ? overlayList : baseList;
+
+  return {
+    ...base,
+    searchText: overlay.searchText || base.searchText,
+    capabilities: pickList(base.capabilities, overlay.capabilities),
+    sectors: pickList(base.sectors, overlay.sectors),
+    state: overlay.state ?? base.state,
+    postcode: overlay.postcode ?? base.postcode,
+    suburb: overlay.suburb ?? base.suburb,
+    capabilityTypes: pickList(base.capabilityTypes, overlay.capabilityTypes),
+    verificationStatus: overlay.verificationStatus !== 'all' ? overlay.verificationStatus : base.verificationStatus,
+    excludeTerms: Array.from(new Set([...base.excludeTerms, ...overlay.excludeTerms])),
+    maxDistanceKm: overlay.maxDistanceKm ?? base.maxDistanceKm,
+    origin: overlay.origin ?? base.origin,
+    area: overlay.area ?? base.area,
+    companySizes: pickList(base.companySizes, overlay.companySizes),
+    certifications: pickList(base.certifications, overlay.certifications),
+    ownershipTypes: pickList(base.ownershipTypes, overlay.ownershipTypes),
+    socialEnterprise: overlay.socialEnterprise || base.socialEnterprise,
+    australianDisability: overlay.australianDisability || base.australianDisability,
+    revenue: overlay.revenue ?? base.revenue,
+    employeeCount: overlay.employeeCount ?? base.employeeCount,
+    minLocalContent: overlay.minLocalContent ?? base.minLocalContent,
+  };
+}
+
+/**
+ * Great-circle distance between two coordinates in kilometres (haversine)
+ */
+function haversineDistanceKm(from: GeoPoint, to: GeoPoint): number {
+  const R = 6371; // Earth's radius in kilometers
+  const dLat = (to.latitude - from.latitude) * Math.PI / 180;
+  const dLon = (to.longitude - from.longitude) * Math.PI / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(from.latitude * Math.PI / 180) * Math.cos(to.latitude * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// WGS84 ellipsoid
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_B = WGS84_A * (1 - WGS84_F);
+
+/**
+ * Geodesic distance between two coordinates in kilometres on the WGS84 ellipsoid
+ * (Vincenty inverse formula). Falls back to haversine for nearly antipodal points,
+ * where the iteration does not converge.
+ */
+export function calculateDistanceKm(from: GeoPoint, to: GeoPoint): number {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const L = toRad(to.longitude - from.longitude);
+  const U1 = Math.atan((1 - WGS84_F) * Math.tan(toRad(from.latitude)));
+  const U2 = Math.atan((1 - WGS84_F) * Math.tan(toRad(to.latitude)));
+  const sinU1 = Math.sin(U1), cosU1 = Math.cos(U1);
+  const sinU2 = Math.sin(U2), cosU2 = Math.cos(U2);
+
+  let lambda = L;
+  let sinSigma = 0, cosSigma = 0, sigma = 0, cos2Alpha = 0, cos2SigmaM = 0;
+  for (let iteration = 0; iteration < 100; iteration++) {
+    const sinLambda = Math.sin(lambda), cosLambda = Math.cos(lambda);
+    sinSigma = Math.sqrt(
+      (cosU2 * sinLambda) ** 2 + (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) ** 2
+    );
+    if (sinSigma === 0) return 0; // coincident points
+    cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+    sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma;
+    cos2Alpha = 1 - sinAlpha * sinAlpha;
+    cos2SigmaM = cos2Alpha !== 0 ? cosSigma - (2 * sinU1 * sinU2) / cos2Alpha : 0; // equatorial line
+    const C = (WGS84_F / 16) * cos2Alpha * (4 + WGS84_F * (4 - 3 * cos2Alpha));
+    const previous = lambda;
+    lambda = L + (1 - C) * WGS84_F * sinAlpha *
+      (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+    if (Math.abs(lambda - previous) < 1e-12) {
+      const uSq = (cos2Alpha * (WGS84_A * WGS84_A - WGS84_B * WGS84_B)) / (WGS84_B * WGS84_B);
+      const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+      const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+      const deltaSigma = B * sinSigma * (cos2SigmaM + (B / 4) * (
+        cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+        (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)
+      ));
+      return (WGS84_B * A * (sigma - deltaSigma)) / 1000;
+    }
+  }
+
+  return haversineDistanceKm(from, to);
+}
+
+/**
+ * Distance from the origin to a company, or undefined when either has no coordinates.
+ * Companies pinned at the state fallback have no known location, so they are neither
+ * measured nor filtered or sorted by distance.
+ */
+export function getCompanyDistanceKm(company: Company, origin: GeoPoint | undefined): number | undefined {
+  if (!origin || !hasCoordinates(company) || company.geocodePrecision === 'state') return undefined;
+  return calculateDistanceKm(origin, { latitude: Number(company.latitude), longitude: Number(company.longitude) });
+}
+
+/**
+ * Whether a company lies inside a drawn polygon or within the corridor width of a polyline
+ */
+export function isCompanyInArea(company: Company, area: SearchArea): boolean {
+  if (!hasCoordinates(company)) return false;
+  const point = { latitude: Number(company.latitude), longitude: Number(company.longitude) };
+
+  if (area.type === 'polygon') {
+    return isPointInPolygon(point, area.points);
+  }
+  const closest = closestPointOnPolyline(point, area.points);
+  return !!closest && calculateDistanceKm(point, closest) <= area.widthKm;
+}
+
+/**
+ * Short label for a distance, e.g. '850 m', '4.2 km' or '120 km'. Distances to an
+ * approximate location are prefixed with '~'.
+ */
+export function formatDistanceKm(distanceKm: number, approximate: boolean = false): string {
+  const prefix = approximate ? '~' : '';
+  if (distanceKm < 1) return `${prefix}${Math.round(distanceKm * 1000)} m`;
+  if (distanceKm < 10) return `${prefix}${distanceKm.toFixed(1)} km`;
+  return `${prefix}${Math.round(distanceKm)} km`;
+}
+
+/**
+ * Handle placeholder names from ICN the same way the cards do
+ */
+export function getCompanyDisplayName(company: Company): string {
+  return company.name === 'Organisation Name' ? `Company ${company.id.slice(-4)}` : company.name;
+}
+
+// 0,0 means the company has not been geocoded yet
+export function hasCoordinates(company: Company): boolean {
+  const latitude = Number(company.latitude);
+  const longitude = Number(company.longitude);
+  return Number.isFinite(latitude) && Number.isFinite(longitude) && !(latitude === 0 && longitude === 0);
+}
+
+function matchesText(company: Company, searchLower: string): boolean {
+  return company.name.toLowerCase().includes(searchLower) ||
+    company.address.toLowerCase().includes(searchLower) ||
+    company.keySectors.some(sector => sector.toLowerCase().includes(searchLower)) ||
+    !!company.capabilities?.some(cap => cap.toLowerCase().includes(searchLower));
+}
+
+/**
+ * Excluded terms match on the searchable text and on capability types,
+ * so -"Service Provider" drops companies that only offer services
+ */
+function matchesExcludedTerm(company: Company, terms: string[]): boolean {
+  return terms.some(term => {
+    const needle = term.toLowerCase();
+    return matchesText(company, needle) ||
+      !!company.icnCapabilities?.some(cap => cap.capabilityType.toLowerCase() === needle);
+  });
+}
+
+function matchesCapabilities(company: Company, capabilities: string[]): boolean {
+  return capabilities.some(capability => {
+    const needle = capability.toLowerCase();
+    return !!company.capabilities?.some(cap => cap.toLowerCase().includes(needle)) ||
+      !!company.icnCapabilities?.some(cap =>
+        cap.itemName.toLowerCase().includes(needle) ||
+        cap.detailedItemName.toLowerCase().includes(needle)
+      );
+  });
+}
+
+function matchesSectors(company: Company, sectors: string[]): boolean {
+  return sectors.some(sector =>
+    company.keySectors.some(keySector => keySector.toLowerCase().includes(sector.toLowerCase()))
+  );
+}
+
+/**
+ * A company matches when it offers any of the requested capability types.
+ * 'Both' requires at least one supplier AND one manufacturer capability.
+ */
+export function matchesCapabilityTypes(company: Company, types: string[]): boolean {
+  const companyTypes: string[] = company.icnCapabilities?.map(cap => cap.capabilityType) || [];
+
+  return types.some(type => {
+    if (type === 'Both') {
+      return companyTypes.some(t => (CAPABILITY_TYPE_GROUPS.supplier as string[]).includes(t)) &&
+        companyTypes.some(t => (CAPABILITY_TYPE_GROUPS.manufacturer as string[]).includes(t));
+    }
+    return companyTypes.includes(type);
+  });
+}
+
+function matchesCompanySize(company: Company, sizes: CompanySizeBucket[]): boolean {
+  if (company.companySize) {
+    return sizes.includes(company.companySize);
+  }
+  return sizes.some(size => {
+    const { min, max } = SIZE_BUCKET_RANGES[size];
+    // Companies without an employee count are treated as SMEs
+    if (company.employeeCount === undefined) return size === 'SME';
+    return company.employeeCount >= min && company.employeeCount <= max;
+  });
+}
+
+function inRange(value: number | undefined, range: { min: number; max: number }): boolean {
+  return value !== undefined && value >= range.min && value <= range.max;
+}
+
+/**
+ * Test a single company against every active clause of the query
+ */
+export function matchesQuery(
+  company: Company,
+  query: CompanyQuery,
+  options: QueryOptions
+): boolean {
+  const { features } = options;
+
+  if (query.capabilities.length > 0 && !matchesCapabilities(company, query.capabilities)) return false;
+  if (query.sectors.length > 0 && !matchesSectors(company, query.sectors)) return false;
+  if (query.state && !matchesRegion(company, query.state)) return false;
+  if (query.postcode && company.billingAddress?.postcode !== query.postcode) return false;
+  if (query.suburb && company.billingAddress?.city?.toLowerCase() !== query.suburb.toLowerCase()) return false;
+  if (query.capabilityTypes.length > 0 && !matchesCapabilityTypes(company, query.capabilityTypes)) return false;
+  if (query.verificationStatus !== 'all' && company.verificationStatus !== query.verificationStatus) return false;
+  if (query.excludeTerms.length > 0 && matchesExcludedTerm(company, query.excludeTerms)) return false;
+
+  const origin = query.origin || options.origin;
+  if (query.maxDistanceKm !== undefined && origin) {
+    const distanceKm = getCompanyDistanceKm(company, origin);
+    if (distanceKm === undefined || distanceKm > query.maxDistanceKm) return false;
+  }
+  if (query.area && !isCompanyInArea(company, query.area)) return false;
+
+  // Plus tier
+  if (features.canFilterBySize && query.companySizes.length > 0 &&
+      !matchesCompanySize(company, query.companySizes)) return false;
+  if (features.canFilterByCertifications && query.certifications.length > 0 &&
+      !company.certifications?.some(cert => query.certifications.includes(cert))) return false;
+
+  // Premium tier
+  if (features.canFilterByDiversity) {
+    if (query.ownershipTypes.length > 0 &&
+        !company.ownershipType?.some(owner => query.ownershipTypes.includes(owner))) return false;
+    if (query.socialEnterprise && company.socialEnterprise !== true) return false;
+    if (query.australianDisability && company.australianDisabilityEnterprise !== true) return false;
+  }
+  if (features.canFilterByRevenue) {
+    if (query.revenue && !inRange(company.revenue, query.revenue)) return false;
+    if (query.employeeCount && !inRange(company.employeeCount, query.employeeCount)) return false;
+    if (query.minLocalContent && !inRange(company.localContentPercentage, { min: query.minLocalContent, max: Infinity })) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Sort a result list. 'relevance' keeps the incoming (ranked) order; 'distance'
+ * needs an origin and keeps companies without coordinates at the end.
+ */
+export function sortCompanies(
+  companies: Company[],
+  sortBy: QuerySortBy,
+  sortOrder: 'asc' | 'desc' = 'asc',
+  origin?: GeoPoint
+): Company[] {
+  const sorted = [...companies];
+
+  switch (sortBy) {
+    case 'name':
+      sorted.sort((a, b) => getCompanyDisplayName(a).localeCompare(getCompanyDisplayName(b)));
+      break;
+    case 'verified':
+      sorted.sort((a, b) => {
+        if (a.verificationStatus === 'verified' && b.verificationStatus !== 'verified') return -1;
+        if (a.verificationStatus !== 'verified' && b.verificationStatus === 'verified') return 1;
+        return getCompanyDisplayName(a).localeCompare(getCompanyDisplayName(b));
+      });
+      break;
+    case 'recent':
+      sorted.sort((a, b) => {
+        if (a.lastUpdated && b.lastUpdated) {
+          return new Date(b.lastUpdated).getTime() - new Date(a.lastUpdated).getTime();
+        }
+        return b.id.localeCompare(a.id);
+      });
+      break;
+    case 'rating':
+      sorted.sort((a, b) => (b.rating || 0) - (a.rating || 0));
+      break;
+    case 'distance': {
+      if (!origin) return sorted;
+      const distances = new Map(sorted.map(c => [c.id, getCompanyDistanceKm(c, origin)]));
+      const direction = sortOrder === 'desc' ? -1 : 1;
+      sorted.sort((a, b) => {
+        const distanceA = distances.get(a.id);
+        const distanceB = distances.get(b.id);
+        if (distanceA === undefined) return distanceB === undefined ? 0 : 1;
+        if (distanceB === undefined) return -1;
+        return (distanceA - distanceB) * direction;
+      });
+      return sorted;
+    }
+    default:
+      // relevance - keep ranked order, sort order does not apply
+      return sorted;
+  }
+
+  if (sortOrder === 'desc') {
+    sorted.reverse();
+  }
+
+  return sorted;
+}
+
+/**
+ * Count companies per sector, state, capability type and verification status
+ */
+export function computeFacets(companies: Company[]): QueryFacets {
+  const facets: QueryFacets = {
+    sectors: {},
+    states: {},
+    capabilityTypes: {},
+    verification: { verified: 0, unverified: 0 },
+  };
+
+  companies.forEach(company => {
+    company.keySectors.forEach(sector => {
+      if (sector !== 'General') {
+        facets.sectors[sector] = (facets.sectors[sector] || 0) + 1;
+      }
+    });
+
+    const state = getCompanyRegion(company);
+    facets.states[state] = (facets.states[state] || 0) + 1;
+
+    new Set(company.icnCapabilities?.map(cap => cap.capabilityType) || []).forEach(type => {
+      facets.capabilityTypes[type] = (facets.capabilityTypes[type] || 0) + 1;
+    });
+
+    facets.verification[company.verificationStatus]++;
+  });
+
+  return facets;
+}
+
+/**
+ * Run a query over a company list: text search, filters, sorting and facet counts.
+ * Pure - the same inputs always produce the same output.
+ */
+export function queryCompanies(
+  companies: Company[],
+  query: CompanyQuery,
+  options: QueryOptions
+): QueryResult {
+  let candidates = companies;
+
+  const searchText = query.searchText.trim();
+  if (searchText) {
+    if (options.textSearch) {
+      // Keep the ranked order from the text search, restricted to the input list
+      const inputIds = new Set(companies.map(c => c.id));
+      candidates = options.textSearch(searchText).filter(c => inputIds.has(c.id));
+    } else {
+      const searchLower = searchText.toLowerCase();
+      candidates = companies.filter(company => matchesText(company, searchLower));
+    }
+  }
+
+  const filtered = candidates.filter(company => matchesQuery(company, query, options));
+  const sorted = sortCompanies(filtered, query.sortBy, query.sortOrder, query.origin || options.origin);
+
+  return {
+    companies: sorted,
+    total: sorted.length,
+    facets: computeFacets(sorted),
+  };
+}
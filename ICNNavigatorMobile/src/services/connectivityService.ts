@@ -0,0 +1,116 @@
+// services/connectivityService.ts - Tracks whether the device can reach the internet
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+
+// Lightweight endpoint that returns 204 No Content when reachable
+const PROBE_URL = 'https://clients3.google.com/generate_204';
+const PROBE_TIMEOUT_MS = 5000;
+const PROBE_INTERVAL_MS = 30000;
+
+export type ConnectivityListener = (isOnline: boolean) => void;
+
+class ConnectivityService {
+  private static instance: ConnectivityService;
+  private online = true; // Assume online until a probe says otherwise
+  private lastChecked: Date | null = null;
+  private listeners = new Set<ConnectivityListener>();
+  private probeTimer: ReturnType<typeof setInterval> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private probeInFlight: Promise<boolean> | null = null;
+
+  private constructor() {}
+
+  static getInstance(): ConnectivityService {
+    if (!ConnectivityService.instance) {
+      ConnectivityService.instance = new ConnectivityService();
+    }
+    return ConnectivityService.instance;
+  }
+
+  isOnline(): boolean {
+    return this.online;
+  }
+
+  getLastChecked(): Date | null {
+    return this.lastChecked;
+  }
+
+  /**
+   * Subscribe to online/offline changes. Probing runs while anyone is subscribed.
+   * Returns an unsubscribe function.
+   */
+  subscribe(listener: ConnectivityListener): () => void {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) this.startMonitoring();
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.stopMonitoring();
+    };
+  }
+
+  /**
+   * Probe the network now. Concurrent callers share one request.
+   */
+  checkConnectivity(): Promise<boolean> {
+    if (!this.probeInFlight) {
+      this.probeInFlight = this.probe().finally(() => {
+        this.probeInFlight = null;
+      });
+    }
+    return this.probeInFlight;
+  }
+
+  /**
+   * Report a failed network request so the UI can switch to offline without waiting for the next probe
+   */
+  reportNetworkFailure(): void {
+    if (this.online) this.checkConnectivity();
+  }
+
+  private async probe(): Promise<boolean> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+    let reachable = false;
+    try {
+      const response = await fetch(PROBE_URL, { method: 'HEAD', signal: controller.signal });
+      reachable = response.status === 204 || response.ok;
+    } catch {
+      reachable = false;
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    this.lastChecked = new Date();
+    this.setOnline(reachable);
+    return reachable;
+  }
+
+  private setOnline(online: boolean): void {
+    if (online === this.online) return;
+    this.online = online;
+    console.log(`Connectivity changed: ${online ? 'online' : 'offline'}`);
+    this.listeners.forEach(listener => listener(online));
+  }
+
+  private startMonitoring(): void {
+    this.checkConnectivity();
+    this.probeTimer = setInterval(() => this.checkConnectivity(), PROBE_INTERVAL_MS);
+    this.appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+      if (state === 'active') this.checkConnectivity();
+    });
+  }
+
+  private stopMonitoring(): void {
+    if (this.probeTimer) {
+      clearInterval(this.probeTimer);
+      this.probeTimer = null;
+    }
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+  }
+}
+
+// Export singleton instance
+const connectivityService = ConnectivityService.getInstance();
+export default connectivityService;
+
+export { ConnectivityService };
@@ -1,47 +1,327 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import * as Sharing from 'expo-sharing';
 import * as FileSystem from 'expo-file-system/legacy';
+import { ExportRequest, SavedCompany, SavedFolder, SavedSearch, SearchFilters } from '../types';
+import icnDataService from './icnDataService';
+import { toCsv, CsvValue } from '../utils/csv';
+import { shareFile } from '../utils/shareFile';
 
-interface ExportData {
-  userData: any;
-  savedCompanies: any[];
-  searchHistory: any[];
-  preferences: any;
-  exportDate: string;
+interface SearchHistoryEntry {
+  id?: string;
+  query: string;
+  filters?: SearchFilters;
+  timestamp?: string;
+  resultCount?: number;
 }
 
+interface ProfileEntry {
+  section: string;
+  field: string;
+  value: CsvValue;
+}
+
+// Record type of each exported entity
+interface ExportRecords {
+  profile: ProfileEntry;
+  savedCompanies: SavedCompany;
+  folders: SavedFolder;
+  savedSearches: SavedSearch;
+  searchHistory: SearchHistoryEntry;
+}
+
+export type ExportEntity = keyof ExportRecords;
+
+export type ExportData = { [E in ExportEntity]: ExportRecords[E][] };
+
+// Table order in exports
+const EXPORT_ENTITIES: ExportEntity[] = ['profile', 'savedCompanies', 'folders', 'savedSearches', 'searchHistory'];
+
+export interface ExportField<T> {
+  key: string; // Name used in ExportRequest.includeFields, bare or as `entity.key`
+  header: string;
+  value: (record: T) => CsvValue;
+}
+
+export interface EntitySchema<E extends ExportEntity> {
+  entity: E;
+  label: string;
+  exportTypes: ExportRequest['exportType'][]; // Export types that include this entity
+  fields: ExportField<ExportRecords[E]>[];
+  date?: (record: ExportRecords[E]) => string | undefined; // Compared against the request's date range
+  matches?: (record: ExportRecords[E], filters: NonNullable<ExportRequest['filters']>) => boolean;
+}
+
+export type EntitySchemas = { [E in ExportEntity]: EntitySchema<E> };
+
+export interface ExportTable {
+  entity: ExportEntity;
+  label: string;
+  headers: string[];
+  keys: string[];
+  rows: CsvValue[][];
+}
+
+const LIST_SEPARATOR = '; ';
+
+const joinList = (values?: string[]) => (values || []).filter(Boolean).join(LIST_SEPARATOR);
+const yesNo = (value?: boolean) => (value ? 'Yes' : 'No');
+
+/**
+ * Declares every exported entity, its columns and how request filters apply to it.
+ * Folder names are looked up from the folders loaded alongside the saved companies.
+ */
+export function buildSchemas(folderNames: Map<string, string>): EntitySchemas {
+  const profile: EntitySchema<'profile'> = {
+    entity: 'profile',
+    label: 'Profile',
+    exportTypes: ['all'],
+    fields: [
+      { key: 'section', header: 'Section', value: entry => entry.section },
+      { key: 'field', header: 'Field', value: entry => entry.field },
+      { key: 'value', header: 'Value', value: entry => entry.value },
+    ],
+  };
+
+  const savedCompanies: EntitySchema<'savedCompanies'> = {
+    entity: 'savedCompanies',
+    label: 'Saved companies',
+    exportTypes: ['companies', 'all'],
+    fields: [
+      { key: 'companyId', header: 'Company ID', value: saved => saved.companyId },
+      {
+        key: 'companyName',
+        header: 'Company Name',
+        value: saved => saved.company?.name || icnDataService.getCompanyById(saved.companyId)?.name,
+      },
+      {
+        key: 'state',
+        header: 'State',
+        value: saved => (saved.company || icnDataService.getCompanyById(saved.companyId))?.billingAddress?.state,
+      },
+      {
+        key: 'sectors',
+        header: 'Sectors',
+        value: saved => joinList((saved.company || icnDataService.getCompanyById(saved.companyId))?.keySectors),
+      },
+      {
+        key: 'folder',
+        header: 'Folder',
+        value: saved => (saved.folderId ? folderNames.get(saved.folderId) || saved.folderId : ''),
+      },
+      { key: 'notes', header: 'Notes', value: saved => saved.notes },
+      { key: 'tags', header: 'Tags', value: saved => joinList(saved.tags) },
+      { key: 'pinned', header: 'Pinned', value: saved => yesNo(saved.isPinned) },
+      { key: 'savedDate', header: 'Saved On', value: saved => saved.savedDate },
+      { key: 'lastViewed', header: 'Last Viewed', value: saved => saved.lastViewed },
+    ],
+    date: saved => saved.savedDate,
+    matches: (saved, filters) =>
+      (!filters.companyIds?.length || filters.companyIds.includes(saved.companyId)) &&
+      (!filters.folderIds?.length || (!!saved.folderId && filters.folderIds.includes(saved.folderId))),
+  };
+
+  const folders: EntitySchema<'folders'> = {
+    entity: 'folders',
+    label: 'Folders',
+    exportTypes: ['companies', 'all'],
+    fields: [
+      { key: 'folderId', header: 'Folder ID', value: folder => folder.id },
+      { key: 'name', header: 'Name', value: folder => folder.name },
+      { key: 'description', header: 'Description', value: folder => folder.description },
+      { key: 'itemCount', header: 'Companies', value: folder => folder.itemCount },
+      { key: 'createdDate', header: 'Created On', value: folder => folder.createdDate },
+      { key: 'updatedDate', header: 'Updated On', value: folder => folder.updatedDate },
+    ],
+    date: folder => folder.createdDate,
+    matches: (folder, filters) => !filters.folderIds?.length || filters.folderIds.includes(folder.id),
+  };
+
+  const savedSearches: EntitySchema<'savedSearches'> = {
+    entity: 'savedSearches',
+    label: 'Saved searches',
+    exportTypes: ['searches', 'all'],
+    fields: [
+      { key: 'name', header: 'Name', value: search => search.name },
+      { key: 'searchText', header: 'Search Text', value: search => search.filters?.searchText },
+      { key: 'sectors', header: 'Sectors', value: search => joinList(search.filters?.sectors) },
+      { key: 'capabilities', header: 'Capabilities', value: search => joinList(search.filters?.capabilities) },
+      { key: 'state', header: 'State', value: search => search.filters?.state },
+      {
+        key: 'area',
+        header: 'Map Area',
+        value: search => (search.filters?.area ? (search.filters.area.type === 'polygon' ? 'Drawn area' : 'Corridor') : ''),
+      },
+      { key: 'resultCount', header: 'Results', value: search => search.resultCount },
+      {
+        key: 'alerts',
+        header: 'Alerts',
+        value: search => (search.alertEnabled ? search.alertFrequency || 'On' : 'Off'),
+      },
+      { key: 'lastRun', header: 'Last Run', value: search => search.lastRun },
+      { key: 'createdDate', header: 'Created On', value: search => search.createdDate },
+    ],
+    date: search => search.createdDate,
+  };
+
+  const searchHistory: EntitySchema<'searchHistory'> = {
+    entity: 'searchHistory',
+    label: 'Search history',
+    exportTypes: ['searches', 'all'],
+    fields: [
+      { key: 'query', header: 'Query', value: entry => entry.query },
+      { key: 'resultCount', header: 'Results', value: entry => entry.resultCount },
+      { key: 'timestamp', header: 'Searched On', value: entry => entry.timestamp },
+    ],
+    date: entry => entry.timestamp,
+  };
+
+  return { profile, savedCompanies, folders, savedSearches, searchHistory };
+}
+
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Parse a range bound. Date-only values ("2026-01-01") are local calendar days, not UTC
+ * midnight; `endOfDay` moves them to the last millisecond of that day.
+ */
+function parseRangeBound(value: string, endOfDay: boolean): number {
+  const match = DATE_ONLY.exec(value);
+  if (!match) return new Date(value).getTime();
+  const [, year, month, day] = match.map(Number);
+  return endOfDay
+    ? new Date(year, month - 1, day + 1).getTime() - 1
+    : new Date(year, month - 1, day).getTime();
+}
+
+/**
+ * Whether a record date falls inside the range. A date-only `dateTo` covers that whole day;
+ * records without a date are left out once a range is set.
+ */
+export function isWithinDateRange(date: string | undefined, dateFrom?: string, dateTo?: string): boolean {
+  if (!dateFrom && !dateTo) return true;
+  const time = date ? new Date(date).getTime() : NaN;
+  if (isNaN(time)) return false;
+  if (dateFrom && time < parseRangeBound(dateFrom, false)) return false;
+  if (dateTo && time > parseRangeBound(dateTo, true)) return false;
+  return true;
+}
+
+/**
+ * The schema's fields named in `includeFields`, either bare (`notes`) or qualified by entity
+ * (`savedCompanies.notes`). Without a selection every field is exported.
+ */
+export function selectFields<E extends ExportEntity>(
+  schema: EntitySchema<E>,
+  includeFields?: string[]
+): ExportField<ExportRecords[E]>[] {
+  if (!includeFields?.length) return schema.fields;
+  return schema.fields.filter(field =>
+    includeFields.includes(field.key) || includeFields.includes(`${schema.entity}.${field.key}`)
+  );
+}
+
+// Generic over the entity so its schema and records keep the same record type
+export function buildTable<E extends ExportEntity>(
+  entity: E,
+  schemas: EntitySchemas,
+  data: ExportData,
+  request: ExportRequest
+): ExportTable {
+  const schema: EntitySchema<E> = schemas[entity];
+  const filters = request.filters || {};
+  const fields = selectFields(schema, request.includeFields);
+
+  const records = data[entity].filter(record =>
+    (!schema.date || isWithinDateRange(schema.date(record), filters.dateFrom, filters.dateTo)) &&
+    (!schema.matches || schema.matches(record, filters))
+  );
+
+  return {
+    entity: schema.entity,
+    label: schema.label,
+    headers: fields.map(field => field.header),
+    keys: fields.map(field => field.key),
+    rows: records.map(record => fields.map(field => field.value(record))),
+  };
+}
+
+const parseList = <T>(stored: string | null): T[] => {
+  const parsed = stored ? JSON.parse(stored) : [];
+  return Array.isArray(parsed) ? parsed : [];
+};
+
 class DataExportService {
-  static async exportUserData(format: 'json' | 'csv' = 'json'): Promise<void> {
+  /**
+   * Export the user's data and open the share sheet. Resolves to the total size in bytes.
+   */
+  static async exportUserData(request: ExportRequest): Promise<number> {
     try {
-      const exportData = await this.gatherUserData();
+      const exportData = await this.gatherUserData(request.userId);
+      const tables = this.buildTables(exportData, request);
+
+      if (tables.every(table => table.rows.length === 0)) {
+        throw new Error('There is no data to export for the selected filters.');
+      }
 
-      let fileContent: string;
-      let fileName: string;
-      let mimeType: string;
+      const stamp = Date.now();
+      let totalSize = 0;
 
-      if (format === 'json') {
-        fileContent = JSON.stringify(exportData, null, 2);
-        fileName = `icn_export_${Date.now()}.json`;
-        mimeType = 'application/json';
+      if (request.format === 'csv') {
+        // One file per entity; the share sheet opens once for each
+        const nonEmpty = tables.filter(table => table.rows.length > 0);
+        for (let i = 0; i < nonEmpty.length; i++) {
+          const table = nonEmpty[i];
+          totalSize += await this.saveAndShareFile(
+            toCsv(table.headers, table.rows),
+            `icn_export_${stamp}_${table.entity}.csv`,
+            'text/csv',
+            nonEmpty.length > 1 ? `Export ${table.label} (${i + 1} of ${nonEmpty.length})` : undefined
+          );
+        }
       } else {
-        fileContent = this.convertToCSV(exportData);
-        fileName = `icn_export_${Date.now()}.csv`;
-        mimeType = 'text/csv';
+        const document: Record<string, unknown> = {
+          exportDate: new Date().toISOString(),
+          exportType: request.exportType,
+          filters: request.filters || {},
+        };
+        tables.forEach(table => {
+          document[table.entity] = table.rows.map(row =>
+            Object.fromEntries(table.keys.map((key, index) => [key, row[index] ?? null]))
+          );
+        });
+
+        totalSize += await this.saveAndShareFile(
+          JSON.stringify(document, null, 2),
+          `icn_export_${stamp}.json`,
+          'application/json'
+        );
       }
 
-      await this.saveAndShareFile(fileContent, fileName, mimeType);
+      return totalSize;
     } catch (error) {
       console.error('Export failed:', error);
       throw error;
     }
   }
 
-  private static async gatherUserData(): Promise<ExportData> {
+  /**
+   * Apply the request's export type, filters and field selection to the gathered data
+   */
+  static buildTables(data: ExportData, request: ExportRequest): ExportTable[] {
+    const folderNames = new Map(data.folders.map(folder => [folder.id, folder.name]));
+    const schemas = buildSchemas(folderNames);
+
+    return EXPORT_ENTITIES
+      .filter(entity => schemas[entity].exportTypes.includes(request.exportType))
+      .map(entity => buildTable(entity, schemas, data, request))
+      .filter(table => table.keys.length > 0);
+  }
+
+  private static async gatherUserData(userId: string): Promise<ExportData> {
     const token = await AsyncStorage.getItem('@auth_token');
-    
+
     // Mock implementation for testing - replace with actual API call
     let backendData = { user: {} };
-    
+
     try {
       const response = await fetch('https://api.icnvictoria.com/user/export', {
         headers: {
@@ -56,55 +336,45 @@ class DataExportService {
       console.warn('Failed to fetch backend data, using local data only');
     }
 
-    const localData = {
-      savedCompanies: await AsyncStorage.getItem('@saved_companies'),
-      searchHistory: await AsyncStorage.getItem('@recent_searches'),
-      preferences: await AsyncStorage.getItem('@user_preferences'),
-    };
-
-    return {
-      userData: backendData.user || {},
-      savedCompanies: JSON.parse(localData.savedCompanies || '[]'),
-      searchHistory: JSON.parse(localData.searchHistory || '[]'),
-      preferences: JSON.parse(localData.preferences || '{}'),
-      exportDate: new Date().toISOString(),
-    };
-  }
+    // Same per-user keys the portfolio slice and saved search service write to
+    const [savedCompanies, folders, savedSearches, searchHistory, preferences] = await Promise.all([
+      AsyncStorage.getItem(`@saved_companies_${userId}`),
+      AsyncStorage.getItem(`@saved_folders_${userId}`),
+      AsyncStorage.getItem(`@saved_searches_${userId}`),
+      AsyncStorage.getItem('@recent_searches'),
+      AsyncStorage.getItem('@user_preferences'),
+    ]);
 
-  private static convertToCSV(data: ExportData): string {
-    const csvRows = ['Category,Field,Value'];
-    
-    // User data
-    if (data.userData) {
-      Object.entries(data.userData).forEach(([key, value]) => {
-        csvRows.push(`User,${key},"${value}"`);
-      });
+    if (!icnDataService.isDataLoaded()) {
+      await icnDataService.loadData(); // Resolves names of saved companies stored without a company snapshot
     }
 
-    // Saved companies
-    if (data.savedCompanies && data.savedCompanies.length > 0) {
-      data.savedCompanies.forEach((company: any, index: number) => {
-        csvRows.push(`SavedCompany_${index + 1},Name,"${company.name || ''}"`);
-        csvRows.push(`SavedCompany_${index + 1},Location,"${company.location || ''}"`);
-      });
-    }
-
-    // Search history
-    if (data.searchHistory && data.searchHistory.length > 0) {
-      data.searchHistory.forEach((search: any, index: number) => {
-        csvRows.push(`SearchHistory_${index + 1},Query,"${search.query || ''}"`);
-        csvRows.push(`SearchHistory_${index + 1},Date,"${search.date || ''}"`);
-      });
-    }
+    const profileEntries = (section: string, values: Record<string, unknown>): ProfileEntry[] =>
+      Object.entries(values || {})
+        .filter((entry): entry is [string, CsvValue] => entry[1] === null || typeof entry[1] !== 'object')
+        .map(([field, value]) => ({ section, field, value }));
 
-    return csvRows.join('\n');
+    return {
+      profile: [
+        ...profileEntries('User', backendData.user),
+        ...profileEntries('Preferences', preferences ? JSON.parse(preferences) : {}),
+      ],
+      savedCompanies: parseList<SavedCompany>(savedCompanies),
+      folders: parseList<SavedFolder>(folders),
+      savedSearches: parseList<SavedSearch>(savedSearches),
+      // Entries are either search history records or plain recent query strings
+      searchHistory: parseList<SearchHistoryEntry | string>(searchHistory).map(entry =>
+        typeof entry === 'string' ? { query: entry } : entry
+      ),
+    };
   }
 
   private static async saveAndShareFile(
-    content: string, 
-    fileName: string, 
-    mimeType: string
-  ): Promise<void> {
+    content: string,
+    fileName: string,
+    mimeType: string,
+    dialogTitle: string = 'Export Your ICN Navigator Data'
+  ): Promise<number> {
     try {
       // Using legacy API which is still supported
       const fileUri = FileSystem.documentDirectory + fileName;
@@ -113,42 +383,16 @@ class DataExportService {
         encoding: FileSystem.EncodingType.UTF8,
       });
 
-      // Check if sharing is available
-      if (await Sharing.isAvailableAsync()) {
-        await Sharing.shareAsync(fileUri, {
-          mimeType,
-          dialogTitle: 'Export Your ICN Navigator Data',
-          UTI: mimeType,
-        });
-      } else {
-        throw new Error('Sharing is not available on this device');
-      }
+      await shareFile(fileUri, { mimeType, uti: mimeType, dialogTitle });
+
+      const info = await FileSystem.getInfoAsync(fileUri);
+      return info.exists ? info.size : content.length;
     } catch (error) {
       console.error('Error in saveAndShareFile:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       throw new Error(`Failed to save and share file: ${errorMessage}`);
     }
   }
-
-  static async updateExportCount(): Promise<void> {
-    try {
-      const token = await AsyncStorage.getItem('@auth_token');
-      if (!token) {
-        console.warn('No auth token found, skipping export count update');
-        return;
-      }
-
-      await fetch('https://api.icnvictoria.com/user/export-count', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-    } catch (error) {
-      console.error('Failed to update export count:', error);
-    }
-  }
 }
 
-export default DataExportService;
\ No newline at end of file
+export default DataExportService;
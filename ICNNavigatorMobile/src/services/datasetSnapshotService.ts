@@ -0,0 +1,207 @@
+// services/datasetSnapshotService.ts - Persists processed companies and their search index between launches
+import * as FileSystem from 'expo-file-system/legacy';
+import { Company, CapabilityType, DataCorrection, DataCorrectionRule } from '../types';
+import { SerializedSearchIndex } from './searchIndex';
+
+// Bump when the snapshot layout below changes
+const SNAPSHOT_FORMAT_VERSION = 1;
+const SNAPSHOT_FILE = `${FileSystem.cacheDirectory}icn-dataset-snapshot.json`;
+
+// A snapshot is only reused for the same source content, converter and sampling
+export interface SnapshotKey {
+  datasetHash: string;
+  converterVersion: number;
+  variant: string; // e.g. sampling size and seed
+}
+
+export interface RestoredSnapshot {
+  companies: Company[];
+  searchIndex: SerializedSearchIndex;
+  createdAt: string;
+}
+
+// Repeated strings (item, sector and capability names) are stored once in a table and
+// referenced by index; -1 stands for a missing value.
+type CompactCapability = [number, number, number, number, number, number, number];
+type CompactCorrection = [number, number, number, number, number];
+
+interface CompactCompany {
+  base: Omit<Company, 'keySectors' | 'capabilities' | 'icnCapabilities' | 'dataCorrections'>;
+  keySectors: number[];
+  capabilities?: number[];
+  icnCapabilities?: CompactCapability[];
+  dataCorrections?: CompactCorrection[];
+}
+
+interface DatasetSnapshot extends SnapshotKey {
+  formatVersion: number;
+  createdAt: string;
+  strings: string[];
+  companies: CompactCompany[];
+  searchIndex: SerializedSearchIndex;
+}
+
+class StringTable {
+  readonly strings: string[] = [];
+  private indexes = new Map<string, number>();
+
+  index(value: string | null | undefined): number {
+    if (value === null || value === undefined) return -1;
+    let index = this.indexes.get(value);
+    if (index === undefined) {
+      index = this.strings.length;
+      this.strings.push(value);
+      this.indexes.set(value, index);
+    }
+    return index;
+  }
+}
+
+function compactCompany(company: Company, table: StringTable): CompactCompany {
+  const { keySectors, capabilities, icnCapabilities, dataCorrections, ...base } = company;
+  return {
+    base,
+    keySectors: keySectors.map(sector => table.index(sector)),
+    capabilities: capabilities?.map(capability => table.index(capability)),
+    icnCapabilities: icnCapabilities?.map(cap => [
+      table.index(cap.capabilityId),
+      table.index(cap.itemId),
+      table.index(cap.itemName),
+      table.index(cap.detailedItemName),
+      table.index(cap.capabilityType),
+      table.index(cap.sectorName),
+      table.index(cap.sectorMappingId),
+    ] as CompactCapability),
+    dataCorrections: dataCorrections?.map(correction => [
+      table.index(correction.field),
+      table.index(correction.originalValue),
+      table.index(correction.newValue),
+      table.index(correction.rule),
+      table.index(correction.capabilityId),
+    ] as CompactCorrection),
+  };
+}
+
+function expandCompany(compact: CompactCompany, strings: string[]): Company {
+  const text = (index: number) => (index < 0 ? undefined : strings[index]);
+  const company: Company = {
+    ...compact.base,
+    keySectors: compact.keySectors.map(index => strings[index]),
+  };
+  if (compact.capabilities) {
+    company.capabilities = compact.capabilities.map(index => strings[index]);
+  }
+  if (compact.icnCapabilities) {
+    company.icnCapabilities = compact.icnCapabilities.map(cap => ({
+      capabilityId: text(cap[0])!,
+      itemId: text(cap[1])!,
+      itemName: text(cap[2])!,
+      detailedItemName: text(cap[3])!,
+      capabilityType: text(cap[4]) as CapabilityType,
+      sectorName: text(cap[5])!,
+      sectorMappingId: text(cap[6])!,
+    }));
+  }
+  if (compact.dataCorrections) {
+    company.dataCorrections = compact.dataCorrections.map(entry => {
+      const correction: DataCorrection = {
+        field: strings[entry[0]],
+        originalValue: text(entry[1]) ?? null,
+        newValue: strings[entry[2]],
+        rule: strings[entry[3]] as DataCorrectionRule,
+      };
+      if (entry[4] >= 0) correction.capabilityId = strings[entry[4]];
+      return correction;
+    });
+  }
+  return company;
+}
+
+class DatasetSnapshotService {
+  private static instance: DatasetSnapshotService;
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  private constructor() {}
+
+  static getInstance(): DatasetSnapshotService {
+    if (!DatasetSnapshotService.instance) {
+      DatasetSnapshotService.instance = new DatasetSnapshotService();
+    }
+    return DatasetSnapshotService.instance;
+  }
+
+  /**
+   * Restore the snapshot saved for this key. Returns null when there is none, or when it
+   * was made from different source data, by a different converter or in an older layout.
+   */
+  async load(key: SnapshotKey): Promise<RestoredSnapshot | null> {
+    try {
+      const info = await FileSystem.getInfoAsync(SNAPSHOT_FILE);
+      if (!info.exists) return null;
+
+      const snapshot = JSON.parse(await FileSystem.readAsStringAsync(SNAPSHOT_FILE)) as DatasetSnapshot;
+      if (
+        snapshot.formatVersion !== SNAPSHOT_FORMAT_VERSION ||
+        snapshot.datasetHash !== key.datasetHash ||
+        snapshot.converterVersion !== key.converterVersion ||
+        snapshot.variant !== key.variant
+      ) {
+        console.log('Dataset snapshot is out of date, rebuilding');
+        return null;
+      }
+
+      return {
+        companies: snapshot.companies.map(company => expandCompany(company, snapshot.strings)),
+        searchIndex: snapshot.searchIndex,
+        createdAt: snapshot.createdAt,
+      };
+    } catch (error) {
+      console.warn('Could not restore dataset snapshot:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save processed companies, including their current geocodes, with their search index.
+   * Saves run one at a time, each written to a temporary file first so an interrupted
+   * write never leaves a partial snapshot.
+   */
+  save(key: SnapshotKey, companies: Company[], searchIndex: SerializedSearchIndex): Promise<void> {
+    this.pendingSave = this.pendingSave.then(() => this.writeSnapshot(key, companies, searchIndex));
+    return this.pendingSave;
+  }
+
+  async clear(): Promise<void> {
+    await this.pendingSave;
+    await FileSystem.deleteAsync(SNAPSHOT_FILE, { idempotent: true });
+  }
+
+  private async writeSnapshot(key: SnapshotKey, companies: Company[], searchIndex: SerializedSearchIndex): Promise<void> {
+    try {
+      const table = new StringTable();
+      const compactCompanies = companies.map(company => compactCompany(company, table));
+      const snapshot: DatasetSnapshot = {
+        ...key,
+        formatVersion: SNAPSHOT_FORMAT_VERSION,
+        createdAt: new Date().toISOString(),
+        strings: table.strings,
+        companies: compactCompanies,
+        searchIndex,
+      };
+
+      const tempFile = `${SNAPSHOT_FILE}.tmp`;
+      await FileSystem.writeAsStringAsync(tempFile, JSON.stringify(snapshot));
+      await FileSystem.deleteAsync(SNAPSHOT_FILE, { idempotent: true });
+      await FileSystem.moveAsync({ from: tempFile, to: SNAPSHOT_FILE });
+      console.log(`Saved dataset snapshot: ${companies.length} companies, ${table.strings.length} strings`);
+    } catch (error) {
+      console.warn('Could not save dataset snapshot:', error);
+    }
+  }
+}
+
+// Export singleton instance
+const datasetSnapshotService = DatasetSnapshotService.getInstance();
+export default datasetSnapshotService;
+
+export { DatasetSnapshotService };
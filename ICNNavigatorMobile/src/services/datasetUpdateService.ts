@@ -0,0 +1,291 @@
+// services/datasetUpdateService.ts - Fetches newer ICN datasets or deltas and keeps the installed copy with a rollback
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import { ICNItem } from '../types';
+import { ICN_DATASET_UPDATE_URL } from '../constants';
+import connectivityService from './connectivityService';
+import {
+  validateICNDataset,
+  DatasetInfo,
+  UnsupportedDatasetError,
+  SUPPORTED_SCHEMA_VERSIONS,
+} from './icnDatasetValidator';
+import { diffDatasets, hasChanges, DatasetDiff } from '../utils/datasetDiff';
+
+const DATASET_DIRECTORY = `${FileSystem.documentDirectory}icn-dataset/`;
+const CURRENT_FILE = `${DATASET_DIRECTORY}current.json`;
+const PREVIOUS_FILE = `${DATASET_DIRECTORY}previous.json`;
+const INCOMING_FILE = `${DATASET_DIRECTORY}incoming.json`;
+const CHANGELOG_KEY = '@icn_dataset_changelog';
+const MAX_CHANGELOGS = 20;
+const MAX_LISTED_CHANGES = 100; // Per list in a stored changelog; totals stay exact
+const FETCH_TIMEOUT_MS = 60000;
+
+// Installed datasets are wrapped with what is needed to decide whether they still apply
+interface InstalledDatasetFile {
+  installedAt: string;
+  bundledHash: string; // Hash of the app's bundled dataset at install time
+  dataset: unknown;
+}
+
+// A delta replaces or adds whole items by "Item ID" and removes the listed ones. It only
+// applies to the dataset whose hash it names, and is applied to that dataset as parsed,
+// keeping its layout, so the result hashes the same as the server's own merge.
+export interface DatasetDelta {
+  type: 'delta';
+  schemaVersion: number;
+  version?: string;
+  baseHash: string;
+  items?: unknown[];
+  removedItemIds?: string[];
+}
+
+export interface DatasetUpdate {
+  kind: 'full' | 'delta';
+  dataset: unknown; // Complete dataset to install, with any delta already applied
+  items: ICNItem[];
+  info: DatasetInfo;
+  diff: DatasetDiff;
+}
+
+export type DatasetChangeKind = 'update' | 'rollback';
+
+export interface DatasetChangelog {
+  id: string;
+  kind: DatasetChangeKind;
+  appliedAt: string;
+  fromVersion: string | null;
+  fromHash: string;
+  toVersion: string | null;
+  toHash: string;
+  totals: Record<keyof DatasetDiff, number>;
+  changes: DatasetDiff; // Each list cut to MAX_LISTED_CHANGES entries
+}
+
+const isDelta = (payload: unknown): payload is DatasetDelta =>
+  typeof payload === 'object' && payload !== null && (payload as DatasetDelta).type === 'delta';
+
+type RawItem = Record<string, unknown>;
+
+/**
+ * Apply a delta to the current dataset as it was parsed, before validation dropped
+ * anything. Dataset order is kept: replaced items stay in place and new items are appended.
+ */
+export function applyDelta(base: unknown, baseInfo: DatasetInfo, delta: DatasetDelta): unknown {
+  if (!SUPPORTED_SCHEMA_VERSIONS.includes(delta.schemaVersion)) {
+    throw new UnsupportedDatasetError(`ICN update schema version ${delta.schemaVersion} is not supported by this version of the app.`);
+  }
+  if (delta.baseHash !== baseInfo.hash) {
+    throw new Error('This update was made for a different version of the ICN data.');
+  }
+
+  const removed = new Set(delta.removedItemIds || []);
+  const upserts = new Map<string, unknown>();
+  const unkeyed: unknown[] = []; // Left for the validator to report
+  (delta.items || []).forEach(item => {
+    const itemId = (item as Partial<ICNItem> | null)?.['Item ID'];
+    if (typeof itemId === 'string') {
+      upserts.set(itemId, item);
+    } else {
+      unkeyed.push(item);
+    }
+  });
+
+  const baseItems = (Array.isArray(base) ? base : (base as { items: unknown[] }).items) as RawItem[];
+  const itemIdOf = (item: RawItem | null) => item?.['Item ID'] as string;
+  const items: unknown[] = baseItems
+    .filter(item => !removed.has(itemIdOf(item)))
+    .map(item => {
+      const replacement = upserts.get(itemIdOf(item));
+      upserts.delete(itemIdOf(item));
+      return replacement ?? item;
+    });
+  items.push(...upserts.values(), ...unkeyed);
+
+  if (Array.isArray(base) && delta.version === undefined) return items;
+  if (Array.isArray(base)) return { schemaVersion: delta.schemaVersion, version: delta.version, items };
+  return { ...(base as RawItem), schemaVersion: delta.schemaVersion, version: delta.version ?? (base as RawItem).version, items };
+}
+
+const limitChanges = (diff: DatasetDiff): DatasetDiff => ({
+  addedCompanies: diff.addedCompanies.slice(0, MAX_LISTED_CHANGES),
+  removedCompanies: diff.removedCompanies.slice(0, MAX_LISTED_CHANGES),
+  updatedCompanies: diff.updatedCompanies.slice(0, MAX_LISTED_CHANGES),
+  addedCapabilities: diff.addedCapabilities.slice(0, MAX_LISTED_CHANGES),
+  removedCapabilities: diff.removedCapabilities.slice(0, MAX_LISTED_CHANGES),
+});
+
+class DatasetUpdateService {
+  private static instance: DatasetUpdateService;
+
+  private constructor() {}
+
+  static getInstance(): DatasetUpdateService {
+    if (!DatasetUpdateService.instance) {
+      DatasetUpdateService.instance = new DatasetUpdateService();
+    }
+    return DatasetUpdateService.instance;
+  }
+
+  /**
+   * Whether an update URL is configured (EXPO_PUBLIC_ICN_DATASET_URL)
+   */
+  isConfigured(): boolean {
+    return ICN_DATASET_UPDATE_URL.length > 0;
+  }
+
+  /**
+   * Download the latest dataset, or a delta against the current one, and validate it.
+   * The current hash is sent as `since` so the server can choose to answer with a delta.
+   * `currentDataset` is the current dataset as parsed and `currentItems` its validated
+   * items, which the changes are listed against. Both sides are compared as validated, before
+   * the converter drops unusable items, so those never show up as changes. Resolves to null
+   * when the server has nothing newer. Nothing is installed here.
+   */
+  async fetchUpdate(currentDataset: unknown, currentItems: ICNItem[], currentInfo: DatasetInfo): Promise<DatasetUpdate | null> {
+    if (!this.isConfigured()) {
+      throw new Error('Data updates are not available in this build.');
+    }
+    if (!connectivityService.isOnline()) {
+      throw new Error('You are offline. Connect to the internet to check for data updates.');
+    }
+
+    const separator = ICN_DATASET_UPDATE_URL.includes('?') ? '&' : '?';
+    const payload = await this.fetchJson(`${ICN_DATASET_UPDATE_URL}${separator}since=${currentInfo.hash}`);
+    const kind = isDelta(payload) ? 'delta' : 'full';
+    const dataset = isDelta(payload) ? applyDelta(currentDataset, currentInfo, payload) : payload;
+
+    const { items, info } = validateICNDataset(dataset);
+    if (info.hash === currentInfo.hash) return null;
+
+    const diff = diffDatasets(currentItems, items);
+    if (!hasChanges(diff) && info.version === currentInfo.version) return null;
+
+    console.log(`Dataset update ${info.version || info.hash} (${kind}): ${diff.addedCompanies.length} companies added, ${diff.removedCompanies.length} removed`);
+    return { kind, dataset, items, info, diff };
+  }
+
+  /**
+   * The installed (downloaded) dataset, or null when the bundled one is in use
+   */
+  async readInstalledDataset(): Promise<InstalledDatasetFile | null> {
+    try {
+      const info = await FileSystem.getInfoAsync(CURRENT_FILE);
+      if (!info.exists) return null;
+      return JSON.parse(await FileSystem.readAsStringAsync(CURRENT_FILE)) as InstalledDatasetFile;
+    } catch (error) {
+      console.error('Error reading installed ICN dataset:', error);
+      return null;
+    }
+  }
+
+  async hasInstalledDataset(): Promise<boolean> {
+    return (await FileSystem.getInfoAsync(CURRENT_FILE)).exists;
+  }
+
+  /**
+   * Install a dataset. It is written in full before it replaces the current one, and the
+   * current one is kept as the rollback target. With no previous download, rolling back
+   * returns to the bundled dataset.
+   */
+  async install(dataset: unknown, bundledHash: string): Promise<void> {
+    const file: InstalledDatasetFile = { installedAt: new Date().toISOString(), bundledHash, dataset };
+
+    await FileSystem.makeDirectoryAsync(DATASET_DIRECTORY, { intermediates: true });
+    await FileSystem.writeAsStringAsync(INCOMING_FILE, JSON.stringify(file));
+
+    await FileSystem.deleteAsync(PREVIOUS_FILE, { idempotent: true });
+    if (await this.hasInstalledDataset()) {
+      await FileSystem.moveAsync({ from: CURRENT_FILE, to: PREVIOUS_FILE });
+    }
+    await FileSystem.moveAsync({ from: INCOMING_FILE, to: CURRENT_FILE });
+    console.log('Installed ICN dataset update');
+  }
+
+  /**
+   * Restore the dataset that was active before the last install. Returns false when the
+   * bundled dataset is already in use.
+   */
+  async rollback(): Promise<boolean> {
+    if (!(await this.hasInstalledDataset())) return false;
+
+    await FileSystem.deleteAsync(CURRENT_FILE, { idempotent: true });
+    if ((await FileSystem.getInfoAsync(PREVIOUS_FILE)).exists) {
+      await FileSystem.moveAsync({ from: PREVIOUS_FILE, to: CURRENT_FILE });
+    }
+    console.log('Rolled back ICN dataset update');
+    return true;
+  }
+
+  /**
+   * Remove every downloaded dataset so the bundled one is used
+   */
+  async discardInstalledDatasets(): Promise<void> {
+    await FileSystem.deleteAsync(DATASET_DIRECTORY, { idempotent: true });
+  }
+
+  /**
+   * Past updates and rollbacks, newest first
+   */
+  async getChangelogs(): Promise<DatasetChangelog[]> {
+    try {
+      const stored = await AsyncStorage.getItem(CHANGELOG_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error loading dataset changelog:', error);
+      return [];
+    }
+  }
+
+  async recordChangelog(kind: DatasetChangeKind, from: DatasetInfo, to: DatasetInfo, diff: DatasetDiff): Promise<DatasetChangelog> {
+    const changelog: DatasetChangelog = {
+      id: `dataset_${Date.now()}`,
+      kind,
+      appliedAt: new Date().toISOString(),
+      fromVersion: from.version,
+      fromHash: from.hash,
+      toVersion: to.version,
+      toHash: to.hash,
+      totals: {
+        addedCompanies: diff.addedCompanies.length,
+        removedCompanies: diff.removedCompanies.length,
+        updatedCompanies: diff.updatedCompanies.length,
+        addedCapabilities: diff.addedCapabilities.length,
+        removedCapabilities: diff.removedCapabilities.length,
+      },
+      changes: limitChanges(diff),
+    };
+
+    try {
+      const changelogs = await this.getChangelogs();
+      await AsyncStorage.setItem(CHANGELOG_KEY, JSON.stringify([changelog, ...changelogs].slice(0, MAX_CHANGELOGS)));
+    } catch (error) {
+      console.error('Error saving dataset changelog:', error);
+    }
+    return changelog;
+  }
+
+  private async fetchJson(url: string): Promise<unknown> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+    try {
+      const response = await fetch(url, { headers: { Accept: 'application/json' }, signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`The update server responded with ${response.status}.`);
+      }
+      try {
+        return await response.json();
+      } catch {
+        throw new Error('The update server did not return valid ICN data.');
+      }
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+// Export singleton instance
+const datasetUpdateService = DatasetUpdateService.getInstance();
+export default datasetUpdateService;
+
+export { DatasetUpdateService };
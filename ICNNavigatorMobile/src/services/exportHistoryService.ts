@@ -0,0 +1,145 @@
+// services/exportHistoryService.ts - On-device export ledger and monthly export quota per user
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ExportHistory } from '../types';
+
+export interface ExportQuota {
+  used: number; // Completed exports this month
+  limit: number; // -1 for unlimited
+  remaining: number; // -1 for unlimited
+  resetsOn: string; // ISO date of the first day of next month
+}
+
+export type ExportDetails = Pick<ExportHistory, 'exportType' | 'format'>;
+
+const GUEST_USER_ID = 'guest';
+const MAX_HISTORY_MONTHS = 12;
+const MAX_HISTORY_ENTRIES = 200;
+
+// Exports made while signed out are counted under a shared guest ledger
+const storageKey = (userId: string | undefined) => `@export_history_${userId || GUEST_USER_ID}`;
+
+const startOfMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth(), 1);
+const startOfNextMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth() + 1, 1);
+
+export class ExportLimitError extends Error {
+  constructor(public quota: ExportQuota) {
+    super(`You have used all ${quota.limit} exports for this month.`);
+    this.name = 'ExportLimitError';
+  }
+}
+
+class ExportHistoryService {
+  private static instance: ExportHistoryService;
+  private pendingExport: Promise<unknown> = Promise.resolve();
+
+  private constructor() {}
+
+  static getInstance(): ExportHistoryService {
+    if (!ExportHistoryService.instance) {
+      ExportHistoryService.instance = new ExportHistoryService();
+    }
+    return ExportHistoryService.instance;
+  }
+
+  /**
+   * A user's exports, newest first. Entries older than a year are dropped as months roll over.
+   */
+  async getHistory(userId: string | undefined): Promise<ExportHistory[]> {
+    try {
+      const stored = await AsyncStorage.getItem(storageKey(userId));
+      const history: ExportHistory[] = stored ? JSON.parse(stored) : [];
+      const cutoff = new Date();
+      cutoff.setMonth(cutoff.getMonth() - MAX_HISTORY_MONTHS);
+      return history.filter(entry => new Date(entry.exportDate) >= cutoff);
+    } catch (error) {
+      console.error('Error loading export history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Exports used and left in the current calendar month. Failed exports do not count.
+   */
+  async getQuota(userId: string | undefined, exportLimit: number): Promise<ExportQuota> {
+    const now = new Date();
+    const monthStart = startOfMonth(now);
+    const history = await this.getHistory(userId);
+    const used = history.filter(entry =>
+      entry.status === 'completed' && new Date(entry.exportDate) >= monthStart
+    ).length;
+
+    return {
+      used,
+      limit: exportLimit,
+      remaining: exportLimit < 0 ? -1 : Math.max(0, exportLimit - used),
+      resetsOn: startOfNextMonth(now).toISOString(),
+    };
+  }
+
+  /**
+   * Run an export against the quota and record it in the ledger. The task resolves to the
+   * size in bytes of what it produced. Throws ExportLimitError without running the task
+   * when the month's exports are used up. Exports run one at a time, so the quota check
+   * always sees the ledger entries of earlier exports.
+   */
+  trackExport(
+    userId: string | undefined,
+    exportLimit: number,
+    details: ExportDetails,
+    task: () => Promise<number>
+  ): Promise<ExportHistory> {
+    const run = this.pendingExport.then(() => this.runExport(userId, exportLimit, details, task));
+    this.pendingExport = run.catch(() => undefined);
+    return run;
+  }
+
+  private async runExport(
+    userId: string | undefined,
+    exportLimit: number,
+    details: ExportDetails,
+    task: () => Promise<number>
+  ): Promise<ExportHistory> {
+    const quota = await this.getQuota(userId, exportLimit);
+    if (quota.remaining === 0) {
+      throw new ExportLimitError(quota);
+    }
+
+    const entry: ExportHistory = {
+      id: `export_${Date.now()}`,
+      userId: userId || GUEST_USER_ID,
+      exportDate: new Date().toISOString(),
+      exportType: details.exportType,
+      format: details.format,
+      fileSize: 0,
+      status: 'pending',
+    };
+
+    try {
+      entry.fileSize = await task();
+      entry.status = 'completed';
+      return entry;
+    } catch (error) {
+      entry.status = 'failed';
+      throw error;
+    } finally {
+      await this.saveEntry(userId, entry);
+    }
+  }
+
+  private async saveEntry(userId: string | undefined, entry: ExportHistory): Promise<void> {
+    try {
+      const history = await this.getHistory(userId);
+      const updated = [entry, ...history].slice(0, MAX_HISTORY_ENTRIES);
+      await AsyncStorage.setItem(storageKey(userId), JSON.stringify(updated));
+      console.log(`Recorded ${entry.status} ${entry.format} export (${entry.fileSize} bytes)`);
+    } catch (error) {
+      console.error('Error saving export history:', error);
+    }
+  }
+}
+
+// Export singleton instance
+const exportHistoryService = ExportHistoryService.getInstance();
+export default exportHistoryService;
+
+export { ExportHistoryService };
@@ -1,5 +1,8 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { geocodeAddress, getFallbackCoordinates } from './geocodingService';
+import { geocodeStructuredAddress, getFallbackCoordinates } from './geocodingService';
+import { GeocodePrecision } from '../types';
+import connectivityService from './connectivityService';
+import offlineGeocodingProvider from './offlineGeocodingProvider';
 
 interface GeocodeCacheEntry {
   address: string;
@@ -7,6 +10,22 @@ interface GeocodeCacheEntry {
   longitude: number;
   timestamp: string;
   isGeocoded: boolean; // true if geocoded, false if fallback
+  precision?: GeocodePrecision; // Missing on entries cached before precision was tracked
+}
+
+export interface CachedCoordinates {
+  latitude: number;
+  longitude: number;
+  precision: GeocodePrecision;
+  fromCache: boolean;
+  fromNetwork?: boolean;
+}
+
+/**
+ * Precision of a cache entry; older entries only know whether they were geocoded
+ */
+function getEntryPrecision(entry: GeocodeCacheEntry): GeocodePrecision {
+  return entry.precision || (entry.isGeocoded ? 'street' : 'state');
 }
 
 interface GeocodeCache {
@@ -127,7 +146,7 @@ class GeocodeCacheService {
     state: string,
     postcode: string,
     forceRefresh: boolean = false
-  ): Promise<{ latitude: number; longitude: number; fromCache: boolean }> {
+  ): Promise<CachedCoordinates> {
     // Ensure cache is loaded
     if (!this.cache) {
       await this.loadCache();
@@ -144,6 +163,7 @@ class GeocodeCacheService {
         return {
           latitude: cachedEntry.latitude,
           longitude: cachedEntry.longitude,
+          precision: getEntryPrecision(cachedEntry),
           fromCache: true
         };
       }
@@ -155,18 +175,25 @@ class GeocodeCacheService {
     );
     
     let result: { latitude: number; longitude: number };
+    let precision: GeocodePrecision = 'state';
     let isGeocoded = false;
+    let fromNetwork = false;
+    let cacheable = connectivityService.isOnline(); // Offline fallbacks are retried once back online
     
     if (addressParts.length > 0) {
       const fullAddress = addressParts.join(', ');
       
       try {
-        // Try to geocode the full address
-        const geocodeResult = await geocodeAddress(fullAddress);
+        // Try the configured provider chain (offline centroids, then remote)
+        const geocodeResult = await geocodeStructuredAddress({ street, city, state, postcode });
         if (geocodeResult) {
-          console.log(`Geocoded and cached: ${fullAddress.substring(0, 50)}...`);
+          console.log(`Geocoded (${geocodeResult.source}) and cached: ${fullAddress.substring(0, 50)}...`);
           result = { latitude: geocodeResult.latitude, longitude: geocodeResult.longitude };
-          isGeocoded = true;
+          precision = geocodeResult.precision || 'suburb';
+          fromNetwork = !!geocodeResult.fromNetwork;
+          // Bundled centroids only stand in until the remote provider has seen the address
+          isGeocoded = geocodeResult.source !== offlineGeocodingProvider.name;
+          cacheable = fromNetwork;
         } else {
           // Geocoding failed, use fallback
           console.warn(`Geocoding failed for ${fullAddress.substring(0, 50)}..., using fallback`);
@@ -185,14 +212,15 @@ class GeocodeCacheService {
       result = { latitude: fallback.latitude, longitude: fallback.longitude };
     }
     
-    // Store in cache
-    if (this.cache && cacheKey) {
+    // Store in cache. Results found without the network are not cached so they are upgraded once online.
+    if (this.cache && cacheKey && cacheable) {
       this.cache.entries[cacheKey] = {
         address: addressParts.join(', '),
         latitude: result.latitude,
         longitude: result.longitude,
         timestamp: new Date().toISOString(),
-        isGeocoded
+        isGeocoded,
+        precision
       };
       
       // Save cache (debounced)
@@ -201,17 +229,44 @@ class GeocodeCacheService {
     
     return {
       ...result,
-      fromCache: false
+      precision,
+      fromCache: false,
+      fromNetwork
     };
   }
   
+  /**
+   * Look up cached coordinates without geocoding anything.
+   * Returns null for addresses that are missing or expired in the cache.
+   */
+  async getCachedCoordinatesBatch(
+    addresses: Array<{ street: string; city: string; state: string; postcode: string }>
+  ): Promise<Array<{ latitude: number; longitude: number; precision: GeocodePrecision } | null>> {
+    if (!this.cache) {
+      await this.loadCache();
+    }
+
+    return addresses.map(address => {
+      const cacheKey = this.generateCacheKey(address.street, address.city, address.state, address.postcode);
+      const cachedEntry = cacheKey ? this.cache?.entries[cacheKey] : undefined;
+      if (!cachedEntry || this.isExpired(cachedEntry.timestamp)) {
+        return null;
+      }
+      return {
+        latitude: cachedEntry.latitude,
+        longitude: cachedEntry.longitude,
+        precision: getEntryPrecision(cachedEntry)
+      };
+    });
+  }
+
   /**
    * Batch geocode with caching
    */
   async batchGeocodeWithCache(
     addresses: Array<{ street: string; city: string; state: string; postcode: string }>,
     forceRefresh: boolean = false
-  ): Promise<Array<{ latitude: number; longitude: number; fromCache: boolean }>> {
+  ): Promise<CachedCoordinates[]> {
     const results = [];
     let geocodedCount = 0;
     let cachedCount = 0;
@@ -241,8 +296,8 @@ class GeocodeCacheService {
         console.log(`Progress: ${i + 1}/${addresses.length} (${cachedCount} from cache, ${geocodedCount} geocoded)`);
       }
       
-      // Add small delay to avoid rate limiting when geocoding
-      if (!result.fromCache) {
+      // Add small delay to avoid rate limiting when calling a remote API
+      if (result.fromNetwork) {
         await new Promise(resolve => setTimeout(resolve, 100)); // 100ms delay between API calls
       }
     }
@@ -266,6 +321,7 @@ class GeocodeCacheService {
     totalEntries: number;
     geocodedEntries: number;
     fallbackEntries: number;
+    byPrecision: Record<GeocodePrecision, number>;
     cacheSize: number;
     lastUpdated: string;
   } | null {
@@ -274,11 +330,16 @@ class GeocodeCacheService {
     const entries = Object.values(this.cache.entries);
     const geocodedEntries = entries.filter(e => e.isGeocoded).length;
     const fallbackEntries = entries.filter(e => !e.isGeocoded).length;
+    const byPrecision: Record<GeocodePrecision, number> = { rooftop: 0, street: 0, postcode: 0, suburb: 0, state: 0 };
+    entries.forEach(entry => {
+      byPrecision[getEntryPrecision(entry)]++;
+    });
     
     return {
       totalEntries: entries.length,
       geocodedEntries,
       fallbackEntries,
+      byPrecision,
       cacheSize: JSON.stringify(this.cache).length,
       lastUpdated: this.cache.lastUpdated
     };
@@ -1,8 +1,16 @@
 // services/icnDataService.ts - Complete version with proper capability type handling
-import { Company, ICNItem, ICNCompanyData, CapabilityType, isValidCapabilityType } from '../types';
+import { Company, ICNItem, ICNCompanyData, CapabilityType, isValidCapabilityType, isApproximateLocation, StateResolution, DataCorrection, DataCorrectionRule } from '../types';
 import { Platform } from 'react-native';
 import { geocodeAddress, getFallbackCoordinates, batchGeocodeAddresses } from './geocodingService';
 import geocodeCacheService from './geocodeCacheService';
+import offlineGeocodingProvider from './offlineGeocodingProvider';
+import { CompanySearchIndex, SearchOptions } from './searchIndex';
+import { levenshteinDistance } from '../utils/levenshtein';
+import { createSeededRandom, hashString, seededShuffle } from '../utils/seededRandom';
+import { validateICNDataset, hashDataset, DatasetInfo, DatasetValidationResult, UnsupportedDatasetError } from './icnDatasetValidator';
+import datasetSnapshotService, { SnapshotKey } from './datasetSnapshotService';
+import datasetUpdateService, { DatasetUpdate, DatasetChangelog } from './datasetUpdateService';
+import { diffDatasets } from '../utils/datasetDiff';
 
 // Import the JSON file from assets folder
 import ICNData from '../../assets/ICN_Navigator.Company.json';
@@ -51,9 +59,38 @@ const STANDARD_STATES_TERRITORIES = [
   'NI', 'SI'
 ];
 
+// Sampling is opt-in (see ICNDataService.setSampling); by default the full dataset is used
+const DEFAULT_SAMPLE_SIZE = 300;
+const DEFAULT_SAMPLE_SEED = 20240101;
+
+export interface SamplingOptions {
+  size: number;
+  seed: number; // The same seed always selects the same subset of the same data
+}
+
+// Bump whenever convertICNDataToCompanies produces different output; saved snapshots are then rebuilt
+const CONVERTER_VERSION = 2;
+
+// Companies geocoded per background batch
+const GEOCODE_BATCH_SIZE = 25;
+// Listeners rebuild every marker and result list, so batch progress is reported at most this often
+const GEOCODE_PROGRESS_INTERVAL_MS = 2000;
+
 const AUSTRALIAN_STATES = ['VIC', 'NSW', 'QLD', 'SA', 'WA', 'NT', 'TAS', 'ACT'];
 const NEW_ZEALAND_TERRITORIES = ['NI', 'SI'];
-const ALL_VALID_REGIONS = STANDARD_STATES_TERRITORIES;
+
+// Bucket for companies whose state could not be resolved from the state field or postcode
+const UNKNOWN_REGION = 'Unknown region';
+
+// Australia Post postcode ranges. New Zealand postcodes overlap these, so postcodes are
+// only consulted when the state field itself gives no confident answer.
+const POSTCODE_STATE_RANGES: Array<[number, number, string]> = [
+  [200, 299, 'ACT'], [800, 999, 'NT'],
+  [1000, 2599, 'NSW'], [2600, 2618, 'ACT'], [2619, 2899, 'NSW'],
+  [2900, 2920, 'ACT'], [2921, 2999, 'NSW'],
+  [3000, 3999, 'VIC'], [4000, 4999, 'QLD'], [5000, 5999, 'SA'],
+  [6000, 6999, 'WA'], [7000, 7999, 'TAS'], [8000, 8999, 'VIC'], [9000, 9999, 'QLD'],
+];
 
 // State/territory mapping
 const STATE_TERRITORY_MAP: Record<string, string> = {
@@ -108,28 +145,9 @@ function isInvalidValue(value: string | undefined | null): boolean {
          cleanValue === 'UNDEFINED';
 }
 
-function levenshteinDistance(str1: string, str2: string): number {
-  const matrix = [];
-  for (let i = 0; i <= str2.length; i++) {
-    matrix[i] = [i];
-  }
-  for (let j = 0; j <= str1.length; j++) {
-    matrix[0][j] = j;
-  }
-  for (let i = 1; i <= str2.length; i++) {
-    for (let j = 1; j <= str1.length; j++) {
-      if (str2.charAt(i - 1) === str1.charAt(j - 1)) {
-        matrix[i][j] = matrix[i - 1][j - 1];
-      } else {
-        matrix[i][j] = Math.min(
-          matrix[i - 1][j - 1] + 1,
-          matrix[i][j - 1] + 1,
-          matrix[i - 1][j] + 1
-        );
-      }
-    }
-  }
-  return matrix[str2.length][str1.length];
+// Items the converter can use: at least one organisation and a real item ID
+function isUsableItem(item: ICNItem): boolean {
+  return item.Organizations.length > 0 && !isInvalidValue(item["Item ID"]);
 }
 
 function findClosestState(input: string): string | null {
@@ -157,22 +175,23 @@ function findClosestState(input: string): string | null {
   return closestState;
 }
 
-function getDefaultStateForUnknown(input: string): string {
-  const lower = input.toLowerCase();
-  
-  if (lower.includes('mine') || lower.includes('mining')) return 'WA';
-  if (lower.includes('tech') || lower.includes('it')) return 'VIC';
-  if (lower.includes('finance') || lower.includes('bank')) return 'NSW';
-  if (lower.includes('tourism') || lower.includes('resort')) return 'QLD';
-  
-  return 'NSW';
+/**
+ * State for an Australian postcode. Spreadsheet exports drop leading zeros, so 3-digit
+ * postcodes (e.g. 800 for 0800) are accepted.
+ */
+function inferStateFromPostcode(postcode: string | undefined | null): string | null {
+  const cleaned = (postcode || '').trim();
+  if (!/^\d{3,4}$/.test(cleaned)) return null;
+  const value = parseInt(cleaned, 10);
+  const range = POSTCODE_STATE_RANGES.find(([min, max]) => value >= min && value <= max);
+  return range ? range[2] : null;
 }
 
-function normalizeStateTerritory(state: string | undefined | null): string | null {
-  if (!state || isInvalidValue(state)) {
-    return 'NSW';
-  }
-  
+/**
+ * Match the free-text state field alone. Low-confidence matches are only kept when the
+ * postcode cannot settle the state.
+ */
+function resolveStateText(state: string): StateResolution | null {
   const cleaned = state.trim().toLowerCase();
   const normalized = cleaned
     .replace(/^(state of |territory of |province of )/i, '')
@@ -180,22 +199,73 @@ function normalizeStateTerritory(state: string | undefined | null): string | nul
     .replace(/[^a-z0-9]/g, '')
     .trim();
   
-  const mapped = STATE_TERRITORY_MAP[normalized] || STATE_TERRITORY_MAP[cleaned];
-  if (mapped) return mapped;
-  
   const upper = state.trim().toUpperCase();
-  if (STANDARD_STATES_TERRITORIES.includes(upper)) return upper;
+  if (STANDARD_STATES_TERRITORIES.includes(upper)) {
+    return { state: upper, confidence: 'high', rule: 'code' };
+  }
   
-  const fuzzyMatch = findClosestState(upper);
-  if (fuzzyMatch) return fuzzyMatch;
+  const mapped = STATE_TERRITORY_MAP[normalized] || STATE_TERRITORY_MAP[cleaned];
+  if (mapped) return { state: mapped, confidence: 'high', rule: 'name' };
   
-  for (const [key, value] of Object.entries(STATE_TERRITORY_MAP)) {
-    if (normalized.includes(key) || key.includes(normalized)) {
-      return value;
-    }
+  const code = upper.replace(/[^A-Z0-9]/g, '');
+  if (STANDARD_STATES_TERRITORIES.includes(code)) {
+    return { state: code, confidence: 'high', rule: 'code' };
   }
+  if (TYPO_CORRECTIONS[code]) {
+    return { state: TYPO_CORRECTIONS[code], confidence: 'medium', rule: 'typo' };
+  }
+  
+  // One edit away from a code, e.g. 'VICC' or 'NW'
+  const nearby = STANDARD_STATES_TERRITORIES.filter(region => levenshteinDistance(code, region) === 1);
+  if (nearby.length === 1) {
+    return { state: nearby[0], confidence: 'low', rule: 'fuzzy' };
+  }
+  
+  // A place or state name inside a longer value, e.g. 'Melbourne CBD'
+  const partial = Object.entries(STATE_TERRITORY_MAP)
+    .find(([key]) => key.trim().length >= 4 && cleaned.includes(key.trim()));
+  if (partial) return { state: partial[1], confidence: 'low', rule: 'partial' };
+  
+  return null;
+}
+
+/**
+ * Resolve a billing state to a standard code, recording how it was resolved. Companies are
+ * never assigned a state without evidence: when neither the state field nor the postcode
+ * identifies one, the result has state null and rule 'unresolved'.
+ */
+function resolveStateTerritory(
+  state: string | undefined | null,
+  postcode?: string | null
+): StateResolution {
+  const fromText = state && !isInvalidValue(state) ? resolveStateText(state) : null;
+  if (fromText && fromText.confidence !== 'low') return fromText;
   
-  return getDefaultStateForUnknown(state);
+  const fromPostcode = inferStateFromPostcode(postcode);
+  if (fromPostcode) return { state: fromPostcode, confidence: 'medium', rule: 'postcode' };
+  
+  return fromText || { state: null, confidence: 'none', rule: 'unresolved' };
+}
+
+function normalizeStateTerritory(state: string | undefined | null, postcode?: string | null): string | null {
+  return resolveStateTerritory(state, postcode).state;
+}
+
+/**
+ * A company's standard state/territory code, or UNKNOWN_REGION
+ */
+function getCompanyRegion(company: Company): string {
+  const state = company.billingAddress?.state;
+  return state && STANDARD_STATES_TERRITORIES.includes(state) ? state : UNKNOWN_REGION;
+}
+
+/**
+ * Whether a company belongs to a state filter value; UNKNOWN_REGION selects unresolved companies
+ */
+function matchesRegion(company: Company, region: string): boolean {
+  return region === UNKNOWN_REGION
+    ? getCompanyRegion(company) === UNKNOWN_REGION
+    : company.billingAddress?.state === region;
 }
 
 // Normalize capability type - returns CapabilityType
@@ -281,6 +351,55 @@ function cleanCompanyData(data: string | undefined | null, placeholder: string =
   return data!.trim();
 }
 
+/**
+ * Append a correction to a company's provenance list
+ */
+function recordCorrection(
+  corrections: DataCorrection[],
+  field: string,
+  originalValue: string | undefined | null,
+  newValue: string,
+  rule: DataCorrectionRule,
+  capabilityId?: string
+): void {
+  const correction: DataCorrection = { field, originalValue: originalValue ?? null, newValue, rule };
+  if (capabilityId) correction.capabilityId = capabilityId;
+  corrections.push(correction);
+}
+
+/**
+ * cleanCompanyData that records the placeholder when one is substituted
+ */
+function cleanAndRecord(
+  corrections: DataCorrection[],
+  field: string,
+  data: string | undefined | null,
+  placeholder: string,
+  rule: DataCorrectionRule = 'placeholder',
+  capabilityId?: string
+): string {
+  const cleaned = cleanCompanyData(data, placeholder);
+  if (isInvalidValue(data)) {
+    recordCorrection(corrections, field, data, cleaned, rule, capabilityId);
+  }
+  return cleaned;
+}
+
+/**
+ * normalizeCapabilityType that records when the raw type was mapped or defaulted
+ */
+function normalizeAndRecordCapabilityType(
+  corrections: DataCorrection[],
+  type: string | undefined | null,
+  capabilityId: string
+): CapabilityType {
+  const capabilityType = normalizeCapabilityType(type);
+  if (capabilityType !== (type || '').trim()) {
+    recordCorrection(corrections, 'icnCapabilities.capabilityType', type, capabilityType, 'capability-type', capabilityId);
+  }
+  return capabilityType;
+}
+
 function convertICNDateToISO(icnDate: string): string | undefined {
   if (!icnDate || isInvalidValue(icnDate)) return undefined;
   
@@ -294,78 +413,136 @@ function convertICNDateToISO(icnDate: string): string | undefined {
   return `${year}-${month}-${day}`;
 }
 
-function stratifiedSampleCompanies(companies: Company[], targetSize: number = 300): Company[] {
-  console.log(`Starting stratified sampling from ${companies.length} companies to ${targetSize}`);
+/**
+ * Stratum key for sampling: billing state and primary (first non-General) sector
+ */
+function getSampleStratum(company: Company): string {
+  const state = getCompanyRegion(company);
+  const sector = company.keySectors.find(s => s !== 'General') || 'General';
+  return `${state}|${sector}`;
+}
+
+/**
+ * Deterministic stratified sample. Each state/sector stratum gets a share of the
+ * sample proportional to its size (largest-remainder rounding), and is sampled with
+ * a PRNG seeded from the sample seed and the stratum key. Results keep dataset order.
+ */
+function stratifiedSampleCompanies(
+  companies: Company[],
+  targetSize: number = DEFAULT_SAMPLE_SIZE,
+  seed: number = DEFAULT_SAMPLE_SEED
+): Company[] {
+  console.log(`Starting stratified sampling from ${companies.length} companies to ${targetSize} (seed ${seed})`);
   
   if (companies.length <= targetSize) {
     return companies;
   }
   
-  const companiesByState = new Map<string, Company[]>();
-  const companiesBySector = new Map<string, Company[]>();
-  const selectedCompanies = new Set<string>();
-  const result: Company[] = [];
-  
+  const strata = new Map<string, Company[]>();
   companies.forEach(company => {
-    const state = company.billingAddress?.state;
-    if (state && STANDARD_STATES_TERRITORIES.includes(state)) {
-      if (!companiesByState.has(state)) {
-        companiesByState.set(state, []);
-      }
-      companiesByState.get(state)!.push(company);
+    const key = getSampleStratum(company);
+    if (!strata.has(key)) {
+      strata.set(key, []);
     }
-    
-    company.keySectors.forEach(sector => {
-      if (sector !== 'General') {
-        if (!companiesBySector.has(sector)) {
-          companiesBySector.set(sector, []);
-        }
-        companiesBySector.get(sector)!.push(company);
+    strata.get(key)!.push(company);
+  });
+  
+  // Sorted keys so allocation does not depend on dataset order
+  const keys = Array.from(strata.keys()).sort();
+  const quotas = keys.map(key => {
+    const exact = targetSize * strata.get(key)!.length / companies.length;
+    return { key, count: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+  
+  // Hand out the seats lost to rounding, largest remainder first
+  let unallocated = targetSize - quotas.reduce((sum, quota) => sum + quota.count, 0);
+  [...quotas]
+    .sort((a, b) => b.remainder - a.remainder || a.key.localeCompare(b.key))
+    .forEach(quota => {
+      if (unallocated > 0) {
+        quota.count++;
+        unallocated--;
       }
     });
+  
+  const selectedIds = new Set<string>();
+  quotas.forEach(({ key, count }) => {
+    if (count === 0) return;
+    const random = createSeededRandom(seed ^ hashString(key));
+    seededShuffle(strata.get(key)!, random)
+      .slice(0, count)
+      .forEach(company => selectedIds.add(company.id));
   });
   
-  // Ensure at least one company from each state
-  companiesByState.forEach((stateCompanies, state) => {
-    if (selectedCompanies.size < targetSize && stateCompanies.length > 0) {
-      const randomIndex = Math.floor(Math.random() * stateCompanies.length);
-      const company = stateCompanies[randomIndex];
-      if (!selectedCompanies.has(company.id)) {
-        selectedCompanies.add(company.id);
-        result.push(company);
-      }
+  return companies.filter(company => selectedIds.has(company.id));
+}
+
+/**
+ * Address fields used to geocode a company
+ */
+function getGeocodeAddress(company: Company): { street: string; city: string; state: string; postcode: string } {
+  return {
+    street: company.billingAddress?.street || '',
+    city: company.billingAddress?.city || '',
+    state: company.billingAddress?.state || '',
+    postcode: company.billingAddress?.postcode || ''
+  };
+}
+
+/**
+ * Order companies that are not geocoded yet by how close they probably are to a point.
+ * Each company is placed at the bundled centroid of its postcode district, or at its
+ * state's capital when the postcode is unknown. The sort is stable, so companies at the
+ * same centroid keep their order.
+ */
+function sortByApproximateDistance(
+  companies: Company[],
+  center: { latitude: number; longitude: number }
+): Company[] {
+  // Many companies share a postcode, so each centroid's distance is worked out once
+  const distances = new Map<string, number>();
+  const distanceTo = (company: Company) => {
+    const { state, postcode } = getGeocodeAddress(company);
+    const key = `${postcode}|${state}`;
+    let distance = distances.get(key);
+    if (distance === undefined) {
+      const approx = (postcode && offlineGeocodingProvider.findPostcodeDistrict(postcode, state)) || getFallbackCoordinates(state);
+      distance = Math.hypot(approx.latitude - center.latitude, approx.longitude - center.longitude);
+      distances.set(key, distance);
     }
-  });
+    return distance;
+  };
   
-  // Ensure at least one company from each sector
-  companiesBySector.forEach((sectorCompanies, sector) => {
-    if (selectedCompanies.size < targetSize) {
-      const unselected = sectorCompanies.filter(c => !selectedCompanies.has(c.id));
-      if (unselected.length > 0) {
-        const randomIndex = Math.floor(Math.random() * unselected.length);
-        const company = unselected[randomIndex];
-        selectedCompanies.add(company.id);
-        result.push(company);
-      }
+  return [...companies].sort((a, b) => distanceTo(a) - distanceTo(b));
+}
+
+/**
+ * Apply coordinates already in the geocode cache.
+ * Returns the companies that still need geocoding.
+ */
+async function applyCachedCoordinates(companies: Company[]): Promise<Company[]> {
+  const cached = await geocodeCacheService.getCachedCoordinatesBatch(companies.map(getGeocodeAddress));
+  const pending: Company[] = [];
+  
+  companies.forEach((company, index) => {
+    const coords = cached[index];
+    if (coords) {
+      company.latitude = coords.latitude;
+      company.longitude = coords.longitude;
+      company.geocodePrecision = coords.precision;
+    } else {
+      pending.push(company);
     }
   });
   
-  // Fill remaining slots randomly
-  const remaining = targetSize - result.length;
-  if (remaining > 0) {
-    const unselectedCompanies = companies.filter(c => !selectedCompanies.has(c.id));
-    const shuffled = [...unselectedCompanies].sort(() => Math.random() - 0.5);
-    const additionalCompanies = shuffled.slice(0, remaining);
-    additionalCompanies.forEach(company => {
-      selectedCompanies.add(company.id);
-      result.push(company);
-    });
-  }
-  
-  return result;
+  return pending;
 }
 
-async function convertICNDataToCompanies(icnItems: ICNItem[], useSampling: boolean = true): Promise<Company[]> {
+/**
+ * Convert ICN items into companies, in dataset order. Coordinates are left at 0,0;
+ * ICNDataService fills them from the geocode cache and then in background batches.
+ */
+async function convertICNDataToCompanies(icnItems: ICNItem[], sampling?: SamplingOptions): Promise<Company[]> {
   const companyMap = new Map<string, Company>();
   let skippedCount = 0;
   
@@ -383,29 +560,54 @@ async function convertICNDataToCompanies(icnItems: ICNItem[], useSampling: boole
         return;
       }
       
+      const capabilityId = org["Organisation Capability"];
+      
       if (!companyMap.has(orgId)) {
-        const normalizedState = normalizeStateTerritory(org["Organisation: Billing State/Province"]);
-        const street = cleanCompanyData(org["Organisation: Billing Street"], 'Address Not Available');
-        let city = cleanCompanyData(org["Organisation: Billing City"], 'City Not Available');
-        city = autoCorrectData(city, 'city');
-        const postcode = cleanCompanyData(org["Organisation: Billing Zip/Postal Code"], '');
+        const corrections: DataCorrection[] = [];
+        const street = cleanAndRecord(corrections, 'billingAddress.street', org["Organisation: Billing Street"], 'Address Not Available');
+        const rawCity = cleanAndRecord(corrections, 'billingAddress.city', org["Organisation: Billing City"], 'City Not Available');
+        const city = autoCorrectData(rawCity, 'city');
+        if (city !== rawCity) {
+          recordCorrection(corrections, 'billingAddress.city', rawCity, city, 'city-correction');
+        }
+        const postcode = cleanAndRecord(corrections, 'billingAddress.postcode', org["Organisation: Billing Zip/Postal Code"], '');
+        const rawState = org["Organisation: Billing State/Province"];
+        const stateResolution = resolveStateTerritory(rawState, postcode);
+        const normalizedState = stateResolution.state || '';
+        // Unresolved states are recorded even when the field was blank so they show up in the report
+        if (normalizedState !== (rawState || '').trim() || !stateResolution.state) {
+          recordCorrection(corrections, 'billingAddress.state', rawState, normalizedState, `state-${stateResolution.rule}`);
+        }
         
-        const companyName = cleanCompanyData(org["Organisation: Organisation Name"], `Company ${orgId.slice(-4)}`);
+        const companyName = cleanAndRecord(
+          corrections,
+          'name',
+          org["Organisation: Organisation Name"],
+          `Company ${orgId.slice(-4)}`,
+          'generated-name'
+        );
         const fullAddress = [street, city, normalizedState, postcode]
           .filter(v => v && v !== '')
           .join(', ');
         
         // Normalize capability type to ensure it's a valid CapabilityType
-        const capabilityType = normalizeCapabilityType(org["Capability Type"]);
+        const capabilityType = normalizeAndRecordCapabilityType(corrections, org["Capability Type"], capabilityId);
         
         // Collect all capability types for this company
         const companyCapabilityTypes = [capabilityType];
         const companyType = determineCompanyType(companyCapabilityTypes);
         
         const verificationDate = convertICNDateToISO(org["Validation Date"]);
-        const sectorName = cleanCompanyData(item["Sector Name"], 'General');
-        const itemName = cleanCompanyData(item["Item Name"], 'Service');
-        const detailedItemName = cleanCompanyData(item["Detailed Item Name"], itemName);
+        const sectorName = cleanAndRecord(corrections, 'icnCapabilities.sectorName', item["Sector Name"], 'General', 'placeholder', capabilityId);
+        const itemName = cleanAndRecord(corrections, 'icnCapabilities.itemName', item["Item Name"], 'Service', 'placeholder', capabilityId);
+        const detailedItemName = cleanAndRecord(
+          corrections,
+          'icnCapabilities.detailedItemName',
+          item["Detailed Item Name"],
+          itemName,
+          'placeholder',
+          capabilityId
+        );
         
         companyMap.set(orgId, {
           id: orgId,
@@ -414,9 +616,11 @@ async function convertICNDataToCompanies(icnItems: ICNItem[], useSampling: boole
           billingAddress: {
             street,
             city,
-            state: normalizedState!,
+            state: normalizedState,
             postcode
           },
+          stateResolution,
+          dataCorrections: corrections,
           latitude: 0,
           longitude: 0,
           verificationStatus: verificationDate ? 'verified' : 'unverified',
@@ -425,7 +629,7 @@ async function convertICNDataToCompanies(icnItems: ICNItem[], useSampling: boole
           capabilities: [detailedItemName],
           companyType,
           icnCapabilities: [{
-            capabilityId: org["Organisation Capability"],
+            capabilityId,
             itemId: item["Item ID"],
             itemName,
             detailedItemName,
@@ -435,16 +639,25 @@ async function convertICNDataToCompanies(icnItems: ICNItem[], useSampling: boole
           }],
           dataSource: 'ICN',
           icnValidationDate: org["Validation Date"],
-          lastUpdated: new Date().toISOString(),
+          lastUpdated: verificationDate, // Newest validation date of the company's records
           phoneNumber: undefined,
           email: undefined,
           website: undefined,
         } as Company);
       } else {
         const existingCompany = companyMap.get(orgId)!;
-        const sectorName = cleanCompanyData(item["Sector Name"], 'General');
-        const detailedItemName = cleanCompanyData(item["Detailed Item Name"], 'Service');
-        const capabilityType = normalizeCapabilityType(org["Capability Type"]);
+        const corrections = existingCompany.dataCorrections!;
+        const sectorName = cleanAndRecord(corrections, 'icnCapabilities.sectorName', item["Sector Name"], 'General', 'placeholder', capabilityId);
+        const itemName = cleanAndRecord(corrections, 'icnCapabilities.itemName', item["Item Name"], 'Service', 'placeholder', capabilityId);
+        const detailedItemName = cleanAndRecord(
+          corrections,
+          'icnCapabilities.detailedItemName',
+          item["Detailed Item Name"],
+          'Service',
+          'placeholder',
+          capabilityId
+        );
+        const capabilityType = normalizeAndRecordCapabilityType(corrections, org["Capability Type"], capabilityId);
         
         if (!existingCompany.keySectors.includes(sectorName)) {
           existingCompany.keySectors.push(sectorName);
@@ -457,9 +670,9 @@ async function convertICNDataToCompanies(icnItems: ICNItem[], useSampling: boole
         
         if (existingCompany.icnCapabilities) {
           existingCompany.icnCapabilities.push({
-            capabilityId: org["Organisation Capability"],
+            capabilityId,
             itemId: item["Item ID"],
-            itemName: cleanCompanyData(item["Item Name"], 'Service'),
+            itemName,
             detailedItemName,
             capabilityType, // This is now guaranteed to be CapabilityType
             sectorName,
@@ -472,41 +685,101 @@ async function convertICNDataToCompanies(icnItems: ICNItem[], useSampling: boole
           const allCapTypes = existingCompany.icnCapabilities.map(c => c.capabilityType);
           existingCompany.companyType = determineCompanyType(allCapTypes);
         }
+        
+        // ISO dates compare as strings
+        const validationDate = convertICNDateToISO(org["Validation Date"]);
+        if (validationDate && (!existingCompany.lastUpdated || validationDate > existingCompany.lastUpdated)) {
+          existingCompany.lastUpdated = validationDate;
+        }
       }
     });
   });
   
-  let allCompanies = Array.from(companyMap.values());
-  console.log(`Processed ${allCompanies.length} unique companies before sampling`);
+  const allCompanies = Array.from(companyMap.values());
+  console.log(`Processed ${allCompanies.length} unique companies`);
   
-  let companiesToProcess = allCompanies;
-  if (useSampling) {
-    companiesToProcess = stratifiedSampleCompanies(allCompanies, 300);
-    console.log(`Sampled ${companiesToProcess.length} companies for geocoding`);
+  if (sampling) {
+    const sampled = stratifiedSampleCompanies(allCompanies, sampling.size, sampling.seed);
+    console.log(`Sampled ${sampled.length} companies`);
+    return sampled;
   }
   
-  const companiesToGeocode = companiesToProcess.map(company => ({
-    orgId: company.id,
-    street: company.billingAddress?.street || '',
-    city: company.billingAddress?.city || '',
-    state: company.billingAddress?.state || 'NSW',
-    postcode: company.billingAddress?.postcode || ''
-  }));
-  
-  const coordinates = await geocodeCacheService.batchGeocodeWithCache(companiesToGeocode);
+  return allCompanies;
+}
+
+export interface GeocodeProgress {
+  located: number;
+  pending: number;
+  total: number;
+}
+
+export interface DataQualityRecord {
+  company: Company;
+  correctedFields: number; // Distinct fields rewritten by the converter
+  corrections: number;
+}
+
+export interface DataQualityReport {
+  totalCompanies: number;
+  correctedCompanies: number;
+  totalCorrections: number;
+  byRule: Array<{ rule: DataCorrectionRule; corrections: number; companies: number }>; // Most frequent first
+  worstRecords: DataQualityRecord[];
+}
+
+/**
+ * Summarise the corrections the converter applied, for feeding fixes back to ICN.
+ * Records are ranked by how many distinct fields were rewritten, so a company is not
+ * ranked worse just for listing many capabilities with the same gap.
+ */
+function buildDataQualityReport(companies: Company[], worstLimit: number = 20): DataQualityReport {
+  const byRule = new Map<DataCorrectionRule, { corrections: number; companies: Set<string> }>();
+  const records: DataQualityRecord[] = [];
+  let totalCorrections = 0;
   
-  companiesToGeocode.forEach((company, index) => {
-    const coords = coordinates[index];
-    const companyData = companiesToProcess.find(c => c.id === company.orgId);
-    if (companyData) {
-      companyData.latitude = coords.latitude;
-      companyData.longitude = coords.longitude;
-    }
+  companies.forEach(company => {
+    const corrections = company.dataCorrections || [];
+    if (corrections.length === 0) return;
+    
+    corrections.forEach(correction => {
+      if (!byRule.has(correction.rule)) {
+        byRule.set(correction.rule, { corrections: 0, companies: new Set() });
+      }
+      const entry = byRule.get(correction.rule)!;
+      entry.corrections++;
+      entry.companies.add(company.id);
+    });
+    
+    totalCorrections += corrections.length;
+    records.push({
+      company,
+      correctedFields: new Set(corrections.map(correction => correction.field)).size,
+      corrections: corrections.length,
+    });
   });
   
-  return companiesToProcess;
+  records.sort((a, b) =>
+    b.correctedFields - a.correctedFields ||
+    b.corrections - a.corrections ||
+    a.company.name.localeCompare(b.company.name)
+  );
+  
+  return {
+    totalCompanies: companies.length,
+    correctedCompanies: records.length,
+    totalCorrections,
+    byRule: Array.from(byRule.entries())
+      .map(([rule, entry]) => ({ rule, corrections: entry.corrections, companies: entry.companies.size }))
+      .sort((a, b) => b.corrections - a.corrections),
+    worstRecords: records.slice(0, worstLimit),
+  };
 }
 
+type GeocodeProgressListener = (progress: GeocodeProgress) => void;
+type DatasetErrorListener = (error: UnsupportedDatasetError | null) => void;
+
+export type DatasetSource = 'bundled' | 'downloaded';
+
 class ICNDataService {
   private static instance: ICNDataService;
   private companies: Company[] = [];
@@ -514,7 +787,24 @@ class ICNDataService {
   private isLoading = false;
   private isLoaded = false;
   private lastLoadTime: Date | null = null;
-  private useSampling: boolean = true;
+  private sampling: SamplingOptions | null = null;
+  private searchIndex = new CompanySearchIndex();
+  private datasetInfo: DatasetInfo | null = null;
+  private datasetError: UnsupportedDatasetError | null = null;
+  private datasetErrorListeners = new Set<DatasetErrorListener>();
+  private snapshotKey: SnapshotKey | null = null;
+  private datasetSource: DatasetSource = 'bundled';
+  private sourceDataset: unknown = null; // As parsed, before validation; deltas apply to this
+  private sourceItems: ICNItem[] = []; // Validated, before unusable items are dropped; updates are diffed against these
+  
+  // Background geocoding
+  private geocodeQueue: Company[] = [];
+  private geocodeInFlight = 0;
+  private geocodeGeneration = 0; // Bumped on reload so stale batches are discarded
+  private geocodePriorityCenter: { latitude: number; longitude: number } | null = null;
+  private geocodeQueueNeedsSort = false;
+  private geocodeListeners = new Set<GeocodeProgressListener>();
+  private lastGeocodeNotifyAt = 0;
   
   private constructor() {}
   
@@ -525,8 +815,14 @@ class ICNDataService {
     return ICNDataService.instance;
   }
   
-  setSampling(enabled: boolean): void {
-    this.useSampling = enabled;
+  /**
+   * Enable or disable sampling. A sample is reproducible: the same size and seed
+   * always select the same companies from the same data.
+   */
+  setSampling(enabled: boolean, options: Partial<SamplingOptions> = {}): void {
+    this.sampling = enabled
+      ? { size: options.size ?? DEFAULT_SAMPLE_SIZE, seed: options.seed ?? DEFAULT_SAMPLE_SEED }
+      : null;
     if (this.isLoaded) {
       this.clearCache();
     }
@@ -548,40 +844,211 @@ class ICNDataService {
     this.isLoading = true;
     
     try {
-      console.log(`Loading ICN data (sampling: ${this.useSampling})...`);
+      console.log(`Loading ICN data (sampling: ${this.sampling ? `${this.sampling.size}, seed ${this.sampling.seed}` : 'off'})...`);
       
-      const data = ICNData as ICNItem[];
+      const { items, info } = await this.validateDatasetSource();
+      this.datasetInfo = info;
       
-      if (!Array.isArray(data)) {
-        throw new Error('Invalid ICN data format: expected array');
+      console.log(`Loaded ${info.itemCount} ICN items from ${this.datasetSource} dataset ${info.version || 'unversioned'} (${info.hash})`);
+      if (info.issueCount > 0) {
+        console.warn(`Skipped ${info.rejectedItems} items and ${info.rejectedOrganisations} organisations with schema issues:`, info.issues.slice(0, 5));
       }
       
-      console.log(`Loaded ${data.length} ICN items`);
-      
-      this.icnItems = data.filter(item => 
-        item.Organizations && 
-        item.Organizations.length > 0 &&
-        !isInvalidValue(item["Item ID"])
-      );
+      this.sourceItems = items;
+      this.icnItems = items.filter(isUsableItem);
       
       console.log(`Valid ICN items: ${this.icnItems.length}`);
       
-      this.companies = await convertICNDataToCompanies(this.icnItems, this.useSampling);
+      this.snapshotKey = this.getSnapshotKey(info);
+      const snapshot = await datasetSnapshotService.load(this.snapshotKey);
+      
+      if (snapshot) {
+        this.companies = snapshot.companies;
+        this.searchIndex.restore(this.companies, snapshot.searchIndex);
+        console.log(`Restored ${this.companies.length} companies from snapshot of ${snapshot.createdAt}`);
+      } else {
+        try {
+          this.companies = await convertICNDataToCompanies(this.icnItems, this.sampling ?? undefined);
+        } catch (error) {
+          // The validator should catch layout changes first; anything it misses is still reported as unsupported data
+          throw new UnsupportedDatasetError(
+            `The ICN dataset could not be converted: ${error instanceof Error ? error.message : String(error)}`,
+            [],
+            info
+          );
+        }
+        this.searchIndex.build(this.companies);
+      }
+      
+      // Snapshot companies keep their geocodes for display, but any without a cache entry
+      // (offline fallbacks and centroids, which are never cached) are geocoded again
+      const pending = await applyCachedCoordinates(this.companies);
+      if (!snapshot) this.saveSnapshot();
       
       this.isLoaded = true;
       this.lastLoadTime = new Date();
+      if (this.datasetError) this.setDatasetError(null);
       
-      console.log(`Loaded ${this.companies.length} companies with geocoded locations`);
+      console.log(`Loaded ${this.companies.length} companies (${this.companies.length - pending.length} with cached locations)`);
       this.logStatistics();
+      this.startBackgroundGeocoding(pending);
       
     } catch (error) {
       console.error('Error loading ICN data:', error);
+      if (error instanceof UnsupportedDatasetError) {
+        this.setDatasetError(error);
+      }
       throw error;
     } finally {
       this.isLoading = false;
     }
   }
   
+  /**
+   * The downloaded dataset when one is installed and still applies, otherwise the bundled
+   * one. Downloads are dropped once an app release ships a different bundled dataset, or
+   * when this version of the app can no longer read them.
+   */
+  private async validateDatasetSource(): Promise<DatasetValidationResult> {
+    const installed = await datasetUpdateService.readInstalledDataset();
+    if (installed) {
+      if (installed.bundledHash !== hashDataset(ICNData)) {
+        console.log('Bundled ICN dataset changed with this app release, discarding downloaded updates');
+        await datasetUpdateService.discardInstalledDatasets();
+      } else {
+        try {
+          const result = validateICNDataset(installed.dataset);
+          this.datasetSource = 'downloaded';
+          this.sourceDataset = installed.dataset;
+          return result;
+        } catch (error) {
+          if (!(error instanceof UnsupportedDatasetError)) throw error;
+          console.warn('Downloaded ICN dataset is not supported, using the bundled one:', error.message);
+          await datasetUpdateService.discardInstalledDatasets();
+        }
+      }
+    }
+    this.datasetSource = 'bundled';
+    this.sourceDataset = ICNData;
+    return validateICNDataset(ICNData);
+  }
+  
+  private getSnapshotKey(info: DatasetInfo): SnapshotKey {
+    return {
+      datasetHash: info.hash,
+      converterVersion: CONVERTER_VERSION,
+      variant: this.sampling ? `sample-${this.sampling.size}-${this.sampling.seed}` : 'full',
+    };
+  }
+  
+  /**
+   * Version, content hash and schema issues of the loaded dataset
+   */
+  getDatasetInfo(): DatasetInfo | null {
+    return this.datasetInfo;
+  }
+  
+  /**
+   * The error from the last load if the dataset is not one the converter supports
+   */
+  getDatasetError(): UnsupportedDatasetError | null {
+    return this.datasetError;
+  }
+  
+  /**
+   * Subscribe to unsupported-dataset errors. Returns an unsubscribe function.
+   */
+  onDatasetError(listener: DatasetErrorListener): () => void {
+    this.datasetErrorListeners.add(listener);
+    return () => {
+      this.datasetErrorListeners.delete(listener);
+    };
+  }
+  
+  private setDatasetError(error: UnsupportedDatasetError | null): void {
+    this.datasetError = error;
+    this.datasetErrorListeners.forEach(listener => listener(error));
+  }
+  
+  /**
+   * Whether the loaded dataset shipped with the app or was downloaded as an update
+   */
+  getDatasetSource(): DatasetSource {
+    return this.datasetSource;
+  }
+  
+  /**
+   * Ask the update server for a newer dataset. Resolves to null when there is none.
+   */
+  async checkForDatasetUpdate(): Promise<DatasetUpdate | null> {
+    if (!this.isLoaded) await this.loadData();
+    return datasetUpdateService.fetchUpdate(this.sourceDataset, this.sourceItems, this.datasetInfo!);
+  }
+  
+  /**
+   * Install a fetched update and reload. The update is converted before anything is
+   * replaced, so data the converter rejects leaves the current dataset untouched; if the
+   * reload still fails, the previous dataset is restored.
+   */
+  async applyDatasetUpdate(update: DatasetUpdate): Promise<DatasetChangelog> {
+    if (!this.isLoaded) await this.loadData();
+    const previousInfo = this.datasetInfo!;
+    
+    let companies: Company[];
+    try {
+      companies = await convertICNDataToCompanies(update.items.filter(isUsableItem), this.sampling ?? undefined);
+    } catch (error) {
+      throw new UnsupportedDatasetError(
+        `The ICN update could not be converted: ${error instanceof Error ? error.message : String(error)}`,
+        [],
+        update.info
+      );
+    }
+    // Saved as the snapshot for the new dataset, so the reload below restores it
+    const searchIndex = new CompanySearchIndex();
+    searchIndex.build(companies);
+    await datasetSnapshotService.save(this.getSnapshotKey(update.info), companies, searchIndex.serialize());
+    
+    await datasetUpdateService.install(update.dataset, hashDataset(ICNData));
+    try {
+      await this.reloadDataset();
+    } catch (error) {
+      console.error('Installed ICN update failed to load, rolling back:', error);
+      await datasetUpdateService.rollback();
+      await this.reloadDataset();
+      throw error;
+    }
+    
+    return datasetUpdateService.recordChangelog('update', previousInfo, this.datasetInfo!, update.diff);
+  }
+  
+  /**
+   * Return to the dataset that was in use before the last update. Resolves to null when
+   * the bundled dataset is already in use.
+   */
+  async rollbackDatasetUpdate(): Promise<DatasetChangelog | null> {
+    if (!this.isLoaded) await this.loadData();
+    const previousInfo = this.datasetInfo!;
+    const previousItems = this.icnItems;
+    
+    if (!(await datasetUpdateService.rollback())) return null;
+    await this.reloadDataset();
+    
+    const diff = diffDatasets(previousItems, this.icnItems);
+    return datasetUpdateService.recordChangelog('rollback', previousInfo, this.datasetInfo!, diff);
+  }
+  
+  private async reloadDataset(): Promise<void> {
+    this.clearCache();
+    await this.loadData();
+    // Screens holding the old companies refresh from geocode progress notifications
+    this.notifyGeocodeProgress();
+  }
+  
+  getSampling(): SamplingOptions | null {
+    return this.sampling;
+  }
+  
   getCompanies(): Company[] {
     return this.companies;
   }
@@ -590,11 +1057,21 @@ class ICNDataService {
     return this.icnItems;
   }
   
-  searchCompanies(searchText: string): Company[] {
+  /**
+   * Full-text search ranked by relevance (BM25 over name, items, sectors and address).
+   * The last term matches as a prefix and misspelt terms are matched fuzzily.
+   * Falls back to a substring scan when the query has no indexable terms.
+   */
+  searchCompanies(searchText: string, options?: SearchOptions): Company[] {
     const searchLower = searchText.toLowerCase().trim();
     
     if (!searchLower) return this.companies;
     
+    const hits = this.searchIndex.search(searchLower, options);
+    if (hits) {
+      return hits.map(hit => hit.company);
+    }
+    
     return this.companies.filter(company => 
       company.name.toLowerCase().includes(searchLower) ||
       company.address.toLowerCase().includes(searchLower) ||
@@ -606,10 +1083,18 @@ class ICNDataService {
     );
   }
   
+  /**
+   * "Did you mean" suggestion for a query that returns no results
+   */
+  getSearchSuggestion(searchText: string): string | null {
+    if (!searchText.trim() || this.searchCompanies(searchText).length > 0) {
+      return null;
+    }
+    return this.searchIndex.suggest(searchText);
+  }
+  
   filterByState(state: string): Company[] {
-    return this.companies.filter(company => 
-      company.billingAddress?.state === state
-    );
+    return this.companies.filter(company => matchesRegion(company, state));
   }
   
   /**
@@ -723,9 +1208,7 @@ class ICNDataService {
         }
       });
       
-      if (company.billingAddress?.state && STANDARD_STATES_TERRITORIES.includes(company.billingAddress.state)) {
-        states.add(company.billingAddress.state);
-      }
+      states.add(getCompanyRegion(company));
       
       if (company.billingAddress?.city && 
           company.billingAddress.city !== 'City Not Available' &&
@@ -746,9 +1229,11 @@ class ICNDataService {
       });
     });
     
+    // Unresolved companies stay findable under their own option, listed last
     const orderedStates = [
       ...AUSTRALIAN_STATES.filter(state => states.has(state)),
-      ...NEW_ZEALAND_TERRITORIES.filter(state => states.has(state))
+      ...NEW_ZEALAND_TERRITORIES.filter(state => states.has(state)),
+      ...(states.has(UNKNOWN_REGION) ? [UNKNOWN_REGION] : [])
     ];
     
     return {
@@ -760,12 +1245,20 @@ class ICNDataService {
     };
   }
   
-  getTerritoryStatistics() {
+  /**
+   * Company counts per state/territory. Pass a filtered list to count only matching
+   * companies (used by the map's choropleth); defaults to the whole dataset.
+   * Companies without a resolved state are counted in `unknown`, not in `byTerritory`.
+   */
+  getTerritoryStatistics(companies: Company[] = this.companies) {
     const territoryCounts: Record<string, number> = {};
+    let unknown = 0;
     
-    this.companies.forEach(company => {
-      const territory = company.billingAddress?.state;
-      if (territory && STANDARD_STATES_TERRITORIES.includes(territory)) {
+    companies.forEach(company => {
+      const territory = getCompanyRegion(company);
+      if (territory === UNKNOWN_REGION) {
+        unknown++;
+      } else {
         territoryCounts[territory] = (territoryCounts[territory] || 0) + 1;
       }
     });
@@ -787,7 +1280,8 @@ class ICNDataService {
         SI: territoryCounts.SI || 0,
         total: NEW_ZEALAND_TERRITORIES.reduce((sum: number, state: string) => sum + (territoryCounts[state] || 0), 0)
       },
-      total: Object.values(territoryCounts).reduce((sum, count) => sum + count, 0),
+      unknown,
+      total: Object.values(territoryCounts).reduce((sum, count) => sum + count, unknown),
       byTerritory: territoryCounts
     };
   }
@@ -813,6 +1307,8 @@ class ICNDataService {
         withPhone: 0,
         withWebsite: 0,
         withFullAddress: 0,
+        withApproximateLocation: 0,
+        withCorrections: 0,
       }
     };
     
@@ -856,10 +1352,8 @@ class ICNDataService {
         stats.byCapabilityType[type] = (stats.byCapabilityType[type] || 0) + 1;
       });
       
-      const state = company.billingAddress?.state;
-      if (state && ALL_VALID_REGIONS.includes(state)) {
-        stats.byState[state] = (stats.byState[state] || 0) + 1;
-      }
+      const state = getCompanyRegion(company);
+      stats.byState[state] = (stats.byState[state] || 0) + 1;
       
       const city = company.billingAddress?.city;
       if (city && city !== 'City Not Available') {
@@ -882,6 +1376,8 @@ class ICNDataService {
       if (company.billingAddress?.street !== 'Address Not Available') {
         stats.dataQuality.withFullAddress++;
       }
+      if (isApproximateLocation(company.geocodePrecision)) stats.dataQuality.withApproximateLocation++;
+      if (company.dataCorrections?.length) stats.dataQuality.withCorrections++;
     });
     
     stats.avgCapabilitiesPerCompany = stats.totalCompanies > 0 
@@ -896,6 +1392,109 @@ class ICNDataService {
     return stats;
   }
   
+  /**
+   * Data quality report for the loaded companies (see buildDataQualityReport)
+   */
+  getDataQualityReport(worstLimit: number = 20): DataQualityReport {
+    return buildDataQualityReport(this.companies, worstLimit);
+  }
+  
+  /**
+   * Geocode the map viewport first. Queued companies are ordered by how close their
+   * approximate (postcode district, else state) location is to the given centre.
+   */
+  prioritizeGeocoding(center: { latitude: number; longitude: number }): void {
+    this.geocodePriorityCenter = { latitude: center.latitude, longitude: center.longitude };
+    this.geocodeQueueNeedsSort = true;
+  }
+  
+  /**
+   * Subscribe to background geocoding progress. Returns an unsubscribe function.
+   * Batches are reported at most every GEOCODE_PROGRESS_INTERVAL_MS, and when the queue empties.
+   */
+  onGeocodeProgress(listener: GeocodeProgressListener): () => void {
+    this.geocodeListeners.add(listener);
+    return () => {
+      this.geocodeListeners.delete(listener);
+    };
+  }
+  
+  getGeocodeProgress(): GeocodeProgress {
+    const pending = this.geocodeQueue.length + this.geocodeInFlight;
+    return {
+      located: this.companies.length - pending,
+      pending,
+      total: this.companies.length,
+    };
+  }
+  
+  private startBackgroundGeocoding(pending: Company[]): void {
+    const generation = ++this.geocodeGeneration;
+    this.geocodeQueue = pending;
+    this.geocodeQueueNeedsSort = true;
+    
+    if (pending.length === 0) return;
+    
+    console.log(`Geocoding ${pending.length} companies in the background...`);
+    this.runGeocodeQueue(generation).catch(error => {
+      console.error('Background geocoding failed:', error);
+    });
+  }
+  
+  private async runGeocodeQueue(generation: number): Promise<void> {
+    while (this.geocodeQueue.length > 0 && generation === this.geocodeGeneration) {
+      if (this.geocodeQueueNeedsSort) {
+        this.sortGeocodeQueue();
+      }
+      
+      const batch = this.geocodeQueue.splice(0, GEOCODE_BATCH_SIZE);
+      this.geocodeInFlight = batch.length;
+      const coordinates = await geocodeCacheService.batchGeocodeWithCache(batch.map(getGeocodeAddress));
+      
+      // Data was reloaded while this batch ran
+      if (generation !== this.geocodeGeneration) return;
+      
+      batch.forEach((company, index) => {
+        company.latitude = coordinates[index].latitude;
+        company.longitude = coordinates[index].longitude;
+        company.geocodePrecision = coordinates[index].precision;
+      });
+      this.geocodeInFlight = 0;
+      
+      // Always report the last batch so screens end up with every location
+      if (this.geocodeQueue.length === 0 || Date.now() - this.lastGeocodeNotifyAt >= GEOCODE_PROGRESS_INTERVAL_MS) {
+        this.notifyGeocodeProgress();
+      }
+    }
+    
+    if (generation === this.geocodeGeneration) {
+      console.log('Background geocoding complete');
+      this.saveSnapshot();
+    }
+  }
+  
+  private sortGeocodeQueue(): void {
+    this.geocodeQueueNeedsSort = false;
+    const center = this.geocodePriorityCenter;
+    if (!center) return;
+    
+    this.geocodeQueue = sortByApproximateDistance(this.geocodeQueue, center);
+  }
+  
+  /**
+   * Persist the processed companies, their current geocodes and the search index
+   */
+  private saveSnapshot(): void {
+    if (!this.snapshotKey) return;
+    datasetSnapshotService.save(this.snapshotKey, this.companies, this.searchIndex.serialize());
+  }
+  
+  private notifyGeocodeProgress(): void {
+    this.lastGeocodeNotifyAt = Date.now();
+    const progress = this.getGeocodeProgress();
+    this.geocodeListeners.forEach(listener => listener(progress));
+  }
+  
   async forceRefreshGeocoding(): Promise<void> {
     if (!this.isLoaded) {
       console.log('Data not loaded, cannot refresh geocoding');
@@ -904,31 +1503,23 @@ class ICNDataService {
     
     console.log('Force refreshing all geocoded coordinates...');
     
-    const addresses = this.companies.map(company => ({
-      orgId: company.id,
-      street: company.billingAddress?.street || '',
-      city: company.billingAddress?.city || '',
-      state: company.billingAddress?.state || 'NSW',
-      postcode: company.billingAddress?.postcode || ''
-    }));
+    // Stop background batches; everything is refreshed below
+    this.geocodeGeneration++;
+    this.geocodeQueue = [];
+    this.geocodeInFlight = 0;
     
     const coordinates = await geocodeCacheService.batchGeocodeWithCache(
-      addresses.map(a => ({
-        street: a.street,
-        city: a.city,
-        state: a.state,
-        postcode: a.postcode
-      })),
+      this.companies.map(getGeocodeAddress),
       true
     );
     
-    addresses.forEach((address, index) => {
-      const company = this.companies.find(c => c.id === address.orgId);
-      if (company) {
-        company.latitude = coordinates[index].latitude;
-        company.longitude = coordinates[index].longitude;
-      }
+    this.companies.forEach((company, index) => {
+      company.latitude = coordinates[index].latitude;
+      company.longitude = coordinates[index].longitude;
+      company.geocodePrecision = coordinates[index].precision;
     });
+    this.notifyGeocodeProgress();
+    this.saveSnapshot();
     
     console.log('Geocoding refresh complete');
   }
@@ -939,6 +1530,7 @@ class ICNDataService {
   
   async clearGeocodeCache(): Promise<void> {
     await geocodeCacheService.clearCache();
+    await datasetSnapshotService.clear(); // It holds geocodes too
     console.log('Geocode cache cleared');
   }
   
@@ -981,6 +1573,7 @@ class ICNDataService {
     console.log('Australian States:', territoryStats.australian);
     console.log('New Zealand Territories:', territoryStats.newZealand);
     console.log('Territory Distribution:', territoryStats.byTerritory);
+    console.log(`${UNKNOWN_REGION}:`, territoryStats.unknown);
     console.log('Top Cities:', stats.topCities.slice(0, 5));
     console.log('Sectors:', Object.keys(stats.bySector).length, 'unique sectors');
     console.log('Data Quality:', stats.dataQuality);
@@ -990,6 +1583,13 @@ class ICNDataService {
   clearCache() {
     this.companies = [];
     this.icnItems = [];
+    this.sourceItems = [];
+    this.searchIndex.clear();
+    this.datasetInfo = null;
+    this.snapshotKey = null;
+    this.geocodeGeneration++;
+    this.geocodeQueue = [];
+    this.geocodeInFlight = 0;
     this.isLoaded = false;
     this.lastLoadTime = null;
   }
@@ -1011,14 +1611,21 @@ export {
   convertICNDataToCompanies, 
   convertICNDateToISO,
   normalizeStateTerritory,
+  resolveStateTerritory,
+  inferStateFromPostcode,
+  getCompanyRegion,
+  matchesRegion,
   isInvalidValue,
   autoCorrectData,
   findClosestState,
   levenshteinDistance,
   stratifiedSampleCompanies,
+  sortByApproximateDistance,
+  buildDataQualityReport,
   STANDARD_STATES_TERRITORIES,
   AUSTRALIAN_STATES,
   NEW_ZEALAND_TERRITORIES,
+  UNKNOWN_REGION,
   DATA_CORRECTIONS,
   TYPO_CORRECTIONS,
   CAPABILITY_TYPES,
@@ -0,0 +1,219 @@
+// services/icnDatasetValidator.ts - Runtime schema check of ICN datasets before they reach the converter
+import { ICNItem, ICNCompanyData } from '../types';
+import { hashString } from '../utils/seededRandom';
+
+// Dataset layouts convertICNDataToCompanies understands. A bare array is schema 1;
+// newer datasets are wrapped as { schemaVersion, version, items }.
+export const SUPPORTED_SCHEMA_VERSIONS = [1];
+const BARE_ARRAY_SCHEMA_VERSION = 1;
+
+// Past this share of malformed items the layout has most likely changed, not just a few rows
+const MAX_INVALID_ITEM_RATIO = 0.5;
+const MAX_REPORTED_ISSUES = 50;
+
+type JsonType = 'string' | 'number' | 'object' | 'array';
+
+interface FieldSpec {
+  key: string;
+  types: JsonType[];
+  required?: boolean; // Optional fields may be missing or null
+}
+
+const ITEM_FIELDS: FieldSpec[] = [
+  { key: 'Item ID', types: ['string'], required: true },
+  { key: 'Organizations', types: ['array'], required: true },
+  { key: 'Item Name', types: ['string'] },
+  { key: 'Detailed Item Name', types: ['string'] },
+  { key: 'Detailed Item ID', types: ['string'] },
+  { key: 'Sector Name', types: ['string'] },
+  { key: 'Sector Mapping ID', types: ['string'] },
+  { key: 'Subtotal', types: ['number', 'string'] },
+  { key: '_id', types: ['object'] },
+];
+
+const ORGANISATION_FIELDS: FieldSpec[] = [
+  { key: 'Organisation: Organisation ID', types: ['string'], required: true },
+  { key: 'Organisation Capability', types: ['string'] },
+  { key: 'Organisation: Organisation Name', types: ['string'] },
+  { key: 'Capability Type', types: ['string'] },
+  { key: 'Validation Date', types: ['string'] },
+  { key: 'Organisation: Billing Street', types: ['string'] },
+  { key: 'Organisation: Billing City', types: ['string'] },
+  { key: 'Organisation: Billing State/Province', types: ['string'] },
+  { key: 'Organisation: Billing Zip/Postal Code', types: ['string'] },
+];
+
+export interface DatasetIssue {
+  path: string; // JSON path of the offending value, e.g. $[12].Organizations[3]["Capability Type"]
+  message: string;
+}
+
+export interface DatasetInfo {
+  schemaVersion: number;
+  version: string | null; // Publisher's version label; bare-array datasets have none
+  hash: string; // FNV-1a of the raw JSON, identifies the exact content
+  itemCount: number; // Items kept after validation
+  organisationCount: number; // Organisation records kept after validation
+  rejectedItems: number;
+  rejectedOrganisations: number;
+  issueCount: number;
+  issues: DatasetIssue[]; // The first MAX_REPORTED_ISSUES issues
+}
+
+export interface DatasetValidationResult {
+  items: ICNItem[];
+  info: DatasetInfo;
+}
+
+export class UnsupportedDatasetError extends Error {
+  constructor(message: string, public issues: DatasetIssue[] = [], public info?: DatasetInfo) {
+    super(message);
+    this.name = 'UnsupportedDatasetError';
+  }
+}
+
+const jsonType = (value: unknown): JsonType | 'null' | 'boolean' | 'undefined' => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value as JsonType | 'boolean' | 'undefined';
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => jsonType(value) === 'object';
+
+/**
+ * Append a key to a JSON path, bracket-quoting keys that are not plain identifiers
+ */
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Check a record against its field specs. Unknown extra fields are ignored.
+ */
+function checkFields(record: Record<string, unknown>, fields: FieldSpec[], path: string): DatasetIssue[] {
+  const issues: DatasetIssue[] = [];
+  fields.forEach(field => {
+    const value = record[field.key];
+    const type = jsonType(value);
+    if (type === 'undefined' || type === 'null') {
+      if (field.required) {
+        issues.push({ path: childPath(path, field.key), message: 'Required field is missing' });
+      }
+    } else if (!field.types.includes(type as JsonType)) {
+      issues.push({
+        path: childPath(path, field.key),
+        message: `Expected ${field.types.join(' or ')}, found ${type}`,
+      });
+    }
+  });
+  return issues;
+}
+
+/**
+ * Split a parsed dataset into its schema version, version label and item list
+ */
+function unwrapDataset(data: unknown): { schemaVersion: number; version: string | null; items: unknown[] } {
+  if (Array.isArray(data)) {
+    return { schemaVersion: BARE_ARRAY_SCHEMA_VERSION, version: null, items: data };
+  }
+  if (isRecord(data) && Array.isArray(data.items)) {
+    const schemaVersion = typeof data.schemaVersion === 'number' ? data.schemaVersion : NaN;
+    const version = typeof data.version === 'string' ? data.version : null;
+    return { schemaVersion, version, items: data.items };
+  }
+  throw new UnsupportedDatasetError(
+    'The ICN dataset is not in a recognised format: expected a list of items.',
+    [{ path: '$', message: `Expected array or { schemaVersion, items }, found ${jsonType(data)}` }]
+  );
+}
+
+/**
+ * Content hash of a parsed dataset (FNV-1a of its JSON, as 8 hex digits)
+ */
+export function hashDataset(data: unknown): string {
+  return hashString(JSON.stringify(data)).toString(16).padStart(8, '0');
+}
+
+/**
+ * Validate a parsed ICN dataset. Malformed organisation records are dropped from their
+ * item and malformed items are dropped altogether, each reported with its JSON path.
+ * Throws UnsupportedDatasetError when the dataset as a whole cannot be converted: an
+ * unknown layout or schema version, or mostly malformed items.
+ */
+export function validateICNDataset(data: unknown): DatasetValidationResult {
+  const { schemaVersion, version, items: rawItems } = unwrapDataset(data);
+  const itemsPath = Array.isArray(data) ? '$' : '$.items';
+
+  if (!SUPPORTED_SCHEMA_VERSIONS.includes(schemaVersion)) {
+    throw new UnsupportedDatasetError(
+      `ICN dataset schema version ${Number.isNaN(schemaVersion) ? '(missing)' : schemaVersion} is not supported by this version of the app.`,
+      [{ path: '$.schemaVersion', message: `Supported versions: ${SUPPORTED_SCHEMA_VERSIONS.join(', ')}` }]
+    );
+  }
+
+  const issues: DatasetIssue[] = [];
+  const items: ICNItem[] = [];
+  let organisationCount = 0;
+  let rejectedItems = 0;
+  let rejectedOrganisations = 0;
+
+  rawItems.forEach((rawItem, index) => {
+    const itemPath = childPath(itemsPath, index);
+    if (!isRecord(rawItem)) {
+      issues.push({ path: itemPath, message: `Expected object, found ${jsonType(rawItem)}` });
+      rejectedItems++;
+      return;
+    }
+
+    const itemIssues = checkFields(rawItem, ITEM_FIELDS, itemPath);
+    if (itemIssues.length > 0) {
+      issues.push(...itemIssues);
+      rejectedItems++;
+      return;
+    }
+
+    const organisationsPath = childPath(itemPath, 'Organizations');
+    const organisations = (rawItem.Organizations as unknown[]).filter((org, orgIndex) => {
+      const orgPath = childPath(organisationsPath, orgIndex);
+      const orgIssues = isRecord(org)
+        ? checkFields(org, ORGANISATION_FIELDS, orgPath)
+        : [{ path: orgPath, message: `Expected object, found ${jsonType(org)}` }];
+      issues.push(...orgIssues);
+      return orgIssues.length === 0;
+    }) as ICNCompanyData[];
+
+    rejectedOrganisations += (rawItem.Organizations as unknown[]).length - organisations.length;
+    organisationCount += organisations.length;
+    items.push(
+      organisations.length === (rawItem.Organizations as unknown[]).length
+        ? (rawItem as unknown as ICNItem)
+        : ({ ...rawItem, Organizations: organisations } as unknown as ICNItem)
+    );
+  });
+
+  const info: DatasetInfo = {
+    schemaVersion,
+    version,
+    hash: hashDataset(data),
+    itemCount: items.length,
+    organisationCount,
+    rejectedItems,
+    rejectedOrganisations,
+    issueCount: issues.length,
+    issues: issues.slice(0, MAX_REPORTED_ISSUES),
+  };
+
+  if (rawItems.length === 0) {
+    throw new UnsupportedDatasetError('The ICN dataset contains no items.', [], info);
+  }
+  if (items.length === 0 || rejectedItems > rawItems.length * MAX_INVALID_ITEM_RATIO) {
+    throw new UnsupportedDatasetError(
+      `${rejectedItems} of ${rawItems.length} ICN items do not match the expected layout.`,
+      info.issues,
+      info
+    );
+  }
+
+  return { items, info };
+}
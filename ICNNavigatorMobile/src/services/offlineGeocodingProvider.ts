@@ -0,0 +1,99 @@
+// services/offlineGeocodingProvider.ts - Resolves suburbs and postcodes to bundled centroids, no network needed
+import { AddressQuery, GeocodingProvider, GeocodingResult } from './geocodingService';
+import {
+  AU_POSTCODE_DISTRICTS,
+  NZ_POSTCODE_DISTRICTS,
+  LOCALITY_CENTROIDS,
+  LocalityCentroid,
+  PostcodeDistrict,
+} from '../data/postcodeCentroids';
+
+const NZ_REGIONS = ['NI', 'SI'];
+
+function normalizeLocality(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+class OfflineGeocodingProvider implements GeocodingProvider {
+  readonly name = 'offline';
+
+  // locality name -> centroids with that name (the same name can exist in several states)
+  private localities = new Map<string, LocalityCentroid[]>();
+
+  constructor() {
+    LOCALITY_CENTROIDS.forEach(locality => {
+      const key = normalizeLocality(locality.name);
+      this.localities.set(key, [...(this.localities.get(key) || []), locality]);
+    });
+  }
+
+  async geocode(query: AddressQuery): Promise<GeocodingResult | null> {
+    const state = query.state?.toUpperCase();
+
+    const locality = query.city ? this.findLocality(query.city, state) : null;
+    if (locality) {
+      return {
+        latitude: locality.latitude,
+        longitude: locality.longitude,
+        formattedAddress: `${locality.name}, ${locality.state}`,
+        precision: 'suburb',
+        source: this.name,
+      };
+    }
+
+    const district = query.postcode ? this.findPostcodeDistrict(query.postcode, state) : null;
+    if (district) {
+      return {
+        latitude: district.latitude,
+        longitude: district.longitude,
+        formattedAddress: `${district.name}, ${district.state} ${query.postcode!.trim()}`,
+        precision: 'postcode',
+        source: this.name,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Exact locality match. Without a state the name must be unambiguous.
+   */
+  private findLocality(city: string, state?: string): LocalityCentroid | null {
+    const candidates = this.localities.get(normalizeLocality(city));
+    if (!candidates) return null;
+    if (state) {
+      return candidates.find(candidate => candidate.state === state) || null;
+    }
+    return candidates.length === 1 ? candidates[0] : null;
+  }
+
+  /**
+   * Postal district containing the postcode. AU and NZ postcodes overlap,
+   * so NZ districts are only used for NI/SI addresses. Spreadsheet exports drop
+   * leading zeros, so 3-digit postcodes (e.g. 800 for 0800) are accepted.
+   */
+  findPostcodeDistrict(postcode: string, state?: string): PostcodeDistrict | null {
+    const trimmed = postcode.trim();
+    if (!/^\d{3,4}$/.test(trimmed)) return null;
+    const value = parseInt(trimmed, 10);
+
+    const districts = state && NZ_REGIONS.includes(state) ? NZ_POSTCODE_DISTRICTS : AU_POSTCODE_DISTRICTS;
+    const matches = districts.filter(district => value >= district.from && value <= district.to);
+    if (matches.length === 0) return null;
+
+    // Prefer districts in the given state; otherwise trust the postcode over the state,
+    // which is often guessed for incomplete addresses
+    const sameState = matches.filter(district => district.state === state);
+    const candidates = sameState.length > 0 ? sameState : matches;
+
+    // Narrowest range is the most specific
+    return candidates.reduce((best, district) =>
+      district.to - district.from < best.to - best.from ? district : best
+    );
+  }
+}
+
+const offlineGeocodingProvider = new OfflineGeocodingProvider();
+export default offlineGeocodingProvider;
+
+export { OfflineGeocodingProvider };
@@ -0,0 +1,339 @@
+// services/offlineTileService.ts - Downloads map tiles for chosen regions so the map works without signal
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import { MAP_TILE_URL_TEMPLATE } from '../constants';
+import { RegionBounds } from '../data/regionBounds';
+import connectivityService from './connectivityService';
+
+export type OfflineRegionStatus = 'downloading' | 'complete' | 'incomplete';
+
+export interface OfflineRegion {
+  id: string;
+  name: string;
+  bounds: RegionBounds;
+  minZoom: number;
+  maxZoom: number;
+  tileCount: number;
+  downloadedTiles: number;
+  failedTiles: number;
+  sizeBytes: number; // Bytes of the tiles this region fetched; tiles another region already had count towards that one
+  status: OfflineRegionStatus;
+  createdDate: string;
+}
+
+export interface OfflineRegionRequest {
+  name: string;
+  bounds: RegionBounds;
+  minZoom: number;
+  maxZoom: number;
+}
+
+export interface TileEstimate {
+  tileCount: number;
+  estimatedBytes: number;
+  withinLimit: boolean;
+}
+
+const REGIONS_KEY = '@offline_map_regions';
+const TILE_DIRECTORY = `${FileSystem.documentDirectory}map-tiles/`;
+const AVERAGE_TILE_BYTES = 18 * 1024; // Typical raster street tile
+const MAX_TILES_PER_REGION = 30000;
+const TILE_DOWNLOAD_CONCURRENCY = 4;
+const PROGRESS_SAVE_INTERVAL = 200; // tiles
+
+// A tile on disk after a download attempt, and whether this attempt fetched it
+interface TileResult {
+  bytes: number;
+  fetched: boolean;
+}
+
+interface TileRange {
+  z: number;
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+const clampLatitude = (lat: number) => Math.max(-85.0511, Math.min(85.0511, lat));
+
+function longitudeToTileX(lon: number, zoom: number): number {
+  return Math.floor(((lon + 180) / 360) * Math.pow(2, zoom));
+}
+
+function latitudeToTileY(lat: number, zoom: number): number {
+  const rad = (clampLatitude(lat) * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * Math.pow(2, zoom));
+}
+
+/**
+ * Tile index ranges covering the bounds at each zoom level
+ */
+function getTileRanges(bounds: RegionBounds, minZoom: number, maxZoom: number): TileRange[] {
+  const ranges: TileRange[] = [];
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const last = Math.pow(2, z) - 1;
+    ranges.push({
+      z,
+      minX: Math.max(0, longitudeToTileX(bounds.west, z)),
+      maxX: Math.min(last, longitudeToTileX(bounds.east, z)),
+      minY: Math.max(0, latitudeToTileY(bounds.north, z)), // tile y grows southwards
+      maxY: Math.min(last, latitudeToTileY(bounds.south, z)),
+    });
+  }
+  return ranges;
+}
+
+function countTiles(ranges: TileRange[]): number {
+  return ranges.reduce((sum, r) => sum + (r.maxX - r.minX + 1) * (r.maxY - r.minY + 1), 0);
+}
+
+function* iterateTiles(ranges: TileRange[]): Generator<{ z: number; x: number; y: number }> {
+  for (const range of ranges) {
+    for (let x = range.minX; x <= range.maxX; x++) {
+      for (let y = range.minY; y <= range.maxY; y++) {
+        yield { z: range.z, x, y };
+      }
+    }
+  }
+}
+
+function tileInRanges(tile: { z: number; x: number; y: number }, ranges: TileRange[]): boolean {
+  return ranges.some(r => r.z === tile.z && tile.x >= r.minX && tile.x <= r.maxX && tile.y >= r.minY && tile.y <= r.maxY);
+}
+
+const tileFile = (z: number, x: number, y: number) => `${TILE_DIRECTORY}${z}/${x}/${y}.png`;
+
+class OfflineTileService {
+  private static instance: OfflineTileService;
+  private regions: OfflineRegion[] | null = null;
+  private cancelled = new Set<string>();
+
+  private constructor() {}
+
+  static getInstance(): OfflineTileService {
+    if (!OfflineTileService.instance) {
+      OfflineTileService.instance = new OfflineTileService();
+    }
+    return OfflineTileService.instance;
+  }
+
+  /**
+   * Whether a tile server is configured (EXPO_PUBLIC_MAP_TILE_URL)
+   */
+  isConfigured(): boolean {
+    return !!MAP_TILE_URL_TEMPLATE;
+  }
+
+  /**
+   * file:// URL template of the downloaded tiles, for a UrlTile overlay
+   */
+  getTileUrlTemplate(): string {
+    return `${TILE_DIRECTORY}{z}/{x}/{y}.png`;
+  }
+
+  /**
+   * Tile count and approximate storage for a region before downloading it
+   */
+  estimate(bounds: RegionBounds, minZoom: number, maxZoom: number): TileEstimate {
+    const tileCount = countTiles(getTileRanges(bounds, minZoom, maxZoom));
+    return {
+      tileCount,
+      estimatedBytes: tileCount * AVERAGE_TILE_BYTES,
+      withinLimit: tileCount <= MAX_TILES_PER_REGION,
+    };
+  }
+
+  async getRegions(): Promise<OfflineRegion[]> {
+    if (!this.regions) {
+      try {
+        const stored = await AsyncStorage.getItem(REGIONS_KEY);
+        this.regions = stored ? JSON.parse(stored) : [];
+        // A download interrupted by the app closing can be resumed later
+        this.regions!.forEach(region => {
+          if (region.status === 'downloading') region.status = 'incomplete';
+        });
+      } catch (error) {
+        console.error('Error loading offline regions:', error);
+        this.regions = [];
+      }
+    }
+    return this.regions!;
+  }
+
+  /**
+   * Whether any tiles have been downloaded
+   */
+  async hasOfflineTiles(): Promise<boolean> {
+    const regions = await this.getRegions();
+    return regions.some(region => region.downloadedTiles > 0);
+  }
+
+  /**
+   * Storage used by downloaded regions in bytes. Each tile counts once, however many regions share it.
+   */
+  async getStorageUsed(): Promise<number> {
+    const regions = await this.getRegions();
+    return regions.reduce((sum, region) => sum + region.sizeBytes, 0);
+  }
+
+  /**
+   * Download (or resume) a region. Tiles already on disk are skipped, so regions that
+   * overlap share storage, and only the bytes fetched now are added to the region's size.
+   * Progress is reported after every batch.
+   */
+  async downloadRegion(
+    request: OfflineRegionRequest,
+    onProgress?: (region: OfflineRegion) => void,
+    existingId?: string
+  ): Promise<OfflineRegion> {
+    if (!this.isConfigured()) {
+      throw new Error('Offline maps are not configured');
+    }
+    if (!connectivityService.isOnline()) {
+      throw new Error('Connect to the internet to download maps');
+    }
+
+    const ranges = getTileRanges(request.bounds, request.minZoom, request.maxZoom);
+    const tileCount = countTiles(ranges);
+    if (tileCount > MAX_TILES_PER_REGION) {
+      throw new Error(`Region is too large (${tileCount} tiles). Choose a smaller area or less detail.`);
+    }
+
+    const regions = await this.getRegions();
+    let region = existingId ? regions.find(r => r.id === existingId) : undefined;
+    if (!region) {
+      region = {
+        id: `region_${Date.now()}`,
+        ...request,
+        tileCount,
+        downloadedTiles: 0,
+        failedTiles: 0,
+        sizeBytes: 0,
+        status: 'downloading',
+        createdDate: new Date().toISOString(),
+      };
+      regions.push(region);
+    }
+    region.status = 'downloading';
+    region.downloadedTiles = 0;
+    region.failedTiles = 0;
+    this.cancelled.delete(region.id);
+    await this.saveRegions();
+
+    console.log(`Downloading offline region "${region.name}": ${tileCount} tiles`);
+    const tiles = iterateTiles(ranges);
+    const current = region;
+
+    const worker = async () => {
+      for (let next = tiles.next(); !next.done; next = tiles.next()) {
+        if (this.cancelled.has(current.id)) return;
+        const { z, x, y } = next.value;
+        const tile = await this.downloadTile(z, x, y);
+        if (tile === null) {
+          current.failedTiles++;
+        } else {
+          current.downloadedTiles++;
+          if (tile.fetched) current.sizeBytes += tile.bytes;
+        }
+
+        const processed = current.downloadedTiles + current.failedTiles;
+        if (processed % TILE_DOWNLOAD_CONCURRENCY === 0 || processed === tileCount) {
+          onProgress?.({ ...current });
+        }
+        if (processed % PROGRESS_SAVE_INTERVAL === 0) {
+          await this.saveRegions();
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: TILE_DOWNLOAD_CONCURRENCY }, worker));
+
+    current.status = current.downloadedTiles === tileCount ? 'complete' : 'incomplete';
+    this.cancelled.delete(current.id);
+    await this.saveRegions();
+    onProgress?.({ ...current });
+    console.log(`Offline region "${current.name}" ${current.status}: ${current.downloadedTiles}/${tileCount} tiles`);
+    return { ...current };
+  }
+
+  /**
+   * Stop an in-progress download; the region is kept as incomplete
+   */
+  cancelDownload(regionId: string): void {
+    this.cancelled.add(regionId);
+  }
+
+  /**
+   * Remove a region and the tiles no other region uses. Tiles it shares are kept and
+   * their size moves to the first region that still uses them.
+   */
+  async deleteRegion(regionId: string): Promise<void> {
+    const regions = await this.getRegions();
+    const region = regions.find(r => r.id === regionId);
+    if (!region) return;
+
+    this.cancelled.add(regionId);
+    const others = regions
+      .filter(r => r.id !== regionId)
+      .map(r => ({ region: r, ranges: getTileRanges(r.bounds, r.minZoom, r.maxZoom) }));
+
+    for (const tile of iterateTiles(getTileRanges(region.bounds, region.minZoom, region.maxZoom))) {
+      const path = tileFile(tile.z, tile.x, tile.y);
+      const owner = others.find(other => tileInRanges(tile, other.ranges));
+      if (owner) {
+        const info = await FileSystem.getInfoAsync(path);
+        if (info.exists) owner.region.sizeBytes += info.size;
+        continue;
+      }
+      await FileSystem.deleteAsync(path, { idempotent: true });
+    }
+
+    this.regions = regions.filter(r => r.id !== regionId);
+    await this.saveRegions();
+    console.log(`Deleted offline region "${region.name}"`);
+  }
+
+  /**
+   * Download one tile unless it is already on disk. Returns its size in bytes, or null if
+   * it could not be fetched.
+   */
+  private async downloadTile(z: number, x: number, y: number): Promise<TileResult | null> {
+    const path = tileFile(z, x, y);
+    try {
+      const existing = await FileSystem.getInfoAsync(path);
+      if (existing.exists) return { bytes: existing.size, fetched: false };
+
+      await FileSystem.makeDirectoryAsync(`${TILE_DIRECTORY}${z}/${x}`, { intermediates: true });
+      const url = MAP_TILE_URL_TEMPLATE
+        .replace('{z}', String(z))
+        .replace('{x}', String(x))
+        .replace('{y}', String(y));
+      const result = await FileSystem.downloadAsync(url, path);
+      if (result.status !== 200) {
+        await FileSystem.deleteAsync(path, { idempotent: true });
+        return null;
+      }
+
+      const info = await FileSystem.getInfoAsync(path);
+      return { bytes: info.exists ? info.size : 0, fetched: true };
+    } catch (error) {
+      connectivityService.reportNetworkFailure();
+      return null;
+    }
+  }
+
+  private async saveRegions(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(REGIONS_KEY, JSON.stringify(this.regions || []));
+    } catch (error) {
+      console.error('Error saving offline regions:', error);
+    }
+  }
+}
+
+// Export singleton instance
+const offlineTileService = OfflineTileService.getInstance();
+export default offlineTileService;
+
+export { OfflineTileService };
@@ -0,0 +1,88 @@
+// services/savedSearchService.ts - Persists saved searches (including drawn map areas) per user
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SavedSearch, SearchFilters } from '../types';
+
+// Same key the portfolio slice loads saved searches from
+const storageKey = (userId: string) => `@saved_searches_${userId}`;
+
+export class SavedSearchLimitError extends Error {
+  constructor(public limit: number) {
+    super(`Your plan can save up to ${limit} searches.`);
+    this.name = 'SavedSearchLimitError';
+  }
+}
+
+class SavedSearchService {
+  private static instance: SavedSearchService;
+
+  private constructor() {}
+
+  static getInstance(): SavedSearchService {
+    if (!SavedSearchService.instance) {
+      SavedSearchService.instance = new SavedSearchService();
+    }
+    return SavedSearchService.instance;
+  }
+
+  /**
+   * All saved searches for a user, newest first
+   */
+  async getSavedSearches(userId: string): Promise<SavedSearch[]> {
+    try {
+      const stored = await AsyncStorage.getItem(storageKey(userId));
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error loading saved searches:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save the given filters under a name. The drawn map area, if any, travels in filters.area.
+   * Throws SavedSearchLimitError once the user has `limit` saved searches (-1 for unlimited).
+   */
+  async saveSearch(
+    userId: string,
+    name: string,
+    filters: SearchFilters,
+    resultCount?: number,
+    limit: number = -1
+  ): Promise<SavedSearch> {
+    const searches = await this.getSavedSearches(userId);
+    if (limit >= 0 && searches.length >= limit) {
+      throw new SavedSearchLimitError(limit);
+    }
+
+    const now = new Date().toISOString();
+    const search: SavedSearch = {
+      id: `search_${Date.now()}`,
+      userId,
+      name,
+      filters,
+      resultCount,
+      lastRun: now,
+      createdDate: now,
+    };
+
+    await AsyncStorage.setItem(storageKey(userId), JSON.stringify([search, ...searches]));
+    console.log(`Saved search "${name}"${filters.area ? ` with ${filters.area.type} area` : ''}`);
+    return search;
+  }
+
+  /**
+   * Remove a saved search
+   */
+  async deleteSearch(userId: string, searchId: string): Promise<void> {
+    const searches = await this.getSavedSearches(userId);
+    await AsyncStorage.setItem(
+      storageKey(userId),
+      JSON.stringify(searches.filter(search => search.id !== searchId))
+    );
+  }
+}
+
+// Export singleton instance
+const savedSearchService = SavedSearchService.getInstance();
+export default savedSearchService;
+
+export { SavedSearchService };
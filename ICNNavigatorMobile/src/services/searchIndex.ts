@@ -0,0 +1,381 @@
+// services/searchIndex.ts - Tokenised inverted index with BM25F-style relevance scoring
+import { Company } from '../types';
+import { levenshteinDistance } from '../utils/levenshtein';
+
+// Indexed fields, in weight order (name > item > sector > address)
+export type IndexedField = 'name' | 'item' | 'sector' | 'address';
+
+export const FIELD_WEIGHTS: Record<IndexedField, number> = {
+  name: 4,
+  item: 3,
+  sector: 2,
+  address: 1,
+};
+
+const FIELDS: IndexedField[] = ['name', 'item', 'sector', 'address'];
+
+// BM25 tuning parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Expanded terms score below an exact match
+const PREFIX_MATCH_WEIGHT = 0.8;
+const FUZZY_MATCH_WEIGHT = 0.6;
+const MAX_PREFIX_EXPANSIONS = 50;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'into',
+  'is', 'it', 'of', 'on', 'or', 'the', 'to', 'with', 'pty', 'ltd', 'co',
+]);
+
+export interface SearchHit {
+  company: Company;
+  score: number;
+}
+
+// Index contents in a JSON-friendly form. Each term's postings are flattened to
+// [docIndex, tf per field..., docIndex, tf per field..., ...].
+export interface SerializedSearchIndex {
+  terms: string[];
+  postings: number[][];
+  fieldLengths: number[][];
+  avgFieldLengths: number[];
+}
+
+export interface SearchOptions {
+  prefix?: boolean; // Treat the last query term as a prefix (search-as-you-type)
+  fuzzy?: boolean; // Tolerate misspellings for terms with no exact or prefix match
+}
+
+/**
+ * Edit distance tolerated for a term of the given length
+ */
+export function maxEditsFor(term: string): number {
+  if (term.length < 4) return 0;
+  if (term.length < 8) return 1;
+  return 2;
+}
+
+/**
+ * Split text into lowercase index terms, dropping punctuation and stop words
+ */
+export function tokenize(text: string | undefined | null): string[] {
+  if (!text) return [];
+  return text
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+/**
+ * Collect the text of each indexed field for a company
+ */
+function getFieldText(company: Company): Record<IndexedField, string[]> {
+  return {
+    name: [company.name],
+    item: [
+      ...(company.icnCapabilities?.map(cap => cap.itemName) || []),
+      ...(company.icnCapabilities?.map(cap => cap.detailedItemName) || []),
+      ...(company.capabilities || []),
+    ],
+    sector: company.keySectors,
+    address: [
+      company.address,
+      company.billingAddress?.city || '',
+      company.billingAddress?.state || '',
+      company.billingAddress?.postcode || '',
+    ],
+  };
+}
+
+class CompanySearchIndex {
+  private documents: Company[] = [];
+  // term -> (document index -> term frequency per field, in FIELDS order)
+  private postings = new Map<string, Map<number, number[]>>();
+  private fieldLengths: number[][] = [];
+  private avgFieldLengths: number[] = FIELDS.map(() => 0);
+
+  /**
+   * Build the index from scratch for the given companies
+   */
+  build(companies: Company[]): void {
+    this.clear();
+    this.documents = companies;
+
+    const totals = FIELDS.map(() => 0);
+
+    companies.forEach((company, docIndex) => {
+      const fieldText = getFieldText(company);
+      const lengths = FIELDS.map(() => 0);
+
+      FIELDS.forEach((field, fieldIndex) => {
+        // Deduplicate repeated values (e.g. the same sector on many items) before counting
+        const tokens = Array.from(new Set(fieldText[field])).flatMap(tokenize);
+        lengths[fieldIndex] = tokens.length;
+        totals[fieldIndex] += tokens.length;
+
+        tokens.forEach(term => {
+          let termPostings = this.postings.get(term);
+          if (!termPostings) {
+            termPostings = new Map();
+            this.postings.set(term, termPostings);
+          }
+          let frequencies = termPostings.get(docIndex);
+          if (!frequencies) {
+            frequencies = FIELDS.map(() => 0);
+            termPostings.set(docIndex, frequencies);
+          }
+          frequencies[fieldIndex]++;
+        });
+      });
+
+      this.fieldLengths.push(lengths);
+    });
+
+    this.avgFieldLengths = totals.map(total =>
+      companies.length > 0 ? total / companies.length : 0
+    );
+
+    console.log(`Built search index: ${companies.length} companies, ${this.postings.size} terms`);
+  }
+
+  /**
+   * Export the built index so it can be restored without re-tokenising every company
+   */
+  serialize(): SerializedSearchIndex {
+    const terms: string[] = [];
+    const postings: number[][] = [];
+    this.postings.forEach((termPostings, term) => {
+      const flat: number[] = [];
+      termPostings.forEach((frequencies, docIndex) => flat.push(docIndex, ...frequencies));
+      terms.push(term);
+      postings.push(flat);
+    });
+    return {
+      terms,
+      postings,
+      fieldLengths: this.fieldLengths,
+      avgFieldLengths: this.avgFieldLengths,
+    };
+  }
+
+  /**
+   * Restore a serialized index. The companies must be the ones it was built from, in the same order.
+   */
+  restore(companies: Company[], data: SerializedSearchIndex): void {
+    this.clear();
+    this.documents = companies;
+    this.fieldLengths = data.fieldLengths;
+    this.avgFieldLengths = data.avgFieldLengths;
+
+    const stride = FIELDS.length + 1;
+    data.terms.forEach((term, termIndex) => {
+      const flat = data.postings[termIndex];
+      const termPostings = new Map<number, number[]>();
+      for (let i = 0; i < flat.length; i += stride) {
+        termPostings.set(flat[i], flat.slice(i + 1, i + stride));
+      }
+      this.postings.set(term, termPostings);
+    });
+
+    console.log(`Restored search index: ${companies.length} companies, ${this.postings.size} terms`);
+  }
+
+  /**
+   * Search the index. Every query term must match (exactly, by prefix or fuzzily);
+   * hits are ranked by score. Returns null when the query has no indexable terms.
+   */
+  search(query: string, options: SearchOptions = {}): SearchHit[] | null {
+    const { prefix = true, fuzzy = true } = options;
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) return null;
+
+    let scores: Map<number, number> | null = null;
+
+    for (let i = 0; i < terms.length; i++) {
+      const isLastTerm = i === terms.length - 1;
+      const termScores = this.scoreQueryTerm(terms[i], prefix && isLastTerm, fuzzy);
+      if (termScores.size === 0) return [];
+
+      if (!scores) {
+        scores = termScores;
+        continue;
+      }
+
+      const merged = new Map<number, number>();
+      scores.forEach((score, docIndex) => {
+        const termScore = termScores.get(docIndex);
+        if (termScore !== undefined) {
+          merged.set(docIndex, score + termScore);
+        }
+      });
+      scores = merged;
+      if (scores.size === 0) return [];
+    }
+
+    return Array.from(scores!.entries())
+      // Ties keep dataset order so results are stable between runs
+      .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+      .map(([docIndex, score]) => ({ company: this.documents[docIndex], score }));
+  }
+
+  /**
+   * Suggest a corrected query ("did you mean") by replacing unknown terms with the
+   * closest indexed term. Returns null when nothing changes or the correction finds nothing.
+   */
+  suggest(query: string): string | null {
+    let suggestion = query.toLowerCase().trim();
+    let changed = false;
+
+    tokenize(query).forEach(term => {
+      if (this.postings.has(term)) return;
+      // Allow one more edit than search does, so we can still suggest when fuzzy search fails
+      const closest = this.findClosestTerm(term, maxEditsFor(term) + 1);
+      if (closest) {
+        suggestion = suggestion.replace(new RegExp(`\\b${term}\\b`, 'g'), closest);
+        changed = true;
+      }
+    });
+
+    if (!changed) return null;
+    const hits = this.search(suggestion, { prefix: false, fuzzy: false });
+    return hits && hits.length > 0 ? suggestion : null;
+  }
+
+  /**
+   * Score one query term, expanding it to prefix and fuzzy matches where allowed.
+   * A document scores the best of its matching expansions.
+   */
+  private scoreQueryTerm(term: string, allowPrefix: boolean, allowFuzzy: boolean): Map<number, number> {
+    const expansions: Array<{ term: string; weight: number }> = [];
+
+    if (this.postings.has(term)) {
+      expansions.push({ term, weight: 1 });
+    }
+
+    if (allowPrefix) {
+      this.findPrefixTerms(term).forEach(expanded => {
+        expansions.push({ term: expanded, weight: PREFIX_MATCH_WEIGHT });
+      });
+    }
+
+    if (expansions.length === 0 && allowFuzzy) {
+      this.findFuzzyTerms(term, maxEditsFor(term)).forEach(expanded => {
+        expansions.push({ term: expanded, weight: FUZZY_MATCH_WEIGHT });
+      });
+    }
+
+    const best = new Map<number, number>();
+    expansions.forEach(({ term: expanded, weight }) => {
+      this.scoreTerm(expanded).forEach((score, docIndex) => {
+        const weighted = score * weight;
+        if (weighted > (best.get(docIndex) || 0)) {
+          best.set(docIndex, weighted);
+        }
+      });
+    });
+
+    return best;
+  }
+
+  /**
+   * Indexed terms that start with the given prefix, most common first
+   */
+  private findPrefixTerms(prefix: string): string[] {
+    const matches: string[] = [];
+    this.postings.forEach((_, term) => {
+      if (term.length > prefix.length && term.startsWith(prefix)) {
+        matches.push(term);
+      }
+    });
+    return matches
+      .sort((a, b) => this.postings.get(b)!.size - this.postings.get(a)!.size)
+      .slice(0, MAX_PREFIX_EXPANSIONS);
+  }
+
+  /**
+   * Indexed terms within maxEdits of the given term
+   */
+  private findFuzzyTerms(term: string, maxEdits: number): string[] {
+    if (maxEdits === 0) return [];
+    const matches: string[] = [];
+    this.postings.forEach((_, candidate) => {
+      if (Math.abs(candidate.length - term.length) > maxEdits) return;
+      if (levenshteinDistance(term, candidate) <= maxEdits) {
+        matches.push(candidate);
+      }
+    });
+    return matches;
+  }
+
+  /**
+   * Closest indexed term within maxEdits; ties go to the more common term
+   */
+  private findClosestTerm(term: string, maxEdits: number): string | null {
+    let closest: string | null = null;
+    let closestDistance = Infinity;
+    let closestFrequency = 0;
+
+    this.postings.forEach((termPostings, candidate) => {
+      if (Math.abs(candidate.length - term.length) > maxEdits) return;
+      const distance = levenshteinDistance(term, candidate);
+      if (distance > maxEdits) return;
+      if (distance < closestDistance ||
+          (distance === closestDistance && termPostings.size > closestFrequency)) {
+        closest = candidate;
+        closestDistance = distance;
+        closestFrequency = termPostings.size;
+      }
+    });
+
+    return closest;
+  }
+
+  /**
+   * BM25F score of a single term for every document that contains it
+   */
+  private scoreTerm(term: string): Map<number, number> {
+    const scores = new Map<number, number>();
+    const termPostings = this.postings.get(term);
+    if (!termPostings) return scores;
+
+    const docCount = this.documents.length;
+    const docFrequency = termPostings.size;
+    const idf = Math.log(1 + (docCount - docFrequency + 0.5) / (docFrequency + 0.5));
+
+    termPostings.forEach((frequencies, docIndex) => {
+      let weightedTf = 0;
+      FIELDS.forEach((field, fieldIndex) => {
+        const tf = frequencies[fieldIndex];
+        if (tf === 0) return;
+        const avgLength = this.avgFieldLengths[fieldIndex] || 1;
+        const norm = 1 - B + B * (this.fieldLengths[docIndex][fieldIndex] / avgLength);
+        weightedTf += FIELD_WEIGHTS[field] * tf / norm;
+      });
+      scores.set(docIndex, idf * (weightedTf / (K1 + weightedTf)));
+    });
+
+    return scores;
+  }
+
+  isBuilt(): boolean {
+    return this.documents.length > 0;
+  }
+
+  getStats(): { documents: number; terms: number } {
+    return {
+      documents: this.documents.length,
+      terms: this.postings.size,
+    };
+  }
+
+  clear(): void {
+    this.documents = [];
+    this.postings = new Map();
+    this.fieldLengths = [];
+    this.avgFieldLengths = FIELDS.map(() => 0);
+  }
+}
+
+export { CompanySearchIndex };
@@ -1,13 +1,16 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Company, ICNItem, SearchFilters, ApiResponse } from '../types';
 import ICNDataService from '../services/icnDataService';
+import { queryCompanies, fromSearchFilters, NO_TIER_FEATURES } from '../services/companyQueryEngine';
+
+// Companies shown per page of search results
+export const COMPANIES_PAGE_SIZE = 50;
 
 interface CompaniesState {
   // All companies data
   allCompanies: Company[];
   
-  // Search results
+  // Search results - searchResults holds every match, filteredCompanies the pages loaded so far
   searchResults: Company[];
   filteredCompanies: Company[];
   
@@ -23,6 +26,7 @@ interface CompaniesState {
   // Metadata
   totalCount: number;
   lastUpdated: string | null;
+  resultCount: number; // Matches being paged through
   currentPage: number;
   hasMore: boolean;
   
@@ -32,6 +36,15 @@ interface CompaniesState {
   availableCompanyTypes: string[];
 }
 
+/**
+ * Show the first `page` pages of the current search results
+ */
+function showPages(state: CompaniesState, page: number) {
+  state.currentPage = page;
+  state.filteredCompanies = state.searchResults.slice(0, page * COMPANIES_PAGE_SIZE);
+  state.hasMore = page * COMPANIES_PAGE_SIZE < state.resultCount;
+}
+
 const initialState: CompaniesState = {
   allCompanies: [],
   searchResults: [],
@@ -43,6 +56,7 @@ const initialState: CompaniesState = {
   error: null,
   totalCount: 0,
   lastUpdated: null,
+  resultCount: 0,
   currentPage: 1,
   hasMore: true,
   availableSectors: [],
@@ -55,15 +69,9 @@ export const loadICNData = createAsyncThunk(
   'companies/loadICNData',
   async () => {
     try {
-      // Load from ICN data service
-      const icnData = await ICNDataService.loadData();
-      const companies = ICNDataService.getCompanies();
-      
-      // Cache to AsyncStorage
-      await AsyncStorage.setItem('@icn_companies', JSON.stringify(companies));
-      await AsyncStorage.setItem('@icn_last_updated', new Date().toISOString());
-      
-      return companies;
+      // Load from ICN data service; it keeps its own processed-data snapshot, so nothing is cached here
+      await ICNDataService.loadData();
+      return ICNDataService.getCompanies();
     } catch (error) {
       throw error;
     }
@@ -86,22 +94,14 @@ export const searchCompanies = createAsyncThunk(
       const data: ApiResponse<Company[]> = await response.json();
       return data.data || [];
     } catch (error) {
-      // Fallback to local search
-      const cachedCompanies = await AsyncStorage.getItem('@icn_companies');
-      if (cachedCompanies) {
-        const companies: Company[] = JSON.parse(cachedCompanies);
-        // Apply local filtering
-        return companies.filter(company => {
-          if (filters.searchText && !company.name.toLowerCase().includes(filters.searchText.toLowerCase())) {
-            return false;
-          }
-          if (filters.sectors?.length && !filters.sectors.some(s => company.keySectors.includes(s))) {
-            return false;
-          }
-          return true;
-        });
+      // Fallback to local search with the same engine the screens use; loading is quick
+      // once the dataset snapshot exists
+      if (!ICNDataService.isDataLoaded()) {
+        await ICNDataService.loadData();
       }
-      throw error;
+      return queryCompanies(ICNDataService.getCompanies(), fromSearchFilters(filters), {
+        features: NO_TIER_FEATURES,
+      }).companies;
     }
   }
 );
@@ -168,10 +168,26 @@ const companiesSlice = createSlice({
     clearSearchResults: (state) => {
       state.searchResults = [];
       state.filteredCompanies = [];
+      state.resultCount = 0;
       state.currentPage = 1;
       state.hasMore = true;
     },
     
+    // Screens that run the query engine themselves keep the results and page through them
+    // here by count; the companies stay out of the store, where they would be frozen
+    // while background geocoding still updates them
+    setResultCount: (state, action: PayloadAction<number>) => {
+      state.searchResults = [];
+      state.resultCount = action.payload;
+      showPages(state, 1);
+    },
+    
+    loadNextPage: (state) => {
+      if (state.hasMore) {
+        showPages(state, state.currentPage + 1);
+      }
+    },
+    
     setError: (state, action: PayloadAction<string | null>) => {
       state.error = action.payload;
     },
@@ -189,6 +205,11 @@ const companiesSlice = createSlice({
         state.totalCount = action.payload.length;
         state.lastUpdated = new Date().toISOString();
         state.isLoading = false;
+        
+        // Until a search runs, page through the whole dataset
+        state.searchResults = action.payload;
+        state.resultCount = action.payload.length;
+        showPages(state, 1);
       })
       .addCase(loadICNData.rejected, (state, action) => {
         state.isLoading = false;
@@ -203,7 +224,8 @@ const companiesSlice = createSlice({
       })
       .addCase(searchCompanies.fulfilled, (state, action) => {
         state.searchResults = action.payload;
-        state.filteredCompanies = action.payload;
+        state.resultCount = action.payload.length;
+        showPages(state, 1);
         state.isSearching = false;
       })
       .addCase(searchCompanies.rejected, (state, action) => {
@@ -224,6 +246,8 @@ export const {
   setSelectedCompany,
   updateCompany,
   clearSearchResults,
+  setResultCount,
+  loadNextPage,
   setError,
 } = companiesSlice.actions;
 
@@ -1,6 +1,7 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { SavedCompany, SavedFolder, SavedSearch, Company } from '../types';
+import { SavedCompany, SavedFolder, SavedSearch, SearchFilters, Company } from '../types';
+import savedSearchService from '../services/savedSearchService';
 
 interface PortfolioState {
   savedCompanies: SavedCompany[];
@@ -91,6 +92,26 @@ export const saveCompany = createAsyncThunk(
   }
 );
 
+// Saved searches are persisted by savedSearchService under the key loadPortfolio reads
+export const saveSearch = createAsyncThunk(
+  'portfolio/saveSearch',
+  async ({ userId, name, filters, resultCount, limit }: {
+    userId: string;
+    name: string;
+    filters: SearchFilters;
+    resultCount?: number;
+    limit: number; // TierFeatures.maxSavedSearches
+  }) => savedSearchService.saveSearch(userId, name, filters, resultCount, limit)
+);
+
+export const deleteSearch = createAsyncThunk(
+  'portfolio/deleteSearch',
+  async ({ userId, searchId }: { userId: string; searchId: string }) => {
+    await savedSearchService.deleteSearch(userId, searchId);
+    return searchId;
+  }
+);
+
 const portfolioSlice = createSlice({
   name: 'portfolio',
   initialState,
@@ -170,6 +191,14 @@ const portfolioSlice = createSlice({
         state.totalSaved += 1;
         state.recentlySaved = [action.payload, ...state.recentlySaved].slice(0, 5);
       });
+    
+    builder
+      .addCase(saveSearch.fulfilled, (state, action) => {
+        state.savedSearches.unshift(action.payload);
+      })
+      .addCase(deleteSearch.fulfilled, (state, action) => {
+        state.savedSearches = state.savedSearches.filter(s => s.id !== action.payload);
+      });
   },
 });
 
@@ -16,6 +16,36 @@ export type CapabilityType =
   | 'Retailer'
   | 'Wholesaler';
 
+// How precisely a company's coordinates locate it, finest first.
+// 'state' means the address could not be resolved and the pin sits on the state capital.
+export type GeocodePrecision = 'rooftop' | 'street' | 'postcode' | 'suburb' | 'state';
+
+// How a company's state/territory was derived from the ICN billing state and postcode
+export type StateResolutionRule = 'code' | 'name' | 'typo' | 'postcode' | 'fuzzy' | 'partial' | 'unresolved';
+export type StateResolutionConfidence = 'high' | 'medium' | 'low' | 'none';
+
+export interface StateResolution {
+  state: string | null;  // Standard code, or null when nothing matched
+  confidence: StateResolutionConfidence;
+  rule: StateResolutionRule;
+}
+
+// Rewrites the converter applies to raw ICN values. State rules mirror StateResolutionRule.
+export type DataCorrectionRule =
+  | 'placeholder'  // Missing value replaced with a stand-in such as 'Address Not Available'
+  | 'generated-name'  // Missing organisation name replaced with 'Company ' and the ID's last 4 characters
+  | 'city-correction'  // Abbreviated city expanded, e.g. 'Melb' to 'Melbourne'
+  | 'capability-type'  // Unrecognised or differently cased capability type mapped to a known type
+  | `state-${StateResolutionRule}`;
+
+export interface DataCorrection {
+  field: string;  // Company field path, e.g. 'billingAddress.city' or 'icnCapabilities.sectorName'
+  originalValue: string | null;  // Raw ICN value, null when the field was absent
+  newValue: string;
+  rule: DataCorrectionRule;
+  capabilityId?: string;  // ICN "Organisation Capability" for capability-level fields
+}
+
 // Raw ICN data structure from JSON file
 export interface ICNCompanyData {
   "Organisation Capability": string;  // Unique capability ID for this company-item relationship
@@ -61,6 +91,9 @@ export interface Company {
   };
   latitude: number;  // Needs geocoding from address
   longitude: number;  // Needs geocoding from address
+  geocodePrecision?: GeocodePrecision;  // Unset until the address has been geocoded
+  stateResolution?: StateResolution;  // How billingAddress.state was derived; state is '' when unresolved
+  dataCorrections?: DataCorrection[];  // Every rewrite applied while converting the ICN record
   
   // Verification
   verificationStatus: 'verified' | 'unverified';  // Based on ICN "Validation Date"
@@ -209,7 +242,6 @@ export interface UserSettings {
 export interface UserStats {
   savedCompanies: number;
   searchesThisMonth: number;
-  exportsThisMonth: number;
   totalSearches: number;
   totalExports: number;
   lastSearchDate?: string;
@@ -219,6 +251,16 @@ export interface UserStats {
 // ==========================================
 // Search Filters (Enhanced)
 // ==========================================
+export interface SearchAreaPoint {
+  latitude: number;
+  longitude: number;
+}
+
+// Map selection drawn by the user: a closed lasso/polygon, or a corridor along a polyline
+export type SearchArea =
+  | { type: 'polygon'; points: SearchAreaPoint[] }
+  | { type: 'corridor'; points: SearchAreaPoint[]; widthKm: number };
+
 export interface SearchFilters {
   // Basic search
   searchText: string;
@@ -226,6 +268,9 @@ export interface SearchFilters {
   companyTypes: ('supplier' | 'manufacturer' | 'service' | 'consultant' | 'retail' | 'both')[];
   verificationStatus?: 'all' | 'verified' | 'unverified';
   distance?: number;
+  capabilities?: string[];  // Item / detailed item names
+  capabilityTypes?: string[];  // Exact CapabilityType names
+  excludeTerms?: string[];  // Negated terms, e.g. -"Service Provider"
   
   // Location-based
   latitude?: number;
@@ -233,6 +278,7 @@ export interface SearchFilters {
   suburb?: string;
   postcode?: string;
   state?: string;
+  area?: SearchArea;  // Drawn on the map
   
   // Tier-based filters (Plus/Premium only)
   companySize?: ('SME' | 'Medium' | 'Large' | 'Enterprise')[];
@@ -270,6 +316,7 @@ export interface EnhancedFilterOptions {
   distance: string;
   sectors: string[];
   state?: string;
+  area?: SearchArea;
   companyTypes?: string[];
   companySize?: string;
   certifications?: string[];
@@ -424,7 +471,8 @@ export interface TierFeatures {
   maxBookmarkFolders: number;
   maxSavedCompanies: number;
   maxSavedSearches: number;
-  exportLimit: number; // -1 for unlimited
+  exportLimit: number; // Exports per month, -1 for unlimited
+  maxExportRows: number; // Companies per list export, -1 for unlimited
   searchLimit: number; // -1 for unlimited
   apiAccess: boolean;
   prioritySupport: boolean;
@@ -523,6 +571,19 @@ export const isValidCapabilityType = (type: string): type is CapabilityType => {
   ].includes(type);
 };
 
+// Coordinates coarser than a street address should not be presented as the company's site
+export const isApproximateLocation = (precision?: GeocodePrecision): boolean => {
+  return precision === 'postcode' || precision === 'suburb' || precision === 'state';
+};
+
+export const GEOCODE_PRECISION_LABELS: Record<GeocodePrecision, string> = {
+  rooftop: 'Exact address',
+  street: 'Street level',
+  postcode: 'Postcode area (approximate)',
+  suburb: 'Suburb centre (approximate)',
+  state: 'State capital (location unknown)',
+};
+
 // ==========================================
 // Enums for better type safety
 // ==========================================
@@ -0,0 +1,43 @@
+// types/supercluster.d.ts - Type declarations for the parts of supercluster used by the map
+declare module 'supercluster' {
+  import type { BBox, Feature, Point } from 'geojson';
+
+  namespace Supercluster {
+    interface ClusterProperties {
+      cluster: true;
+      cluster_id: number;
+      point_count: number;
+      point_count_abbreviated: string | number;
+    }
+
+    type PointFeature<P> = Feature<Point, P>;
+    type ClusterFeature<C> = Feature<Point, ClusterProperties & C>;
+
+    interface Options<P, C> {
+      minZoom?: number;
+      maxZoom?: number;
+      minPoints?: number;
+      radius?: number;
+      extent?: number;
+      nodeSize?: number;
+      log?: boolean;
+      generateId?: boolean;
+      map?: (props: P) => C;
+      reduce?: (accumulated: C, props: Readonly<C>) => void;
+    }
+  }
+
+  class Supercluster<P = Record<string, unknown>, C = Record<string, unknown>> {
+    constructor(options?: Supercluster.Options<P, C>);
+    load(points: Array<Supercluster.PointFeature<P>>): Supercluster<P, C>;
+    getClusters(
+      bbox: BBox,
+      zoom: number
+    ): Array<Supercluster.ClusterFeature<C> | Supercluster.PointFeature<P>>;
+    getChildren(clusterId: number): Array<Supercluster.ClusterFeature<C> | Supercluster.PointFeature<P>>;
+    getLeaves(clusterId: number, limit?: number, offset?: number): Array<Supercluster.PointFeature<P>>;
+    getClusterExpansionZoom(clusterId: number): number;
+  }
+
+  export = Supercluster;
+}
@@ -0,0 +1,153 @@
+import { describe, expect, it } from '@jest/globals';
+import { Company, GeocodePrecision } from '../../types';
+import { buildComparisonRows, ComparisonVisibility, getCapabilityOverlap } from '../companyComparison';
+
+const MELBOURNE_CBD = { latitude: -37.8136, longitude: 144.9631 };
+
+const capability = (itemId: string, itemName: string, capabilityType: 'Manufacturer' | 'Supplier' = 'Manufacturer') => ({
+  capabilityId: `${itemId}-${capabilityType}`,
+  itemId,
+  itemName,
+  detailedItemName: itemName,
+  capabilityType,
+  sectorName: 'Construction',
+  sectorMappingId: 'sector-1',
+});
+
+function makeCompany(id: string, overrides: Partial<Company> = {}): Company {
+  return {
+    id,
+    name: `Company ${id}`,
+    address: '',
+    billingAddress: { street: '', city: 'Melbourne', state: 'VIC', postcode: '3000' },
+    latitude: 0,
+    longitude: 0,
+    verificationStatus: 'unverified',
+    keySectors: ['Construction'],
+    capabilities: [],
+    icnCapabilities: [],
+    ...overrides,
+  } as Company;
+}
+
+const located = (id: string, point: { latitude: number; longitude: number }, geocodePrecision: GeocodePrecision) =>
+  makeCompany(id, { ...point, geocodePrecision });
+
+const ALL_VISIBLE: ComparisonVisibility = {
+  canFilterBySize: true,
+  canFilterByCertifications: true,
+  canFilterByDiversity: true,
+  canSeeLocalContent: true,
+  canSeeEmployeeCount: true,
+  canSeeRevenue: true,
+  canSeeABN: true,
+};
+
+const NONE_VISIBLE: ComparisonVisibility = {
+  canFilterBySize: false,
+  canFilterByCertifications: false,
+  canFilterByDiversity: false,
+  canSeeLocalContent: false,
+  canSeeEmployeeCount: false,
+  canSeeRevenue: false,
+  canSeeABN: false,
+};
+
+const rowOf = (rows: ReturnType<typeof buildComparisonRows>, key: string) => rows.find(row => row.key === key)!;
+
+describe('getCapabilityOverlap', () => {
+  const welder = makeCompany('a', {
+    icnCapabilities: [capability('weld', 'Welding'), capability('weld', 'Welding', 'Supplier'), capability('cut', 'Cutting')],
+  });
+  const fabricator = makeCompany('b', { icnCapabilities: [capability('weld', 'Welding'), capability('paint', 'Painting')] });
+  const painter = makeCompany('c', { icnCapabilities: [capability('paint', 'Painting'), capability('weld', 'Welding')] });
+  const loner = makeCompany('d', { icnCapabilities: [capability('mine', 'Mining')] });
+
+  it('counts each item once per company, however many capability types it has', () => {
+    expect(getCapabilityOverlap([welder, fabricator]).itemCounts).toEqual([2, 2]);
+  });
+
+  it('lists items offered by at least two companies, most widely offered first', () => {
+    const overlap = getCapabilityOverlap([welder, fabricator, painter, loner]);
+
+    expect(overlap.shared).toEqual([
+      { itemId: 'weld', itemName: 'Welding', offeredBy: [true, true, true, false] },
+      { itemId: 'paint', itemName: 'Painting', offeredBy: [false, true, true, false] },
+    ]);
+    expect(overlap.itemCounts).toEqual([2, 2, 2, 1]);
+    expect(overlap.sharedCounts).toEqual([1, 2, 2, 0]);
+  });
+
+  it('finds nothing shared between companies without common items', () => {
+    const overlap = getCapabilityOverlap([loner, makeCompany('e')]);
+    expect(overlap).toEqual({ shared: [], itemCounts: [1, 0], sharedCounts: [0, 0] });
+  });
+});
+
+describe('buildComparisonRows', () => {
+  const detailed = makeCompany('a', {
+    companySize: 'Medium',
+    employeeCount: 120,
+    revenue: 2500000,
+    certifications: ['ISO 9001'],
+    ownershipType: ['Female-owned'],
+    localContentPercentage: 80,
+    abn: '12 345 678 901',
+    icnCapabilities: [capability('weld', 'Welding')],
+  });
+  const sparse = makeCompany('b', { icnCapabilities: [capability('weld', 'Welding'), capability('cut', 'Cutting')] });
+
+  it('withholds every value of rows the tier cannot see', () => {
+    const rows = buildComparisonRows([detailed, sparse], NONE_VISIBLE);
+    const locked = rows.filter(row => row.locked);
+
+    expect(locked.map(row => row.key)).toEqual(['size', 'employees', 'revenue', 'certifications', 'ownership', 'localContent', 'abn']);
+    locked.forEach(row => {
+      expect(row.values).toEqual(['', '']);
+      expect(row.differs).toBe(false);
+    });
+  });
+
+  it('shows tier fields when visible', () => {
+    const rows = buildComparisonRows([detailed, sparse], ALL_VISIBLE);
+
+    expect(rows.every(row => !row.locked)).toBe(true);
+    expect(rowOf(rows, 'revenue').values).toEqual(['$2.5M', '—']);
+    expect(rowOf(rows, 'ownership').values).toEqual(['Female-owned', '—']);
+    expect(rowOf(rows, 'abn').values).toEqual(['12 345 678 901', '—']);
+  });
+
+  it('flags rows whose values are not all the same', () => {
+    const rows = buildComparisonRows([detailed, sparse], ALL_VISIBLE);
+
+    expect(rowOf(rows, 'location')).toMatchObject({ values: ['Melbourne, VIC', 'Melbourne, VIC'], differs: false });
+    expect(rowOf(rows, 'items')).toMatchObject({ values: ['1 items, 1 shared', '2 items, 1 shared'], differs: true });
+    expect(rowOf(rows, 'size').differs).toBe(true);
+  });
+
+  it('adds a distance row after location only when an origin is given', () => {
+    expect(buildComparisonRows([detailed, sparse], ALL_VISIBLE).some(row => row.key === 'distance')).toBe(false);
+
+    const rows = buildComparisonRows([detailed, sparse], ALL_VISIBLE, MELBOURNE_CBD);
+    expect(rows.map(row => row.key).slice(0, 3)).toEqual(['verification', 'location', 'distance']);
+  });
+
+  it('marks approximate distances and leaves out companies without a usable location', () => {
+    const rows = buildComparisonRows(
+      [
+        located('exact', MELBOURNE_CBD, 'rooftop'),
+        located('postcode', { latitude: -37.9, longitude: 144.9631 }, 'postcode'),
+        located('state', MELBOURNE_CBD, 'state'),
+        makeCompany('pending'),
+      ],
+      ALL_VISIBLE,
+      MELBOURNE_CBD
+    );
+
+    expect(rowOf(rows, 'distance')).toMatchObject({
+      values: ['0 m', '~9.6 km', 'Not located', 'Not located'],
+      differs: true,
+      locked: false,
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from '@jest/globals';
+import { detectCsvDelimiter, escapeCsvField, parseCsv, toCsv } from '../csv';
+
+describe('escapeCsvField', () => {
+  it('leaves plain values unquoted', () => {
+    expect(escapeCsvField('Acme Fabrication')).toBe('Acme Fabrication');
+    expect(escapeCsvField(42)).toBe('42');
+    expect(escapeCsvField(false)).toBe('false');
+  });
+
+  it('writes missing values as empty fields', () => {
+    expect(escapeCsvField(null)).toBe('');
+    expect(escapeCsvField(undefined)).toBe('');
+  });
+
+  it('quotes fields with commas, quotes or line breaks and doubles embedded quotes', () => {
+    expect(escapeCsvField('Smith, Jones & Co')).toBe('"Smith, Jones & Co"');
+    expect(escapeCsvField('The "Best" Welding')).toBe('"The ""Best"" Welding"');
+    expect(escapeCsvField('Line one\nLine two')).toBe('"Line one\nLine two"');
+    expect(escapeCsvField('Ends with CR\r')).toBe('"Ends with CR\r"');
+  });
+
+  it('neutralises text a spreadsheet would run as a formula', () => {
+    expect(escapeCsvField('=HYPERLINK("http://example.com")')).toBe('"\'=HYPERLINK(""http://example.com"")"');
+    expect(escapeCsvField('+61 3 9000 0000')).toBe('"\'+61 3 9000 0000"');
+    expect(escapeCsvField('-2+3')).toBe('"\'-2+3"');
+    expect(escapeCsvField('@SUM(A1:A2)')).toBe('"\'@SUM(A1:A2)"');
+  });
+
+  it('writes negative numbers unchanged', () => {
+    expect(escapeCsvField(-12.5)).toBe('-12.5');
+  });
+});
+
+describe('toCsv', () => {
+  it('writes a byte order mark, a header row and CRLF line endings', () => {
+    expect(toCsv(['Name', 'State'], [['Acme', 'VIC'], ['Bolt, Inc', 'NSW']])).toBe(
+      '\uFEFFName,State\r\nAcme,VIC\r\n"Bolt, Inc",NSW\r\n'
+    );
+  });
+
+  it('leaves out the byte order mark on request', () => {
+    expect(toCsv(['Name'], [['Acme']], { byteOrderMark: false })).toBe('Name\r\nAcme\r\n');
+  });
+
+  it('keeps empty cells so columns stay aligned', () => {
+    expect(toCsv(['A', 'B', 'C'], [[undefined, 'x', null]], { byteOrderMark: false })).toBe('A,B,C\r\n,x,\r\n');
+  });
+});
+
+describe('detectCsvDelimiter', () => {
+  it('picks the delimiter used most outside quotes', () => {
+    expect(detectCsvDelimiter('"Steel, structural";4;kg')).toBe(';');
+    expect(detectCsvDelimiter('Item\tQuantity')).toBe('\t');
+    expect(detectCsvDelimiter('Item,Quantity')).toBe(',');
+  });
+
+  it('skips lines without a delimiter and defaults to a comma', () => {
+    expect(detectCsvDelimiter('Bill of materials\nBolts;4')).toBe(';');
+    expect(detectCsvDelimiter('Bolts\nNuts')).toBe(',');
+  });
+});
+
+describe('parseCsv', () => {
+  it('keeps delimiters, doubled quotes and line breaks inside quoted fields', () => {
+    expect(parseCsv('"Steel, structural",4\r\n"The ""Best"" bolt","a\nb"\n')).toEqual([
+      ['Steel, structural', '4'],
+      ['The "Best" bolt', 'a\nb'],
+    ]);
+  });
+
+  it('splits on the given delimiter only', () => {
+    expect(parseCsv('a,b;c', ';')).toEqual([['a,b', 'c']]);
+  });
+
+  it('reads what toCsv writes', () => {
+    const rows = [['Name', 'Notes'], ['Bolt, Inc', 'Says "hi"']];
+    expect(parseCsv(toCsv(rows[0], rows.slice(1), { byteOrderMark: false }))).toEqual(rows);
+  });
+});
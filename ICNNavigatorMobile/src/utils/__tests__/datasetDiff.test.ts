@@ -0,0 +1,62 @@
+import { describe, expect, it } from '@jest/globals';
+import { ICNItem } from '../../types';
+import { diffDatasets, hasChanges } from '../datasetDiff';
+import dataset from '../../__tests__/fixtures/icnDataset.json';
+
+const clone = (): ICNItem[] => JSON.parse(JSON.stringify(dataset));
+
+describe('diffDatasets', () => {
+  it('finds no changes between identical datasets', () => {
+    const diff = diffDatasets(clone(), clone());
+    expect(hasChanges(diff)).toBe(false);
+  });
+
+  it('ignores whitespace-only edits', () => {
+    const next = clone();
+    next[0].Organizations[0]['Organisation: Billing City'] = ' Melbourne ';
+    expect(hasChanges(diffDatasets(clone(), next))).toBe(false);
+  });
+
+  it('lists added and removed companies with their capability counts', () => {
+    const next = clone();
+    next[1].Organizations = [{
+      ...next[1].Organizations[0],
+      'Organisation Capability': 'cap-9',
+      'Organisation: Organisation ID': 'org-9',
+      'Organisation: Organisation Name': 'Delta Batteries',
+    }];
+
+    const diff = diffDatasets(clone(), next);
+    expect(diff.addedCompanies).toEqual([{ id: 'org-9', name: 'Delta Batteries', capabilityCount: 1 }]);
+    expect(diff.removedCompanies).toEqual([{ id: 'org-3', name: 'Coastal Minerals', capabilityCount: 1 }]);
+    expect(diff.addedCapabilities).toEqual([]);
+  });
+
+  it('lists the company columns that changed', () => {
+    const next = clone();
+    next[0].Organizations[1]['Organisation: Billing Street'] = '9 Quay St';
+    next[0].Organizations[1]['Organisation: Billing Zip/Postal Code'] = '2001';
+
+    expect(diffDatasets(clone(), next).updatedCompanies).toEqual([{
+      id: 'org-2',
+      name: 'Bolt Engineering',
+      fields: ['Organisation: Billing Street', 'Organisation: Billing Zip/Postal Code'],
+    }]);
+  });
+
+  it('lists capabilities added to and removed from existing companies', () => {
+    const next = clone();
+    next.splice(2, 1); // Acme's machining capability
+    next[1].Organizations.push({ ...next[0].Organizations[1], 'Organisation Capability': 'cap-5' });
+
+    const diff = diffDatasets(clone(), next);
+    expect(diff.addedCompanies).toEqual([]);
+    expect(diff.removedCompanies).toEqual([]);
+    expect(diff.removedCapabilities).toEqual([
+      { capabilityId: 'cap-4', companyId: 'org-1', companyName: 'Acme Fabrication', itemName: 'CNC machining' },
+    ]);
+    expect(diff.addedCapabilities).toEqual([
+      { capabilityId: 'cap-5', companyId: 'org-2', companyName: 'Bolt Engineering', itemName: 'Lithium hydroxide refining' },
+    ]);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from '@jest/globals';
+import { buildPdf, wrapText } from '../pdfDocument';
+
+// Byte offsets from the xref table, in object order
+function xrefOffsets(pdf: string): number[] {
+  const [, count, entries] = /xref\n0 (\d+)\n([\s\S]*?)trailer/.exec(pdf)!;
+  const lines = entries.trim().split('\n');
+  expect(lines).toHaveLength(Number(count));
+  expect(lines[0]).toBe('0000000000 65535 f ');
+  return lines.slice(1).map(line => Number(line.slice(0, 10)));
+}
+
+describe('buildPdf', () => {
+  const pdf = buildPdf(
+    [
+      { type: 'title', text: 'Acme (Fabrication) Pty Ltd' },
+      { type: 'field', label: 'Path', value: 'C:\\exports' },
+      { type: 'bullet', text: 'Welding' },
+    ],
+    { title: 'Capability (draft)', footer: 'ICN Navigator' }
+  );
+
+  it('writes the PDF header and trailer', () => {
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf.endsWith('%%EOF\n')).toBe(true);
+    expect(pdf).toContain('<< /Size 8 /Root 1 0 R /Info 5 0 R >>');
+  });
+
+  it('points every xref entry and startxref at the right byte offset', () => {
+    xrefOffsets(pdf).forEach((offset, index) => {
+      expect(pdf.slice(offset, offset + `${index + 1} 0 obj`.length)).toBe(`${index + 1} 0 obj`);
+    });
+
+    const startXref = Number(/startxref\n(\d+)\n/.exec(pdf)![1]);
+    expect(pdf.slice(startXref, startXref + 4)).toBe('xref');
+  });
+
+  it('declares stream lengths that match their content', () => {
+    const [, length, content] = /<< \/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/.exec(pdf)!;
+    expect(content.length).toBe(Number(length));
+  });
+
+  it('escapes parentheses and backslashes in text', () => {
+    expect(pdf).toContain('(Acme \\(Fabrication\\) Pty Ltd) Tj');
+    expect(pdf).toContain('(C:\\\\exports) Tj');
+    expect(pdf).toContain('/Title (Capability \\(draft\\))');
+  });
+
+  it('writes non-ASCII text as WinAnsi octal escapes', () => {
+    expect(pdf).toContain('(\\225  Welding) Tj');
+    expect(buildPdf([{ type: 'paragraph', text: 'Café' }])).toContain('(Caf\\351) Tj');
+  });
+
+  it('adds a page, with its own xref entries, when content overflows', () => {
+    const long = buildPdf(Array.from({ length: 80 }, (_, i) => ({ type: 'paragraph' as const, text: `Line ${i}` })));
+
+    expect(long).toContain('/Count 2');
+    expect(long).toContain('Page 2 of 2');
+    expect(xrefOffsets(long)).toHaveLength(9);
+  });
+});
+
+describe('wrapText', () => {
+  it('breaks words longer than a line', () => {
+    expect(wrapText('abcdefghij', 20, 10)).toEqual(['abcd', 'efgh', 'ij']);
+  });
+
+  it('keeps explicit line breaks', () => {
+    expect(wrapText('one\ntwo', 500, 10)).toEqual(['one', 'two']);
+  });
+});
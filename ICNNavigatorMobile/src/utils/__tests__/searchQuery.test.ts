@@ -0,0 +1,83 @@
+import { describe, expect, it } from '@jest/globals';
+import { createEmptyQuery, fromSearchFilters } from '../../services/companyQueryEngine';
+import { UNKNOWN_REGION } from '../../services/icnDataService';
+import { formatSearchQuery, parseSearchQuery } from '../searchQuery';
+
+const roundTrip = (text: string) => formatSearchQuery(fromSearchFilters(parseSearchQuery(text).filters));
+
+describe('parseSearchQuery', () => {
+  it('reads fields, quoted phrases, exclusions and free text', () => {
+    const { filters, errors } = parseSearchQuery(
+      'steel sector:"Critical Minerals" state:vic -"Service Provider" verified:yes size:SME sort:name'
+    );
+    expect(errors).toEqual([]);
+    expect(filters).toEqual({
+      searchText: 'steel',
+      sectors: ['Critical Minerals'],
+      state: 'VIC',
+      excludeTerms: ['Service Provider'],
+      verificationStatus: 'verified',
+      companySize: ['SME'],
+      sortBy: 'name',
+    });
+  });
+
+  it('accepts field aliases and the unknown region', () => {
+    const { filters, errors } = parseSearchQuery('item:Welding city:Geelong state:"unknown region"');
+    expect(errors).toEqual([]);
+    expect(filters).toMatchObject({ capabilities: ['Welding'], suburb: 'Geelong', state: UNKNOWN_REGION });
+  });
+
+  it('reports each bad clause at its position and keeps the rest of the query', () => {
+    const text = 'steel state:XYZ colour:red postcode:30';
+    const { filters, errors } = parseSearchQuery(text);
+
+    expect(filters).toEqual({ searchText: 'steel' });
+    expect(errors.map(error => text.slice(error.start, error.end))).toEqual([
+      'state:XYZ',
+      'colour:red',
+      'postcode:30',
+    ]);
+    expect(errors[0].message).toBe('Unknown state "XYZ"');
+    expect(errors[1].message).toBe('Unknown field "colour"');
+  });
+
+  it('reports a missing closing quote up to the end of the text', () => {
+    const text = 'sector:"Critical Minerals';
+    const { filters, errors } = parseSearchQuery(text);
+    expect(filters.sectors).toEqual(['Critical Minerals']);
+    expect(errors).toEqual([{ message: 'Missing closing quote', start: 7, end: text.length }]);
+  });
+
+  it('refuses negated fields and fields without a value', () => {
+    const { errors } = parseSearchQuery('-state:VIC sector:');
+    expect(errors.map(error => [error.start, error.end])).toEqual([[0, 10], [11, 18]]);
+  });
+});
+
+describe('formatSearchQuery', () => {
+  it('formats an empty query as empty text', () => {
+    expect(formatSearchQuery(createEmptyQuery())).toBe('');
+  });
+
+  it('quotes values that would not survive as a bare word', () => {
+    const text = formatSearchQuery({
+      ...createEmptyQuery(),
+      sectors: ['Critical Minerals'],
+      state: UNKNOWN_REGION,
+      excludeTerms: ['-x', 'a:b'],
+    });
+    expect(text).toBe('sector:"Critical Minerals" state:"Unknown region" -"-x" -"a:b"');
+  });
+
+  it.each([
+    'steel sector:"Critical Minerals" state:VIC',
+    `state:"${UNKNOWN_REGION}"`,
+    'capability:"Structural steel" suburb:"Port Melbourne" postcode:3207',
+    'type:manufacturer verified:no size:SME cert:"ISO 9001" sort:distance',
+    'welding -"Service Provider"',
+  ])('parses back what it formats: %s', text => {
+    expect(roundTrip(text)).toBe(text);
+    expect(parseSearchQuery(roundTrip(text)).errors).toEqual([]);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from '@jest/globals';
+import { Company, GeocodePrecision } from '../../types';
+import { findSimilarCompanies } from '../similarCompanies';
+
+const MELBOURNE_CBD = { latitude: -37.8136, longitude: 144.9631 };
+const BENDIGO = { latitude: -36.757, longitude: 144.2794 };
+
+function makeCompany(
+  id: string,
+  point: { latitude: number; longitude: number },
+  geocodePrecision: GeocodePrecision
+): Company {
+  return {
+    id,
+    name: `Company ${id}`,
+    address: '',
+    ...point,
+    geocodePrecision,
+    verificationStatus: 'unverified',
+    keySectors: ['Construction'],
+    capabilities: [],
+    icnCapabilities: [{
+      capabilityId: `${id}-1`,
+      itemId: 'item-1',
+      itemName: 'Welding',
+      detailedItemName: 'Welding',
+      capabilityType: 'Manufacturer',
+      sectorName: 'Construction',
+      sectorMappingId: 'sector-1',
+    }],
+  } as Company;
+}
+
+const scoreOf = (results: ReturnType<typeof findSimilarCompanies>, id: string) =>
+  results.find(result => result.company.id === id)!.score;
+
+describe('findSimilarCompanies', () => {
+  it('ranks an equally capable supplier nearby above one far away', () => {
+    const target = makeCompany('t', MELBOURNE_CBD, 'rooftop');
+    const results = findSimilarCompanies(target, [
+      target,
+      makeCompany('far', BENDIGO, 'rooftop'),
+      makeCompany('near', { latitude: -37.82, longitude: 144.97 }, 'street'),
+    ]);
+    expect(results.map(result => result.company.id)).toEqual(['near', 'far']);
+  });
+
+  it('gives no proximity score between companies sharing the state fallback pin', () => {
+    const target = makeCompany('t', MELBOURNE_CBD, 'state');
+    const unplaced = makeCompany('unplaced', MELBOURNE_CBD, 'state');
+    const located = makeCompany('located', BENDIGO, 'rooftop');
+    const results = findSimilarCompanies(target, [target, unplaced, located]);
+
+    expect(scoreOf(results, 'unplaced')).toBeCloseTo(scoreOf(results, 'located'), 10);
+  });
+
+  it('gives no proximity score to a company at an approximate location', () => {
+    const target = makeCompany('t', MELBOURNE_CBD, 'rooftop');
+    const suburb = makeCompany('suburb', MELBOURNE_CBD, 'suburb');
+    const unlocated = makeCompany('unlocated', { latitude: 0, longitude: 0 }, 'rooftop');
+    const results = findSimilarCompanies(target, [target, suburb, unlocated]);
+
+    expect(scoreOf(results, 'suburb')).toBeCloseTo(scoreOf(results, 'unlocated'), 10);
+  });
+});
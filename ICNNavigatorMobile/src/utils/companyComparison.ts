@@ -0,0 +1,167 @@
+// utils/companyComparison.ts - Builds the side-by-side rows of the supplier comparison view
+import { Company, isApproximateLocation } from '../types';
+import { TierFeatures } from '../contexts/UserTierContext';
+import { GeoPoint, getCompanyDistanceKm, formatDistanceKm } from '../services/companyQueryEngine';
+
+export const MAX_COMPARED_COMPANIES = 4;
+
+export type ComparisonVisibility = Pick<
+  TierFeatures,
+  | 'canFilterBySize'
+  | 'canFilterByCertifications'
+  | 'canFilterByDiversity'
+  | 'canSeeLocalContent'
+  | 'canSeeEmployeeCount'
+  | 'canSeeRevenue'
+  | 'canSeeABN'
+>;
+
+export interface ComparisonRow {
+  key: string;
+  label: string;
+  values: string[]; // One per company, in column order
+  locked: boolean; // Hidden by the current tier
+  differs: boolean; // Values are not all the same
+}
+
+export interface SharedCapability {
+  itemId: string;
+  itemName: string;
+  offeredBy: boolean[]; // One per company, in column order
+}
+
+export interface CapabilityOverlap {
+  shared: SharedCapability[]; // Items offered by at least two of the companies
+  itemCounts: number[];
+  sharedCounts: number[]; // Items each company has in common with at least one other
+}
+
+const EMPTY_VALUE = '—';
+
+const formatList = (values: Array<string | undefined> | undefined) => {
+  const present = (values || []).filter(Boolean) as string[];
+  return present.length > 0 ? present.join(', ') : EMPTY_VALUE;
+};
+
+const formatDate = (date?: string) =>
+  date ? new Date(date).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' }) : '';
+
+const formatRevenue = (revenue?: number) => {
+  if (revenue === undefined || revenue === null) return EMPTY_VALUE;
+  return revenue >= 1000000 ? `$${(revenue / 1000000).toFixed(1)}M` : `$${Math.round(revenue / 1000)}K`;
+};
+
+const uniqueCapabilityItems = (company: Company) => {
+  const items = new Map<string, string>();
+  company.icnCapabilities?.forEach(cap => {
+    if (!items.has(cap.itemId)) items.set(cap.itemId, cap.itemName);
+  });
+  return items;
+};
+
+/**
+ * ICN items offered by more than one of the compared companies
+ */
+export function getCapabilityOverlap(companies: Company[]): CapabilityOverlap {
+  const itemSets = companies.map(uniqueCapabilityItems);
+  const names = new Map<string, string>();
+  const offeredCount = new Map<string, number>();
+
+  itemSets.forEach(items => {
+    items.forEach((name, itemId) => {
+      names.set(itemId, name);
+      offeredCount.set(itemId, (offeredCount.get(itemId) || 0) + 1);
+    });
+  });
+
+  const shared = Array.from(offeredCount.entries())
+    .filter(([, count]) => count >= 2)
+    .map(([itemId]) => ({
+      itemId,
+      itemName: names.get(itemId)!,
+      offeredBy: itemSets.map(items => items.has(itemId)),
+    }))
+    .sort((a, b) =>
+      b.offeredBy.filter(Boolean).length - a.offeredBy.filter(Boolean).length || a.itemName.localeCompare(b.itemName)
+    );
+
+  return {
+    shared,
+    itemCounts: itemSets.map(items => items.size),
+    sharedCounts: itemSets.map(items => Array.from(items.keys()).filter(id => (offeredCount.get(id) || 0) >= 2).length),
+  };
+}
+
+/**
+ * Field rows in display order. Rows the tier cannot see are kept (so users know the
+ * field exists) but their values are withheld.
+ */
+export function buildComparisonRows(
+  companies: Company[],
+  visibility: ComparisonVisibility,
+  origin?: GeoPoint
+): ComparisonRow[] {
+  const overlap = getCapabilityOverlap(companies);
+
+  const row = (key: string, label: string, value: (company: Company, index: number) => string, visible = true): ComparisonRow => {
+    const values = visible ? companies.map(value) : companies.map(() => '');
+    return {
+      key,
+      label,
+      values,
+      locked: !visible,
+      differs: visible && new Set(values).size > 1,
+    };
+  };
+
+  const rows = [
+    row('verification', 'Verification', company =>
+      company.verificationStatus === 'verified'
+        ? `Verified${company.verificationDate ? ` ${formatDate(company.verificationDate)}` : ''}`
+        : 'Unverified'
+    ),
+    row('location', 'Location', company =>
+      company.billingAddress
+        ? [company.billingAddress.city, company.billingAddress.state].filter(Boolean).join(', ')
+        : company.address
+    ),
+    row('sectors', 'Sectors', company => formatList(company.keySectors)),
+    row('capabilityTypes', 'Capability types', company =>
+      formatList(Array.from(new Set(company.icnCapabilities?.map(cap => cap.capabilityType))))
+    ),
+    row('items', 'ICN items', (company, index) =>
+      `${overlap.itemCounts[index]} items, ${overlap.sharedCounts[index]} shared`
+    ),
+    row('size', 'Company size', company => company.companySize || EMPTY_VALUE, visibility.canFilterBySize),
+    row('employees', 'Employees', company =>
+      company.employeeCount !== undefined ? company.employeeCount.toLocaleString() : EMPTY_VALUE,
+      visibility.canSeeEmployeeCount
+    ),
+    row('revenue', 'Revenue', company => formatRevenue(company.revenue), visibility.canSeeRevenue),
+    row('certifications', 'Certifications', company => formatList(company.certifications), visibility.canFilterByCertifications),
+    row('ownership', 'Ownership', company =>
+      formatList([
+        ...(company.ownershipType || []),
+        company.socialEnterprise ? 'Social enterprise' : undefined,
+        company.australianDisabilityEnterprise ? 'Australian Disability Enterprise' : undefined,
+      ]),
+      visibility.canFilterByDiversity
+    ),
+    row('localContent', 'Local content', company =>
+      company.localContentPercentage !== undefined ? `${company.localContentPercentage}%` : EMPTY_VALUE,
+      visibility.canSeeLocalContent
+    ),
+    row('abn', 'ABN', company => company.abn || EMPTY_VALUE, visibility.canSeeABN),
+  ];
+
+  if (origin) {
+    rows.splice(2, 0, row('distance', 'Distance', company => {
+      const distanceKm = getCompanyDistanceKm(company, origin);
+      return distanceKm !== undefined
+        ? formatDistanceKm(distanceKm, isApproximateLocation(company.geocodePrecision))
+        : 'Not located';
+    }));
+  }
+
+  return rows;
+}
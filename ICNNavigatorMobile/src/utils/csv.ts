@@ -0,0 +1,98 @@
+// utils/csv.ts - RFC 4180 CSV serialisation shared by the export features, and parsing of pasted CSV
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+const CSV_LINE_BREAK = '\r\n';
+
+// Leading characters spreadsheets read as the start of a formula
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+/**
+ * Quote a field when it contains a comma, quote or line break; embedded quotes are doubled.
+ * Text that a spreadsheet would evaluate as a formula is prefixed with `'` and quoted;
+ * numbers are written as they are so negative values stay numeric.
+ */
+export function escapeCsvField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    return `"'${text.replace(/"/g, '""')}"`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialise a header row and data rows. Lines end with CRLF as the RFC requires, and a
+ * byte order mark is prepended so Excel opens non-ASCII names correctly.
+ */
+export function toCsv(headers: string[], rows: CsvValue[][], options: { byteOrderMark?: boolean } = {}): string {
+  const lines = [headers, ...rows].map(row => row.map(escapeCsvField).join(','));
+  const content = lines.join(CSV_LINE_BREAK) + CSV_LINE_BREAK;
+  return options.byteOrderMark === false ? content : `﻿${content}`;
+}
+
+// Delimiters recognised in pasted data, in order of preference when counts tie
+const CSV_DELIMITERS = ['\t', ';', ','];
+
+/**
+ * The delimiter of the first line that has one: whichever of tab, semicolon or comma
+ * appears most often outside quotes. Defaults to a comma.
+ */
+export function detectCsvDelimiter(text: string): string {
+  for (const line of text.split(/\r?\n/)) {
+    const counts = new Map(CSV_DELIMITERS.map(delimiter => [delimiter, 0]));
+    let quoted = false;
+    for (const char of line) {
+      if (char === '"') quoted = !quoted;
+      else if (!quoted && counts.has(char)) counts.set(char, counts.get(char)! + 1);
+    }
+    const best = CSV_DELIMITERS.reduce((a, b) => (counts.get(b)! > counts.get(a)! ? b : a));
+    if (counts.get(best)! > 0) return best;
+  }
+  return ',';
+}
+
+/**
+ * Split CSV text into rows of fields. Quoted fields may contain the delimiter, doubled
+ * quotes and line breaks; the delimiter is detected when not given.
+ */
+export function parseCsv(text: string, delimiter: string = detectCsvDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && !field.trim()) {
+      quoted = true;
+      field = '';
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
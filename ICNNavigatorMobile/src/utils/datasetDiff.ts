@@ -0,0 +1,131 @@
+// utils/datasetDiff.ts - Company and capability level differences between two ICN datasets
+import { ICNItem, ICNCompanyData } from '../types';
+
+export interface CompanyChange {
+  id: string; // "Organisation: Organisation ID"
+  name: string;
+  capabilityCount: number;
+}
+
+export interface UpdatedCompany {
+  id: string;
+  name: string;
+  fields: string[]; // ICN column names whose values changed
+}
+
+export interface CapabilityChange {
+  capabilityId: string; // "Organisation Capability"
+  companyId: string;
+  companyName: string;
+  itemName: string;
+}
+
+export interface DatasetDiff {
+  addedCompanies: CompanyChange[];
+  removedCompanies: CompanyChange[];
+  updatedCompanies: UpdatedCompany[];
+  addedCapabilities: CapabilityChange[]; // Only for companies present in both datasets
+  removedCapabilities: CapabilityChange[];
+}
+
+// Company-level columns, repeated on every capability row of the company
+const COMPANY_COLUMNS: Array<keyof ICNCompanyData> = [
+  'Organisation: Organisation Name',
+  'Organisation: Billing Street',
+  'Organisation: Billing City',
+  'Organisation: Billing State/Province',
+  'Organisation: Billing Zip/Postal Code',
+];
+
+interface CompanyRecord {
+  row: ICNCompanyData; // First capability row seen for the company
+  capabilities: Map<string, CapabilityChange>;
+}
+
+const normalize = (value: string | undefined | null) => (value || '').trim();
+
+/**
+ * Group a dataset's organisation rows by organisation ID. Capabilities are keyed by
+ * "Organisation Capability", or organisation and item ID for rows without one.
+ */
+function indexDataset(items: ICNItem[]): Map<string, CompanyRecord> {
+  const companies = new Map<string, CompanyRecord>();
+  items.forEach(item => {
+    item.Organizations.forEach(org => {
+      const companyId = normalize(org['Organisation: Organisation ID']);
+      if (!companyId) return;
+
+      let record = companies.get(companyId);
+      if (!record) {
+        record = { row: org, capabilities: new Map() };
+        companies.set(companyId, record);
+      }
+      const capabilityId = normalize(org['Organisation Capability']) || `${companyId}|${item['Item ID']}`;
+      record.capabilities.set(capabilityId, {
+        capabilityId,
+        companyId,
+        companyName: normalize(org['Organisation: Organisation Name']) || companyId,
+        itemName: normalize(item['Detailed Item Name']) || normalize(item['Item Name']) || item['Item ID'],
+      });
+    });
+  });
+  return companies;
+}
+
+const toCompanyChange = (id: string, record: CompanyRecord): CompanyChange => ({
+  id,
+  name: normalize(record.row['Organisation: Organisation Name']) || id,
+  capabilityCount: record.capabilities.size,
+});
+
+/**
+ * Compare two datasets by organisation ID and organisation capability
+ */
+export function diffDatasets(previous: ICNItem[], next: ICNItem[]): DatasetDiff {
+  const before = indexDataset(previous);
+  const after = indexDataset(next);
+  const diff: DatasetDiff = {
+    addedCompanies: [],
+    removedCompanies: [],
+    updatedCompanies: [],
+    addedCapabilities: [],
+    removedCapabilities: [],
+  };
+
+  after.forEach((record, id) => {
+    const old = before.get(id);
+    if (!old) {
+      diff.addedCompanies.push(toCompanyChange(id, record));
+      return;
+    }
+
+    const fields = COMPANY_COLUMNS.filter(column => normalize(old.row[column]) !== normalize(record.row[column]));
+    if (fields.length > 0) {
+      diff.updatedCompanies.push({ id, name: toCompanyChange(id, record).name, fields });
+    }
+
+    record.capabilities.forEach((capability, capabilityId) => {
+      if (!old.capabilities.has(capabilityId)) diff.addedCapabilities.push(capability);
+    });
+    old.capabilities.forEach((capability, capabilityId) => {
+      if (!record.capabilities.has(capabilityId)) diff.removedCapabilities.push(capability);
+    });
+  });
+
+  before.forEach((record, id) => {
+    if (!after.has(id)) diff.removedCompanies.push(toCompanyChange(id, record));
+  });
+
+  const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+  diff.addedCompanies.sort(byName);
+  diff.removedCompanies.sort(byName);
+  diff.updatedCompanies.sort(byName);
+  return diff;
+}
+
+/**
+ * Whether the datasets differ at all at company or capability level
+ */
+export function hasChanges(diff: DatasetDiff): boolean {
+  return Object.values(diff).some(list => list.length > 0);
+}
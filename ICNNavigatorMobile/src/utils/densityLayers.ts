@@ -0,0 +1,116 @@
+// utils/densityLayers.ts - Aggregates companies into heatmap points and choropleth classes
+import { Company } from '../types';
+import offlineGeocodingProvider from '../services/offlineGeocodingProvider';
+
+export interface HeatmapPoint {
+  latitude: number;
+  longitude: number;
+  weight: number;
+}
+
+export interface PostcodeDistrictCount {
+  key: string;
+  name: string;
+  state: string;
+  latitude: number;
+  longitude: number;
+  count: number;
+}
+
+export interface DensityClass {
+  min: number;
+  max: number;
+  color: string;
+}
+
+// Pale to saturated brand orange, then navy for the densest class
+export const DENSITY_COLORS = ['#FEECD2', '#FCCF8E', '#FAB249', '#F99F1C', '#003366'];
+export const EMPTY_DENSITY_COLOR = '#CCCCCC';
+
+/**
+ * One point per company. Verified companies weigh more so well-supported areas stand out;
+ * companies placed at a postcode or suburb centroid weigh less because many share a point.
+ */
+export function buildHeatmapPoints(companies: Company[]): HeatmapPoint[] {
+  return companies
+    .filter(company => company.latitude && company.longitude)
+    .map(company => {
+      let weight = company.verificationStatus === 'verified' ? 1 : 0.6;
+      if (company.geocodePrecision === 'postcode' || company.geocodePrecision === 'suburb') {
+        weight *= 0.5;
+      } else if (company.geocodePrecision === 'state') {
+        weight *= 0.2;
+      }
+      return { latitude: company.latitude, longitude: company.longitude, weight };
+    });
+}
+
+/**
+ * Companies counted per postal district. Postcode boundaries are not bundled, so each
+ * district is drawn at the centroid of its main centre.
+ */
+export function countByPostcodeDistrict(companies: Company[]): PostcodeDistrictCount[] {
+  const districts = new Map<string, PostcodeDistrictCount>();
+
+  companies.forEach(company => {
+    const postcode = company.billingAddress?.postcode;
+    if (!postcode) return;
+    const district = offlineGeocodingProvider.findPostcodeDistrict(postcode, company.billingAddress?.state);
+    if (!district) return;
+
+    const key = `${district.state}-${district.from}-${district.to}`;
+    const existing = districts.get(key);
+    if (existing) {
+      existing.count++;
+    } else {
+      districts.set(key, {
+        key,
+        name: district.name,
+        state: district.state,
+        latitude: district.latitude,
+        longitude: district.longitude,
+        count: 1,
+      });
+    }
+  });
+
+  return Array.from(districts.values()).sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Quantile classes over the non-zero counts, so a few very dense areas (Melbourne, Sydney)
+ * do not flatten everything else into the lowest class. Duplicate breaks are merged.
+ */
+export function buildDensityClasses(counts: number[], colors: string[] = DENSITY_COLORS): DensityClass[] {
+  const values = counts.filter(count => count > 0).sort((a, b) => a - b);
+  if (values.length === 0) return [];
+
+  const classes: DensityClass[] = [];
+  let min = values[0];
+  for (let i = 1; i <= colors.length; i++) {
+    const max = i === colors.length
+      ? values[values.length - 1]
+      : values[Math.min(values.length - 1, Math.ceil((i * values.length) / colors.length) - 1)];
+    if (max < min) continue;
+    classes.push({ min, max, color: colors[classes.length] });
+    min = max + 1;
+  }
+  return classes;
+}
+
+/**
+ * Fill colour for a count; zero (no matching companies) is grey to show coverage gaps
+ */
+export function getDensityColor(count: number, classes: DensityClass[]): string {
+  if (count <= 0) return EMPTY_DENSITY_COLOR;
+  const match = classes.find(densityClass => count <= densityClass.max);
+  return (match || classes[classes.length - 1])?.color || EMPTY_DENSITY_COLOR;
+}
+
+/**
+ * Short legend label such as "1-4" or "120+"
+ */
+export function formatDensityClass(densityClass: DensityClass, isLast: boolean): string {
+  if (isLast && densityClass.max > densityClass.min) return `${densityClass.min}+`;
+  return densityClass.min === densityClass.max ? `${densityClass.min}` : `${densityClass.min}-${densityClass.max}`;
+}
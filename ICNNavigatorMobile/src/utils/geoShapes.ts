@@ -0,0 +1,88 @@
+// utils/geoShapes.ts - Point-in-polygon, nearest point on a polyline and path simplification
+import { SearchAreaPoint } from '../types';
+
+/**
+ * Ray-casting test. Treats latitude/longitude as planar, which is accurate enough
+ * for hand-drawn regions; the polygon is closed implicitly.
+ */
+export function isPointInPolygon(point: SearchAreaPoint, polygon: SearchAreaPoint[]): boolean {
+  if (polygon.length < 3) return false;
+
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses = (a.latitude > point.latitude) !== (b.latitude > point.latitude) &&
+      point.longitude < ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Closest point to `point` on the polyline. Segments are projected equirectangularly
+ * around the point so east-west spans are not exaggerated at southern latitudes.
+ */
+export function closestPointOnPolyline(point: SearchAreaPoint, line: SearchAreaPoint[]): SearchAreaPoint | null {
+  if (line.length === 0) return null;
+  if (line.length === 1) return line[0];
+
+  const scale = Math.cos((point.latitude * Math.PI) / 180);
+  const toXY = (p: SearchAreaPoint) => ({ x: p.longitude * scale, y: p.latitude });
+  const origin = toXY(point);
+
+  let best: SearchAreaPoint = line[0];
+  let bestDistance = Infinity;
+  for (let i = 0; i < line.length - 1; i++) {
+    const a = toXY(line[i]);
+    const b = toXY(line[i + 1]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((origin.x - a.x) * dx + (origin.y - a.y) * dy) / lengthSq));
+    const x = a.x + t * dx;
+    const y = a.y + t * dy;
+    const distance = (x - origin.x) ** 2 + (y - origin.y) ** 2;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = {
+        latitude: line[i].latitude + t * (line[i + 1].latitude - line[i].latitude),
+        longitude: line[i].longitude + t * (line[i + 1].longitude - line[i].longitude),
+      };
+    }
+  }
+  return best;
+}
+
+/**
+ * Douglas-Peucker simplification, so freehand drawings stay small enough to save
+ */
+export function simplifyPath(points: SearchAreaPoint[], toleranceDeg: number): SearchAreaPoint[] {
+  if (points.length <= 2) return points;
+
+  const perpendicularDistance = (p: SearchAreaPoint, a: SearchAreaPoint, b: SearchAreaPoint) => {
+    const dx = b.longitude - a.longitude;
+    const dy = b.latitude - a.latitude;
+    const length = Math.hypot(dx, dy);
+    if (length === 0) return Math.hypot(p.longitude - a.longitude, p.latitude - a.latitude);
+    return Math.abs(dy * p.longitude - dx * p.latitude + b.longitude * a.latitude - b.latitude * a.longitude) / length;
+  };
+
+  let maxDistance = 0;
+  let index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const distance = perpendicularDistance(points[i], points[0], points[points.length - 1]);
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      index = i;
+    }
+  }
+
+  if (maxDistance <= toleranceDeg) return [points[0], points[points.length - 1]];
+
+  const left = simplifyPath(points.slice(0, index + 1), toleranceDeg);
+  const right = simplifyPath(points.slice(index), toleranceDeg);
+  return [...left.slice(0, -1), ...right];
+}
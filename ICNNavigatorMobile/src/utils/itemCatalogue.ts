@@ -0,0 +1,93 @@
+// utils/itemCatalogue.ts - Groups ICN items into the sector → item → detailed item hierarchy
+import { ICNItem } from '../types';
+import { isInvalidValue } from '../services/icnDataService';
+
+export interface CatalogueItem {
+  itemId: string;
+  itemName: string;
+  detailedItems: ICNItem[];
+  organisationCount: number; // Distinct organisations across the detailed items
+}
+
+export interface CatalogueSector {
+  sectorName: string;
+  items: CatalogueItem[];
+  detailedItemCount: number;
+  organisationCount: number;
+}
+
+// Same placeholders the company conversion uses for blank fields
+const SECTOR_PLACEHOLDER = 'General';
+const ITEM_PLACEHOLDER = 'Service';
+
+export const getSectorName = (item: ICNItem) =>
+  isInvalidValue(item['Sector Name']) ? SECTOR_PLACEHOLDER : item['Sector Name'].trim();
+
+export const getItemName = (item: ICNItem) =>
+  isInvalidValue(item['Item Name']) ? ITEM_PLACEHOLDER : item['Item Name'].trim();
+
+export const getDetailedItemName = (item: ICNItem) =>
+  isInvalidValue(item['Detailed Item Name']) ? getItemName(item) : item['Detailed Item Name'].trim();
+
+/**
+ * Organisations supplying a detailed item. Subtotal is the dataset's own count and is
+ * used when present; it can differ from Organizations.length in trimmed exports.
+ */
+export const getItemSubtotal = (item: ICNItem) =>
+  typeof item.Subtotal === 'number' && item.Subtotal > 0 ? item.Subtotal : (item.Organizations || []).length;
+
+const countOrganisations = (items: ICNItem[]) => {
+  const ids = new Set<string>();
+  items.forEach(item => (item.Organizations || []).forEach(org => ids.add(org['Organisation: Organisation ID'])));
+  return ids.size;
+};
+
+/**
+ * Sectors sorted by name, items and detailed items sorted by name within them
+ */
+export function buildItemCatalogue(icnItems: ICNItem[]): CatalogueSector[] {
+  const sectors = new Map<string, Map<string, ICNItem[]>>();
+
+  icnItems.forEach(item => {
+    const sectorName = getSectorName(item);
+    const items = sectors.get(sectorName) || new Map<string, ICNItem[]>();
+    const itemKey = item['Item ID'] || getItemName(item);
+    items.set(itemKey, [...(items.get(itemKey) || []), item]);
+    sectors.set(sectorName, items);
+  });
+
+  return Array.from(sectors.entries())
+    .map(([sectorName, items]) => {
+      const catalogueItems = Array.from(items.entries())
+        .map(([itemId, detailedItems]) => ({
+          itemId,
+          itemName: getItemName(detailedItems[0]),
+          detailedItems: [...detailedItems].sort((a, b) => getDetailedItemName(a).localeCompare(getDetailedItemName(b))),
+          organisationCount: countOrganisations(detailedItems),
+        }))
+        .sort((a, b) => a.itemName.localeCompare(b.itemName));
+
+      const allDetailedItems = catalogueItems.flatMap(item => item.detailedItems);
+      return {
+        sectorName,
+        items: catalogueItems,
+        detailedItemCount: allDetailedItems.length,
+        organisationCount: countOrganisations(allDetailedItems),
+      };
+    })
+    .sort((a, b) => a.sectorName.localeCompare(b.sectorName));
+}
+
+let cachedSource: ICNItem[] | null = null;
+let cachedCatalogue: CatalogueSector[] = [];
+
+/**
+ * buildItemCatalogue, cached until the item list changes (e.g. after a data refresh)
+ */
+export function getItemCatalogue(icnItems: ICNItem[]): CatalogueSector[] {
+  if (cachedSource !== icnItems) {
+    cachedCatalogue = buildItemCatalogue(icnItems);
+    cachedSource = icnItems;
+  }
+  return cachedCatalogue;
+}
@@ -0,0 +1,244 @@
+// utils/pdfDocument.ts - Minimal on-device PDF writer for text documents such as capability statements
+
+export type PdfBlock =
+  | { type: 'title'; text: string }
+  | { type: 'subtitle'; text: string }
+  | { type: 'heading'; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'field'; label: string; value: string }
+  | { type: 'bullet'; text: string }
+  | { type: 'rule' };
+
+export interface PdfOptions {
+  title?: string; // Document title shown by PDF viewers
+  footer?: string; // Printed on every page next to the page number
+}
+
+type RGB = [number, number, number];
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FIELD_LABEL_WIDTH = 150;
+
+const NAVY: RGB = [0, 0.2, 0.4];
+const ORANGE: RGB = [0.976, 0.624, 0.11];
+const TEXT: RGB = [0.13, 0.13, 0.13];
+const GREY: RGB = [0.45, 0.45, 0.45];
+
+// Average Helvetica glyph widths as a share of the font size; close enough for wrapping
+const REGULAR_CHAR_WIDTH = 0.5;
+const BOLD_CHAR_WIDTH = 0.56;
+
+// Characters outside Latin-1 that WinAnsiEncoding still covers
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '…': 0x85, '€': 0x80,
+};
+
+/**
+ * Escape text for a PDF string literal. Everything is written as ASCII (non-ASCII as octal
+ * escapes) so string length equals byte length when computing the cross-reference offsets.
+ */
+function encodeText(text: string): string {
+  let encoded = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (char === '(' || char === ')' || char === '\\') {
+      encoded += `\\${char}`;
+    } else if (code >= 32 && code < 127) {
+      encoded += char;
+    } else if (code >= 160 && code <= 255) {
+      encoded += `\\${code.toString(8)}`;
+    } else if (WIN_ANSI_EXTRAS[char]) {
+      encoded += `\\${WIN_ANSI_EXTRAS[char].toString(8)}`;
+    } else if (char === '\t' || char === '\n' || char === '\r') {
+      encoded += ' ';
+    } else {
+      encoded += '?';
+    }
+  }
+  return encoded;
+}
+
+function textWidth(text: string, fontSize: number, bold: boolean): number {
+  return text.length * fontSize * (bold ? BOLD_CHAR_WIDTH : REGULAR_CHAR_WIDTH);
+}
+
+/**
+ * Greedy word wrap; words longer than a line are broken mid-word
+ */
+export function wrapText(text: string, maxWidth: number, fontSize: number, bold = false): string[] {
+  const maxChars = Math.max(1, Math.floor(maxWidth / (fontSize * (bold ? BOLD_CHAR_WIDTH : REGULAR_CHAR_WIDTH))));
+  const lines: string[] = [];
+
+  text.split(/\r?\n/).forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      while (word.length > maxChars) {
+        if (line) {
+          lines.push(line);
+          line = '';
+        }
+        lines.push(word.slice(0, maxChars));
+        word = word.slice(maxChars);
+      }
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, fontSize, bold) > maxWidth && line) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line);
+  });
+
+  return lines;
+}
+
+class PageLayout {
+  pages: string[][] = [[]];
+  private y = PAGE_HEIGHT - MARGIN;
+
+  private get ops() {
+    return this.pages[this.pages.length - 1];
+  }
+
+  ensureSpace(height: number) {
+    if (this.y - height < MARGIN + 20) {
+      this.pages.push([]);
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+  }
+
+  gap(height: number) {
+    this.y -= height;
+  }
+
+  text(text: string, x: number, fontSize: number, bold: boolean, color: RGB) {
+    this.ops.push(
+      `BT /${bold ? 'F2' : 'F1'} ${fontSize} Tf ${color.join(' ')} rg ${x} ${this.y.toFixed(2)} Td (${encodeText(text)}) Tj ET`
+    );
+  }
+
+  lines(lines: string[], x: number, fontSize: number, bold: boolean, color: RGB) {
+    const lineHeight = fontSize * 1.35;
+    lines.forEach(line => {
+      this.ensureSpace(lineHeight);
+      this.y -= lineHeight;
+      this.text(line, x, fontSize, bold, color);
+    });
+  }
+
+  rule(color: RGB, width: number) {
+    this.ensureSpace(width + 4);
+    this.y -= 4;
+    this.ops.push(`${color.join(' ')} RG ${width} w ${MARGIN} ${this.y.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${this.y.toFixed(2)} l S`);
+  }
+
+  // Label and value side by side; the pair moves to the next page together
+  field(label: string, value: string) {
+    const fontSize = 10;
+    const lineHeight = fontSize * 1.35;
+    const valueLines = wrapText(value, CONTENT_WIDTH - FIELD_LABEL_WIDTH, fontSize);
+    const labelLines = wrapText(label, FIELD_LABEL_WIDTH - 10, fontSize, true);
+    const rows = Math.max(valueLines.length, labelLines.length);
+
+    this.ensureSpace(Math.min(rows, 3) * lineHeight);
+    for (let i = 0; i < rows; i++) {
+      this.ensureSpace(lineHeight);
+      this.y -= lineHeight;
+      if (labelLines[i]) this.text(labelLines[i], MARGIN, fontSize, true, GREY);
+      if (valueLines[i]) this.text(valueLines[i], MARGIN + FIELD_LABEL_WIDTH, fontSize, false, TEXT);
+    }
+    this.y -= 3;
+  }
+}
+
+/**
+ * Lay out the blocks on A4 pages and serialise them as a PDF 1.4 document.
+ * Only the standard Helvetica fonts are used, so nothing needs embedding.
+ */
+export function buildPdf(blocks: PdfBlock[], options: PdfOptions = {}): string {
+  const layout = new PageLayout();
+
+  blocks.forEach(block => {
+    switch (block.type) {
+      case 'title':
+        layout.lines(wrapText(block.text, CONTENT_WIDTH, 20, true), MARGIN, 20, true, NAVY);
+        break;
+      case 'subtitle':
+        layout.lines(wrapText(block.text, CONTENT_WIDTH, 11), MARGIN, 11, false, GREY);
+        break;
+      case 'heading':
+        layout.ensureSpace(50); // Keep a heading with at least a couple of lines of its section
+        layout.gap(12);
+        layout.lines(wrapText(block.text, CONTENT_WIDTH, 13, true), MARGIN, 13, true, NAVY);
+        layout.rule(ORANGE, 1);
+        layout.gap(2);
+        break;
+      case 'paragraph':
+        layout.lines(wrapText(block.text, CONTENT_WIDTH, 10), MARGIN, 10, false, TEXT);
+        layout.gap(4);
+        break;
+      case 'field':
+        layout.field(block.label, block.value);
+        break;
+      case 'bullet': {
+        const [first, ...rest] = wrapText(block.text, CONTENT_WIDTH - 14, 10);
+        layout.lines([`•  ${first}`], MARGIN, 10, false, TEXT);
+        layout.lines(rest, MARGIN + 14, 10, false, TEXT);
+        break;
+      }
+      case 'rule':
+        layout.gap(6);
+        layout.rule(ORANGE, 2);
+        layout.gap(6);
+        break;
+    }
+  });
+
+  const pageCount = layout.pages.length;
+  const contents = layout.pages.map((ops, index) => {
+    const footer = `${options.footer ? `${options.footer}  |  ` : ''}Page ${index + 1} of ${pageCount}`;
+    return [
+      ...ops,
+      `BT /F1 8 Tf ${GREY.join(' ')} rg ${MARGIN} ${MARGIN - 20} Td (${encodeText(footer)}) Tj ET`,
+    ].join('\n');
+  });
+
+  // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content stream per page
+  const pageObjectNumber = (index: number) => 6 + index * 2;
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${layout.pages.map((_, i) => `${pageObjectNumber(i)} 0 R`).join(' ')}] /Count ${pageCount} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Producer (ICN Navigator)${options.title ? ` /Title (${encodeText(options.title)})` : ''} >>`,
+  ];
+  contents.forEach((content, index) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageObjectNumber(index) + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  offsets.forEach(offset => {
+    pdf += `${String(offset).padStart(10, '0')} 00000 n \n`;
+  });
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return pdf;
+}
@@ -0,0 +1,288 @@
+// utils/searchQuery.ts - Structured search syntax (field:value, quoted phrases, -negation)
+//
+//   sector:"Critical Minerals" state:VIC type:manufacturer -"Service Provider" verified:yes
+//
+// Parses into SearchFilters and formats a CompanyQuery back into the same text for sharing.
+import { CapabilityType, SearchFilters } from '../types';
+import { CompanyQuery, CompanySizeBucket } from '../services/companyQueryEngine';
+import {
+  CAPABILITY_TYPES,
+  CAPABILITY_TYPE_GROUPS,
+  STANDARD_STATES_TERRITORIES,
+  UNKNOWN_REGION,
+} from '../services/icnDataService';
+
+export interface QueryParseError {
+  message: string;
+  start: number; // Offset of the offending token in the query text
+  end: number;
+}
+
+export interface ParsedSearchQuery {
+  filters: Partial<SearchFilters>;
+  errors: QueryParseError[];
+}
+
+type CompanyTypeKeyword = SearchFilters['companyTypes'][number];
+type SortKeyword = NonNullable<SearchFilters['sortBy']>;
+
+interface QueryToken {
+  field?: string;
+  value: string;
+  negated: boolean;
+  start: number;
+  end: number;
+}
+
+// Canonical field names, with the aliases accepted when parsing
+const FIELD_ALIASES: Record<string, string> = {
+  sector: 'sector',
+  sectors: 'sector',
+  capability: 'capability',
+  item: 'capability',
+  state: 'state',
+  type: 'type',
+  captype: 'captype',
+  verified: 'verified',
+  postcode: 'postcode',
+  suburb: 'suburb',
+  city: 'suburb',
+  size: 'size',
+  cert: 'cert',
+  certification: 'cert',
+  sort: 'sort',
+};
+
+const COMPANY_TYPE_KEYWORDS: CompanyTypeKeyword[] = [
+  'supplier', 'manufacturer', 'service', 'consultant', 'retail', 'both',
+];
+
+const SIZE_KEYWORDS: CompanySizeBucket[] = ['SME', 'Medium', 'Large', 'Enterprise'];
+
+const SORT_KEYWORDS: SortKeyword[] = ['relevance', 'distance', 'name', 'rating', 'verified'];
+
+const VERIFIED_VALUES: Record<string, SearchFilters['verificationStatus']> = {
+  yes: 'verified',
+  true: 'verified',
+  no: 'unverified',
+  false: 'unverified',
+  all: 'all',
+  any: 'all',
+};
+
+const ALL_CAPABILITY_TYPES = Object.values(CAPABILITY_TYPES) as CapabilityType[];
+
+// state: also selects companies whose state could not be resolved
+const STATE_VALUES = [...STANDARD_STATES_TERRITORIES, UNKNOWN_REGION];
+
+/**
+ * Split the query into tokens. A token is an optional '-', an optional `field:`
+ * and either a bare word or a double-quoted phrase.
+ */
+function tokenizeQuery(text: string, errors: QueryParseError[]): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  const readValue = (): string => {
+    if (text[i] === '"') {
+      const open = i;
+      const close = text.indexOf('"', i + 1);
+      if (close === -1) {
+        errors.push({ message: 'Missing closing quote', start: open, end: text.length });
+        i = text.length;
+        return text.slice(open + 1);
+      }
+      i = close + 1;
+      return text.slice(open + 1, close);
+    }
+    const begin = i;
+    while (i < text.length && !/\s/.test(text[i])) i++;
+    return text.slice(begin, i);
+  };
+
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = text[i] === '-' && i + 1 < text.length && !/\s/.test(text[i + 1]);
+    if (negated) i++;
+
+    const fieldMatch = text.slice(i).match(/^([a-zA-Z]+):/);
+    let field: string | undefined;
+    if (fieldMatch) {
+      field = fieldMatch[1].toLowerCase();
+      i += fieldMatch[0].length;
+    }
+
+    const value = readValue();
+    tokens.push({ field, value, negated, start, end: i });
+  }
+
+  return tokens;
+}
+
+function findIgnoreCase<T extends string>(options: readonly T[], value: string): T | undefined {
+  const lower = value.toLowerCase();
+  return options.find(option => option.toLowerCase() === lower);
+}
+
+function addUnique<T>(list: T[] | undefined, value: T): T[] {
+  const next = list || [];
+  return next.includes(value) ? next : [...next, value];
+}
+
+/**
+ * Parse structured search text into filters. Unknown fields and invalid values are
+ * reported as errors with their position and otherwise ignored, so the rest of the
+ * query still applies.
+ */
+export function parseSearchQuery(text: string): ParsedSearchQuery {
+  const errors: QueryParseError[] = [];
+  const filters: Partial<SearchFilters> = { searchText: '' };
+  const freeText: string[] = [];
+
+  tokenizeQuery(text, errors).forEach(token => {
+    const { value, start, end } = token;
+    const fail = (message: string) => errors.push({ message, start, end });
+
+    if (!token.field) {
+      if (!value) return;
+      if (token.negated) {
+        filters.excludeTerms = addUnique(filters.excludeTerms, value);
+      } else {
+        freeText.push(value);
+      }
+      return;
+    }
+
+    const field = FIELD_ALIASES[token.field];
+    if (!field) {
+      fail(`Unknown field "${token.field}"`);
+      return;
+    }
+    if (token.negated) {
+      fail(`"${token.field}" cannot be negated - use -"term" to exclude text`);
+      return;
+    }
+    if (!value) {
+      fail(`Missing value for "${token.field}"`);
+      return;
+    }
+
+    switch (field) {
+      case 'sector':
+        filters.sectors = addUnique(filters.sectors, value);
+        break;
+      case 'capability':
+        filters.capabilities = addUnique(filters.capabilities, value);
+        break;
+      case 'state': {
+        const state = findIgnoreCase(STATE_VALUES, value);
+        if (state) filters.state = state;
+        else fail(`Unknown state "${value}"`);
+        break;
+      }
+      case 'type': {
+        const type = findIgnoreCase(COMPANY_TYPE_KEYWORDS, value);
+        if (type) filters.companyTypes = addUnique(filters.companyTypes, type);
+        else fail(`Unknown type "${value}" - use ${COMPANY_TYPE_KEYWORDS.join(', ')}`);
+        break;
+      }
+      case 'captype': {
+        const capabilityType = findIgnoreCase(ALL_CAPABILITY_TYPES, value);
+        if (capabilityType) filters.capabilityTypes = addUnique(filters.capabilityTypes, capabilityType);
+        else fail(`Unknown capability type "${value}"`);
+        break;
+      }
+      case 'verified': {
+        const status = VERIFIED_VALUES[value.toLowerCase()];
+        if (status) filters.verificationStatus = status;
+        else fail(`verified must be yes, no or all`);
+        break;
+      }
+      case 'postcode':
+        if (/^\d{4}$/.test(value)) filters.postcode = value;
+        else fail(`Postcode must be 4 digits`);
+        break;
+      case 'suburb':
+        filters.suburb = value;
+        break;
+      case 'size': {
+        const size = findIgnoreCase(SIZE_KEYWORDS, value);
+        if (size) filters.companySize = addUnique(filters.companySize, size);
+        else fail(`Unknown size "${value}" - use ${SIZE_KEYWORDS.join(', ')}`);
+        break;
+      }
+      case 'cert':
+        filters.certifications = addUnique(filters.certifications, value);
+        break;
+      case 'sort': {
+        const sortBy = findIgnoreCase(SORT_KEYWORDS, value);
+        if (sortBy) filters.sortBy = sortBy;
+        else fail(`Unknown sort "${value}" - use ${SORT_KEYWORDS.join(', ')}`);
+        break;
+      }
+    }
+  });
+
+  filters.searchText = freeText.join(' ');
+  return { filters, errors: errors.sort((a, b) => a.start - b.start) };
+}
+
+/**
+ * Quote a value when it would not survive tokenising as a bare word
+ */
+function quoteValue(value: string): string {
+  return /[\s"]/.test(value) || value.startsWith('-') || value.includes(':')
+    ? `"${value.replace(/"/g, '')}"`
+    : value;
+}
+
+/**
+ * Collapse capability types back to type: keywords where a whole group is selected
+ */
+function formatCapabilityTypes(capabilityTypes: string[]): string[] {
+  const remaining = new Set(capabilityTypes);
+  const parts: string[] = [];
+
+  if (remaining.delete('Both')) {
+    parts.push('type:both');
+  }
+  Object.entries(CAPABILITY_TYPE_GROUPS).forEach(([group, types]) => {
+    if (types.every(type => remaining.has(type))) {
+      types.forEach(type => remaining.delete(type));
+      parts.push(`type:${group}`);
+    }
+  });
+  remaining.forEach(type => parts.push(`captype:${quoteValue(type)}`));
+
+  return parts;
+}
+
+/**
+ * Format a query as search syntax. Clauses the syntax cannot express
+ * (distance, revenue and diversity filters) are left out.
+ */
+export function formatSearchQuery(query: CompanyQuery): string {
+  const parts: string[] = [];
+
+  if (query.searchText.trim()) parts.push(query.searchText.trim());
+  query.sectors.forEach(sector => parts.push(`sector:${quoteValue(sector)}`));
+  query.capabilities.forEach(capability => parts.push(`capability:${quoteValue(capability)}`));
+  if (query.state) parts.push(`state:${quoteValue(query.state)}`);
+  if (query.suburb) parts.push(`suburb:${quoteValue(query.suburb)}`);
+  if (query.postcode) parts.push(`postcode:${query.postcode}`);
+  parts.push(...formatCapabilityTypes(query.capabilityTypes));
+  if (query.verificationStatus !== 'all') {
+    parts.push(`verified:${query.verificationStatus === 'verified' ? 'yes' : 'no'}`);
+  }
+  query.companySizes.forEach(size => parts.push(`size:${size}`));
+  query.certifications.forEach(cert => parts.push(`cert:${quoteValue(cert)}`));
+  query.excludeTerms.forEach(term => parts.push(`-${quoteValue(term)}`));
+  if (query.sortBy !== 'relevance' && query.sortBy !== 'recent') parts.push(`sort:${query.sortBy}`);
+
+  return parts.join(' ');
+}
@@ -0,0 +1,19 @@
+// utils/shareFile.ts - Offers a saved file through the OS share sheet
+import * as Sharing from 'expo-sharing';
+
+export interface ShareFileOptions {
+  mimeType: string;
+  uti?: string; // iOS Uniform Type Identifier, e.g. 'com.adobe.pdf'
+  dialogTitle: string;
+}
+
+/**
+ * Share a file through expo-sharing on both platforms. The share sheet does not report
+ * whether the user went on to share, so an export counts once the sheet has opened.
+ */
+export async function shareFile(fileUri: string, options: ShareFileOptions): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(fileUri, { mimeType: options.mimeType, dialogTitle: options.dialogTitle, UTI: options.uti });
+}
@@ -0,0 +1,133 @@
+// utils/similarCompanies.ts - Ranks alternative suppliers by shared capabilities and proximity
+import { Company, isApproximateLocation } from '../types';
+import { getCompanyDistanceKm, hasCoordinates } from '../services/companyQueryEngine';
+
+export interface SimilarCompany {
+  company: Company;
+  score: number; // 0-1
+  capabilityScore: number; // Weighted Jaccard over item IDs, 0-1
+  sharedItemCount: number;
+  distanceKm?: number;
+}
+
+export interface SimilarCompanyOptions {
+  limit?: number;
+  proximityWeight?: number; // Share of the score given to distance; the rest is capabilities and sectors
+}
+
+const DEFAULT_LIMIT = 5;
+const DEFAULT_PROXIMITY_WEIGHT = 0.2;
+const SECTOR_WEIGHT = 0.1;
+const PROXIMITY_HALF_DISTANCE_KM = 100; // A supplier this far away keeps half the proximity score
+
+const itemIds = (company: Company) => new Set(company.icnCapabilities?.map(cap => cap.itemId) || []);
+
+// Approximate pins (postcode, suburb or state fallback) are shared by many companies, so
+// distances between them say nothing about proximity
+const hasKnownSite = (company: Company) =>
+  hasCoordinates(company) && !isApproximateLocation(company.geocodePrecision);
+
+let cachedSource: Company[] | null = null;
+let cachedItemWeights = new Map<string, number>();
+
+/**
+ * Inverse document frequency of every item: an item few companies offer says more about
+ * similarity than one almost everyone lists. Cached until the company list changes.
+ */
+function getItemWeights(companies: Company[]): Map<string, number> {
+  if (cachedSource === companies) return cachedItemWeights;
+
+  const documentFrequency = new Map<string, number>();
+  companies.forEach(company => {
+    itemIds(company).forEach(id => documentFrequency.set(id, (documentFrequency.get(id) || 0) + 1));
+  });
+
+  cachedItemWeights = new Map();
+  documentFrequency.forEach((count, id) => {
+    cachedItemWeights.set(id, Math.log(1 + companies.length / count));
+  });
+  cachedSource = companies;
+  return cachedItemWeights;
+}
+
+function weightedJaccard(a: Set<string>, b: Set<string>, weights: Map<string, number>): { score: number; shared: number } {
+  let intersection = 0;
+  let union = 0;
+  let shared = 0;
+
+  a.forEach(id => {
+    const weight = weights.get(id) || 0;
+    union += weight;
+    if (b.has(id)) {
+      intersection += weight;
+      shared++;
+    }
+  });
+  b.forEach(id => {
+    if (!a.has(id)) union += weights.get(id) || 0;
+  });
+
+  return { score: union > 0 ? intersection / union : 0, shared };
+}
+
+function setJaccard(a: string[], b: string[]): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  const intersection = Array.from(setA).filter(value => setB.has(value)).length;
+  const union = new Set([...setA, ...setB]).size;
+  return union > 0 ? intersection / union : 0;
+}
+
+/**
+ * Companies most similar to `target`. Only companies sharing at least one ICN item are
+ * considered; proximity then breaks ties between equally capable suppliers. Companies
+ * without coordinates or with only an approximate location get no proximity score rather
+ * than being excluded.
+ */
+export function findSimilarCompanies(
+  target: Company,
+  companies: Company[],
+  options: SimilarCompanyOptions = {}
+): SimilarCompany[] {
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const proximityWeight = options.proximityWeight ?? DEFAULT_PROXIMITY_WEIGHT;
+  const capabilityWeight = 1 - proximityWeight - SECTOR_WEIGHT;
+
+  const weights = getItemWeights(companies);
+  const targetItems = itemIds(target);
+  if (targetItems.size === 0) return [];
+
+  const origin = hasKnownSite(target)
+    ? { latitude: Number(target.latitude), longitude: Number(target.longitude) }
+    : undefined;
+
+  const results: SimilarCompany[] = [];
+  companies.forEach(company => {
+    if (company.id === target.id) return;
+
+    const { score: capabilityScore, shared } = weightedJaccard(targetItems, itemIds(company), weights);
+    if (shared === 0) return;
+
+    const distanceKm = getCompanyDistanceKm(company, origin);
+    const proximityScore = distanceKm !== undefined && hasKnownSite(company)
+      ? PROXIMITY_HALF_DISTANCE_KM / (PROXIMITY_HALF_DISTANCE_KM + distanceKm)
+      : 0;
+
+    results.push({
+      company,
+      score: capabilityWeight * capabilityScore +
+        SECTOR_WEIGHT * setJaccard(target.keySectors, company.keySectors) +
+        proximityWeight * proximityScore,
+      capabilityScore,
+      sharedItemCount: shared,
+      distanceKm,
+    });
+  });
+
+  return results
+    .sort((a, b) =>
+      b.score - a.score ||
+      (a.company.verificationStatus === b.company.verificationStatus ? 0 : a.company.verificationStatus === 'verified' ? -1 : 1)
+    )
+    .slice(0, limit);
+}